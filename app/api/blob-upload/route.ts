@@ -38,6 +38,25 @@ export async function POST(request: Request) {
           allowedContentTypes: [
             "application/pdf",
             "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+            "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+            "application/epub+zip",
+            "text/markdown",
+            "text/x-markdown",
+            "text/html",
+            "application/xhtml+xml",
+            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+            "application/vnd.ms-excel",
+            "application/vnd.oasis.opendocument.spreadsheet",
+            "text/csv",
+            "text/tab-separated-values",
+            "application/x-ipynb+json",
+            "application/json",
+            "text/plain",
+            "image/png",
+            "image/jpeg",
+            "image/webp",
+            "image/gif",
+            "image/bmp",
             "video/mp4",
             "video/webm",
             "video/quicktime",
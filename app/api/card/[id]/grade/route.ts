@@ -0,0 +1,93 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { readSourceSpan, sourceSpanLabel } from "@/lib/generation/provenance";
+import { quizAnswer, quizPrompt } from "@/lib/quiz/distractors";
+import { diffAnswer, gradeTypedAnswer, ratingForGrade } from "@/lib/quiz/typedAnswer";
+import { createReasoningEngine } from "@/lib/reasoningEngine/engine";
+import { persistReasoningResponseRun } from "@/lib/reasoningEngine/persistence";
+import { classifyMisconceptionSignalsFromVerification, updateStudentStateFromVerification } from "@/lib/reasoningEngine/studentState";
+
+const reasoningEngine = createReasoningEngine({
+  beamWidth: Number(process.env.REASONING_ENGINE_BEAM_WIDTH || 3),
+  maxAttempts: Number(process.env.REASONING_ENGINE_MAX_ATTEMPTS || 3),
+});
+
+const MAX_TYPED_ANSWER_CHARS = 2000;
+
+// Grades a typed recall attempt against the card. The grade only suggests a rating: the
+// client still posts the (possibly overridden) rating to /api/review, so this route never
+// touches scheduling. The verification does feed the student's misconception tracking.
+export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  const body = (await req.json().catch(() => null)) as { answer?: string } | null;
+  const typed = typeof body?.answer === "string" ? body.answer.trim().slice(0, MAX_TYPED_ANSWER_CHARS) : "";
+  if (!typed) return NextResponse.json({ error: "Type an answer first" }, { status: 400 });
+
+  const card = await prisma.card.findFirst({
+    where: { id, deck: { user: { clerkUserId: userId } } },
+    select: { id: true, question: true, answer: true, kind: true, clozeIndex: true, sourceSpan: true, deck: { select: { userId: true } } },
+  });
+  if (!card) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const prompt = quizPrompt(card);
+  const expectedAnswer = quizAnswer(card);
+  if (!expectedAnswer) return NextResponse.json({ error: "This card has no answer to grade against" }, { status: 422 });
+
+  const sourceSpan = readSourceSpan(card.sourceSpan);
+
+  try {
+    const verification = await reasoningEngine.verify({
+      prompt,
+      answer: typed,
+      expectedAnswer,
+      sourcePassage: sourceSpan?.excerpt,
+    });
+    const grade = gradeTypedAnswer(verification.confidence, typed, expectedAnswer);
+    const verificationInput = {
+      userId: card.deck.userId,
+      mode: "verify_answer" as const,
+      prompt,
+      response: verification,
+      answer: typed,
+      expectedAnswer,
+    };
+    const misconceptionSignals = classifyMisconceptionSignalsFromVerification(verificationInput);
+
+    try {
+      await persistReasoningResponseRun({
+        userId: card.deck.userId,
+        mode: "verify_answer",
+        origin: "typed_answer",
+        title: "Typed recall check",
+        prompt,
+        response: verification,
+        verificationApplied: true,
+        metadata: { cardId: card.id, grade, misconceptionSignals },
+      });
+      await updateStudentStateFromVerification(verificationInput);
+    } catch {
+      // student-state tracking is additive and should not block grading
+    }
+
+    return NextResponse.json({
+      ok: true,
+      cardId: card.id,
+      grade,
+      confidence: verification.confidence,
+      suggestedRating: ratingForGrade(grade),
+      expectedAnswer,
+      diff: diffAnswer(typed, expectedAnswer),
+      misconceptionSignals,
+      source: sourceSpan ? { label: sourceSpanLabel(sourceSpan), excerpt: sourceSpan.excerpt } : null,
+    });
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { ok: false, error: error instanceof Error && error.message ? error.message : "Failed to grade this answer." },
+      { status: 500 }
+    );
+  }
+}
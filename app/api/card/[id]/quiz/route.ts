@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { callLLMResult } from "@/lib/aiClient";
+import { prisma } from "@/lib/db";
+import {
+  mergeDistractors,
+  QUIZ_DISTRACTOR_COUNT,
+  quizAnswer,
+  quizPrompt,
+  rankDeckDistractors,
+  shuffleChoices,
+} from "@/lib/quiz/distractors";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// Deck answers below this plausibility score are only used when nothing better is available.
+const MIN_DECK_SCORE = 0.35;
+const MAX_POOL_CARDS = 400;
+
+const QUIZ_CARD_SELECT = { id: true, question: true, answer: true, kind: true, clozeIndex: true } as const;
+
+function buildDistractorPrompt(prompt: string, answer: string, count: number) {
+  return `Write ${count} wrong but plausible answer options for this multiple-choice flashcard.
+Each option must match the correct answer's length, style and level of detail, must be clearly incorrect to someone who knows the material, and must not be a paraphrase of the correct answer.
+Return ONLY JSON like {"distractors":["...","..."]}
+
+Question: ${prompt}
+Correct answer: ${answer}`;
+}
+
+function strip(s: string) {
+  return s.replace(/^```json\s*/i, "").replace(/^```\s*/i, "").replace(/\s*```$/i, "").trim();
+}
+
+function parseDistractors(content: string): string[] {
+  let parsed: unknown = null;
+  try { parsed = JSON.parse(strip(content)); } catch { return []; }
+  const items = Array.isArray(parsed) ? parsed : (parsed as { distractors?: unknown })?.distractors;
+  if (!Array.isArray(items)) return [];
+  return items.filter((item): item is string => typeof item === "string").map((item) => item.trim().slice(0, 500)).filter(Boolean);
+}
+
+// Multiple-choice view of one card. Distractors are cached on the card the first time it is
+// quizzed (deck answers first, topped up by the LLM), so the same card always offers the same
+// options; editing the card clears the cache. Choices are shuffled on every request.
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+
+  try {
+    const card = await prisma.card.findFirst({
+      where: { id, deck: { user: { clerkUserId: userId } } },
+      select: { ...QUIZ_CARD_SELECT, deckId: true, distractors: true },
+    });
+    if (!card) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const answer = quizAnswer(card);
+    const prompt = quizPrompt(card);
+    if (!answer) return NextResponse.json({ error: "This card has no answer to quiz on" }, { status: 422 });
+
+    let distractors = mergeDistractors(answer, [card.distractors]);
+    let source: "cache" | "deck" | "llm" = "cache";
+
+    if (distractors.length < QUIZ_DISTRACTOR_COUNT) {
+      const pool = await prisma.card.findMany({
+        where: { deckId: card.deckId, id: { not: card.id } },
+        orderBy: { createdAt: "asc" },
+        take: MAX_POOL_CARDS,
+        select: QUIZ_CARD_SELECT,
+      });
+      const ranked = rankDeckDistractors(card, pool);
+      const plausible = ranked.filter((candidate) => candidate.score >= MIN_DECK_SCORE).map((candidate) => candidate.text);
+
+      let generated: string[] = [];
+      if (mergeDistractors(answer, [plausible]).length < QUIZ_DISTRACTOR_COUNT && process.env.RUNPOD_API_KEY) {
+        const llm = await callLLMResult(
+          [
+            { role: "system", content: "You write distractors for multiple-choice study questions. Return valid JSON only." },
+            { role: "user", content: buildDistractorPrompt(prompt, answer, QUIZ_DISTRACTOR_COUNT + 1) },
+          ],
+          500,
+          0.4
+        ).catch(() => null);
+        generated = llm?.ok ? parseDistractors(llm.content) : [];
+      }
+
+      distractors = mergeDistractors(answer, [plausible, generated, ranked.map((candidate) => candidate.text)]);
+      source = generated.some((text) => distractors.includes(text)) ? "llm" : "deck";
+      if (distractors.length) {
+        await prisma.card.update({ where: { id: card.id }, data: { distractors, distractorsAt: new Date() } });
+      }
+    }
+
+    if (!distractors.length) {
+      return NextResponse.json({ error: "Add a few more cards to this deck before quizzing on it" }, { status: 422 });
+    }
+
+    return NextResponse.json({ ok: true, cardId: card.id, prompt, choices: shuffleChoices(answer, distractors), source });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "";
+    const missingColumn = /distractors|does not exist/i.test(message);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: missingColumn
+          ? "Quiz mode is not available yet. Apply the latest Prisma migration before using this endpoint."
+          : "Failed to prepare this quiz question.",
+      },
+      { status: missingColumn ? 503 : 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { callLLMResult } from "@/lib/aiClient";
+import { cardFaces } from "@/lib/cards/cloze";
+import { prisma } from "@/lib/db";
+import { readSourceSpan } from "@/lib/generation/provenance";
+import { createReasoningEngine, type Flashcard } from "@/lib/reasoningEngine/engine";
+import { persistFlashcardReasoningRun } from "@/lib/reasoningEngine/persistence";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+const PROPOSAL_COUNT = 3;
+
+const reasoningEngine = createReasoningEngine({
+  beamWidth: Number(process.env.REASONING_ENGINE_BEAM_WIDTH || 3),
+  maxAttempts: Number(process.env.REASONING_ENGINE_MAX_ATTEMPTS || 3),
+});
+
+function buildRewritePrompt(question: string, answer: string, lapses: number, count: number, passage: string | null) {
+  return `A student has forgotten this flashcard ${lapses} times. Rewrite it into ${count} alternative versions that are easier to remember.
+Each version should test ONE idea, use a more specific cue in the question, and keep the answer to one short sentence.${passage ? "\nStay faithful to the source passage the card was written from." : ""}
+Return ONLY JSON like {"cards":[{"q":"...","a":"..."}]}
+
+Question: ${question}
+Answer: ${answer}${passage ? `\nSource passage: ${passage}` : ""}`;
+}
+
+function strip(s: string) {
+  return s.replace(/^```json\s*/i, "").replace(/^```\s*/i, "").replace(/\s*```$/i, "").trim();
+}
+
+function parseCards(content: string): Flashcard[] {
+  let parsed: unknown = null;
+  try { parsed = JSON.parse(strip(content)); } catch { return []; }
+  const items = Array.isArray(parsed) ? parsed : (parsed as { cards?: unknown })?.cards;
+  if (!Array.isArray(items)) return [];
+  return items
+    .filter((c): c is { q: string; a: string } => !!c && typeof c.q === "string" && typeof c.a === "string")
+    .map((c) => ({ question: c.q.trim().slice(0, 500), answer: c.a.trim().slice(0, 2000) }))
+    .filter((c) => c.question && c.answer);
+}
+
+// Proposes rewrites of a problem card; nothing is saved to the card until the student picks one.
+export async function POST(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  const card = await prisma.card.findFirst({
+    where: { id, deck: { user: { clerkUserId: userId } } },
+    select: {
+      id: true,
+      deckId: true,
+      question: true,
+      answer: true,
+      kind: true,
+      clozeIndex: true,
+      srsLapses: true,
+      sourceSpan: true,
+      deck: { select: { userId: true, title: true } },
+    },
+  });
+  if (!card) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  if (!process.env.RUNPOD_API_KEY) {
+    return NextResponse.json({ error: "Card rewriting is not configured on this server." }, { status: 503 });
+  }
+
+  // Cloze cards are rewritten from what the student actually sees, not the raw {{c1::...}} markup.
+  const faces = cardFaces(card);
+  // With a cited passage, proposals are ranked against it rather than only the card itself.
+  const passage = readSourceSpan(card.sourceSpan)?.excerpt || null;
+  const source = `Question: ${faces.front}\nAnswer: ${faces.back}${passage ? `\nSource passage: ${passage}` : ""}`;
+  const result = await reasoningEngine.generateFlashcards(
+    { source, count: PROPOSAL_COUNT, title: card.deck.title },
+    async ({ attempt }) => {
+      const llm = await callLLMResult(
+        [
+          { role: "system", content: "You repair flashcards that students keep forgetting. Return valid JSON only." },
+          { role: "user", content: buildRewritePrompt(faces.front, faces.back, card.srsLapses, PROPOSAL_COUNT, passage) },
+        ],
+        900,
+        attempt > 1 ? 0.5 : 0.2
+      );
+      return llm.ok ? parseCards(llm.content) : null;
+    }
+  );
+  if (!result?.cards.length) return NextResponse.json({ error: "No rewrites produced" }, { status: 502 });
+
+  const run = await persistFlashcardReasoningRun({
+    userId: card.deck.userId,
+    deckId: card.deckId,
+    title: `Leech rewrite: ${faces.front.slice(0, 80)}`,
+    origin: "leech_rewrite",
+    source,
+    result,
+    metadata: { cardId: card.id, lapses: card.srsLapses },
+  }).catch(() => null);
+
+  return NextResponse.json({
+    ok: true,
+    runId: run?.id || null,
+    proposals: result.metadata.selectedCandidates.map((candidate) => ({
+      question: candidate.question,
+      answer: candidate.answer,
+      verificationConfidence: candidate.verificationConfidence,
+    })),
+  });
+}
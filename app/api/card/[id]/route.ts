@@ -1,27 +1,59 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { clozeIndexes, isClozeCard } from "@/lib/cards/cloze";
 
 export async function PATCH(req: Request, { params }: { params: { id: string } }) {
   const { userId } = await auth();
   if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
-  const { question, answer } = (await req.json().catch(() => ({}))) as { question?: string; answer?: string };
+  const { question, answer, kind, suspended, tags } = (await req.json().catch(() => ({}))) as {
+    question?: string;
+    answer?: string;
+    kind?: string;
+    suspended?: boolean;
+    tags?: string[];
+  };
   const q = (question ?? "").trim().slice(0, 500);
   const a = (answer ?? "").trim().slice(0, 2000);
+  if (suspended !== undefined && typeof suspended !== "boolean") {
+    return NextResponse.json({ error: "suspended must be a boolean" }, { status: 400 });
+  }
+  if (tags !== undefined && (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string"))) {
+    return NextResponse.json({ error: "tags must be a list of strings" }, { status: 400 });
+  }
 
   // ensure ownership via join
   const card = await prisma.card.findFirst({
     where: { id: params.id, deck: { user: { clerkUserId: userId } } },
-    select: { id: true },
+    select: { id: true, deckId: true, suspendedAt: true, kind: true, clozeIndex: true, noteId: true },
   });
   if (!card) return NextResponse.json({ error: "Not found" }, { status: 404 });
 
-  await prisma.card.update({
+  // kind "basic" turns a cloze card into a standalone Q/A card (used by leech rewrites);
+  // the rest of its note keeps studying as before.
+  const detach = kind === "basic" && isClozeCard(card);
+  if (detach && (!q || !a)) return NextResponse.json({ error: "Question and answer required" }, { status: 400 });
+  const clozeNote = isClozeCard(card) && !detach ? card.noteId : null;
+  if (clozeNote && (q || answer !== undefined)) {
+    const indexes = q ? clozeIndexes(q) : null;
+    if (indexes && !indexes.length) {
+      return NextResponse.json({ error: "Keep at least one {{c1::...}} deletion" }, { status: 400 });
+    }
+    await syncClozeNote(card.deckId, clozeNote, q || null, answer !== undefined ? a : null, indexes);
+  }
+
+  // updateMany: an edit that drops this card's deletion has already removed the card.
+  await prisma.card.updateMany({
     where: { id: params.id },
     data: {
-      ...(q ? { question: q } : {}),
-      ...(a ? { answer: a } : {}),
+      ...(detach ? { kind: "basic", clozeIndex: null, noteId: null } : {}),
+      ...(q && !clozeNote ? { question: q } : {}),
+      ...(a && !clozeNote ? { answer: a } : {}),
+      // Cached quiz distractors were written for the old wording.
+      ...((q || a) && !clozeNote ? { distractors: [], distractorsAt: null } : {}),
+      ...(suspended !== undefined ? { suspendedAt: suspended ? card.suspendedAt ?? new Date() : null } : {}),
+      ...(tags !== undefined ? { tags: normalizeTags(tags) } : {}),
     },
   });
   return NextResponse.json({ ok: true });
@@ -33,10 +65,51 @@ export async function DELETE(_req: Request, { params }: { params: { id: string }
 
   const card = await prisma.card.findFirst({
     where: { id: params.id, deck: { user: { clerkUserId: userId } } },
-    select: { id: true },
+    select: { id: true, deckId: true, noteId: true },
   });
   if (!card) return NextResponse.json({ error: "Not found" }, { status: 404 });
 
-  await prisma.card.delete({ where: { id: params.id } });
+  // A cloze card is one deletion of a note; removing it removes the whole note.
+  if (card.noteId) await prisma.card.deleteMany({ where: { deckId: card.deckId, noteId: card.noteId } });
+  else await prisma.card.delete({ where: { id: params.id } });
   return NextResponse.json({ ok: true });
 }
+
+// Every card of a cloze note shares its text, so an edit is applied to all siblings. Deletions
+// added by the edit get new cards; cards whose deletion was removed are dropped.
+async function syncClozeNote(deckId: string, noteId: string, text: string | null, extra: string | null, indexes: number[] | null) {
+  await prisma.$transaction(async (tx) => {
+    const siblings = await tx.card.findMany({ where: { deckId, noteId }, select: { id: true, clozeIndex: true, answer: true } });
+    await tx.card.updateMany({
+      where: { deckId, noteId },
+      data: {
+        ...(text ? { question: text } : {}),
+        ...(extra !== null ? { answer: extra } : {}),
+        ...(text ? { distractors: [], distractorsAt: null } : {}),
+      },
+    });
+    if (!text || !indexes) return;
+
+    const existing = new Set(siblings.map((sibling) => sibling.clozeIndex));
+    const removed = siblings.filter((sibling) => !indexes.includes(sibling.clozeIndex ?? -1)).map((sibling) => sibling.id);
+    if (removed.length) await tx.card.deleteMany({ where: { id: { in: removed } } });
+    const added = indexes.filter((index) => !existing.has(index));
+    if (added.length) {
+      await tx.card.createMany({
+        data: added.map((clozeIndex) => ({
+          deckId,
+          noteId,
+          kind: "cloze",
+          clozeIndex,
+          question: text,
+          answer: extra ?? siblings[0]?.answer ?? "",
+        })),
+      });
+    }
+  });
+}
+
+function normalizeTags(tags: string[]): string[] {
+  const cleaned = tags.map((tag) => tag.trim().toLowerCase().replace(/\s+/g, "-").slice(0, 40)).filter(Boolean);
+  return [...new Set(cleaned)].slice(0, 20);
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { courseView, COURSE_VIEW_SELECT } from "@/lib/generation/courses";
+import { cancelGenerationJob, TERMINAL_JOB_STATUSES } from "@/lib/generation/jobs";
+
+export const runtime = "nodejs";
+
+// Cancels every video that has not finished yet; decks already built stay in the course.
+export async function POST(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  const course = await prisma.course
+    .findFirst({
+      where: { id, user: { clerkUserId: userId } },
+      select: { id: true, generationJobs: { where: { status: { notIn: TERMINAL_JOB_STATUSES } }, select: { id: true } } },
+    })
+    .catch(() => null);
+  if (!course) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (!course.generationJobs.length) {
+    return NextResponse.json({ error: "Every video in this course has already finished" }, { status: 409 });
+  }
+
+  for (const job of course.generationJobs) await cancelGenerationJob(job.id);
+  const updated = await prisma.course.findUnique({ where: { id: course.id }, select: COURSE_VIEW_SELECT });
+  return NextResponse.json({ ok: true, course: updated ? courseView(updated) : null });
+}
@@ -0,0 +1,26 @@
+import { after, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { courseView, COURSE_VIEW_SELECT } from "@/lib/generation/courses";
+import { runGenerationWorker } from "@/lib/generation/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+// Per-video status for the course page, which polls this while videos are still pending.
+// Like the job event stream, checking in wakes the worker so an interrupted batch resumes.
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  const course = await prisma.course
+    .findFirst({ where: { id, user: { clerkUserId: userId } }, select: COURSE_VIEW_SELECT })
+    .catch(() => null);
+  if (!course) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const view = courseView(course);
+  if (view.counts.queued || view.counts.running) after(() => runGenerationWorker());
+  return NextResponse.json({ ok: true, course: view });
+}
@@ -0,0 +1,110 @@
+import { after, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { enqueueCourse, listCourseVideos } from "@/lib/generation/courses";
+import { runGenerationWorker } from "@/lib/generation/jobs";
+import { parseYouTubeCollection } from "@/lib/youtube";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+// Same as /api/generation-jobs: the worker started after the response keeps draining the queue.
+export const maxDuration = 300;
+
+const RECENT_COURSES = 20;
+
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const courses = await prisma.course.findMany({
+      where: { user: { clerkUserId: userId } },
+      orderBy: { createdAt: "desc" },
+      take: RECENT_COURSES,
+      select: {
+        id: true,
+        title: true,
+        sourceUrl: true,
+        sourceKind: true,
+        createdAt: true,
+        _count: { select: { decks: true, generationJobs: true } },
+      },
+    });
+    return NextResponse.json({
+      ok: true,
+      courses: courses.map((course) => ({
+        id: course.id,
+        title: course.title,
+        sourceUrl: course.sourceUrl,
+        sourceKind: course.sourceKind,
+        createdAt: course.createdAt.toISOString(),
+        deckCount: course._count.decks,
+        videoCount: course._count.generationJobs,
+      })),
+    });
+  } catch (error: unknown) {
+    return coursesUnavailable(error, "Failed to load courses.");
+  }
+}
+
+// Accepts the create form with a playlist or channel URL in `url`. Lists the videos, queues one
+// generation job per video and returns right away; each video's deck shows up as its job finishes.
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const form = await req.formData().catch(() => null);
+  if (!form) return NextResponse.json({ error: "Expected a form submission" }, { status: 400 });
+
+  const collection = parseYouTubeCollection(String(form.get("url") || ""));
+  if (!collection.ok) {
+    return NextResponse.json({ error: "Paste a YouTube playlist or channel URL.", code: "COURSE_URL_INVALID" }, { status: 400 });
+  }
+
+  const listed = await listCourseVideos(collection);
+  if (!listed.ok) {
+    return NextResponse.json(
+      { error: listed.code === "COURSE_EMPTY" ? listed.message : "We couldn't list the videos in that playlist or channel.", code: listed.code },
+      { status: listed.code === "COURSE_EMPTY" ? 422 : 502 }
+    );
+  }
+
+  try {
+    const user = await prisma.user.upsert({
+      where: { clerkUserId: userId },
+      update: {},
+      create: { clerkUserId: userId },
+      select: { id: true },
+    });
+    const course = await enqueueCourse({
+      userId: user.id,
+      title: String(form.get("title") || "").trim() || listed.title || "YouTube course",
+      collection,
+      videos: listed.videos,
+      form,
+      requestUrl: req.url,
+    });
+
+    after(() => runGenerationWorker());
+    return NextResponse.json(
+      { ok: true, courseId: course.id, jobIds: course.jobIds, videoCount: listed.videos.length },
+      { status: 202 }
+    );
+  } catch (error: unknown) {
+    return coursesUnavailable(error, "Failed to start building this course.");
+  }
+}
+
+function coursesUnavailable(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : "";
+  const missingTable = /Course|GenerationJob|does not exist/i.test(message);
+  return NextResponse.json(
+    {
+      ok: false,
+      error: missingTable
+        ? "Courses are not available yet. Apply the latest Prisma migration before using this endpoint."
+        : fallback,
+    },
+    { status: missingTable ? 503 : 500 }
+  );
+}
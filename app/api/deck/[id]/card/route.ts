@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { clozeNoteCards } from "@/lib/cards/cloze";
 
 export async function POST(req: Request, { params }: { params: { id: string } }) {
   const { userId } = await auth();
@@ -12,9 +13,18 @@ export async function POST(req: Request, { params }: { params: { id: string } })
   });
   if (!deck) return NextResponse.json({ error: "Not found" }, { status: 404 });
 
-  const { question, answer } = (await req.json().catch(() => ({}))) as { question?: string; answer?: string };
+  const { question, answer, kind } = (await req.json().catch(() => ({}))) as { question?: string; answer?: string; kind?: string };
   const q = (question || "").trim().slice(0, 500);
   const a = (answer || "").trim().slice(0, 2000);
+
+  // Cloze notes keep their text in `question`; the answer is optional extra context shown on the back.
+  if (kind === "cloze") {
+    const cards = clozeNoteCards(q, a);
+    if (!cards.length) return NextResponse.json({ error: "Add at least one {{c1::...}} deletion" }, { status: 400 });
+    await prisma.card.createMany({ data: cards.map((card) => ({ deckId: deck.id, ...card })) });
+    return NextResponse.json({ ok: true, noteId: cards[0].noteId, count: cards.length });
+  }
+
   if (!q || !a) return NextResponse.json({ error: "Question and answer required" }, { status: 400 });
 
   const created = await prisma.card.create({ data: { deckId: deck.id, question: q, answer: a } });
@@ -1,6 +1,22 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { buildApkg } from "@/lib/anki/apkg";
+import { isClozeCard } from "@/lib/cards/cloze";
+import { readStepsConfig } from "@/lib/srs/steps";
+
+export const runtime = "nodejs";
+
+const EXPORT_FORMATS = ["csv", "tsv", "anki-tsv", "apkg"] as const;
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = { csv: "csv", tsv: "tsv", "anki-tsv": "txt", apkg: "apkg" };
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  tsv: "text/tab-separated-values; charset=utf-8",
+  "anki-tsv": "text/plain; charset=utf-8",
+  apkg: "application/octet-stream",
+};
 
 function csvEscape(s: string) {
   const needs = s.includes('"') || s.includes(",") || s.includes("\n") || s.includes("\r");
@@ -8,38 +24,133 @@ function csvEscape(s: string) {
   return needs ? `"${out}"` : out;
 }
 
+// Tabs and newlines would split a TSV row, so flatten them inside a field.
+function tsvField(s: string) {
+  return s.replace(/\t/g, " ").replace(/\r?\n/g, " ");
+}
+
+function ankiTextField(s: string) {
+  return s.replace(/\t/g, " ").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/\r?\n/g, "<br>");
+}
+
+function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+// Text formats have one row per note: the cards of a cloze note share their text, and
+// importers recreate one card per {{cN::...}} deletion.
+function noteRows<T extends { kind: string; clozeIndex: number | null; noteId: string | null }>(cards: T[]): T[] {
+  const seen = new Set<string>();
+  return cards.filter((card) => {
+    if (!isClozeCard(card) || !card.noteId) return true;
+    if (seen.has(card.noteId)) return false;
+    seen.add(card.noteId);
+    return true;
+  });
+}
+
+// Header values must be Latin-1, so titles outside ASCII go in RFC 5987 filename*, with an ASCII
+// filename fallback for clients that do not read it.
+function contentDisposition(filename: string): string {
+  const ascii = filename.normalize("NFKD").replace(/[\u0300-\u036f]/g, "").replace(/[^\x20-\x7e]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encoded}`;
+}
+
 export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
   const { userId } = await auth();
   if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
   const { id } = await ctx.params;
 
+  const url = new URL(_req.url);
+  const fmt = (url.searchParams.get("fmt") || "csv").toLowerCase();
+  if (!isExportFormat(fmt)) return NextResponse.json({ error: "Unknown export format" }, { status: 400 });
+  const includeScheduling = url.searchParams.get("scheduling") !== "0";
+
   const deck = await prisma.deck.findFirst({
     where: { id, user: { clerkUserId: userId } },
-    include: { cards: { orderBy: { createdAt: "asc" }, select: { question: true, answer: true } } },
+    include: {
+      cards: {
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          question: true,
+          answer: true,
+          tags: true,
+          kind: true,
+          clozeIndex: true,
+          noteId: true,
+          srsState: true,
+          srsStep: true,
+          srsDueAt: true,
+          srsEase: true,
+          srsIntervalDays: true,
+          srsLapses: true,
+          srsReps: true,
+          suspendedAt: true,
+        },
+      },
+    },
   });
   if (!deck) return NextResponse.json({ error: "Not found" }, { status: 404 });
 
-  const url = new URL(_req.url);
-  const fmt = (url.searchParams.get("fmt") || "csv").toLowerCase(); // csv | tsv | anki-tsv
-
-  let content = "";
-  let filename = `${deck.title || "deck"}.${fmt === "csv" ? "csv" : "tsv"}`.replace(/\s+/g, "_");
+  const filename = `${deck.title || "deck"}.${FILE_EXTENSIONS[fmt]}`.replace(/\s+/g, "_").replace(/["\\/]/g, "");
+  let content: string | Buffer;
 
   if (fmt === "csv") {
-    content = ["Question,Answer", ...deck.cards.map(c => `${csvEscape(c.question)},${csvEscape(c.answer)}`)].join("\r\n");
+    content = ["Question,Answer", ...noteRows(deck.cards).map(c => `${csvEscape(c.question)},${csvEscape(c.answer)}`)].join("\r\n");
+  } else if (fmt === "tsv") {
+    content = ["Question\tAnswer", ...noteRows(deck.cards).map(c => [tsvField(c.question), tsvField(c.answer)].join("\t"))].join("\n");
+  } else if (fmt === "anki-tsv") {
+    // Anki's text importer reads these header directives instead of treating the first row as a card.
+    // Decks with cloze notes name the note type per row so those rows land in Anki's stock Cloze type.
+    const rows = noteRows(deck.cards);
+    const mixed = rows.some((c) => isClozeCard(c));
+    content = [
+      "#separator:tab",
+      "#html:true",
+      "#tags column:3",
+      ...(mixed ? ["#notetype column:4"] : []),
+      ...rows.map(c => [
+        ankiTextField(c.question),
+        ankiTextField(c.answer),
+        c.tags.join(" "),
+        ...(mixed ? [isClozeCard(c) ? "Cloze" : "Basic"] : []),
+      ].join("\t")),
+    ].join("\n");
   } else {
-    // tsv & anki-tsv (both are tab-separated, Anki can import TSV)
-    const sep = "\t";
-    content = ["Question\tAnswer", ...deck.cards.map(c => [c.question, c.answer].join(sep))].join("\n");
-    filename = `${deck.title || "deck"}.${fmt === "tsv" ? "tsv" : "tsv"}`.replace(/\s+/g, "_");
+    const reviews = includeScheduling
+      ? await prisma.reviewLog.findMany({
+          where: { deckId: deck.id, undoneAt: null },
+          orderBy: { reviewedAt: "asc" },
+          select: {
+            cardId: true,
+            rating: true,
+            elapsedMs: true,
+            previousSrsState: true,
+            previousIntervalDays: true,
+            nextIntervalDays: true,
+            nextEase: true,
+            nextDueAt: true,
+            reviewedAt: true,
+          },
+        })
+      : [];
+    content = await buildApkg({
+      deckName: deck.title || "QuickStud deck",
+      cards: deck.cards,
+      includeScheduling,
+      reviews,
+      options: { ...readStepsConfig(deck), leechThreshold: deck.leechThreshold, leechAction: deck.leechAction },
+    });
   }
 
-  return new NextResponse(content, {
+  return new NextResponse(typeof content === "string" ? content : new Uint8Array(content), {
     status: 200,
     headers: {
-      "Content-Type": fmt === "csv" ? "text/csv; charset=utf-8" : "text/tab-separated-values; charset=utf-8",
-      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Content-Type": CONTENT_TYPES[fmt],
+      "Content-Disposition": contentDisposition(filename),
       "Cache-Control": "no-store",
     },
   });
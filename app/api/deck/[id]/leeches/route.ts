@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { LEECH_TAG } from "@/lib/srs/leech";
+
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+
+  try {
+    const deck = await prisma.deck.findFirst({
+      where: { id, user: { clerkUserId: userId } },
+      select: { id: true, leechThreshold: true, leechAction: true },
+    });
+    if (!deck) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const cards = await prisma.card.findMany({
+      where: { deckId: deck.id, OR: [{ tags: { has: LEECH_TAG } }, { suspendedAt: { not: null } }] },
+      orderBy: [{ srsLapses: "desc" }, { createdAt: "asc" }],
+      select: {
+        id: true,
+        question: true,
+        answer: true,
+        srsLapses: true,
+        tags: true,
+        suspendedAt: true,
+        lastReviewedAt: true,
+      },
+    });
+
+    return NextResponse.json({
+      ok: true,
+      threshold: deck.leechThreshold,
+      action: deck.leechAction,
+      cards: cards.map((card) => ({ ...card, leech: card.tags.includes(LEECH_TAG), suspended: !!card.suspendedAt })),
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "";
+    const missingColumn = /leechThreshold|leechAction|suspendedAt|tags|does not exist/i.test(message);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: missingColumn
+          ? "Leech detection is not available yet. Apply the latest Prisma migration before using this endpoint."
+          : "Failed to load leeches.",
+      },
+      { status: missingColumn ? 503 : 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { readSourceFigures } from "@/lib/extractors/figures";
+import { createSourceLocator } from "@/lib/generation/provenance";
 
 const MODEL = "gpt-4o-mini";
 
@@ -28,7 +30,7 @@ export async function POST(req: Request, ctx: { params: Promise<{ id: string }>
 
   const deck = await prisma.deck.findFirst({
     where: { id, user: { clerkUserId: userId } },
-    select: { id: true, title: true, source: true },
+    select: { id: true, title: true, source: true, sourceKind: true, sourceFigures: true },
   });
   if (!deck) return NextResponse.json({ error: "Not found" }, { status: 404 });
   if (!deck.source) return NextResponse.json({ error: "No source to regenerate from" }, { status: 400 });
@@ -66,8 +68,17 @@ export async function POST(req: Request, ctx: { params: Promise<{ id: string }>
 
   if (!cards.length) return NextResponse.json({ error: "No cards produced" }, { status: 400 });
 
+  // Deck.source is a prefix of the original extraction, so spans found in it line up with
+  // the ones recorded at generation time.
+  const locateSource = createSourceLocator(deck.source, {
+    transcript: deck.sourceKind === "youtube" || deck.sourceKind === "video",
+    figures: readSourceFigures(deck.sourceFigures),
+  });
+
   if (!append) await prisma.card.deleteMany({ where: { deckId: deck.id } });
-  await prisma.card.createMany({ data: cards.map((c) => ({ deckId: deck.id, ...c })) });
+  await prisma.card.createMany({
+    data: cards.map((c) => ({ deckId: deck.id, ...c, sourceSpan: locateSource(c) ?? undefined })),
+  });
 
   return NextResponse.json({ ok: true, added: cards.length });
 }
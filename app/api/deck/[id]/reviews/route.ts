@@ -0,0 +1,130 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+
+export async function GET(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  const url = new URL(req.url);
+  const cardId = clean(url.searchParams.get("cardId"));
+  const before = parseCursor(url.searchParams.get("before"));
+  const limit = clampLimit(url.searchParams.get("limit"));
+  const includeUndone = isTruthy(url.searchParams.get("includeUndone"));
+
+  const deck = await prisma.deck.findFirst({
+    where: { id, user: { clerkUserId: userId } },
+    select: { id: true },
+  });
+  if (!deck) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  try {
+    const reviews = await prisma.reviewLog.findMany({
+      where: {
+        deckId: deck.id,
+        ...(cardId ? { cardId } : {}),
+        ...(includeUndone ? {} : { undoneAt: null }),
+        // Reviews can share a timestamp, so the id breaks ties and no page skips or repeats one.
+        ...(before?.id
+          ? { OR: [{ reviewedAt: { lt: before.reviewedAt } }, { reviewedAt: before.reviewedAt, id: { lt: before.id } }] }
+          : before
+            ? { reviewedAt: { lt: before.reviewedAt } }
+            : {}),
+      },
+      orderBy: [{ reviewedAt: "desc" }, { id: "desc" }],
+      take: limit + 1,
+      select: {
+        id: true,
+        cardId: true,
+        rating: true,
+        scheduler: true,
+        elapsedMs: true,
+        previousIntervalDays: true,
+        nextIntervalDays: true,
+        previousEase: true,
+        nextEase: true,
+        previousDueAt: true,
+        nextDueAt: true,
+        coachingRunId: true,
+        undoneAt: true,
+        reviewedAt: true,
+      },
+    });
+
+    const page = reviews.slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor = reviews.length > limit ? formatCursor(last) : null;
+
+    return NextResponse.json({
+      ok: true,
+      filter: { cardId, before: before ? formatCursor(before) : null, limit, includeUndone },
+      summary: summarizeReviews(page.filter((review) => !review.undoneAt)),
+      reviews: page,
+      nextCursor,
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "";
+    const missingTable = /ReviewLog|relation .* does not exist|table .* does not exist/i.test(message);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: missingTable
+          ? "Review history is not available yet. Apply the latest Prisma migration before using this endpoint."
+          : "Failed to load review history.",
+      },
+      { status: missingTable ? 503 : 500 }
+    );
+  }
+}
+
+function summarizeReviews(reviews: Array<{ rating: string; previousIntervalDays: number; elapsedMs: number | null }>) {
+  const byRating: Record<string, number> = {};
+  for (const review of reviews) byRating[review.rating] = (byRating[review.rating] || 0) + 1;
+
+  // Retention only counts reviews of cards that had graduated; first-time and relearning steps say nothing about recall.
+  const matured = reviews.filter((review) => review.previousIntervalDays > 0);
+  const recalled = matured.filter((review) => review.rating !== "again").length;
+  const timed = reviews.map((review) => review.elapsedMs).filter((value): value is number => typeof value === "number");
+
+  return {
+    total: reviews.length,
+    byRating,
+    retention: matured.length ? round3(recalled / matured.length) : null,
+    averageElapsedMs: timed.length ? Math.round(timed.reduce((sum, value) => sum + value, 0) / timed.length) : null,
+  };
+}
+
+function clampLimit(raw: string | null): number {
+  const parsed = Number(raw || 100);
+  if (!Number.isFinite(parsed)) return 100;
+  return Math.max(1, Math.min(500, Math.floor(parsed)));
+}
+
+// `before` is a previous page's nextCursor ("<reviewedAt ISO>,<id>") or a plain date.
+function parseCursor(raw: string | null): { reviewedAt: Date; id: string | null } | null {
+  if (!raw) return null;
+  const [date, id] = raw.split(",");
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) return null;
+  return { reviewedAt: parsed, id: id?.trim() || null };
+}
+
+function formatCursor(cursor: { reviewedAt: Date; id: string | null }): string {
+  return cursor.id ? `${cursor.reviewedAt.toISOString()},${cursor.id}` : cursor.reviewedAt.toISOString();
+}
+
+function clean(value: string | null): string | null {
+  const trimmed = String(value || "").trim();
+  return trimmed || null;
+}
+
+function isTruthy(value: string | null): boolean {
+  const normalized = String(value || "").trim().toLowerCase();
+  return normalized === "1" || normalized === "true" || normalized === "yes";
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
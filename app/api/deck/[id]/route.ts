@@ -1,14 +1,48 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { isSchedulerId } from "@/lib/srs/contracts";
+import { isLeechAction, normalizeLeechThreshold } from "@/lib/srs/leech";
+import { parseStepList } from "@/lib/srs/steps";
 
 export async function PATCH(req: Request, { params }: { params: { id: string } }) {
   const { userId } = await auth();
   if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
-  const { title } = (await req.json().catch(() => ({}))) as { title?: string };
+  const { title, srsScheduler, learningSteps, relearningSteps, leechThreshold, leechAction } = (await req.json().catch(() => ({}))) as {
+    title?: string;
+    srsScheduler?: string | null;
+    learningSteps?: string | string[] | number[] | null;
+    relearningSteps?: string | string[] | number[] | null;
+    leechThreshold?: number;
+    leechAction?: string;
+  };
   const t = (title || "").trim().slice(0, 120);
-  if (!t) return NextResponse.json({ error: "Title required" }, { status: 400 });
+  if (srsScheduler != null && !isSchedulerId(srsScheduler)) {
+    return NextResponse.json({ error: "Unknown scheduler" }, { status: 400 });
+  }
+  // `null` clears a deck override (scheduler or steps) so the default applies again.
+  const learning = learningSteps === undefined ? undefined : learningSteps === null ? [] : parseStepList(learningSteps);
+  const relearning = relearningSteps === undefined ? undefined : relearningSteps === null ? [] : parseStepList(relearningSteps);
+  if (learning === null || relearning === null) {
+    return NextResponse.json({ error: "Steps must look like \"1m 10m 1h\" (1 to 10 steps, each up to 7d)" }, { status: 400 });
+  }
+  if (leechThreshold !== undefined && normalizeLeechThreshold(leechThreshold) === null) {
+    return NextResponse.json({ error: "Leech threshold must be a whole number from 1 to 99" }, { status: 400 });
+  }
+  if (leechAction !== undefined && !isLeechAction(leechAction)) {
+    return NextResponse.json({ error: "Unknown leech action" }, { status: 400 });
+  }
+  if (
+    !t &&
+    srsScheduler === undefined &&
+    learning === undefined &&
+    relearning === undefined &&
+    leechThreshold === undefined &&
+    leechAction === undefined
+  ) {
+    return NextResponse.json({ error: "Title required" }, { status: 400 });
+  }
 
   const deck = await prisma.deck.findFirst({
     where: { id: params.id, user: { clerkUserId: userId } },
@@ -16,7 +50,17 @@ export async function PATCH(req: Request, { params }: { params: { id: string } }
   });
   if (!deck) return NextResponse.json({ error: "Not found" }, { status: 404 });
 
-  await prisma.deck.update({ where: { id: params.id }, data: { title: t } });
+  await prisma.deck.update({
+    where: { id: params.id },
+    data: {
+      ...(t ? { title: t } : {}),
+      ...(srsScheduler !== undefined ? { srsScheduler } : {}),
+      ...(learning !== undefined ? { learningSteps: learning } : {}),
+      ...(relearning !== undefined ? { relearningSteps: relearning } : {}),
+      ...(leechThreshold !== undefined ? { leechThreshold } : {}),
+      ...(leechAction !== undefined ? { leechAction } : {}),
+    },
+  });
   return NextResponse.json({ ok: true });
 }
 
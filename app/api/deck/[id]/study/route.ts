@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { LEARN_AHEAD_MINUTES } from "@/lib/srs/contracts";
+import { readSourceSpan, videoMoment } from "@/lib/generation/provenance";
 
 const SRS_ENABLED = process.env.SRS_ENABLED === "1";
 
@@ -14,7 +16,7 @@ export async function GET(req: Request, ctx: { params: Promise<{ id: string }> }
 
   const deck = await prisma.deck.findFirst({
     where: { id, user: { clerkUserId: userId } },
-    select: { id: true },
+    select: { id: true, sourceUrl: true, sourceKind: true },
   });
   if (!deck) return NextResponse.json({ error: "Not found" }, { status: 404 });
 
@@ -24,22 +26,39 @@ export async function GET(req: Request, ctx: { params: Promise<{ id: string }> }
   if (SRS_ENABLED) {
     try {
       const cards = await prisma.card.findMany({
-        where: { deckId: deck.id, OR: [{ srsReps: 0 }, { srsDueAt: { lte: now } }] } as any,
-        orderBy: [{ srsDueAt: "asc" } as any, { createdAt: "asc" }],
+        where: {
+          deckId: deck.id,
+          suspendedAt: null,
+          OR: [
+            { srsState: "new" },
+            { srsState: { in: ["learning", "relearning"] }, srsDueAt: { lte: new Date(now.getTime() + LEARN_AHEAD_MINUTES * 60_000) } },
+            { srsDueAt: { lte: now } },
+          ],
+        },
+        orderBy: [{ srsDueAt: "asc" }, { createdAt: "asc" }],
         take: focusConcept ? Math.max(take * 3, 90) : take,
-        select: { id: true, question: true, answer: true, srsReps: true, srsDueAt: true } as any,
+        select: { id: true, question: true, answer: true, kind: true, clozeIndex: true, sourceSpan: true, srsReps: true, srsState: true, srsDueAt: true },
       });
-      return NextResponse.json({ cards: prioritizeCards(cards, focusConcept).slice(0, take) });
+      return NextResponse.json({ cards: withVideoMoments(prioritizeCards(cards, focusConcept).slice(0, take), deck) });
     } catch { /* fall through */ }
   }
 
   const cards = await prisma.card.findMany({
-    where: { deckId: deck.id },
+    where: { deckId: deck.id, suspendedAt: null },
     orderBy: { createdAt: "asc" },
     take: focusConcept ? Math.max(take * 3, 90) : take,
-    select: { id: true, question: true, answer: true },
+    select: { id: true, question: true, answer: true, kind: true, clozeIndex: true, sourceSpan: true },
+  });
+  return NextResponse.json({ cards: withVideoMoments(prioritizeCards(cards, focusConcept).slice(0, take), deck) });
+}
+
+// Cards generated from a YouTube video carry the moment they came from so study can jump to it,
+// and cards citing a slide or page with a stored figure carry that figure.
+function withVideoMoments<T extends { question: string; answer: string; sourceSpan?: unknown }>(cards: T[], deck: { sourceUrl: string | null; sourceKind: string | null }) {
+  return cards.map(({ sourceSpan, ...card }) => {
+    const span = readSourceSpan(sourceSpan);
+    return { ...card, moment: videoMoment(span, deck), figure: span?.figure ?? null };
   });
-  return NextResponse.json({ cards: prioritizeCards(cards, focusConcept).slice(0, take) });
 }
 
 function prioritizeCards<T extends { question: string; answer: string }>(cards: T[], focusConcept: string | null): T[] {
@@ -0,0 +1,231 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { readApkg } from "@/lib/anki/apkg";
+import { clozeIndexes, clozeNoteCards } from "@/lib/cards/cloze";
+import {
+  isImportFormat,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_CARDS,
+  normalizeImportedCard,
+  type ImportedCard,
+  type ImportedDeck,
+  type ImportFormat,
+} from "@/lib/import/contracts";
+import {
+  isImportDelimiter,
+  parseDelimitedDeck,
+  parseTermDefinitionText,
+  previewDelimited,
+  type ColumnMapping,
+} from "@/lib/import/delimited";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+type ImportRequest = {
+  format: ImportFormat;
+  title: string;
+  preview: boolean;
+  file: File | null;
+  text: string;
+  delimiter: string | null;
+  hasHeader: boolean | null;
+  mapping: ColumnMapping | null;
+  termSeparator: string | null;
+  cardSeparator: string | null;
+};
+
+// Creates a deck from an Anki package, a CSV/TSV file or pasted "term<TAB>definition" text.
+// With preview=1 nothing is written; the response describes what would be imported so the
+// client can confirm the delimiter and column mapping first.
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const request = await readImportRequest(req);
+  if (!request) return NextResponse.json({ error: "Attach a file or paste some text to import" }, { status: 400 });
+  if (request.file && request.file.size > MAX_IMPORT_BYTES) {
+    return NextResponse.json({ error: "Import files are limited to 50 MB" }, { status: 413 });
+  }
+
+  let parsed: ImportedDeck;
+  try {
+    if (request.preview && (request.format === "csv" || request.format === "tsv")) {
+      const text = await readText(request);
+      return NextResponse.json({
+        ok: true,
+        format: request.format,
+        preview: previewDelimited(text, request.format === "tsv" ? "\t" : delimiterOrNull(request.delimiter)),
+      });
+    }
+    parsed = await parseImport(request);
+  } catch (error: unknown) {
+    return NextResponse.json(
+      { error: error instanceof Error && error.message ? error.message : "We couldn't read this file." },
+      { status: 400 }
+    );
+  }
+
+  // Anki cloze cards whose deletion is missing from the (possibly truncated) text would render without a blank.
+  const cards = parsed.cards
+    .map(normalizeImportedCard)
+    .filter((card) => card !== null)
+    .filter((card) => !card.cloze || clozeIndexes(card.question).includes(card.cloze.index));
+  const skipped = parsed.cards.length - cards.length;
+  const records = toCardRecords(cards);
+  if (!cards.length) {
+    return NextResponse.json({ error: "No cards with both a question and an answer were found", warnings: parsed.warnings.slice(0, 20) }, { status: 400 });
+  }
+  if (records.length > MAX_IMPORT_CARDS) {
+    return NextResponse.json({ error: `Imports are limited to ${MAX_IMPORT_CARDS} cards` }, { status: 413 });
+  }
+
+  const title = (request.title || parsed.title || fileTitle(request.file) || "Imported deck").slice(0, 120);
+  if (request.preview) {
+    return NextResponse.json({
+      ok: true,
+      format: request.format,
+      title,
+      total: records.length,
+      skipped,
+      withScheduling: cards.filter((card) => card.scheduling).length,
+      cards: cards.slice(0, 5).map((card) => ({ question: card.question, answer: card.answer, tags: card.tags })),
+      warnings: parsed.warnings.slice(0, 20),
+    });
+  }
+
+  const user = await prisma.user.upsert({
+    where: { clerkUserId: userId },
+    update: {},
+    create: { clerkUserId: userId },
+    select: { id: true },
+  });
+
+  const deck = await prisma.$transaction(async (tx) => {
+    const created = await tx.deck.create({ data: { title, userId: user.id }, select: { id: true } });
+    await tx.card.createMany({ data: records.map((record) => ({ deckId: created.id, ...record })) });
+    return created;
+  });
+
+  return NextResponse.json({
+    ok: true,
+    deckId: deck.id,
+    title,
+    imported: records.length,
+    skipped,
+    withScheduling: cards.filter((card) => card.scheduling).length,
+    warnings: parsed.warnings.slice(0, 20),
+  });
+}
+
+// Cloze notes from Anki arrive one card per deletion and only need a shared noteId; text
+// rows containing {{c1::...}} markup (e.g. our own CSV export) are expanded here.
+function toCardRecords(cards: ImportedCard[]) {
+  const noteIds = new Map<string, string>();
+  return cards.flatMap((card) => {
+    const base = { tags: card.tags, ...(card.scheduling || {}) };
+    if (card.cloze) {
+      const noteId = noteIds.get(card.cloze.noteKey) || globalThis.crypto.randomUUID();
+      noteIds.set(card.cloze.noteKey, noteId);
+      return [{ ...base, question: card.question, answer: card.answer, kind: "cloze", clozeIndex: card.cloze.index, noteId }];
+    }
+    const clozeCards = clozeNoteCards(card.question, card.answer);
+    if (clozeCards.length) return clozeCards.map((clozeCard) => ({ ...base, ...clozeCard }));
+    return [{ ...base, question: card.question, answer: card.answer }];
+  });
+}
+
+async function parseImport(request: ImportRequest): Promise<ImportedDeck> {
+  if (request.format === "apkg") {
+    if (!request.file) throw new Error("Anki imports need an .apkg file");
+    return readApkg(new Uint8Array(await request.file.arrayBuffer()));
+  }
+
+  const text = await readText(request);
+  if (request.format === "text") {
+    return parseTermDefinitionText(text, { termSeparator: request.termSeparator, cardSeparator: request.cardSeparator });
+  }
+  return parseDelimitedDeck(text, {
+    delimiter: request.format === "tsv" ? "\t" : delimiterOrNull(request.delimiter),
+    hasHeader: request.hasHeader,
+    mapping: request.mapping,
+  });
+}
+
+async function readImportRequest(req: Request): Promise<ImportRequest | null> {
+  const isMultipart = (req.headers.get("content-type") || "").includes("multipart/form-data");
+  const values: Record<string, unknown> = {};
+  let file: File | null = null;
+
+  if (isMultipart) {
+    const form = await req.formData().catch(() => null);
+    if (!form) return null;
+    for (const [key, value] of form.entries()) {
+      if (key === "file" && typeof value !== "string") file = value;
+      else values[key] = value;
+    }
+  } else {
+    Object.assign(values, (await req.json().catch(() => null)) || {});
+  }
+
+  const text = typeof values.text === "string" ? values.text : "";
+  if (!file && !text.trim()) return null;
+
+  const explicit = typeof values.format === "string" ? values.format.toLowerCase() : null;
+  return {
+    format: isImportFormat(explicit) ? explicit : detectFormat(file),
+    title: typeof values.title === "string" ? values.title.trim() : "",
+    preview: isTruthy(values.preview),
+    file,
+    text,
+    delimiter: typeof values.delimiter === "string" ? values.delimiter : null,
+    hasHeader: values.hasHeader === undefined || values.hasHeader === "" ? null : isTruthy(values.hasHeader),
+    mapping: parseMapping(values.mapping),
+    termSeparator: typeof values.termSeparator === "string" ? values.termSeparator : null,
+    cardSeparator: typeof values.cardSeparator === "string" ? values.cardSeparator : null,
+  };
+}
+
+function detectFormat(file: File | null): ImportFormat {
+  const name = file?.name.toLowerCase() || "";
+  if (name.endsWith(".apkg") || name.endsWith(".colpkg")) return "apkg";
+  if (name.endsWith(".csv")) return "csv";
+  if (name.endsWith(".tsv")) return "tsv";
+  return "text";
+}
+
+async function readText(request: ImportRequest): Promise<string> {
+  return request.file ? await request.file.text() : request.text;
+}
+
+function parseMapping(value: unknown): ColumnMapping | null {
+  let raw = value;
+  if (typeof raw === "string") {
+    try { raw = JSON.parse(raw); } catch { return null; }
+  }
+  if (!raw || typeof raw !== "object") return null;
+  const { question, answer, tags } = raw as Record<string, unknown>;
+  if (!isColumnIndex(question) || !isColumnIndex(answer)) return null;
+  return { question, answer, tags: isColumnIndex(tags) ? tags : null };
+}
+
+function isColumnIndex(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value < 100;
+}
+
+function delimiterOrNull(value: string | null) {
+  const normalized = value === "\\t" ? "\t" : value;
+  return isImportDelimiter(normalized) ? normalized : null;
+}
+
+function fileTitle(file: File | null): string | null {
+  if (!file?.name) return null;
+  return file.name.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " ").trim() || null;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (value === true) return true;
+  const normalized = String(value || "").trim().toLowerCase();
+  return normalized === "1" || normalized === "true" || normalized === "yes";
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { examReport, publicExamQuestions, type ExamQuestion, type ExamQuestionResult } from "@/lib/quiz/exam";
+
+export const runtime = "nodejs";
+
+// One exam attempt: prompts and choices while it is open, the graded report once submitted.
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+
+  try {
+    const attempt = await prisma.examAttempt.findFirst({ where: { id, user: { clerkUserId: userId } } });
+    if (!attempt) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const summary = {
+      id: attempt.id,
+      title: attempt.title,
+      deckIds: attempt.deckIds,
+      questionCount: attempt.questionCount,
+      timeLimitSec: attempt.timeLimitSec,
+      startedAt: attempt.startedAt,
+      expiresAt: attempt.expiresAt,
+      submittedAt: attempt.submittedAt,
+      submittedLate: attempt.submittedLate,
+      score: attempt.score,
+      weakConcepts: attempt.weakConcepts,
+    };
+
+    if (!attempt.submittedAt) {
+      const questions = attempt.questions as unknown as ExamQuestion[];
+      return NextResponse.json({ ok: true, attempt: summary, questions: publicExamQuestions(questions) });
+    }
+
+    const results = (attempt.results ?? []) as unknown as ExamQuestionResult[];
+    const decks = await prisma.deck.findMany({ where: { id: { in: attempt.deckIds } }, select: { id: true, title: true } });
+    return NextResponse.json({ ok: true, attempt: summary, results, report: examReport(results), decks });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "";
+    const missingTable = /ExamAttempt|does not exist/i.test(message);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: missingTable
+          ? "Practice exams are not available yet. Apply the latest Prisma migration before using this endpoint."
+          : "Failed to load this exam.",
+      },
+      { status: missingTable ? 503 : 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { examReport, gradeExamQuestion, type ExamQuestion } from "@/lib/quiz/exam";
+import { createReasoningEngine } from "@/lib/reasoningEngine/engine";
+import { updateStudentStateFromExam } from "@/lib/reasoningEngine/studentState";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+const reasoningEngine = createReasoningEngine({
+  beamWidth: Number(process.env.REASONING_ENGINE_BEAM_WIDTH || 3),
+  maxAttempts: Number(process.env.REASONING_ENGINE_MAX_ATTEMPTS || 3),
+});
+
+const MAX_ANSWER_CHARS = 2000;
+// Covers the client's auto-submit at time-out arriving a little after expiresAt.
+const SUBMIT_GRACE_MS = 30_000;
+
+// Grades a whole attempt at once. Unanswered questions score zero, so the client submits
+// whatever it has when the timer runs out. Missed questions feed StudentState.weakConcepts.
+// Submissions after the time limit (plus SUBMIT_GRACE_MS) are recorded as late and score zero.
+export async function POST(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  const body = (await req.json().catch(() => null)) as { answers?: unknown } | null;
+  const answers = body?.answers && typeof body.answers === "object" && !Array.isArray(body.answers)
+    ? (body.answers as Record<string, unknown>)
+    : {};
+
+  try {
+    const attempt = await prisma.examAttempt.findFirst({
+      where: { id, user: { clerkUserId: userId } },
+      select: { id: true, userId: true, questions: true, expiresAt: true, submittedAt: true },
+    });
+    if (!attempt) return NextResponse.json({ error: "Not found" }, { status: 404 });
+    if (attempt.submittedAt) return NextResponse.json({ error: "This exam was already submitted" }, { status: 409 });
+
+    const late = Date.now() > attempt.expiresAt.getTime() + SUBMIT_GRACE_MS;
+    const questions = attempt.questions as unknown as ExamQuestion[];
+    const results = await Promise.all(
+      questions.map((question) => {
+        const response = late ? undefined : answers[question.id];
+        return gradeExamQuestion(
+          question,
+          typeof response === "string" ? response.slice(0, MAX_ANSWER_CHARS) : "",
+          reasoningEngine
+        );
+      })
+    );
+    const report = examReport(results);
+
+    // Guarded on submittedAt so two tabs submitting the same attempt cannot both be graded.
+    const saved = await prisma.examAttempt.updateMany({
+      where: { id: attempt.id, submittedAt: null },
+      data: {
+        results: results as unknown as Prisma.InputJsonValue,
+        score: report.score,
+        submittedAt: new Date(),
+        submittedLate: late,
+      },
+    });
+    if (!saved.count) return NextResponse.json({ error: "This exam was already submitted" }, { status: 409 });
+    // A late attempt says nothing about what the student knows.
+    if (late) return NextResponse.json({ ok: true, results, report, weakConcepts: [], late });
+
+    let weakConcepts: string[] = [];
+    try {
+      weakConcepts = await updateStudentStateFromExam({
+        userId: attempt.userId,
+        missedPrompts: results.filter((result) => result.grade !== "correct").map((result) => result.prompt),
+        passedPrompts: results.filter((result) => result.grade === "correct").map((result) => result.prompt),
+      });
+      await prisma.examAttempt.update({ where: { id: attempt.id }, data: { weakConcepts } });
+    } catch {
+      // student-state tracking is additive and should not block grading
+    }
+
+    return NextResponse.json({ ok: true, results, report, weakConcepts, late });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "";
+    const missingTable = /ExamAttempt|does not exist/i.test(message);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: missingTable
+          ? "Practice exams are not available yet. Apply the latest Prisma migration before using this endpoint."
+          : "Failed to grade this exam.",
+      },
+      { status: missingTable ? 503 : 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { assembleExam, EXAM_LIMITS, EXAM_SECONDS_PER_QUESTION, publicExamQuestions } from "@/lib/quiz/exam";
+
+export const runtime = "nodejs";
+
+// Cards sampled per deck when assembling an exam; they also serve as the distractor pool.
+const MAX_POOL_CARDS_PER_DECK = 400;
+const MAX_EXAM_DECKS = 10;
+const RECENT_ATTEMPTS = 20;
+
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const attempts = await prisma.examAttempt.findMany({
+      where: { user: { clerkUserId: userId } },
+      orderBy: { startedAt: "desc" },
+      take: RECENT_ATTEMPTS,
+      select: {
+        id: true,
+        title: true,
+        deckIds: true,
+        questionCount: true,
+        timeLimitSec: true,
+        score: true,
+        weakConcepts: true,
+        startedAt: true,
+        expiresAt: true,
+        submittedAt: true,
+      },
+    });
+    return NextResponse.json({ ok: true, attempts });
+  } catch (error: unknown) {
+    return examUnavailable(error, "Failed to load exam attempts.");
+  }
+}
+
+// Starts a timed exam over the selected decks. The questions (with answers) are stored on
+// the attempt; the client only receives prompts and choices until it submits.
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = (await req.json().catch(() => null)) as {
+    deckIds?: unknown;
+    questionCount?: unknown;
+    timeLimitMinutes?: unknown;
+  } | null;
+  const requestedDeckIds = Array.isArray(body?.deckIds)
+    ? [...new Set(body.deckIds.filter((id): id is string => typeof id === "string" && id.length > 0))]
+    : [];
+  if (!requestedDeckIds.length) return NextResponse.json({ error: "Pick at least one deck" }, { status: 400 });
+  if (requestedDeckIds.length > MAX_EXAM_DECKS) {
+    return NextResponse.json({ error: `An exam can cover at most ${MAX_EXAM_DECKS} decks` }, { status: 400 });
+  }
+
+  const questionCount = clampInt(body?.questionCount, EXAM_LIMITS.minQuestions, EXAM_LIMITS.maxQuestions, EXAM_LIMITS.defaultQuestions);
+
+  try {
+    const user = await prisma.user.findUnique({ where: { clerkUserId: userId }, select: { id: true } });
+    if (!user) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const decks = await prisma.deck.findMany({
+      where: { id: { in: requestedDeckIds }, userId: user.id },
+      select: { id: true, title: true },
+    });
+    if (decks.length !== requestedDeckIds.length) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const pools = await Promise.all(
+      decks.map((deck) =>
+        prisma.card.findMany({
+          where: { deckId: deck.id, suspendedAt: null },
+          orderBy: { createdAt: "asc" },
+          take: MAX_POOL_CARDS_PER_DECK,
+          select: { id: true, deckId: true, question: true, answer: true, kind: true, clozeIndex: true, noteId: true, distractors: true },
+        })
+      )
+    );
+
+    const questions = assembleExam(pools.flat(), questionCount);
+    if (questions.length < EXAM_LIMITS.minQuestions) {
+      return NextResponse.json(
+        { error: `These decks need at least ${EXAM_LIMITS.minQuestions} active cards for a practice exam` },
+        { status: 422 }
+      );
+    }
+
+    const minutes = clampInt(
+      body?.timeLimitMinutes,
+      EXAM_LIMITS.minMinutes,
+      EXAM_LIMITS.maxMinutes,
+      Math.max(EXAM_LIMITS.minMinutes, Math.ceil((questions.length * EXAM_SECONDS_PER_QUESTION) / 60))
+    );
+    const startedAt = new Date();
+    const attempt = await prisma.examAttempt.create({
+      data: {
+        userId: user.id,
+        deckIds: decks.map((deck) => deck.id),
+        title: decks.length === 1 ? `${decks[0].title} practice exam` : `Practice exam: ${decks.length} decks`,
+        questionCount: questions.length,
+        timeLimitSec: minutes * 60,
+        questions: questions as unknown as Prisma.InputJsonValue,
+        startedAt,
+        expiresAt: new Date(startedAt.getTime() + minutes * 60_000),
+      },
+      select: { id: true, title: true, timeLimitSec: true, startedAt: true, expiresAt: true },
+    });
+
+    return NextResponse.json({ ok: true, attempt, questions: publicExamQuestions(questions) });
+  } catch (error: unknown) {
+    return examUnavailable(error, "Failed to start the exam.");
+  }
+}
+
+function clampInt(value: unknown, min: number, max: number, fallback: number) {
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (value === undefined || value === null || value === "" || !Number.isFinite(parsed)) return fallback;
+  return Math.max(min, Math.min(max, Math.round(parsed)));
+}
+
+function examUnavailable(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : "";
+  const missingTable = /ExamAttempt|does not exist/i.test(message);
+  return NextResponse.json(
+    {
+      ok: false,
+      error: missingTable
+        ? "Practice exams are not available yet. Apply the latest Prisma migration before using this endpoint."
+        : fallback,
+    },
+    { status: missingTable ? 503 : 500 }
+  );
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { cancelGenerationJob, generationJobView, GENERATION_JOB_VIEW_SELECT, isTerminalJobStatus } from "@/lib/generation/jobs";
+
+export const runtime = "nodejs";
+
+export async function POST(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  const job = await prisma.generationJob
+    .findFirst({ where: { id, user: { clerkUserId: userId } }, select: { id: true, status: true } })
+    .catch(() => null);
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (isTerminalJobStatus(job.status)) {
+    return NextResponse.json({ error: "This job has already finished" }, { status: 409 });
+  }
+
+  await cancelGenerationJob(job.id);
+  const updated = await prisma.generationJob.findUnique({ where: { id: job.id }, select: GENERATION_JOB_VIEW_SELECT });
+  return NextResponse.json({ ok: true, job: updated ? generationJobView(updated) : null });
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import {
+  generationJobView,
+  GENERATION_JOB_VIEW_SELECT,
+  isTerminalJobStatus,
+  runGenerationWorker,
+} from "@/lib/generation/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const maxDuration = 300;
+
+const POLL_MS = 1000;
+// Close a little before maxDuration; EventSource reconnects on its own and the stream resumes.
+const STREAM_MAX_MS = 280_000;
+
+// Server-sent events for one job: `progress` whenever the job row changes, then `done` once
+// it reaches a terminal status. Opening the stream also wakes the worker, which is how a job
+// interrupted by a restart gets picked up again.
+export async function GET(req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  const owned = await prisma.generationJob
+    .findFirst({ where: { id, user: { clerkUserId: userId } }, select: { id: true, status: true } })
+    .catch(() => null);
+  if (!owned) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  if (!isTerminalJobStatus(owned.status)) void runGenerationWorker();
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let open = true;
+      const write = (chunk: string) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          open = false; // the client went away
+        }
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      const deadline = Date.now() + STREAM_MAX_MS;
+      let lastUpdatedAt = "";
+
+      write("retry: 2000\n\n");
+      try {
+        while (open && !req.signal.aborted && Date.now() < deadline) {
+          const job = await prisma.generationJob.findUnique({ where: { id: owned.id }, select: GENERATION_JOB_VIEW_SELECT });
+          if (!job) {
+            send("unavailable", { error: "Not found" });
+            break;
+          }
+          const view = generationJobView(job);
+          if (view.updatedAt !== lastUpdatedAt) {
+            lastUpdatedAt = view.updatedAt;
+            send("progress", view);
+          }
+          if (isTerminalJobStatus(view.status)) {
+            send("done", view);
+            break;
+          }
+          await new Promise((resolve) => setTimeout(resolve, POLL_MS));
+        }
+      } catch {
+        send("unavailable", { error: "Lost track of this job. Reconnecting..." });
+      } finally {
+        if (open) controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { generationJobView, GENERATION_JOB_VIEW_SELECT } from "@/lib/generation/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(_req: Request, ctx: { params: Promise<{ id: string }> }) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { id } = await ctx.params;
+  const job = await prisma.generationJob
+    .findFirst({ where: { id, user: { clerkUserId: userId } }, select: GENERATION_JOB_VIEW_SELECT })
+    .catch(() => null);
+  if (!job) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  return NextResponse.json({ ok: true, job: generationJobView(job) });
+}
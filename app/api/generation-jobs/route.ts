@@ -0,0 +1,78 @@
+import { after, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import {
+  enqueueGenerationJob,
+  generationJobView,
+  GENERATION_JOB_VIEW_SELECT,
+  runGenerationWorker,
+} from "@/lib/generation/jobs";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+// The worker started after the response keeps running for up to this long; a job it cannot
+// finish in time is resumed by the next worker once its heartbeat goes stale.
+export const maxDuration = 300;
+
+const RECENT_JOBS = 10;
+
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  try {
+    const jobs = await prisma.generationJob.findMany({
+      where: { user: { clerkUserId: userId } },
+      orderBy: { createdAt: "desc" },
+      take: RECENT_JOBS,
+      select: GENERATION_JOB_VIEW_SELECT,
+    });
+    return NextResponse.json({ ok: true, jobs: jobs.map(generationJobView) });
+  } catch (error: unknown) {
+    return jobsUnavailable(error, "Failed to load generation jobs.");
+  }
+}
+
+// Accepts the same form as /api/flashcards but returns as soon as the job is stored. Progress
+// is streamed from /api/generation-jobs/[id]/events.
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const form = await req.formData().catch(() => null);
+  if (!form) return NextResponse.json({ error: "Expected a form submission" }, { status: 400 });
+
+  try {
+    const user = await prisma.user.upsert({
+      where: { clerkUserId: userId },
+      update: {},
+      create: { clerkUserId: userId },
+      select: { id: true },
+    });
+    const job = await enqueueGenerationJob({
+      userId: user.id,
+      title: String(form.get("title") || "").trim(),
+      form,
+      requestUrl: req.url,
+    });
+
+    after(() => runGenerationWorker());
+    return NextResponse.json({ ok: true, jobId: job.id }, { status: 202 });
+  } catch (error: unknown) {
+    return jobsUnavailable(error, "Failed to start generating this deck.");
+  }
+}
+
+function jobsUnavailable(error: unknown, fallback: string) {
+  const message = error instanceof Error ? error.message : "";
+  const missingTable = /GenerationJob|does not exist/i.test(message);
+  return NextResponse.json(
+    {
+      ok: false,
+      error: missingTable
+        ? "Background generation is not available yet. Apply the latest Prisma migration before using this endpoint."
+        : fallback,
+    },
+    { status: missingTable ? 503 : 500 }
+  );
+}
@@ -1,6 +1,9 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
+import { isSchedulerId } from "@/lib/srs/contracts";
+import { DEFAULT_DAILY_NEW_LIMIT, DEFAULT_DAILY_REVIEW_LIMIT, normalizeDailyLimit } from "@/lib/srs/dailyQueue";
+import { resolveSchedulerId } from "@/lib/srs/scheduler";
 
 export async function GET() {
   try {
@@ -29,9 +32,54 @@ export async function GET() {
       streak: user?.studyStreak ?? 0,
       xpToday,
       dailyGoal: goal,
+      srsScheduler: resolveSchedulerId(null, user?.srsScheduler),
+      dailyNewLimit: user?.dailyNewLimit ?? DEFAULT_DAILY_NEW_LIMIT,
+      dailyReviewLimit: user?.dailyReviewLimit ?? DEFAULT_DAILY_REVIEW_LIMIT,
     });
   } catch {
     // Always return JSON
     return NextResponse.json({ ok: false, signedIn: false, xp: 0, streak: 0, xpToday: 0, dailyGoal: 50 });
   }
 }
+
+export async function PATCH(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const { srsScheduler, dailyNewLimit, dailyReviewLimit } = (await req.json().catch(() => ({}))) as {
+    srsScheduler?: string | null;
+    dailyNewLimit?: number;
+    dailyReviewLimit?: number;
+  };
+  if (srsScheduler === undefined && dailyNewLimit === undefined && dailyReviewLimit === undefined) {
+    return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+  }
+  if (srsScheduler !== undefined && srsScheduler !== null && !isSchedulerId(srsScheduler)) {
+    return NextResponse.json({ error: "Unknown scheduler" }, { status: 400 });
+  }
+  if (dailyNewLimit !== undefined && normalizeDailyLimit(dailyNewLimit) === null) {
+    return NextResponse.json({ error: "Invalid daily new card limit" }, { status: 400 });
+  }
+  if (dailyReviewLimit !== undefined && normalizeDailyLimit(dailyReviewLimit) === null) {
+    return NextResponse.json({ error: "Invalid daily review limit" }, { status: 400 });
+  }
+
+  const user = await prisma.user.findFirst({ where: { clerkUserId: userId }, select: { id: true } });
+  if (!user) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const updated = await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      ...(srsScheduler !== undefined ? { srsScheduler } : {}),
+      ...(dailyNewLimit !== undefined ? { dailyNewLimit } : {}),
+      ...(dailyReviewLimit !== undefined ? { dailyReviewLimit } : {}),
+    },
+    select: { srsScheduler: true, dailyNewLimit: true, dailyReviewLimit: true },
+  });
+  return NextResponse.json({
+    ok: true,
+    srsScheduler: resolveSchedulerId(null, updated.srsScheduler),
+    dailyNewLimit: updated.dailyNewLimit,
+    dailyReviewLimit: updated.dailyReviewLimit,
+  });
+}
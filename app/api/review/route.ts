@@ -2,8 +2,14 @@ import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/db";
+import { quizAnswer, quizPrompt, sameChoice } from "@/lib/quiz/distractors";
 import { createReasoningResponse } from "@/lib/reasoningEngine/contracts";
 import { persistReasoningResponseRun } from "@/lib/reasoningEngine/persistence";
+import { updateStudentStateFromVerification } from "@/lib/reasoningEngine/studentState";
+import { computeNextDue, isReviewRating, isSrsPhase, REVIEW_XP, type ReviewRating } from "@/lib/srs/contracts";
+import { isLeechLapse, markLeech } from "@/lib/srs/leech";
+import { createReviewScheduler, resolveSchedulerId } from "@/lib/srs/scheduler";
+import { readStepsConfig } from "@/lib/srs/steps";
 
 type CoachingContext = {
   prompt?: string;
@@ -39,107 +45,189 @@ type CoachingContext = {
   };
 };
 
-function schedule(ease: number, reps: number, interval: number, rating: "again"|"good"|"easy") {
-  let newEase = ease;
-  let newReps = reps;
-  let newInterval = interval;
-
-  if (rating === "again") {
-    newEase = Math.max(1.3, ease - 0.2);
-    newReps = 0;
-    return { ease: newEase, reps: newReps, intervalDays: 0, minutes: 10, lapse: true };
-  }
-  if (rating === "good") {
-    newEase = Math.max(1.3, ease - 0.02);
-    newReps = reps + 1;
-    if (reps < 1) newInterval = 1;
-    else if (reps < 2) newInterval = 3;
-    else newInterval = Math.round(interval * newEase);
-    return { ease: newEase, reps: newReps, intervalDays: Math.max(1, newInterval), minutes: 0, lapse: false };
-  }
-  // easy
-  newEase = ease + 0.15;
-  newReps = reps + 1;
-  if (reps < 1) newInterval = 2;
-  else if (reps < 2) newInterval = 4;
-  else newInterval = Math.round(interval * newEase * 1.2);
-  return { ease: newEase, reps: newReps, intervalDays: Math.max(1, newInterval), minutes: 0, lapse: false };
-}
-
 export async function POST(req: Request) {
   const { userId } = await auth();
   if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
 
   const body = (await req.json().catch(() => null)) as {
     cardId?: string;
-    rating?: "again"|"good"|"easy";
+    rating?: ReviewRating;
+    elapsedMs?: number;
     coachingContext?: CoachingContext;
+    // Multiple-choice answers are graded here; the rating then follows from correctness.
+    quiz?: { choice?: string };
   } | null;
-  if (!body?.cardId || !body?.rating) return NextResponse.json({ error: "Bad request" }, { status: 400 });
+  const quizChoice = typeof body?.quiz?.choice === "string" ? body.quiz.choice : null;
+  if (!body?.cardId || (quizChoice === null && !isReviewRating(body.rating))) {
+    return NextResponse.json({ error: "Bad request" }, { status: 400 });
+  }
 
-  // Select only safe fields if SRS cols aren’t present
   const card = await prisma.card.findFirst({
     where: { id: body.cardId, deck: { user: { clerkUserId: userId } } },
-    // use `as any` to avoid TS errors pre-migration
-    select: { id: true, deckId: true, question: true, answer: true, srsEase: true, srsReps: true, srsIntervalDays: true } as any,
+    select: {
+      id: true,
+      deckId: true,
+      question: true,
+      answer: true,
+      kind: true,
+      clozeIndex: true,
+      srsEase: true,
+      srsReps: true,
+      srsIntervalDays: true,
+      srsLapses: true,
+      srsState: true,
+      srsStep: true,
+      srsDueAt: true,
+      lastReviewedAt: true,
+      fsrsStability: true,
+      fsrsDifficulty: true,
+      tags: true,
+      suspendedAt: true,
+      deck: {
+        select: {
+          userId: true,
+          srsScheduler: true,
+          learningSteps: true,
+          relearningSteps: true,
+          leechThreshold: true,
+          leechAction: true,
+          user: { select: { srsScheduler: true } },
+        },
+      },
+    },
   });
   if (!card) return NextResponse.json({ error: "Not found" }, { status: 404 });
+  if (card.suspendedAt) return NextResponse.json({ error: "This card is suspended" }, { status: 409 });
+
+  const correctAnswer = quizChoice !== null ? quizAnswer(card) : null;
+  const quizCorrect = correctAnswer !== null && quizChoice !== null ? sameChoice(quizChoice, correctAnswer) : null;
+  // A correct pick counts as "good" unless the student asked for hard/easy; a wrong pick is a lapse.
+  const rating: ReviewRating =
+    quizCorrect === null
+      ? (body.rating as ReviewRating)
+      : quizCorrect
+        ? isReviewRating(body.rating) && body.rating !== "again" ? body.rating : "good"
+        : "again";
 
   const now = new Date();
-  const { ease, reps, intervalDays, minutes, lapse } = schedule(
-    (card as any).srsEase ?? 2.5,
-    (card as any).srsReps ?? 0,
-    (card as any).srsIntervalDays ?? 0,
-    body.rating
+  const scheduler = createReviewScheduler(
+    resolveSchedulerId(card.deck.srsScheduler, card.deck.user.srsScheduler),
+    readStepsConfig(card.deck)
   );
+  const outcome = scheduler.schedule(
+    {
+      phase: isSrsPhase(card.srsState) ? card.srsState : "new",
+      step: card.srsStep,
+      ease: card.srsEase,
+      reps: card.srsReps,
+      intervalDays: card.srsIntervalDays,
+      lapses: card.srsLapses,
+      lastReviewedAt: card.lastReviewedAt,
+      stability: card.fsrsStability,
+      difficulty: card.fsrsDifficulty,
+    },
+    rating,
+    now
+  );
+  const nextDue = computeNextDue(now, outcome);
+  const leech = outcome.lapse && isLeechLapse(card.srsLapses + 1, card.deck.leechThreshold)
+    ? markLeech(card, card.deck.leechAction, now)
+    : null;
 
-  const nextDue = new Date(now);
-  if (minutes && minutes > 0) nextDue.setMinutes(nextDue.getMinutes() + minutes);
-  else nextDue.setDate(nextDue.getDate() + intervalDays);
-
-  // Try to write SRS fields; if schema lacks them, fall back silently
+  // Card state, XP/streak and the review log are written together so /api/review/undo can restore all three.
+  // A review that could not be logged is not saved at all: it could not be undone or counted
+  // towards the daily budgets, so the client keeps the rating and lets the student retry.
+  let reviewLogId: string;
   try {
-    await prisma.card.update({
-      where: { id: card.id },
-      data: {
-        srsEase: ease,
-        srsReps: reps,
-        srsIntervalDays: intervalDays,
-        srsLapses: { increment: lapse ? 1 : 0 } as any,
-        srsDueAt: nextDue,
-        lastReviewedAt: now,
-      } as any,
+    reviewLogId = await prisma.$transaction(async (tx) => {
+      await tx.card.update({
+        where: { id: card.id },
+        data: {
+          srsState: outcome.phase,
+          srsStep: outcome.step,
+          srsEase: outcome.ease,
+          srsReps: outcome.reps,
+          srsIntervalDays: outcome.intervalDays,
+          srsLapses: { increment: outcome.lapse ? 1 : 0 },
+          srsDueAt: nextDue,
+          lastReviewedAt: now,
+          fsrsStability: outcome.stability,
+          fsrsDifficulty: outcome.difficulty,
+          ...(leech ? { tags: leech.tags, suspendedAt: leech.suspendedAt } : {}),
+        },
+      });
+
+      // Gamified XP/streak
+      const user = await tx.user.findUniqueOrThrow({
+        where: { id: card.deck.userId },
+        select: { xp: true, studyStreak: true, lastStudyDate: true },
+      });
+      const xpGain = REVIEW_XP[rating];
+      await tx.user.update({
+        where: { id: card.deck.userId },
+        data: { xp: user.xp + xpGain, studyStreak: nextStudyStreak(user.studyStreak, user.lastStudyDate, now), lastStudyDate: now },
+      });
+
+      const log = await tx.reviewLog.create({
+        data: {
+          cardId: card.id,
+          deckId: card.deckId,
+          userId: card.deck.userId,
+          rating,
+          scheduler: scheduler.id,
+          elapsedMs: normalizeElapsedMs(body.elapsedMs),
+          previousIntervalDays: card.srsIntervalDays,
+          nextIntervalDays: outcome.intervalDays,
+          previousEase: card.srsEase,
+          nextEase: outcome.ease,
+          previousDueAt: card.srsDueAt,
+          nextDueAt: nextDue,
+          previousReps: card.srsReps,
+          previousLapses: card.srsLapses,
+          previousLastReviewedAt: card.lastReviewedAt,
+          previousStability: card.fsrsStability,
+          previousDifficulty: card.fsrsDifficulty,
+          previousSrsState: card.srsState,
+          previousSrsStep: card.srsStep,
+          previousSuspendedAt: card.suspendedAt,
+          previousTags: card.tags,
+          leechTriggered: !!leech,
+          quizCorrect,
+          xpGained: xpGain,
+          previousStudyStreak: user.studyStreak,
+          previousLastStudyDate: user.lastStudyDate,
+          reviewedAt: now,
+        },
+        select: { id: true },
+      });
+      return log.id;
     });
-  } catch {
-    // fallback: just touch updatedAt so something changes
-    await prisma.card.update({ where: { id: card.id }, data: { updatedAt: new Date() } }).catch(() => {});
+  } catch (error: unknown) {
+    console.error("[Review] Saving the review failed:", error instanceof Error ? error.message : error);
+    return NextResponse.json({ error: "We couldn't save that review. Please try again." }, { status: 500 });
   }
 
-  // Gamified XP/streak — attempt if columns exist, otherwise ignore
-  try {
-    const user = await prisma.user.findFirst({
-      where: { clerkUserId: userId },
-      select: { id: true, xp: true, studyStreak: true, lastStudyDate: true } as any,
-    });
-    if (user) {
-      const xpGain = body.rating === "easy" ? 5 : body.rating === "good" ? 3 : 1;
-      const today = new Date(); today.setHours(0,0,0,0);
-      const last = user.lastStudyDate ? new Date(user.lastStudyDate as any) : null;
-      const lastDay = last ? (last.setHours(0,0,0,0), last) : null;
-
-      let streak = (user.studyStreak as any) || 0;
-      if (!lastDay || Number(today) - Number(lastDay) >= 86_400_000) {
-        const yesterday = new Date(today); yesterday.setDate(yesterday.getDate() - 1);
-        if (lastDay && Number(lastDay) === Number(yesterday)) streak += 1;
-        else streak = 1;
-      }
-      await prisma.user.update({
-        where: { id: user.id as any },
-        data: { xp: ((user.xp as any) ?? 0) + xpGain, studyStreak: streak, lastStudyDate: new Date() } as any,
+  if (quizCorrect !== null) {
+    try {
+      await updateStudentStateFromVerification({
+        userId: card.deck.userId,
+        mode: "quiz_answer",
+        prompt: quizPrompt(card),
+        response: createReasoningResponse({
+          final_answer: quizCorrect ? "Picked the correct option." : "Picked a distractor over the correct option.",
+          reasoning: quizCorrect
+            ? "Multiple-choice answer matched the card's answer."
+            : `Multiple-choice answer "${truncate(quizChoice, 120)}" did not match the card's answer.`,
+          confidence: quizCorrect ? 0.8 : 0.2,
+          trajectory_score: quizCorrect ? 0.8 : 0.2,
+          search_depth: 1,
+        }),
+        answer: quizChoice ?? undefined,
+        expectedAnswer: correctAnswer ?? undefined,
       });
+    } catch {
+      // student-state tracking is additive and should not block grading
     }
-  } catch {
-    // ignore if XP/streak columns aren’t there yet
   }
 
   try {
@@ -152,23 +240,23 @@ export async function POST(req: Request) {
 
       if (user) {
         const priorConfidence = toFiniteNumber(coaching.verification?.confidence);
-        const recovered = body.rating !== "again";
-        const stabilized = body.rating === "easy" || (body.rating === "good" && priorConfidence >= 0.35);
-        const postReviewConfidence = estimatePostReviewConfidence(body.rating, priorConfidence);
+        const recovered = rating !== "again";
+        const stabilized = rating === "easy" || (rating === "good" && priorConfidence >= 0.35);
+        const postReviewConfidence = estimatePostReviewConfidence(rating, priorConfidence);
 
-        await persistReasoningResponseRun({
+        const run = await persistReasoningResponseRun({
           userId: user.id,
-          deckId: (card as any).deckId,
+          deckId: card.deckId,
           mode: "study_recovery",
           origin: "study_carousel",
           title: "Inline study recovery outcome",
-          prompt: coaching.prompt || (card as any).question,
+          prompt: coaching.prompt || card.question,
           response: createReasoningResponse({
             final_answer: recovered
               ? "Student recovered after coaching and continued the card."
               : "Student remained unstable after coaching and marked the card again.",
             reasoning: recovered
-              ? `The coached intervention ${coaching.selectedStrategy?.label || "selected strategy"} led to a ${body.rating} outcome.`
+              ? `The coached intervention ${coaching.selectedStrategy?.label || "selected strategy"} led to a ${rating} outcome.`
               : `The coached intervention ${coaching.selectedStrategy?.label || "selected strategy"} did not yet stabilize recall; the card was marked again.`,
             confidence: postReviewConfidence,
             trajectory_score: stabilized ? 0.82 : recovered ? 0.62 : 0.28,
@@ -177,7 +265,7 @@ export async function POST(req: Request) {
           verificationApplied: true,
           metadata: {
             cardId: body.cardId,
-            rating: body.rating,
+            rating,
             recovered,
             stabilized,
             priorConfidence,
@@ -187,27 +275,56 @@ export async function POST(req: Request) {
             weakTopicMatches: coaching.weakTopicMatches || [],
             studentState: coaching.studentState || null,
             studentAnswer: truncate(coaching.studentAnswer),
-            expectedAnswer: truncate(coaching.expectedAnswer || (card as any).answer),
+            expectedAnswer: truncate(coaching.expectedAnswer || card.answer),
             verification: coaching.verification || null,
             selectedStrategy: coaching.selectedStrategy || null,
           } as Prisma.InputJsonValue,
           candidatesSelected: 1,
         });
+        await prisma.reviewLog.update({ where: { id: reviewLogId }, data: { coachingRunId: run.id } });
       }
     }
   } catch {
     // recovery persistence is additive and should not block grading
   }
 
-  return NextResponse.json({ ok: true, nextDue });
+  return NextResponse.json({
+    ok: true,
+    nextDue,
+    phase: outcome.phase,
+    scheduler: scheduler.id,
+    retrievability: outcome.retrievability,
+    leech: !!leech,
+    suspended: !!leech?.suspendedAt,
+    reviewLogId,
+    rating,
+    quiz: quizCorrect === null ? null : { correct: quizCorrect, correctAnswer },
+  });
+}
+
+function nextStudyStreak(streak: number, lastStudyDate: Date | null, now: Date): number {
+  const today = new Date(now); today.setHours(0,0,0,0);
+  const last = lastStudyDate ? new Date(lastStudyDate) : null;
+  const lastDay = last ? (last.setHours(0,0,0,0), last) : null;
+
+  if (lastDay && Number(today) - Number(lastDay) < 86_400_000) return streak || 0;
+  const yesterday = new Date(today); yesterday.setDate(yesterday.getDate() - 1);
+  return lastDay && Number(lastDay) === Number(yesterday) ? (streak || 0) + 1 : 1;
 }
 
-function estimatePostReviewConfidence(rating: "again"|"good"|"easy", priorConfidence: number): number {
+function estimatePostReviewConfidence(rating: ReviewRating, priorConfidence: number): number {
   if (rating === "again") return round3(Math.max(0.12, priorConfidence * 0.55));
   if (rating === "easy") return round3(Math.min(0.96, Math.max(priorConfidence + 0.32, 0.82)));
+  if (rating === "hard") return round3(Math.min(0.76, Math.max(priorConfidence + 0.1, 0.5)));
   return round3(Math.min(0.88, Math.max(priorConfidence + 0.2, 0.64)));
 }
 
+// Time from card shown to rating, as reported by the client. Anything past an hour is an idle tab, not recall time.
+function normalizeElapsedMs(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) return null;
+  return Math.min(Math.round(value), 3_600_000);
+}
+
 function toFiniteNumber(value: unknown): number {
   return typeof value === "number" && Number.isFinite(value) ? value : 0;
 }
@@ -0,0 +1,72 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+
+// Only the user's most recent review that is still in effect can be undone. Undoing
+// repeatedly walks back through the session in order, so each restore lands on the
+// exact state the next-older review started from.
+export async function POST(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const body = (await req.json().catch(() => null)) as { reviewLogId?: string } | null;
+
+  const user = await prisma.user.findFirst({
+    where: { clerkUserId: userId },
+    select: { id: true },
+  });
+  if (!user) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+  const result = await prisma.$transaction(async (tx) => {
+    const log = await tx.reviewLog.findFirst({
+      where: { userId: user.id, undoneAt: null },
+      orderBy: { reviewedAt: "desc" },
+    });
+    if (!log) return { status: 404 as const, error: "There is no review left to undo." };
+    if (body?.reviewLogId && body.reviewLogId !== log.id) {
+      return { status: 409 as const, error: "Only the most recent review can be undone." };
+    }
+    if (log.previousReps === null || log.previousLapses === null) {
+      return { status: 409 as const, error: "This review was recorded before undo was available." };
+    }
+
+    // Claimed before anything is restored, so two concurrent undos cannot both apply this log.
+    const claimed = await tx.reviewLog.updateMany({ where: { id: log.id, undoneAt: null }, data: { undoneAt: new Date() } });
+    if (!claimed.count) return { status: 409 as const, error: "This review was already undone." };
+
+    await tx.card.update({
+      where: { id: log.cardId },
+      data: {
+        srsEase: log.previousEase,
+        srsReps: log.previousReps,
+        srsIntervalDays: log.previousIntervalDays,
+        srsLapses: log.previousLapses,
+        srsDueAt: log.previousDueAt,
+        lastReviewedAt: log.previousLastReviewedAt,
+        fsrsStability: log.previousStability,
+        fsrsDifficulty: log.previousDifficulty,
+        ...(log.previousSrsState !== null ? { srsState: log.previousSrsState } : {}),
+        ...(log.previousSrsStep !== null ? { srsStep: log.previousSrsStep } : {}),
+        ...(log.leechTriggered ? { suspendedAt: log.previousSuspendedAt, tags: log.previousTags } : {}),
+      },
+    });
+
+    await tx.user.update({
+      where: { id: user.id },
+      data: {
+        xp: { decrement: log.xpGained },
+        ...(log.previousStudyStreak !== null ? { studyStreak: log.previousStudyStreak } : {}),
+        lastStudyDate: log.previousLastStudyDate,
+      },
+    });
+    await tx.user.updateMany({ where: { id: user.id, xp: { lt: 0 } }, data: { xp: 0 } });
+
+    return {
+      status: 200 as const,
+      undone: { reviewLogId: log.id, cardId: log.cardId, rating: log.rating, xpGained: log.xpGained },
+    };
+  });
+
+  if (result.status !== 200) return NextResponse.json({ error: result.error }, { status: result.status });
+  return NextResponse.json({ ok: true, ...result.undone });
+}
@@ -2,6 +2,10 @@
 import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { callLLMResult } from "@/lib/aiClient";
+import { documentToSourceText, isSourceExtractionError, type SourceFileMeta } from "@/lib/extractors/contracts";
+import { parsePageRanges } from "@/lib/extractors/pages";
+import { detectSourceExtractor } from "@/lib/extractors/registry";
+import { extractWebPage } from "@/lib/extractors/web";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -70,62 +74,13 @@ Make the notes comprehensive yet concise, suitable for review and exam prep.`;
   }
 }
 
-async function extractPdfTextFromBuffer(buf: Buffer): Promise<string> {
-  try {
-    const pdfParse = (await import('pdf-parse/lib/pdf-parse.js')).default;
-    console.log("[StudyNotes/PDF] Starting extraction, buffer size:", buf.length);
-    const data = await pdfParse(buf, { max: 0 });
-    
-    if (!data?.text) {
-      console.error("[StudyNotes/PDF] No text content found");
-      return "";
-    }
-    
-    const text = cleanText(data.text);
-    console.log("[StudyNotes/PDF] Extracted", text.length, "characters");
-    return text;
-  } catch (error) {
-    console.error("[StudyNotes/PDF] Error extracting text:", error);
-    return "";
-  }
-}
-
-async function extractPptxTextFromBuffer(buf: Buffer): Promise<string> {
-  try {
-    console.log("[StudyNotes/PPTX] Starting extraction, buffer size:", buf.length);
-    const JSZip = (await import("jszip")).default;
-    const zip = await JSZip.loadAsync(buf);
-    
-    const slideFiles = Object.keys(zip.files)
-      .filter((p) => p.startsWith("ppt/slides/slide") && p.endsWith(".xml"))
-      .sort((a, b) => {
-        const numA = parseInt(a.match(/slide(\d+)\.xml/)?.[1] || "0");
-        const numB = parseInt(b.match(/slide(\d+)\.xml/)?.[1] || "0");
-        return numA - numB;
-      });
-    
-    console.log("[StudyNotes/PPTX] Found", slideFiles.length, "slides");
-    if (slideFiles.length === 0) return "";
-    
-    const chunks: string[] = [];
-    for (const p of slideFiles) {
-      const xml = await zip.files[p].async("string");
-      const slideText = (xml.match(/<a:t>([^<]*)<\/a:t>/g) || [])
-        .map(match => match.replace(/<a:t>|<\/a:t>/g, ""))
-        .filter(text => text.trim().length > 0)
-        .join(" ");
-      if (slideText.trim()) {
-        chunks.push(`[Slide ${chunks.length + 1}] ${cleanText(slideText)}`);
-      }
-    }
-    
-    const fullText = chunks.join("\n\n");
-    console.log("[StudyNotes/PPTX] Extracted", fullText.length, "characters");
-    return fullText;
-  } catch (error) {
-    console.error("[StudyNotes/PPTX] Error extracting text:", error);
-    return "";
-  }
+async function extractDocumentText(buf: Buffer, meta: SourceFileMeta): Promise<{ text: string; kind: string } | null> {
+  const extractor = detectSourceExtractor(buf, meta);
+  if (!extractor) return null;
+  const doc = await extractor.extract(buf, meta);
+  const text = doc ? documentToSourceText(doc) : "";
+  console.log(`[StudyNotes/${extractor.kind}] Extracted`, text.length, "characters");
+  return text ? { text, kind: extractor.kind } : null;
 }
 
 async function extractTextFromSource(fd: FormData): Promise<{ text: string; title: string; source: string }> {
@@ -139,24 +94,20 @@ async function extractTextFromSource(fd: FormData): Promise<{ text: string; titl
   const file = fd.get("file") as File | null;
   const docUrl = (fd.get("docUrl") as string) || "";
   const docName = (fd.get("docName") as string) || "";
+  const pages = parsePageRanges((fd.get("pages") as string) || "") ?? [];
 
   if (textContent) {
     text = truncate(cleanText(textContent));
     source = "text";
   } else if (file) {
-    const fileName = file.name.toLowerCase();
     const buffer = Buffer.from(await file.arrayBuffer());
-    
-    if (fileName.endsWith(".pdf")) {
-      text = await extractPdfTextFromBuffer(buffer);
-      source = "pdf";
-    } else if (fileName.endsWith(".pptx")) {
-      text = await extractPptxTextFromBuffer(buffer);
-      source = "pptx";
+    const extracted = await extractDocumentText(buffer, { name: file.name, type: file.type, pages });
+    if (extracted) {
+      text = truncate(extracted.text);
+      source = extracted.kind;
     }
-    text = truncate(text);
   } else if (docUrl) {
-    // Fetch PDF/PPTX from remote URL (e.g. Vercel Blob) to avoid request-size limits.
+    // Fetch the document from a remote URL (e.g. Vercel Blob) to avoid request-size limits.
     try {
       const head = await fetch(docUrl, { method: "HEAD" }).catch(() => null);
       const ct = head?.ok ? head.headers.get("content-type") || "" : "";
@@ -164,36 +115,21 @@ async function extractTextFromSource(fd: FormData): Promise<{ text: string; titl
       if (!res.ok) throw new Error(`Failed to fetch document (${res.status})`);
       const buffer = Buffer.from(await res.arrayBuffer());
 
-      const lowerName = (docName || "").toLowerCase();
-      const isPdf = lowerName.endsWith(".pdf") || ct.includes("application/pdf");
-      const isPptx = lowerName.endsWith(".pptx") || ct.includes("presentation");
-
-      if (isPdf) {
-        text = await extractPdfTextFromBuffer(buffer);
-        source = "pdf";
-      } else if (isPptx) {
-        text = await extractPptxTextFromBuffer(buffer);
-        source = "pptx";
+      const extracted = await extractDocumentText(buffer, { name: docName, type: ct || undefined, pages });
+      if (extracted) {
+        text = truncate(extracted.text);
+        source = extracted.kind;
       }
-
-      text = truncate(text);
     } catch (err) {
+      if (isSourceExtractionError(err)) throw err;
       console.error("[StudyNotes] docUrl fetch/extract error:", err);
       text = "";
     }
   } else if (urlStr) {
-    // For URLs, try to extract content (simplified - you could enhance this)
     try {
-      const response = await fetch(urlStr);
-      const html = await response.text();
-      // Basic text extraction from HTML
-      const textOnly = html
-        .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, "")
-        .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
-        .replace(/<[^>]+>/g, " ")
-        .replace(/\s+/g, " ")
-        .trim();
-      text = truncate(textOnly);
+      const url = new URL(urlStr.includes("://") ? urlStr : `https://${urlStr}`);
+      const page = await extractWebPage(url);
+      text = page ? truncate(documentToSourceText(page)) : "";
       source = "url";
     } catch (err) {
       console.error("[StudyNotes] URL fetch error:", err);
@@ -280,6 +216,9 @@ export async function POST(req: Request) {
     });
 
   } catch (error: any) {
+    if (isSourceExtractionError(error)) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 400 });
+    }
     console.error("[StudyNotes] Error:", error);
     return NextResponse.json(
       { error: error.message || "Failed to generate study notes" },
@@ -0,0 +1,152 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { LEARN_AHEAD_MINUTES } from "@/lib/srs/contracts";
+import { buildDailyQueue, startOfStudyDay } from "@/lib/srs/dailyQueue";
+import { readSourceSpan, videoMoment } from "@/lib/generation/provenance";
+
+// Reviews are ranked in memory, so bound how many due cards a single request loads.
+const MAX_REVIEW_CANDIDATES = 2000;
+const MAX_LEARNING_CANDIDATES = 500;
+
+const CARD_SELECT = {
+  id: true,
+  deckId: true,
+  question: true,
+  answer: true,
+  kind: true,
+  clozeIndex: true,
+  sourceSpan: true,
+  srsState: true,
+  srsDueAt: true,
+  srsIntervalDays: true,
+} as const;
+
+export async function GET(req: Request) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const url = new URL(req.url);
+  const limit = clampLimit(url.searchParams.get("limit"));
+
+  try {
+    const user = await prisma.user.findFirst({
+      where: { clerkUserId: userId },
+      select: { id: true, dailyNewLimit: true, dailyReviewLimit: true },
+    });
+    if (!user) return NextResponse.json({ error: "Not found" }, { status: 404 });
+
+    const now = new Date();
+    const dayStart = startOfStudyDay(now);
+
+    // Today's budget is whatever the limits leave after reviews already logged since midnight.
+    const [introducedToday, reviewedToday] = await Promise.all([
+      prisma.reviewLog.count({
+        where: { userId: user.id, undoneAt: null, reviewedAt: { gte: dayStart }, previousSrsState: "new" },
+      }),
+      prisma.reviewLog.count({
+        where: { userId: user.id, undoneAt: null, reviewedAt: { gte: dayStart }, previousSrsState: "review" },
+      }),
+    ]);
+    const newRemaining = Math.max(0, user.dailyNewLimit - introducedToday);
+    const reviewRemaining = Math.max(0, user.dailyReviewLimit - reviewedToday);
+
+    const [decks, learning, reviews] = await Promise.all([
+      prisma.deck.findMany({
+        where: { userId: user.id },
+        orderBy: { createdAt: "asc" },
+        select: {
+          id: true,
+          title: true,
+          sourceUrl: true,
+          sourceKind: true,
+          cards: {
+            where: { srsState: "new", suspendedAt: null },
+            orderBy: { createdAt: "asc" },
+            take: newRemaining,
+            select: CARD_SELECT,
+          },
+        },
+      }),
+      prisma.card.findMany({
+        where: {
+          deck: { userId: user.id },
+          suspendedAt: null,
+          srsState: { in: ["learning", "relearning"] },
+          srsDueAt: { lte: new Date(now.getTime() + LEARN_AHEAD_MINUTES * 60_000) },
+        },
+        orderBy: { srsDueAt: "asc" },
+        take: MAX_LEARNING_CANDIDATES,
+        select: CARD_SELECT,
+      }),
+      reviewRemaining > 0
+        ? prisma.card.findMany({
+            where: { deck: { userId: user.id }, suspendedAt: null, srsState: "review", srsDueAt: { lte: now } },
+            orderBy: { srsDueAt: "asc" },
+            take: MAX_REVIEW_CANDIDATES,
+            select: CARD_SELECT,
+          })
+        : Promise.resolve([]),
+    ]);
+
+    const queue = buildDailyQueue({
+      learning,
+      reviews,
+      fresh: decks.flatMap((deck) => deck.cards),
+      newRemaining,
+      reviewRemaining,
+      now,
+    });
+    const decksById = new Map(decks.map((deck) => [deck.id, deck]));
+
+    return NextResponse.json({
+      ok: true,
+      cards: queue.cards.slice(0, limit).map((card) => ({
+        id: card.id,
+        question: card.question,
+        answer: card.answer,
+        kind: card.kind,
+        clozeIndex: card.clozeIndex,
+        deckId: card.deckId,
+        deckTitle: decksById.get(card.deckId)?.title || null,
+        moment: videoMomentFor(card, decksById.get(card.deckId)),
+        figure: readSourceSpan(card.sourceSpan)?.figure ?? null,
+        phase: card.srsState,
+      })),
+      counts: queue.counts,
+      limits: {
+        newPerDay: user.dailyNewLimit,
+        reviewsPerDay: user.dailyReviewLimit,
+        newRemaining,
+        reviewRemaining,
+      },
+      deckCount: decks.length,
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "";
+    const missingColumn = /dailyNewLimit|dailyReviewLimit|srsState|previousSrsState|ReviewLog|does not exist/i.test(message);
+
+    return NextResponse.json(
+      {
+        ok: false,
+        error: missingColumn
+          ? "The daily study queue is not available yet. Apply the latest Prisma migration before using this endpoint."
+          : "Failed to build today's study queue.",
+      },
+      { status: missingColumn ? 503 : 500 }
+    );
+  }
+}
+
+function clampLimit(raw: string | null): number {
+  const parsed = Number(raw || 100);
+  if (!Number.isFinite(parsed)) return 100;
+  return Math.max(1, Math.min(500, Math.floor(parsed)));
+}
+
+function videoMomentFor(
+  card: { sourceSpan: unknown },
+  deck: { sourceUrl: string | null; sourceKind: string | null } | undefined
+) {
+  return deck ? videoMoment(readSourceSpan(card.sourceSpan), deck) : null;
+}
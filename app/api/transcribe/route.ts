@@ -1,16 +1,26 @@
 import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
 import { put } from "@vercel/blob";
-import { transcribeAudioUrlWithRunpod } from "@/lib/asrClient";
+import { asrBackend, transcribeAudioUrl, type ASRResult } from "@/lib/asrClient";
+import { audioUrlError, transcribeAudioLocally } from "@/lib/localAsr";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
 export async function POST(req: Request) {
   try {
+    // Local Whisper runs on this server's CPU, one job at a time, so it is not offered anonymously.
+    const local = asrBackend() === "local";
+    if (local) {
+      const { userId } = await auth();
+      if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
     const ct = req.headers.get("content-type") || "";
 
     let url = "";
     let uploaded = false;
+    let localFile: Buffer | null = null;
 
     // Mode B: JSON { audioUrl }
     if (ct.includes("application/json")) {
@@ -71,22 +81,31 @@ export async function POST(req: Request) {
           return NextResponse.json({ error: "Missing file (form field name: file) or audioUrl" }, { status: 400 });
         }
 
-        const safeName = (file.name || "audio.mp3").replace(/[^a-zA-Z0-9._-]+/g, "_");
-        const pathname = `uploads/audio/${Date.now()}-${safeName}`;
+        if (local) {
+          // Local Whisper reads the upload directly; only RunPod needs a public URL.
+          localFile = Buffer.from(await file.arrayBuffer());
+        } else {
+          const safeName = (file.name || "audio.mp3").replace(/[^a-zA-Z0-9._-]+/g, "_");
+          const pathname = `uploads/audio/${Date.now()}-${safeName}`;
 
-        const blob = await put(pathname, file, {
-          access: "public",
-          contentType: file.type || "application/octet-stream",
-          addRandomSuffix: true,
-        });
+          const blob = await put(pathname, file, {
+            access: "public",
+            contentType: file.type || "application/octet-stream",
+            addRandomSuffix: true,
+          });
 
-        url = blob.url;
-        uploaded = true;
+          url = blob.url;
+          uploaded = true;
+        }
       }
     }
 
+    // This server fetches the URL itself when transcribing locally.
+    const urlError = local && !localFile ? audioUrlError(url) : null;
+    if (urlError) return NextResponse.json({ error: urlError }, { status: 400 });
+
     const timeoutMs = Number(process.env.RUNPOD_ASR_TIMEOUT_MS || 90_000);
-    const result = await transcribeAudioUrlWithRunpod(url, { timeoutMs });
+    const result: ASRResult = localFile ? await transcribeAudioLocally(localFile) : await transcribeAudioUrl(url, { timeoutMs });
     if (!result.ok) {
       const status =
         result.code === "TIMEOUT" ? 504 : result.code === "NOT_CONFIGURED" ? 500 : result.code === "EXCEPTION" ? 500 : 502;
@@ -107,7 +126,7 @@ export async function POST(req: Request) {
       transcript: result.transcript,
       segments: (result as any).segments ?? null,
       detectedLanguage: (result as any).detectedLanguage ?? null,
-      audioUrl: url,
+      audioUrl: url || null,
       uploaded,
       ...(includeRaw ? { raw: (result as any).raw ?? null } : {}),
     });
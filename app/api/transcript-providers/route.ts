@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { isInternalOperator } from "@/lib/internalAccess";
+import { transcriptProviderHealth } from "@/lib/transcriptProviders";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Which transcript providers are configured, in what order, and how each has been doing:
+// success and failure counts, latency, failure reasons and whether it is currently demoted.
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ ok: false, error: "Unauthorized" }, { status: 401 });
+  }
+  if (!isInternalOperator(userId)) {
+    return NextResponse.json({ ok: false, error: "Forbidden" }, { status: 403 });
+  }
+
+  return NextResponse.json({ ok: true, ...transcriptProviderHealth() });
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { fetchSupadataTranscript, isYouTubeUrl } from "@/lib/supadata";
+import { readCachedTranscript, saveTranscript } from "@/lib/transcriptCache";
+import { extractYouTubeId } from "@/lib/youtube";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -18,6 +20,18 @@ export async function POST(req: Request) {
       return NextResponse.json({ error: "Only YouTube URLs are supported" }, { status: 400 });
     }
 
+    const videoId = extractYouTubeId(youtubeUrl);
+    const cached = videoId ? await readCachedTranscript(videoId, language || undefined) : null;
+    if (cached) {
+      return NextResponse.json({
+        transcript: cached.text,
+        captions: cached.cues ?? undefined,
+        lang: cached.language,
+        provider: cached.provider,
+        cached: true,
+      });
+    }
+
     const r = await fetchSupadataTranscript({ youtubeUrl, language });
     if (!r.ok) {
       const status = r.reason === "NOT_CONFIGURED" ? 500 : 502;
@@ -27,10 +41,16 @@ export async function POST(req: Request) {
       );
     }
 
+    // Keyed by the track Supadata returned: without a language that is the video's own, not English.
+    if (videoId) await saveTranscript({ videoId, language: r.lang ?? language, provider: "supadata", text: r.transcript, cues: r.cues });
+
     return NextResponse.json({
       transcript: r.transcript,
+      captions: r.cues,
       lang: r.lang,
       availableLangs: r.availableLangs,
+      provider: "supadata",
+      cached: false,
     });
   } catch (e: any) {
     return NextResponse.json({ error: e?.message ?? "Server error" }, { status: 500 });
@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { transcribeYoutubeUrlWithRunpod } from "@/lib/runpodYoutubeClient";
+import { readCachedTranscript, saveTranscript } from "@/lib/transcriptCache";
+import { extractYouTubeId } from "@/lib/youtube";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -34,6 +36,16 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "Missing url", code: "URL_REQUIRED" }, { status: 400 });
   }
 
+  // Paid ASR: reuse any transcript already on file for this video, whichever provider and track made it.
+  const videoId = extractYouTubeId(url);
+  const cached = videoId ? await readCachedTranscript(videoId) : null;
+  if (cached) {
+    return NextResponse.json(
+      { ok: true, transcript: cached.text, id: null, language: cached.language, provider: cached.provider, cached: true },
+      { status: 200 }
+    );
+  }
+
   const result = await transcribeYoutubeUrlWithRunpod(url, {
     timeoutMs: Number(process.env.RUNPOD_YOUTUBE_TIMEOUT_MS || 180_000),
   });
@@ -50,5 +62,10 @@ export async function POST(req: Request) {
     );
   }
 
-  return NextResponse.json({ ok: true, transcript: result.transcript, id: result.id ?? null }, { status: 200 });
+  if (videoId) await saveTranscript({ videoId, language: result.language, provider: "runpod-youtube", text: result.transcript });
+
+  return NextResponse.json(
+    { ok: true, transcript: result.transcript, id: result.id ?? null, language: result.language, provider: "runpod-youtube", cached: false },
+    { status: 200 }
+  );
 }
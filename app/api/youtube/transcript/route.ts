@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
 import { z } from "zod";
-import { downloadYouTubeSubtitles, parseVTT } from "@/lib/fallback/yt-dlp";
 import { extractYouTubeId, fetchYouTubeOEmbed } from "@/lib/youtube";
-import type { Cue } from "@/lib/captions";
-import { readFileSync } from "fs";
+import { getOrFetchTranscript, invalidateTranscript, listCachedTranscripts } from "@/lib/transcriptCache";
+import { fetchTranscriptFromChain } from "@/lib/transcriptProviders";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -14,11 +14,6 @@ const BodySchema = z.object({
   lang: z.string().min(2).max(10).optional()
 });
 
-// Very small in-memory cache to avoid re-fetching during hot usage
-// (swap this for Redis in prod)
-const cache = new Map<string, any>();
-const TTL_MS = 10 * 60 * 1000;
-
 async function readBody(req: NextRequest): Promise<{ url: string; lang?: string }> {
   const ct = req.headers.get("content-type") || "";
 
@@ -47,64 +42,6 @@ async function readBody(req: NextRequest): Promise<{ url: string; lang?: string
   return BodySchema.parse({ url, ...(lang ? { lang } : {}) });
 }
 
-async function fetchCaptionsViaYtdlCore(id: string): Promise<string | null> {
-  try {
-    const ytdl = (await import("ytdl-core")) as any;
-    const info = await (ytdl.default ? ytdl.default.getInfo(id) : ytdl.getInfo(id));
-    const pr =
-      info.player_response ||
-      (typeof info.player_response === "string" ? JSON.parse(info.player_response) : info.player_response) ||
-      info.playerResponse;
-
-    const tracks = pr?.captions?.playerCaptionsTracklistRenderer?.captionTracks;
-    if (!tracks || !tracks.length) return null;
-
-    const track = tracks.find((t: any) => t.languageCode === "en") || tracks[0];
-    const baseUrl: string = track.baseUrl;
-
-    // Try JSON3 first
-    try {
-      const r = await fetch(baseUrl + "&fmt=json3");
-      if (r.ok) {
-        const j: any = await r.json();
-        const text = (j.events || [])
-          .map((ev: any) => (ev.segs || []).map((s: any) => s.utf8 || "").join(""))
-          .join(" ");
-        return String(text || "").replace(/\s+/g, " ").trim() || null;
-      }
-    } catch {
-      // ignore
-    }
-
-    // Fallback to XML timedtext
-    try {
-      const r2 = await fetch(baseUrl);
-      if (r2.ok) {
-        const xml = await r2.text();
-        const matches = Array.from(xml.matchAll(/<text[^>]*>([^<]*)<\/text>/g));
-        const text = matches
-          .map((m: any) =>
-            String(m[1] || "")
-              .replace(/&amp;/g, "&")
-              .replace(/&#39;/g, "'")
-              .replace(/&quot;/g, '"')
-              .replace(/&gt;/g, ">")
-              .replace(/&lt;/g, "<")
-          )
-          .join(" ");
-        return String(text || "").replace(/\s+/g, " ").trim() || null;
-      }
-    } catch {
-      // ignore
-    }
-
-    return null;
-  } catch (e) {
-    console.warn("[youtube/transcript] ytdl-core fallback failed:", (e as any)?.message || e);
-    return null;
-  }
-}
-
 export async function POST(req: NextRequest) {
   try {
     const { url, lang } = await readBody(req);
@@ -113,62 +50,32 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: "invalid_youtube_url" }, { status: 400 });
     }
 
-    const cacheKey = `${id}:${lang ?? "en"}`;
-    const hit = cache.get(cacheKey);
-    if (hit && Date.now() - hit.ts < TTL_MS) {
-      return NextResponse.json(hit.payload);
-    }
-
-    let captions: Cue[] | null = null;
-    let provider: "youtube" | "ytdl-core" = "youtube";
-    let rawTranscript: string | null = null;
-
-    // 1) Download subtitles using yt-dlp (most reliable when available)
-    try {
-      console.log(`[youtube/transcript] Downloading subtitles for ${id} (lang: ${lang ?? "en"})`);
-      const subtitlePath = await downloadYouTubeSubtitles(id, {
-        lang: lang ?? "en",
-        format: "vtt",
-      });
-
-      const vttContent = readFileSync(subtitlePath, "utf-8");
-      captions = parseVTT(vttContent);
-      if (captions && captions.length > 0) {
-        console.log(`[youtube/transcript] Successfully parsed ${captions.length} caption segments (yt-dlp)`);
-      } else {
-        captions = null;
-      }
-    } catch (e) {
-      console.warn("[youtube/transcript] yt-dlp failed, trying ytdl-core fallback:", (e as any)?.message || e);
-    }
+    const language = lang ?? "en";
+    // This endpoint has always read captions straight from YouTube rather than the hosted API.
+    const transcript = await getOrFetchTranscript(id, language, async () => {
+      const result = await fetchTranscriptFromChain({ videoId: id, url, language }, { chain: ["yt-dlp", "ytdl-core"] });
+      return result.ok ? { provider: result.provider, text: result.text, cues: result.cues, language: result.language } : null;
+    });
 
-    // 2) Fallback: fetch captions directly via ytdl-core (no external binary)
-    if (!captions) {
-      provider = "ytdl-core";
-      rawTranscript = await fetchCaptionsViaYtdlCore(id);
-      if (!rawTranscript) {
-        const payload = { provider: "youtube", videoId: id, error: "no_captions_available" };
-        cache.set(cacheKey, { ts: Date.now(), payload });
-        return NextResponse.json(payload, { status: 404 });
-      }
+    if (!transcript) {
+      return NextResponse.json({ provider: "youtube", videoId: id, error: "no_captions_available" }, { status: 404 });
     }
 
     const meta = await fetchYouTubeOEmbed(url);
-    const payload = {
-      provider,
+    return NextResponse.json({
+      provider: transcript.provider,
+      cached: transcript.cached,
+      fetchedAt: transcript.fetchedAt.toISOString(),
       videoId: id,
-      language: lang ?? "en",
-      captions: captions ?? undefined,
-      transcript: rawTranscript ?? undefined,
+      language: transcript.language,
+      captions: transcript.cues ?? undefined,
+      transcript: transcript.cues ? undefined : transcript.text,
       metadata: {
         title: "title" in meta ? meta.title : undefined,
         author: "author_name" in meta ? meta.author_name : undefined,
         thumbnail: "thumbnail_url" in meta ? meta.thumbnail_url : undefined
       }
-    };
-
-    cache.set(cacheKey, { ts: Date.now(), payload });
-    return NextResponse.json(payload);
+    });
   } catch (e: any) {
     // Common cases: region/age-gated video; deleted video; network hiccup; yt-dlp not installed
     console.error("[youtube/transcript] Error:", e);
@@ -177,4 +84,56 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+// Shows what the shared transcript cache holds for a video and which provider produced it,
+// without fetching anything: GET /api/youtube/transcript?url=<video url>
+export async function GET(req: NextRequest) {
+  const id = extractYouTubeId(req.nextUrl.searchParams.get("url") || "");
+  if (!id) {
+    return NextResponse.json({ error: "invalid_youtube_url" }, { status: 400 });
+  }
+
+  try {
+    const entries = await listCachedTranscripts(id);
+    return NextResponse.json({
+      videoId: id,
+      cached: entries.map((entry) => ({ ...entry, fetchedAt: entry.fetchedAt.toISOString() })),
+    });
+  } catch (e: unknown) {
+    return transcriptCacheUnavailable(e);
+  }
+}
+
+// Drops cached transcripts so the next request refetches: DELETE /api/youtube/transcript?url=…[&lang=en]
+// The route is public for reads, so invalidation at least needs a signed-in user.
+export async function DELETE(req: NextRequest) {
+  const { userId } = await auth();
+  if (!userId) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  const id = extractYouTubeId(req.nextUrl.searchParams.get("url") || "");
+  if (!id) {
+    return NextResponse.json({ error: "invalid_youtube_url" }, { status: 400 });
+  }
+
+  try {
+    const lang = (req.nextUrl.searchParams.get("lang") || "").trim() || undefined;
+    const removed = await invalidateTranscript(id, lang);
+    return NextResponse.json({ ok: true, videoId: id, removed });
+  } catch (e: unknown) {
+    return transcriptCacheUnavailable(e);
+  }
+}
+
+function transcriptCacheUnavailable(error: unknown) {
+  const message = error instanceof Error ? error.message : "";
+  const missingTable = /Transcript|does not exist/i.test(message);
+  return NextResponse.json(
+    {
+      error: missingTable
+        ? "The transcript cache is not available yet. Apply the latest Prisma migration before using this endpoint."
+        : "Failed to read the transcript cache.",
+    },
+    { status: missingTable ? 503 : 500 }
+  );
+}
@@ -0,0 +1,42 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import CourseProgress from "@/components/CourseProgress";
+import { courseView, COURSE_VIEW_SELECT } from "@/lib/generation/courses";
+
+export const dynamic = "force-dynamic";
+
+export default async function CoursePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const { userId } = await auth();
+  if (!userId) redirect(`/?next=${encodeURIComponent(`/app/course/${id}`)}`);
+
+  const course = await prisma.course
+    .findFirst({ where: { id, user: { clerkUserId: userId } }, select: COURSE_VIEW_SELECT })
+    .catch(() => null);
+  if (!course) return notFound();
+  const view = courseView(course);
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 space-y-6">
+      <section className="space-y-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">Course</p>
+        <h1 className="text-2xl font-semibold">{view.title}</h1>
+        <p className="text-sm text-slate-600">
+          One deck per video from this YouTube {view.sourceKind === "channel" ? "channel" : "playlist"}, built in order.{" "}
+          <a href={view.sourceUrl} target="_blank" rel="noreferrer" className="underline">
+            Open on YouTube ↗
+          </a>
+        </p>
+        {view.counts.succeeded ? (
+          <Link href="/app/study" className="inline-block text-xs font-medium text-sky-700 hover:text-sky-900">
+            Study everything due across your decks
+          </Link>
+        ) : null}
+      </section>
+
+      <CourseProgress initial={view} />
+    </div>
+  );
+}
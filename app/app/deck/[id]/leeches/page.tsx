@@ -0,0 +1,75 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import { cardFaces } from "@/lib/cards/cloze";
+import { LEECH_TAG } from "@/lib/srs/leech";
+import DeckLeechSettings from "@/components/DeckLeechSettings";
+import LeechCardActions from "@/components/LeechCardActions";
+
+export const dynamic = "force-dynamic";
+
+export default async function DeckLeechesPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const { userId } = await auth();
+  if (!userId) redirect(`/?next=${encodeURIComponent(`/app/deck/${id}/leeches`)}`);
+
+  const deck = await prisma.deck.findFirst({
+    where: { id, user: { clerkUserId: userId } },
+    select: { id: true, title: true, leechThreshold: true, leechAction: true },
+  });
+  if (!deck) return notFound();
+
+  const leeches = await prisma.card.findMany({
+    where: { deckId: deck.id, OR: [{ tags: { has: LEECH_TAG } }, { suspendedAt: { not: null } }] },
+    orderBy: [{ srsLapses: "desc" }, { createdAt: "asc" }],
+    select: { id: true, question: true, answer: true, kind: true, clozeIndex: true, srsLapses: true, tags: true, suspendedAt: true },
+  });
+  const cards = leeches.map((card) => ({ ...card, faces: cardFaces(card) }));
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 space-y-8">
+      <section className="space-y-3">
+        <p className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">Leeches</p>
+        <div className="flex items-center justify-between gap-3">
+          <h1 className="text-lg font-semibold">Cards that keep slipping in {deck.title}</h1>
+          <Link href={`/app/deck/${deck.id}`} className="text-sm text-slate-600 hover:text-slate-900">Back to deck</Link>
+        </div>
+        <p className="text-sm text-slate-600">
+          A card is flagged once you have forgotten it {deck.leechThreshold} times. Rewriting it or getting a focused
+          explanation usually works better than drilling the same wording again.
+        </p>
+        <DeckLeechSettings deckId={deck.id} threshold={deck.leechThreshold} action={deck.leechAction} />
+      </section>
+
+      {cards.length ? (
+        <ul className="space-y-4">
+          {cards.map((card) => (
+            <li key={card.id} className="rounded-2xl border p-4 space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <div className="font-medium whitespace-pre-wrap">{card.faces.front}</div>
+                  <div className="mt-1 text-sm text-slate-600 whitespace-pre-wrap">{card.faces.back}</div>
+                </div>
+                <div className="shrink-0 text-right text-xs text-slate-500">
+                  <div>{card.srsLapses} lapses</div>
+                  {card.suspendedAt ? <div className="mt-1 font-medium text-amber-700">Suspended</div> : null}
+                </div>
+              </div>
+              <LeechCardActions
+                cardId={card.id}
+                deckId={deck.id}
+                question={card.faces.front}
+                lapses={card.srsLapses}
+                suspended={!!card.suspendedAt}
+                tags={card.tags}
+              />
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="rounded border p-6 text-sm text-gray-500">No leeches in this deck right now.</div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import { notFound } from "next/navigation";
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
 import { auth } from "@clerk/nextjs/server";
 import { prisma } from "@/lib/db";
 
@@ -9,6 +10,13 @@ import StudyCarousel from "@/components/StudyCarousel";
 import ExportButtons from "@/components/ExportButtons";
 import RegenerateDeckButton from "@/components/RegenerateDeckButton";
 import DeckCardList from "@/components/DeckCardList";
+import DeckSchedulerSelect from "@/components/DeckSchedulerSelect";
+import DeckLearningSteps from "@/components/DeckLearningSteps";
+import { LOW_OCR_CONFIDENCE, readOcrConfidence, type OcrSectionConfidence } from "@/lib/extractors/ocr";
+import { LEECH_TAG } from "@/lib/srs/leech";
+import { formatStepList, readStepsConfig } from "@/lib/srs/steps";
+import type { ChunkCoverage } from "@/lib/generation/chunks";
+import { readSourceSpan, sourceSpanHref, sourceSpanLabel } from "@/lib/generation/provenance";
 
 export const dynamic = "force-dynamic";
 
@@ -30,9 +38,29 @@ export default async function DeckPage({
 
   const deck = await prisma.deck.findFirst({
     where: { id, user: { clerkUserId: userId } },
-    include: { cards: { orderBy: { createdAt: "asc" }, select: { id: true, question: true, answer: true } } },
+    include: {
+      cards: { orderBy: { createdAt: "asc" }, select: { id: true, question: true, answer: true, kind: true, clozeIndex: true, noteId: true, sourceSpan: true } },
+      course: { select: { id: true, title: true } },
+    },
   });
   if (!deck) return notFound();
+  const steps = readStepsConfig(deck);
+  const sourceChunks = readSourceChunks(deck.sourceChunks);
+  const coveredChunks = sourceChunks.filter((chunk) => chunk.selected > 0).length;
+  const ocrSections = readOcrConfidence(deck.sourceOcrConfidence);
+  const lowOcrSections = ocrSections.filter((section) => section.confidence < LOW_OCR_CONFIDENCE);
+  const cards = deck.cards.map(({ sourceSpan, ...card }) => {
+    const span = readSourceSpan(sourceSpan);
+    return {
+      ...card,
+      source: span
+        ? { label: sourceSpanLabel(span), excerpt: span.excerpt, href: sourceSpanHref(span, deck), figure: span.figure ?? null }
+        : null,
+    };
+  });
+  const leechCount = await prisma.card
+    .count({ where: { deckId: deck.id, OR: [{ tags: { has: LEECH_TAG } }, { suspendedAt: { not: null } }] } })
+    .catch(() => 0);
 
   return (
     <div className="max-w-3xl mx-auto p-6 space-y-8">
@@ -44,10 +72,36 @@ export default async function DeckPage({
           <DeleteDeckButton deckId={deck.id} />
         </div>
       </div>
+      {deck.course ? (
+        <p className="-mt-6 text-xs text-slate-500">
+          {typeof deck.coursePosition === "number" ? `Video ${deck.coursePosition + 1} of ` : "Part of "}
+          <Link href={`/app/course/${deck.course.id}`} className="underline">
+            {deck.course.title}
+          </Link>
+        </p>
+      ) : null}
 
       <section className="space-y-3">
         <p className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">Study</p>
-        <h2 className="text-lg font-semibold">Guided session</h2>
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold">Guided session</h2>
+          <div className="flex items-center gap-3">
+            <Link href={`/app/exam?deck=${deck.id}`} className="text-xs font-medium text-sky-700 hover:text-sky-900">
+              Mock test
+            </Link>
+            {leechCount ? (
+              <Link href={`/app/deck/${deck.id}/leeches`} className="text-xs font-medium text-amber-700 hover:text-amber-900">
+                Leeches ({leechCount})
+              </Link>
+            ) : null}
+            <DeckSchedulerSelect deckId={deck.id} initial={deck.srsScheduler} />
+          </div>
+        </div>
+        <DeckLearningSteps
+          deckId={deck.id}
+          learningSteps={formatStepList(steps.learningSteps)}
+          relearningSteps={formatStepList(steps.relearningSteps)}
+        />
         <StudyCarousel
           deckId={deck.id}
           focusConcept={focusConcept}
@@ -59,13 +113,64 @@ export default async function DeckPage({
       <section className="space-y-3">
         <p className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">Library</p>
         <h2 className="text-lg font-semibold">Add or refine study material</h2>
+        {sourceChunks.length ? (
+          <details className="rounded-lg border border-slate-200 px-3 py-2 text-sm text-slate-600">
+            <summary className="cursor-pointer">
+              Generated from {coveredChunks} of {sourceChunks.length} sections of the source
+            </summary>
+            <ul className="mt-2 space-y-1">
+              {sourceChunks.map((chunk) => (
+                <li key={chunk.index} className="flex items-center justify-between gap-3">
+                  <span className={chunk.selected ? "" : "text-slate-400"}>{chunk.label}</span>
+                  <span className="text-xs text-slate-500">
+                    {chunk.selected} {chunk.selected === 1 ? "card" : "cards"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        ) : null}
+        {ocrSections.length ? (
+          <details
+            open={lowOcrSections.length > 0}
+            className={`rounded-lg border px-3 py-2 text-sm ${lowOcrSections.length ? "border-amber-200 bg-amber-50 text-amber-900" : "border-slate-200 text-slate-600"}`}
+          >
+            <summary className="cursor-pointer">
+              Read by OCR: {ocrSections.length} {ocrUnit(ocrSections)}
+              {lowOcrSections.length ? `, ${lowOcrSections.length} with low confidence. Check their cards against the original.` : null}
+            </summary>
+            <ul className="mt-2 space-y-1">
+              {ocrSections.map((section) => (
+                <li key={`${section.kind}-${section.number}`} className="flex items-center justify-between gap-3">
+                  <span>{section.kind === "page" ? `Page ${section.number}` : "Image"}</span>
+                  <span className={`text-xs ${section.confidence < LOW_OCR_CONFIDENCE ? "font-medium text-amber-700" : "text-slate-500"}`}>
+                    {section.confidence}% confidence
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </details>
+        ) : null}
         <AddCardForm deckId={deck.id} />
-        <DeckCardList cards={deck.cards} />
+        <DeckCardList cards={cards} />
       </section>
     </div>
   );
 }
 
+function readSourceChunks(value: unknown): ChunkCoverage[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (chunk): chunk is ChunkCoverage =>
+      !!chunk && typeof chunk === "object" && typeof chunk.label === "string" && typeof chunk.selected === "number"
+  );
+}
+
+function ocrUnit(sections: OcrSectionConfidence[]): string {
+  const unit = sections.every((section) => section.kind === "page") ? "page" : "image";
+  return sections.length === 1 ? unit : `${unit}s`;
+}
+
 function cleanQueryValue(value: string | undefined): string | null {
   const trimmed = String(value || "").trim();
   return trimmed || null;
@@ -0,0 +1,61 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { auth } from "@clerk/nextjs/server";
+import { prisma } from "@/lib/db";
+import ExamRunner from "@/components/ExamRunner";
+
+export const dynamic = "force-dynamic";
+
+export default async function ExamPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ deck?: string | string[]; attempt?: string }>;
+}) {
+  const { userId } = await auth();
+  if (!userId) redirect(`/?next=${encodeURIComponent("/app/exam")}`);
+
+  const { deck, attempt } = await searchParams;
+  const requestedDeckIds = (Array.isArray(deck) ? deck : deck ? [deck] : []).filter(Boolean);
+
+  const decks = await prisma.deck.findMany({
+    where: { user: { clerkUserId: userId } },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, title: true, _count: { select: { cards: { where: { suspendedAt: null } } } } },
+  });
+  const recentAttempts = await prisma.examAttempt
+    .findMany({
+      where: { user: { clerkUserId: userId }, submittedAt: { not: null } },
+      orderBy: { startedAt: "desc" },
+      take: 5,
+      select: { id: true, title: true, score: true, submittedAt: true },
+    })
+    .catch(() => []);
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 space-y-8">
+      <section className="space-y-3">
+        <p className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">Assessment</p>
+        <div className="flex items-center justify-between gap-3">
+          <h1 className="text-lg font-semibold">Practice exam</h1>
+          <Link href="/app" className="text-sm text-slate-600 hover:text-slate-900">Back to workspace</Link>
+        </div>
+        <p className="text-sm text-slate-600">
+          A timed mock test mixing multiple-choice, typed-answer and fill-in-the-blank questions. Nothing here changes
+          your review schedule; missed concepts are added to your tutor&apos;s weak spots.
+        </p>
+      </section>
+
+      <ExamRunner
+        decks={decks.map((item) => ({ id: item.id, title: item.title, cardCount: item._count.cards }))}
+        initialDeckIds={requestedDeckIds.filter((id) => decks.some((item) => item.id === id))}
+        initialAttemptId={attempt || null}
+        recentAttempts={recentAttempts.map((item) => ({
+          id: item.id,
+          title: item.title,
+          score: item.score,
+          submittedAt: item.submittedAt ? item.submittedAt.toISOString() : null,
+        }))}
+      />
+    </div>
+  );
+}
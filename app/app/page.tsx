@@ -9,6 +9,7 @@ import { formatStudentState } from "@/lib/reasoningEngine/studentState";
 import CreateForm from "@/components/CreateForm";
 import DeckCarousel from "@/components/DeckCarousel";
 import DeleteAllDecksButton from "@/components/DeleteAllDecksButton";
+import ImportDeckForm from "@/components/ImportDeckForm";
 
 export default async function AppPage() {
   let userId: string | null = null;
@@ -53,6 +54,7 @@ export default async function AppPage() {
   }
 
   let decks: Array<{ id: string; title: string; createdAt: Date; _count: { cards: number } } > = [];
+  let courses: Array<{ id: string; title: string; createdAt: Date; _count: { decks: number; generationJobs: number } }> = [];
   let studentState: ReturnType<typeof formatStudentState> | null = null;
   let recentRuns: Array<{
     id: string;
@@ -151,6 +153,12 @@ export default async function AppPage() {
     console.error("[App] Error fetching decks:", error);
   }
 
+  courses = await prisma.course.findMany({
+    where: { user: { clerkUserId: userId } },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, title: true, createdAt: true, _count: { select: { decks: true, generationJobs: true } } },
+  }).catch(() => []);
+
   const analytics = recentRuns.length ? summarizeReasoningRuns(recentRuns) : null;
   const workspaceTutorBrief = buildWorkspaceTutorBrief(studentState, analytics, decks.length);
   const memoryMoments = buildTutorMemoryMoments(studentState, analytics);
@@ -170,6 +178,16 @@ export default async function AppPage() {
             ))}
           </div>
           <div className="mt-5 flex flex-wrap gap-3">
+            {decks.length ? (
+              <Link href="/app/study" className="rounded-full bg-sky-700 px-4 py-2 text-sm font-medium text-white hover:bg-sky-800">
+                Study everything due
+              </Link>
+            ) : null}
+            {decks.length ? (
+              <Link href="/app/exam" className="rounded-full border border-slate-300 px-4 py-2 text-sm font-medium text-slate-900 hover:bg-white">
+                Take a practice exam
+              </Link>
+            ) : null}
             <Link href="/app/progress" className="rounded-full bg-slate-950 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800">
               Review my progress
             </Link>
@@ -202,6 +220,11 @@ export default async function AppPage() {
           <div className="rounded border p-4">
             <CreateForm />
           </div>
+          <details className="rounded border p-4">
+            <summary className="cursor-pointer text-sm font-medium">Import an existing deck</summary>
+            <p className="mt-2 mb-3 text-sm text-gray-600">Bring cards over from Anki, a spreadsheet or a Quizlet export. Review progress carries over from Anki packages.</p>
+            <ImportDeckForm />
+          </details>
         </section>
 
         <section className="space-y-4">
@@ -216,6 +239,25 @@ export default async function AppPage() {
               </div>
             )}
           </div>
+          {courses.length ? (
+            <ul className="divide-y rounded border">
+              {courses.map((course) => (
+                <li key={course.id} className="p-4 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <Link href={`/app/course/${course.id}`} className="font-medium hover:underline truncate block">
+                      {course.title}
+                    </Link>
+                    <p className="text-xs text-gray-500">
+                      Course • {course._count.decks} of {course._count.generationJobs} video deck{course._count.generationJobs === 1 ? "" : "s"} ready
+                    </p>
+                  </div>
+                  <Link href={`/app/course/${course.id}`} className="text-sm px-3 py-1.5 rounded border hover:bg-gray-50 whitespace-nowrap">
+                    Open course
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          ) : null}
           {decks.length === 0 ? (
             <div className="rounded border p-6 text-sm text-gray-500">No study sets yet. Build one on the left to start a guided session.</div>
           ) : (
@@ -0,0 +1,27 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { auth } from "@clerk/nextjs/server";
+import StudyCarousel from "@/components/StudyCarousel";
+
+export const dynamic = "force-dynamic";
+
+export default async function StudyTodayPage() {
+  const { userId } = await auth();
+  if (!userId) redirect(`/?next=${encodeURIComponent("/app/study")}`);
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 space-y-8">
+      <section className="space-y-3">
+        <p className="text-xs font-semibold uppercase tracking-[0.18em] text-slate-500">Study</p>
+        <div className="flex items-center justify-between gap-3">
+          <h1 className="text-lg font-semibold">Everything due today</h1>
+          <Link href="/app" className="text-sm text-slate-600 hover:text-slate-900">Back to workspace</Link>
+        </div>
+        <p className="text-sm text-slate-600">
+          Learning cards come first, then overdue reviews and today&apos;s new cards, mixed across all of your decks.
+        </p>
+        <StudyCarousel />
+      </section>
+    </div>
+  );
+}
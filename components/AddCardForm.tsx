@@ -1,26 +1,32 @@
 "use client";
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
+import { clozeIndexes, type CardKind } from "@/lib/cards/cloze";
 
 export default function AddCardForm({ deckId }: { deckId: string }) {
+  const [kind, setKind] = useState<CardKind>("basic");
   const [q, setQ] = useState("");
   const [a, setA] = useState("");
   const [busy, setBusy] = useState(false);
+  const clozeRef = useRef<HTMLTextAreaElement>(null);
   const router = useRouter();
 
+  const deletions = kind === "cloze" ? clozeIndexes(q).length : 0;
+  const ready = kind === "cloze" ? deletions > 0 : !!q.trim() && !!a.trim();
+
   async function add() {
-    if (!q.trim() || !a.trim() || busy) return;
+    if (!ready || busy) return;
     setBusy(true);
     const t = toast.loading("Adding study prompt...");
     try {
       const res = await fetch(`/api/deck/${deckId}/card`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ question: q, answer: a }),
+        body: JSON.stringify({ question: q, answer: a, kind }),
       });
       if (!res.ok) throw new Error("We couldn't add this study prompt.");
-      toast.success("Study prompt added");
+      toast.success(kind === "cloze" ? `Cloze note added (${deletions} prompt${deletions === 1 ? "" : "s"})` : "Study prompt added");
       setQ(""); setA("");
       router.refresh();
     } catch (e: any) {
@@ -31,22 +37,64 @@ export default function AddCardForm({ deckId }: { deckId: string }) {
     }
   }
 
+  // Wraps the selected text in the next free deletion, e.g. {{c3::selection}}.
+  function wrapSelection() {
+    const el = clozeRef.current;
+    if (!el || el.selectionStart === el.selectionEnd) {
+      toast.info("Select the words to hide first.");
+      return;
+    }
+    const next = Math.max(0, ...clozeIndexes(q)) + 1;
+    const { selectionStart: start, selectionEnd: end } = el;
+    setQ(`${q.slice(0, start)}{{c${next}::${q.slice(start, end)}}}${q.slice(end)}`);
+  }
+
   return (
     <div className="rounded border p-4 space-y-3">
-      <h3 className="font-medium">Add a study prompt</h3>
-      <input
-        value={q} onChange={(e) => setQ(e.target.value)}
-        placeholder="Prompt or question"
-        className="w-full border rounded p-2"
-        maxLength={500}
-      />
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="font-medium">Add a study prompt</h3>
+        <div className="flex gap-1 text-xs">
+          {(["basic", "cloze"] as const).map((value) => (
+            <button
+              key={value}
+              type="button"
+              className={`px-2 py-1 rounded border ${kind === value ? "bg-black text-white" : ""}`}
+              onClick={() => setKind(value)}
+            >
+              {value === "basic" ? "Question & answer" : "Cloze"}
+            </button>
+          ))}
+        </div>
+      </div>
+      {kind === "cloze" ? (
+        <>
+          <textarea
+            ref={clozeRef}
+            value={q} onChange={(e) => setQ(e.target.value)}
+            placeholder="The {{c1::mitral valve}} sits between the {{c2::left atrium}} and left ventricle."
+            className="w-full border rounded p-2 h-24"
+            maxLength={500}
+          />
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>{deletions ? `${deletions} prompt${deletions === 1 ? "" : "s"} will be created, one per deletion.` : "Use {{c1::...}} to hide text; add ::hint for a hint."}</span>
+            <button type="button" className="px-2 py-1 rounded border" onClick={wrapSelection}>Hide selection</button>
+          </div>
+        </>
+      ) : (
+        <input
+          value={q} onChange={(e) => setQ(e.target.value)}
+          placeholder="Prompt or question"
+          className="w-full border rounded p-2"
+          maxLength={500}
+        />
+      )}
       <textarea
         value={a} onChange={(e) => setA(e.target.value)}
-        placeholder="Tutor answer or explanation"
+        placeholder={kind === "cloze" ? "Extra context shown after the reveal (optional)" : "Tutor answer or explanation"}
         className="w-full border rounded p-2 h-28"
         maxLength={2000}
       />
-      <button className="px-3 py-1.5 rounded bg-black text-white disabled:opacity-60" onClick={add} disabled={busy}>
+      <button className="px-3 py-1.5 rounded bg-black text-white disabled:opacity-60" onClick={add} disabled={busy || !ready}>
         {busy ? "Adding..." : "Add prompt"}
       </button>
     </div>
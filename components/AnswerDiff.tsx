@@ -0,0 +1,23 @@
+"use client";
+import type { AnswerDiffSegment } from "@/lib/quiz/typedAnswer";
+
+// Typed answer compared word by word with the card's answer: words the learner missed are
+// underlined in green, words that are not in the answer are struck through in red.
+export default function AnswerDiff({ segments }: { segments: AnswerDiffSegment[] }) {
+  return (
+    <p className="whitespace-pre-wrap text-sm leading-7">
+      {segments.map((segment, position) => (
+        <span key={position}>
+          {position > 0 ? " " : null}
+          {segment.kind === "missing" ? (
+            <span className="rounded bg-emerald-50 px-0.5 text-emerald-900 underline decoration-emerald-500">{segment.text}</span>
+          ) : segment.kind === "extra" ? (
+            <span className="rounded bg-red-50 px-0.5 text-red-800 line-through">{segment.text}</span>
+          ) : (
+            <span className="text-slate-800">{segment.text}</span>
+          )}
+        </span>
+      ))}
+    </p>
+  );
+}
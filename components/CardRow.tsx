@@ -2,9 +2,33 @@
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
+import ClozeText from "@/components/ClozeText";
+import SourceFigure from "@/components/SourceFigure";
 
-export default function CardRow({ id, question, answer }: { id: string; question: string; answer: string }) {
+/**
+ * The passage a generated card cites; `href` deep-links into the original when there is one
+ * and `figure` is the image stored from the cited slide or page.
+ */
+export type CardSource = { label: string; excerpt: string; href: string | null; figure?: { url: string; alt?: string } | null };
+
+export default function CardRow({
+  id,
+  question,
+  answer,
+  kind,
+  clozeCount = 0,
+  source = null,
+}: {
+  id: string;
+  question: string;
+  answer: string;
+  kind?: string;
+  clozeCount?: number;
+  source?: CardSource | null;
+}) {
+  const isCloze = kind === "cloze";
   const [editing, setEditing] = useState(false);
+  const [showSource, setShowSource] = useState(false);
   const [q, setQ] = useState(question);
   const [a, setA] = useState(answer);
   const [busy, setBusy] = useState(false);
@@ -20,7 +44,10 @@ export default function CardRow({ id, question, answer }: { id: string; question
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ question: q, answer: a }),
       });
-      if (!res.ok) throw new Error("We couldn't save these study changes.");
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(typeof data?.error === "string" ? data.error : "We couldn't save these study changes.");
+      }
       toast.success("Study changes saved");
       setEditing(false);
       router.refresh();
@@ -34,7 +61,7 @@ export default function CardRow({ id, question, answer }: { id: string; question
 
   async function del() {
     if (busy) return;
-    toast("Remove this study prompt?", {
+    toast(isCloze && clozeCount > 1 ? `Remove this cloze note and its ${clozeCount} prompts?` : "Remove this study prompt?", {
       action: {
         label: "Remove",
         onClick: async () => {
@@ -62,8 +89,39 @@ export default function CardRow({ id, question, answer }: { id: string; question
     return (
       <div className="p-4 flex items-start gap-3">
         <div className="flex-1">
-          <p className="font-medium whitespace-pre-wrap">{q}</p>
-          <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{a}</p>
+          {isCloze ? (
+            <>
+              <p className="text-xs font-medium uppercase tracking-wide text-sky-700">
+                Cloze · {clozeCount} prompt{clozeCount === 1 ? "" : "s"}
+              </p>
+              <p className="font-medium"><ClozeText text={q} index={null} revealed /></p>
+            </>
+          ) : (
+            <p className="font-medium whitespace-pre-wrap">{q}</p>
+          )}
+          {a ? <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap">{a}</p> : null}
+          {source ? (
+            <div className="mt-2 text-xs text-slate-500">
+              <button type="button" className="underline hover:text-slate-800" onClick={() => setShowSource((v) => !v)}>
+                {showSource ? "Hide source" : `View in source · ${source.label}`}
+              </button>
+              {showSource ? (
+                <blockquote className="mt-2 border-l-2 border-slate-300 pl-3 text-slate-600 whitespace-pre-wrap">
+                  {source.excerpt}
+                  {source.figure ? (
+                    <div className="mt-2">
+                      <SourceFigure figure={source.figure} label={source.label} />
+                    </div>
+                  ) : null}
+                  {source.href ? (
+                    <a href={source.href} target="_blank" rel="noreferrer" className="mt-1 block text-sky-700 hover:text-sky-900">
+                      Open {source.label.toLowerCase()} in the original ↗
+                    </a>
+                  ) : null}
+                </blockquote>
+              ) : null}
+            </div>
+          ) : null}
         </div>
         <div className="flex gap-2">
           <button className="text-sm px-2 py-1 rounded border" onClick={() => setEditing(true)}>Refine</button>
@@ -77,12 +135,20 @@ export default function CardRow({ id, question, answer }: { id: string; question
 
   return (
     <div className="p-4 space-y-2 rounded border">
-      <input
-        value={q} onChange={(e) => setQ(e.target.value)}
-        className="w-full border rounded p-2" maxLength={500}
-      />
+      {isCloze ? (
+        <textarea
+          value={q} onChange={(e) => setQ(e.target.value)}
+          className="w-full border rounded p-2 h-24 font-mono text-sm" maxLength={500}
+        />
+      ) : (
+        <input
+          value={q} onChange={(e) => setQ(e.target.value)}
+          className="w-full border rounded p-2" maxLength={500}
+        />
+      )}
       <textarea
         value={a} onChange={(e) => setA(e.target.value)}
+        placeholder={isCloze ? "Extra context shown after the reveal (optional)" : undefined}
         className="w-full border rounded p-2 h-28" maxLength={2000}
       />
       <div className="flex gap-2">
@@ -0,0 +1,31 @@
+"use client";
+import { clozeSegments } from "@/lib/cards/cloze";
+
+// Renders one review item of a cloze note: the active deletion is a blank until revealed,
+// then highlighted. The note's extra context is shown under the revealed sentence.
+export default function ClozeText({
+  text,
+  index,
+  revealed,
+  extra,
+}: {
+  text: string;
+  index: number | null;
+  revealed: boolean;
+  extra?: string | null;
+}) {
+  return (
+    <span className="whitespace-pre-wrap">
+      {clozeSegments(text, index, revealed).map((segment, position) =>
+        segment.kind === "blank" ? (
+          <span key={position} className="rounded bg-sky-100 px-1 font-semibold text-sky-800">{segment.text}</span>
+        ) : segment.kind === "answer" ? (
+          <span key={position} className="rounded bg-amber-100 px-1 font-semibold text-amber-900">{segment.text}</span>
+        ) : (
+          <span key={position}>{segment.text}</span>
+        )
+      )}
+      {revealed && extra?.trim() ? <span className="mt-3 block text-base text-slate-600">{extra.trim()}</span> : null}
+    </span>
+  );
+}
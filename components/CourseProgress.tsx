@@ -0,0 +1,119 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import type { CourseView } from "@/lib/generation/courses";
+import type { GenerationJobView } from "@/lib/generation/jobs";
+
+const POLL_MS = 3000;
+
+const STATUS_LABELS: Record<GenerationJobView["status"], string> = {
+  queued: "Waiting",
+  running: "Building",
+  succeeded: "Ready",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+const STATUS_STYLES: Record<GenerationJobView["status"], string> = {
+  queued: "border-slate-200 bg-slate-50 text-slate-600",
+  running: "border-sky-200 bg-sky-50 text-sky-800",
+  succeeded: "border-emerald-200 bg-emerald-50 text-emerald-800",
+  failed: "border-red-200 bg-red-50 text-red-800",
+  cancelled: "border-slate-200 bg-slate-50 text-slate-500",
+};
+
+async function safeJson(res: Response) {
+  try { const text = await res.text(); return text ? JSON.parse(text) : null; } catch { return null; }
+}
+
+export default function CourseProgress({ initial }: { initial: CourseView }) {
+  const [course, setCourse] = useState(initial);
+  const [cancelling, setCancelling] = useState(false);
+  const pending = course.counts.queued + course.counts.running;
+
+  useEffect(() => {
+    if (!pending) return;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/courses/${course.id}`, { cache: "no-store" });
+        const data = await safeJson(res);
+        if (res.ok && data?.course) setCourse(data.course as CourseView);
+      } catch {
+        // Try again on the next tick; a dropped poll is harmless.
+      }
+    }, POLL_MS);
+    return () => clearTimeout(timer);
+  }, [course, pending]);
+
+  async function cancelRemaining() {
+    if (cancelling) return;
+    setCancelling(true);
+    try {
+      const res = await fetch(`/api/courses/${course.id}/cancel`, { method: "POST" });
+      const data = await safeJson(res);
+      if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "We couldn't cancel the remaining videos.");
+      if (data?.course) setCourse(data.course as CourseView);
+      toast.info("Stopping the remaining videos...");
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "We couldn't cancel the remaining videos.");
+    } finally {
+      setCancelling(false);
+    }
+  }
+
+  const total = course.videos.length;
+  const done = total - pending;
+
+  return (
+    <div className="space-y-4" aria-live="polite">
+      <div className="flex items-center justify-between gap-3">
+        <div className="space-y-1">
+          <p className="text-sm text-slate-600">
+            {done} of {total} video{total === 1 ? "" : "s"} processed
+            {course.counts.succeeded ? ` · ${course.counts.succeeded} deck${course.counts.succeeded === 1 ? "" : "s"} ready` : ""}
+            {course.counts.failed ? ` · ${course.counts.failed} failed` : ""}
+          </p>
+          <div className="h-1.5 w-64 max-w-full overflow-hidden rounded-full bg-slate-100">
+            <div className="h-full bg-slate-900 transition-all" style={{ width: `${total ? (done / total) * 100 : 0}%` }} />
+          </div>
+        </div>
+        {pending ? (
+          <button
+            type="button"
+            onClick={cancelRemaining}
+            disabled={cancelling}
+            className="px-3 py-1.5 rounded border text-sm disabled:opacity-60"
+          >
+            {cancelling ? "Cancelling..." : "Cancel remaining"}
+          </button>
+        ) : null}
+      </div>
+
+      <ol className="divide-y rounded border">
+        {course.videos.map(({ position, job }) => (
+          <li key={job.id} className="p-3 flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">
+                <span className="text-slate-400">{position + 1}.</span> {job.title}
+              </p>
+              {job.status === "failed" && job.error ? <p className="text-xs text-red-700">{job.error}</p> : null}
+              {job.status === "queued" && job.stage === "waiting_for_capacity" ? (
+                <p className="text-xs text-slate-500">Waiting for AI capacity, retrying shortly</p>
+              ) : null}
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <span className={`rounded-full border px-2 py-0.5 text-xs ${STATUS_STYLES[job.status]}`}>{STATUS_LABELS[job.status]}</span>
+              {job.deckId ? (
+                <Link href={`/app/deck/${job.deckId}`} className="text-sm px-3 py-1.5 rounded border hover:bg-gray-50 whitespace-nowrap">
+                  Open deck
+                </Link>
+              ) : null}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
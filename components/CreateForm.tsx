@@ -1,8 +1,31 @@
 "use client";
 
-import { useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { toast } from "sonner";
 import { upload } from "@vercel/blob/client";
+import GenerationProgress from "@/components/GenerationProgress";
+import { parsePageRanges } from "@/lib/extractors/pages";
+import type { GenerationJobView } from "@/lib/generation/jobs";
+import { parseYouTube, parseYouTubeCollection } from "@/lib/youtube";
+
+// The active job survives a reload, so progress picks up where it left off.
+const ACTIVE_JOB_STORAGE_KEY = "quickstud.generationJob";
+
+// Friendlier copy for the failures users actually hit; anything else shows the server's message.
+function friendlyGenerationError(code: string | null | undefined, status?: number): string | null {
+  // RunPod serverless can queue jobs; when it doesn't start within our route timeout,
+  // the API returns a retryable 503 instead of silently creating fallback content.
+  if (code === "RUNPOD_IN_QUEUE") return "Study generation is briefly queued. Please retry in about 30 to 60 seconds.";
+  if (code === "YT_URL_DISABLED") {
+    return "YouTube links are not supported right now. Upload the audio or video file directly, or add captions instead.";
+  }
+  if (code === "TRANSCRIPT_FAILED" || code === "TRANSCRIPT_PROVIDERS_NOT_CONFIGURED" || String(code || "").startsWith("SUPADATA_")) {
+    return "We couldn't fetch a transcript for that YouTube link. Try uploading the audio, video, or captions directly instead.";
+  }
+  if (status === 504 || code === "RUNPOD_TIMEOUT") return "Preparing this study set took too long. Please retry in a moment.";
+  if (code === "COURSE_LIST_FAILED") return "We couldn't list the videos in that playlist or channel. Please retry, or paste the videos one at a time.";
+  return null;
+}
 
 export default function CreateForm() {
   const API_BODY_LIMIT = 4 * 1024 * 1024; // ~4MB body limit for serverless; larger videos will be uploaded to Blob
@@ -11,12 +34,33 @@ export default function CreateForm() {
     "url" | "text" | "pdf" | "subtitle" | "video"
   >("url");
   const [url, setUrl] = useState("");
+  const [crawl, setCrawl] = useState(false);
   const [text, setText] = useState("");
   const [pdfName, setPdfName] = useState("");
+  const [pages, setPages] = useState("");
   const [subtitleName, setSubtitleName] = useState("");
   const [videoName, setVideoName] = useState("");
   const [cardCount, setCardCount] = useState(20); // Default 20 cards
+  const [cardType, setCardType] = useState<"basic" | "cloze">("basic");
   const [generationMode, setGenerationMode] = useState<"flashcards" | "notes">("flashcards");
+  const [jobId, setJobId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setJobId(localStorage.getItem(ACTIVE_JOB_STORAGE_KEY));
+  }, []);
+
+  function handleJobFinished(job: GenerationJobView) {
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    setJobId(null);
+    if (job.status === "succeeded" && job.deckId) {
+      toast.success("Your guided review set is ready.");
+      window.location.href = `/app/deck/${job.deckId}${job.origin ? `?origin=${encodeURIComponent(job.origin)}` : ""}`;
+    } else if (job.status === "cancelled") {
+      toast.info("Generation cancelled.");
+    } else {
+      toast.error(friendlyGenerationError(job.errorCode) || job.error || "We couldn't prepare your study material right now.");
+    }
+  }
 
   // Refs to clear file inputs programmatically
   const urlRef = useRef<HTMLInputElement>(null);
@@ -29,7 +73,7 @@ export default function CreateForm() {
     form.querySelectorAll<HTMLInputElement>(`input[type="hidden"][name="${name}"]`).forEach((el) => el.remove());
   }
 
-  const MAX_FILE_SIZE = 200 * 1024 * 1024; // 200MB limit for PDF/PPTX
+  const MAX_FILE_SIZE = 200 * 1024 * 1024; // 200MB limit for uploaded documents
 
   async function uploadViaBlob(file: File, kind: "doc" | "video" | "audio") {
     const safeName = (file.name || `${kind}.bin`).replace(/[^a-zA-Z0-9._-]+/g, "_");
@@ -50,19 +94,22 @@ export default function CreateForm() {
 
   async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
-    if (pending) return;
+    if (pending || jobId) return;
 
     const form = e.currentTarget;
 
     setPending(true);
 
     try {
-      // Check file sizes for PDF/PPTX only (videos can be any size via Blob upload)
+      // Check file sizes for documents only (videos can be any size via Blob upload)
       const fileInput = form.querySelector<HTMLInputElement>('input[name="file"]');
       const pdfOrPptx = fileInput?.files?.[0];
       if (pdfOrPptx && pdfOrPptx.size > MAX_FILE_SIZE) {
         throw new Error(`That file is too large (${(pdfOrPptx.size / 1024 / 1024).toFixed(1)}MB). Keep it under 200MB so your study set can be prepared reliably.`);
       }
+      if (contentType === "pdf" && pages.trim() && !parsePageRanges(pages)) {
+        throw new Error('Pages must be numbers or ranges, like "12-30, 45".');
+      }
 
       // Clear stale hidden fields from older attempts
       ["videoUrl", "videoName", "videoSize", "docUrl", "docName"].forEach((n) => removeHidden(form, n));
@@ -78,6 +125,7 @@ export default function CreateForm() {
       
       // Add card count to form data
       fd.append("cardCount", String(cardCount));
+      fd.append("cardType", cardType);
       
       // Add back only the file input that matches current content type
       if (contentType === "pdf") {
@@ -175,8 +223,11 @@ export default function CreateForm() {
         toast.info("Preparing your guided study material...");
       }
 
-      // Route to the appropriate API based on mode
-      const apiEndpoint = generationMode === "flashcards" ? "/api/flashcards" : "/api/study-notes";
+      // Route to the appropriate API based on mode. Decks are generated by a background job
+      // so a queued or slow model does not turn into a request timeout; a playlist or channel
+      // becomes a course with one such job per video.
+      const isCourse = generationMode === "flashcards" && contentType === "url" && parseYouTubeCollection(url).ok;
+      const apiEndpoint = generationMode === "flashcards" ? (isCourse ? "/api/courses" : "/api/generation-jobs") : "/api/study-notes";
       const controller = new AbortController();
       // Vercel functions can run for minutes; still cap client-side waits to avoid “frozen forever”.
       const timeoutMs = 330_000; // 5.5 minutes
@@ -195,37 +246,27 @@ export default function CreateForm() {
         } catch {}
 
         const tid = traceId || (j?.traceId ? String(j.traceId) : null);
-
-        // RunPod serverless can queue jobs; when it doesn't start within our route timeout,
-        // the API returns a retryable 503 instead of silently creating fallback content.
-        if (res.status === 503 && j?.code === "RUNPOD_IN_QUEUE") {
-          toast.error(`Study generation is briefly queued. Please retry in about 30 to 60 seconds.${tid ? ` (traceId: ${tid})` : ""}`);
-          return;
-        }
-
-        if (j?.code === "YT_URL_DISABLED") {
-          toast.error(
-            `YouTube links are not supported right now. Upload the audio or video file directly, or add captions instead.${tid ? ` (traceId: ${tid})` : ""}`
-          );
-          return;
-        }
-
-        if (j?.code === "SUPADATA_FAILED" || String(j?.code || "").startsWith("SUPADATA_")) {
-          toast.error(
-            `We couldn't fetch a transcript for that YouTube link. Try uploading the audio, video, or captions directly instead.${tid ? ` (traceId: ${tid})` : ""}`
-          );
-          return;
-        }
-
-        if (res.status === 504) {
-          toast.error(`Preparing this study set took too long. Please retry in a moment.${tid ? ` (traceId: ${tid})` : ""}`);
+        const friendly = friendlyGenerationError(j?.code, res.status);
+        if (friendly) {
+          toast.error(`${friendly}${tid ? ` (traceId: ${tid})` : ""}`);
           return;
         }
 
         throw new Error(msg);
       }
 
-      if (generationMode === "notes") {
+      if (isCourse) {
+        const data = await res.json().catch(() => null);
+        if (!data?.courseId) throw new Error("We couldn't start building this course.");
+        toast.success(`Building ${data.videoCount} video deck${data.videoCount === 1 ? "" : "s"}. You can leave this page and come back.`);
+        window.location.href = `/app/course/${data.courseId}`;
+      } else if (generationMode === "flashcards") {
+        const data = await res.json().catch(() => null);
+        if (!data?.jobId) throw new Error("We couldn't start preparing your study set.");
+        localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, data.jobId);
+        setJobId(data.jobId);
+        toast.info("Building your guided review set. You can leave this page and come back.");
+      } else {
         // For study notes, show the result in a new window or redirect to a notes viewer
         const data = await res.json();
         if (data.success && data.notes) {
@@ -236,16 +277,6 @@ export default function CreateForm() {
         } else {
           throw new Error("We couldn't prepare the study overview.");
         }
-      } else {
-        // For flashcards, use the existing redirect logic
-        const location = res.headers.get("Location");
-        if (location) {
-          toast.success("Your guided review set is ready.");
-          window.location.href = location;
-        } else {
-          toast.success("Your study set is ready.");
-          window.location.reload();
-        }
       }
     } catch (err: any) {
       if (err?.name === "AbortError") {
@@ -321,6 +352,18 @@ export default function CreateForm() {
             <option value={100}>100 prompts (slower)</option>
           </select>
           <p className="text-xs text-gray-500 mt-1">Longer review sets take more time to prepare.</p>
+          <label className="text-sm font-medium mt-3 block">Prompt style</label>
+          <select
+            className="mt-1 w-full border rounded p-2 bg-white"
+            value={cardType}
+            onChange={(e) => setCardType(e.target.value as "basic" | "cloze")}
+          >
+            <option value="basic">Question &amp; answer</option>
+            <option value="cloze">Cloze deletions (fill in the blank)</option>
+          </select>
+          {cardType === "cloze" && (
+            <p className="text-xs text-gray-500 mt-1">Key terms are hidden inside sentences from your material; each blank becomes its own prompt.</p>
+          )}
         </div>
       )}
 
@@ -345,6 +388,7 @@ export default function CreateForm() {
             if (val !== "pdf") {
               if (fileRef.current) fileRef.current.value = "";
               setPdfName("");
+              setPages("");
             }
             if (val !== "subtitle") {
               if (subtitleRef.current) subtitleRef.current.value = "";
@@ -358,7 +402,7 @@ export default function CreateForm() {
         >
           <option value="url">Website URL</option>
           <option value="text">Paste text</option>
-          <option value="pdf">Upload PPTX or PDF</option>
+          <option value="pdf">Upload a file (PDF, slides, documents, photos)</option>
           <option value="subtitle">Upload subtitles (SRT/VTT)</option>
           <option value="video">Upload video file</option>
         </select>
@@ -393,7 +437,37 @@ export default function CreateForm() {
             Paste
           </button>
         </div>
-        <p className="text-xs text-gray-500 mt-1">Paste a website URL. For videos, upload audio or video files, or add captions.</p>
+        <p className="text-xs text-gray-500 mt-1">
+          {generationMode === "flashcards" && parseYouTubeCollection(url).ok
+            ? "This is a YouTube playlist or channel: each video becomes its own deck, grouped into a course."
+            : "Paste a website URL. For videos, upload audio or video files, or add captions."}
+        </p>
+        {generationMode === "flashcards" && url.trim() && !parseYouTube(url).ok && !parseYouTubeCollection(url).ok && (
+          <div className="mt-2 space-y-2">
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" name="crawl" value="1" checked={crawl} onChange={(e) => setCrawl(e.target.checked)} />
+              Also read the pages it links to on the same site
+            </label>
+            {crawl && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <select name="crawlMaxPages" defaultValue="10" className="w-full border rounded p-2 bg-white text-sm">
+                    <option value="5">Up to 5 pages</option>
+                    <option value="10">Up to 10 pages</option>
+                    <option value="20">Up to 20 pages</option>
+                  </select>
+                  <select name="crawlDepth" defaultValue="1" className="w-full border rounded p-2 bg-white text-sm">
+                    <option value="1">Pages linked from this one</option>
+                    <option value="2">Two links deep</option>
+                  </select>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Good for documentation sites and course wikis. Pages the site&apos;s robots.txt disallows are skipped.
+                </p>
+              </>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Text input */}
@@ -436,20 +510,23 @@ export default function CreateForm() {
         </div>
       </div>
 
-      {/* PDF/PPTX */}
+      {/* Documents: anything a source extractor reads */}
       <div className={contentType === "pdf" ? "" : "hidden"}>
-        <label className="text-sm font-medium">Upload PPTX or PDF</label>
+        <label className="text-sm font-medium">
+          Upload PDF, PPTX, DOCX, EPUB, Markdown, HTML, a spreadsheet, a notebook, or a photo of your notes
+        </label>
         <div className="flex items-center gap-2">
           <input
             ref={fileRef}
             id="pdf-input"
             type="file"
             name="file"
-            accept=".pptx,.pdf,application/pdf,application/vnd.openxmlformats-officedocument.presentationml.presentation"
+            accept=".pdf,.pptx,.docx,.epub,.md,.markdown,.html,.htm,.xhtml,.xlsx,.xlsm,.xls,.ods,.csv,.tsv,.ipynb,.srt,.vtt,.png,.jpg,.jpeg,.webp,.gif,.bmp"
             className="hidden"
             onChange={(e) => {
               const f = e.currentTarget.files?.[0];
               setPdfName(f ? f.name : "");
+              setPages("");
             }}
           />
           <button
@@ -472,12 +549,32 @@ export default function CreateForm() {
             onClick={() => {
               if (fileRef.current) fileRef.current.value = "";
               setPdfName("");
+              setPages("");
             }}
           >
             Clear
           </button>
         </div>
-        <p className="text-xs text-gray-500">Maximum file size: 200MB. For larger files, paste the most important sections as text.</p>
+        {/\.pdf$/i.test(pdfName) && (
+          <div className="mt-2">
+            <label className="text-sm" htmlFor="pdf-pages">Pages (optional)</label>
+            <input
+              id="pdf-pages"
+              name="pages"
+              value={pages}
+              onChange={(e) => setPages(e.target.value)}
+              placeholder="e.g. 45-120 for chapters 3-5"
+              className="w-full border rounded p-2 text-sm"
+            />
+            <p className="text-xs text-gray-500">
+              Page numbers as the PDF viewer shows them. Leave empty to use the whole document.
+            </p>
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          Maximum file size: 200MB. For larger files, paste the most important sections as text. Scanned PDFs and
+          photos are read with OCR, which works best on sharp, evenly lit pages.
+        </p>
       </div>
 
       {/* Subtitles */}
@@ -570,8 +667,10 @@ export default function CreateForm() {
         </div>
       </div>
 
-      <button className="px-4 py-2 rounded bg-black text-white disabled:opacity-60" type="submit" disabled={pending}>
-        {pending 
+      {jobId ? <GenerationProgress jobId={jobId} onFinished={handleJobFinished} /> : null}
+
+      <button className="px-4 py-2 rounded bg-black text-white disabled:opacity-60" type="submit" disabled={pending || !!jobId}>
+        {pending || jobId
           ? "Preparing..." 
           : generationMode === "flashcards" 
             ? "Build guided review" 
@@ -1,16 +1,39 @@
 "use client";
 import { useMemo, useState } from "react";
-import CardRow from "@/components/CardRow";
+import CardRow, { type CardSource } from "@/components/CardRow";
+import { stripCloze } from "@/lib/cards/cloze";
 
-type CardLite = { id: string; question: string; answer: string };
+type CardLite = {
+  id: string;
+  question: string;
+  answer: string;
+  kind?: string;
+  clozeIndex?: number | null;
+  noteId?: string | null;
+  source?: CardSource | null;
+};
 
 export default function DeckCardList({ cards }: { cards: CardLite[] }) {
   const [q, setQ] = useState("");
+
+  // The cards of a cloze note share their text, so the list shows each note once.
+  const notes = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const c of cards) if (c.noteId) counts.set(c.noteId, (counts.get(c.noteId) || 0) + 1);
+    const seen = new Set<string>();
+    return cards.flatMap((c) => {
+      if (!c.noteId) return [{ ...c, clozeCount: 0 }];
+      if (seen.has(c.noteId)) return [];
+      seen.add(c.noteId);
+      return [{ ...c, clozeCount: counts.get(c.noteId) || 1 }];
+    });
+  }, [cards]);
+
   const filtered = useMemo(() => {
     const s = q.trim().toLowerCase();
-    if (!s) return cards;
-    return cards.filter(c => c.question.toLowerCase().includes(s) || c.answer.toLowerCase().includes(s));
-  }, [q, cards]);
+    if (!s) return notes;
+    return notes.filter(c => stripCloze(c.question).toLowerCase().includes(s) || c.answer.toLowerCase().includes(s));
+  }, [q, notes]);
 
   return (
     <div className="space-y-3">
@@ -24,7 +47,17 @@ export default function DeckCardList({ cards }: { cards: CardLite[] }) {
         {filtered.length === 0 ? (
           <div className="p-6 text-sm text-gray-500">No matching study prompts.</div>
         ) : (
-          filtered.map((c) => <CardRow key={c.id} id={c.id} question={c.question} answer={c.answer} />)
+          filtered.map((c) => (
+            <CardRow
+              key={c.id}
+              id={c.id}
+              question={c.question}
+              answer={c.answer}
+              kind={c.kind}
+              clozeCount={c.clozeCount}
+              source={c.source}
+            />
+          ))
         )}
       </div>
     </div>
@@ -0,0 +1,63 @@
+"use client";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+
+type StepField = "learningSteps" | "relearningSteps";
+
+export default function DeckLearningSteps({
+  deckId,
+  learningSteps,
+  relearningSteps,
+}: {
+  deckId: string;
+  learningSteps: string;
+  relearningSteps: string;
+}) {
+  const [values, setValues] = useState<Record<StepField, string>>({ learningSteps, relearningSteps });
+  const [saved, setSaved] = useState<Record<StepField, string>>({ learningSteps, relearningSteps });
+  const [busy, setBusy] = useState(false);
+  const router = useRouter();
+
+  async function save(field: StepField) {
+    const next = values[field].trim();
+    if (busy || next === saved[field]) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/deck/${deckId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ [field]: next || null }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "We couldn't update the study steps.");
+      setSaved((current) => ({ ...current, [field]: next }));
+      toast.success("Study steps updated");
+      router.refresh();
+    } catch (error: unknown) {
+      setValues((current) => ({ ...current, [field]: saved[field] }));
+      toast.error(error instanceof Error && error.message ? error.message : "We couldn't update the study steps.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+      {(["learningSteps", "relearningSteps"] as const).map((field) => (
+        <label key={field} className="flex items-center gap-2">
+          {field === "learningSteps" ? "Learning steps" : "Relearning steps"}
+          <input
+            value={values[field]}
+            onChange={(e) => setValues((current) => ({ ...current, [field]: e.target.value }))}
+            onBlur={() => save(field)}
+            onKeyDown={(e) => { if (e.key === "Enter") (e.target as HTMLInputElement).blur(); }}
+            disabled={busy}
+            placeholder="10m"
+            className="w-28 rounded border px-2 py-1 text-sm text-slate-900"
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
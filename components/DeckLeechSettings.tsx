@@ -0,0 +1,70 @@
+"use client";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+
+export default function DeckLeechSettings({
+  deckId,
+  threshold,
+  action,
+}: {
+  deckId: string;
+  threshold: number;
+  action: string;
+}) {
+  const [thresholdDraft, setThresholdDraft] = useState(String(threshold));
+  const [busy, setBusy] = useState(false);
+  const router = useRouter();
+
+  async function save(body: { leechThreshold?: number; leechAction?: string }) {
+    if (busy) return;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/deck/${deckId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "We couldn't update leech settings.");
+      toast.success("Leech settings updated");
+      router.refresh();
+    } catch (error: unknown) {
+      setThresholdDraft(String(threshold));
+      toast.error(error instanceof Error && error.message ? error.message : "We couldn't update leech settings.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+      <label className="flex items-center gap-2">
+        Flag after
+        <input
+          type="number"
+          min={1}
+          max={99}
+          value={thresholdDraft}
+          onChange={(e) => setThresholdDraft(e.target.value)}
+          onBlur={() => { if (Number(thresholdDraft) !== threshold) void save({ leechThreshold: Number(thresholdDraft) }); }}
+          disabled={busy}
+          className="w-16 rounded border px-2 py-1 text-sm text-slate-900"
+        />
+        lapses
+      </label>
+      <label className="flex items-center gap-2">
+        Then
+        <select
+          value={action}
+          onChange={(e) => save({ leechAction: e.target.value })}
+          disabled={busy}
+          className="rounded border px-2 py-1 text-sm text-slate-900"
+        >
+          <option value="suspend">Suspend and tag</option>
+          <option value="tag">Tag only</option>
+        </select>
+      </label>
+    </div>
+  );
+}
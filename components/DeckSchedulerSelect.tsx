@@ -0,0 +1,54 @@
+"use client";
+import { useState } from "react";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+
+const OPTIONS = [
+  { value: "", label: "Account default" },
+  { value: "sm2", label: "Classic (SM-2)" },
+  { value: "fsrs", label: "FSRS" },
+];
+
+export default function DeckSchedulerSelect({ deckId, initial }: { deckId: string; initial: string | null }) {
+  const [value, setValue] = useState(initial || "");
+  const [busy, setBusy] = useState(false);
+  const router = useRouter();
+
+  async function save(next: string) {
+    if (busy) return;
+    const previous = value;
+    setValue(next);
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/deck/${deckId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ srsScheduler: next || null }),
+      });
+      if (!res.ok) throw new Error("We couldn't change the review scheduler.");
+      toast.success("Review scheduler updated");
+      router.refresh();
+    } catch (error: unknown) {
+      setValue(previous);
+      toast.error(error instanceof Error && error.message ? error.message : "We couldn't change the review scheduler.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-slate-600">
+      Review scheduler
+      <select
+        value={value}
+        onChange={(e) => save(e.target.value)}
+        disabled={busy}
+        className="rounded border px-2 py-1 text-sm text-slate-900"
+      >
+        {OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,476 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import AnswerDiff from "@/components/AnswerDiff";
+import {
+  EXAM_LIMITS,
+  type ExamQuestionGrade,
+  type ExamQuestionResult,
+  type ExamQuestionType,
+  type ExamReport,
+  type PublicExamQuestion,
+} from "@/lib/quiz/exam";
+
+type DeckOption = { id: string; title: string; cardCount: number };
+
+type RecentAttempt = { id: string; title: string; score: number | null; submittedAt: string | null };
+
+type RunningExam = {
+  id: string;
+  title: string;
+  expiresAt: number;
+  deckIds: string[];
+  questions: PublicExamQuestion[];
+};
+
+type GradedExam = {
+  id: string;
+  title: string;
+  deckIds: string[];
+  results: ExamQuestionResult[];
+  report: ExamReport;
+  weakConcepts: string[];
+  // Submitted after the time limit, so the answers were not graded.
+  late: boolean;
+};
+
+const QUESTION_TYPE_LABELS: Record<ExamQuestionType, string> = {
+  mcq: "Multiple choice",
+  typed: "Typed answer",
+  cloze: "Fill in the blank",
+};
+
+const GRADE_STYLES: Record<ExamQuestionGrade, { label: string; className: string }> = {
+  correct: { label: "Correct", className: "border-emerald-300 bg-emerald-50 text-emerald-900" },
+  partial: { label: "Partial credit", className: "border-amber-300 bg-amber-50 text-amber-900" },
+  wrong: { label: "Incorrect", className: "border-red-300 bg-red-50 text-red-900" },
+  unanswered: { label: "Unanswered", className: "border-slate-300 bg-slate-50 text-slate-700" },
+};
+
+// Answers are mirrored to localStorage so a reload or closed tab does not lose them.
+const ANSWERS_STORAGE_PREFIX = "quickstud.exam.answers.";
+
+async function safeJson(res: Response) {
+  try { const text = await res.text(); return text ? JSON.parse(text) : null; } catch { return null; }
+}
+
+export default function ExamRunner({
+  decks,
+  initialDeckIds,
+  initialAttemptId,
+  recentAttempts,
+}: {
+  decks: DeckOption[];
+  initialDeckIds: string[];
+  initialAttemptId: string | null;
+  recentAttempts: RecentAttempt[];
+}) {
+  const [selected, setSelected] = useState<string[]>(initialDeckIds.length ? initialDeckIds : decks.slice(0, 1).map((deck) => deck.id));
+  const [questionCount, setQuestionCount] = useState<number>(EXAM_LIMITS.defaultQuestions);
+  const [timeLimit, setTimeLimit] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [running, setRunning] = useState<RunningExam | null>(null);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [graded, setGraded] = useState<GradedExam | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const submittingRef = useRef(false);
+  // The attempt that was auto-submitted at time-out; a failed auto-submit is not retried every tick.
+  const expiredRef = useRef<string | null>(null);
+
+  const showAttempt = useCallback((attemptId: string | null) => {
+    const url = new URL(window.location.href);
+    if (attemptId) url.searchParams.set("attempt", attemptId);
+    else url.searchParams.delete("attempt");
+    window.history.replaceState(null, "", url.toString());
+  }, []);
+
+  const submit = useCallback(async (exam: RunningExam, submitted: Record<string, string>) => {
+    if (submittingRef.current) return;
+    submittingRef.current = true;
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/exam/${exam.id}/submit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ answers: submitted }),
+      });
+      const data = await safeJson(res);
+      if (!res.ok || !data?.ok) throw new Error(readApiError(data, "We couldn't grade this exam."));
+      window.localStorage.removeItem(`${ANSWERS_STORAGE_PREFIX}${exam.id}`);
+      setGraded({
+        id: exam.id,
+        title: exam.title,
+        deckIds: exam.deckIds,
+        results: data.results,
+        report: data.report,
+        weakConcepts: Array.isArray(data.weakConcepts) ? data.weakConcepts : [],
+        late: data.late === true,
+      });
+      setRunning(null);
+      if (data.late) toast.error("This exam was submitted after its time limit, so it scored zero.");
+      else toast.success(`Exam graded: ${formatPercent(data.report?.score)}`);
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, "We couldn't grade this exam."));
+    } finally {
+      submittingRef.current = false;
+      setBusy(false);
+    }
+  }, []);
+
+  // Reopening an attempt (?attempt=) resumes it while time is left, submits the saved answers
+  // once it has expired, or shows the report if it was already graded.
+  useEffect(() => {
+    if (!initialAttemptId) return;
+    let cancelled = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/exam/${initialAttemptId}`, { cache: "no-store" });
+        const data = await safeJson(res);
+        if (!res.ok || !data?.ok) throw new Error(readApiError(data, "We couldn't open that exam."));
+        if (cancelled) return;
+        const attempt = data.attempt;
+        if (attempt.submittedAt) {
+          setGraded({
+            id: attempt.id,
+            title: attempt.title,
+            deckIds: attempt.deckIds,
+            results: data.results,
+            report: data.report,
+            weakConcepts: attempt.weakConcepts ?? [],
+            late: attempt.submittedLate === true,
+          });
+          return;
+        }
+        const exam: RunningExam = {
+          id: attempt.id,
+          title: attempt.title,
+          expiresAt: new Date(attempt.expiresAt).getTime(),
+          deckIds: attempt.deckIds,
+          questions: data.questions,
+        };
+        setRunning(exam);
+        setAnswers(readStoredAnswers(exam.id));
+      } catch (error: unknown) {
+        if (!cancelled) toast.error(getErrorMessage(error, "We couldn't open that exam."));
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [initialAttemptId]);
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [running]);
+
+  const remainingMs = running ? running.expiresAt - now : 0;
+  useEffect(() => {
+    if (running && remainingMs <= 0 && expiredRef.current !== running.id) {
+      expiredRef.current = running.id;
+      toast.message("Time is up. Submitting your answers.");
+      void submit(running, answers);
+    }
+  }, [answers, remainingMs, running, submit]);
+
+  async function start() {
+    if (!selected.length || busy) return;
+    setBusy(true);
+    try {
+      const minutes = Number(timeLimit);
+      const res = await fetch(`/api/exam`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          deckIds: selected,
+          questionCount,
+          timeLimitMinutes: timeLimit.trim() && Number.isFinite(minutes) ? minutes : undefined,
+        }),
+      });
+      const data = await safeJson(res);
+      if (!res.ok || !data?.ok) throw new Error(readApiError(data, "We couldn't assemble this exam."));
+      setNow(Date.now());
+      setAnswers({});
+      setGraded(null);
+      setRunning({
+        id: data.attempt.id,
+        title: data.attempt.title,
+        expiresAt: new Date(data.attempt.expiresAt).getTime(),
+        deckIds: selected,
+        questions: data.questions,
+      });
+      showAttempt(data.attempt.id);
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, "We couldn't assemble this exam."));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function answer(questionId: string, value: string) {
+    if (!running) return;
+    const next = { ...answers, [questionId]: value };
+    setAnswers(next);
+    window.localStorage.setItem(`${ANSWERS_STORAGE_PREFIX}${running.id}`, JSON.stringify(next));
+  }
+
+  function finish() {
+    if (!running) return;
+    const unanswered = running.questions.filter((question) => !answers[question.id]?.trim()).length;
+    if (unanswered && !window.confirm(`${unanswered} question${unanswered === 1 ? " is" : "s are"} unanswered. Submit anyway?`)) return;
+    void submit(running, answers);
+  }
+
+  function reset() {
+    setGraded(null);
+    setRunning(null);
+    setAnswers({});
+    showAttempt(null);
+  }
+
+  if (graded) return <ExamReportView exam={graded} decks={decks} onRestart={reset} />;
+
+  if (running) {
+    const answered = running.questions.filter((question) => answers[question.id]?.trim()).length;
+    return (
+      <div className="space-y-4">
+        <div className="sticky top-0 z-10 flex items-center justify-between gap-3 rounded-2xl border bg-white/95 p-4 shadow-sm">
+          <div>
+            <h2 className="font-semibold">{running.title}</h2>
+            <p className="text-xs text-slate-500">{answered} of {running.questions.length} answered</p>
+          </div>
+          <div className={`font-mono text-lg ${remainingMs < 60_000 ? "text-red-600" : "text-slate-900"}`}>{formatClock(remainingMs)}</div>
+          <button className="px-3 py-1.5 rounded bg-black text-white disabled:opacity-60" onClick={finish} disabled={busy}>
+            {busy ? "Grading..." : "Submit exam"}
+          </button>
+        </div>
+
+        <ol className="space-y-4">
+          {running.questions.map((question, index) => (
+            <li key={question.id} className="rounded-2xl border p-4 space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <p className="font-medium whitespace-pre-wrap">{index + 1}. {question.prompt}</p>
+                <span className="shrink-0 text-[11px] uppercase tracking-[0.14em] text-slate-500">{QUESTION_TYPE_LABELS[question.type]}</span>
+              </div>
+              {question.type === "mcq" && question.choices ? (
+                <div className="space-y-2">
+                  {question.choices.map((choice) => (
+                    <label key={choice} className="flex items-start gap-2 rounded-lg border px-3 py-2 text-sm hover:border-slate-900">
+                      <input
+                        type="radio"
+                        name={question.id}
+                        checked={answers[question.id] === choice}
+                        onChange={() => answer(question.id, choice)}
+                        className="mt-1"
+                      />
+                      <span className="whitespace-pre-wrap">{choice}</span>
+                    </label>
+                  ))}
+                </div>
+              ) : (
+                <textarea
+                  value={answers[question.id] ?? ""}
+                  onChange={(event) => answer(question.id, event.target.value)}
+                  placeholder={question.type === "cloze" ? "What goes in the blank?" : "Type your answer"}
+                  className="w-full rounded border p-2 text-sm h-20"
+                  maxLength={2000}
+                />
+              )}
+            </li>
+          ))}
+        </ol>
+      </div>
+    );
+  }
+
+  if (!decks.length) {
+    return <div className="rounded border p-6 text-sm text-gray-500">Create a deck first, then come back for a practice exam.</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border p-4 space-y-4">
+        <div>
+          <h2 className="font-medium">Decks to cover</h2>
+          <div className="mt-2 grid gap-2 sm:grid-cols-2">
+            {decks.map((deck) => (
+              <label key={deck.id} className="flex items-center gap-2 rounded border px-3 py-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(deck.id)}
+                  onChange={(event) =>
+                    setSelected((ids) => (event.target.checked ? [...ids, deck.id] : ids.filter((id) => id !== deck.id)))
+                  }
+                />
+                <span className="flex-1 truncate">{deck.title}</span>
+                <span className="text-xs text-slate-500">{deck.cardCount} cards</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-end gap-4 text-sm">
+          <label className="space-y-1">
+            <span className="block text-xs text-slate-600">Questions</span>
+            <input
+              type="number"
+              min={EXAM_LIMITS.minQuestions}
+              max={EXAM_LIMITS.maxQuestions}
+              value={questionCount}
+              onChange={(event) => setQuestionCount(Number(event.target.value))}
+              className="w-24 rounded border p-2"
+            />
+          </label>
+          <label className="space-y-1">
+            <span className="block text-xs text-slate-600">Time limit (minutes)</span>
+            <input
+              type="number"
+              min={EXAM_LIMITS.minMinutes}
+              max={EXAM_LIMITS.maxMinutes}
+              value={timeLimit}
+              onChange={(event) => setTimeLimit(event.target.value)}
+              placeholder="1 per question"
+              className="w-36 rounded border p-2"
+            />
+          </label>
+          <button className="px-3 py-2 rounded bg-black text-white disabled:opacity-60" onClick={start} disabled={busy || !selected.length}>
+            {busy ? "Assembling..." : "Start exam"}
+          </button>
+        </div>
+      </div>
+
+      {recentAttempts.length ? (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold uppercase tracking-[0.16em] text-slate-700">Recent attempts</h3>
+          <ul className="divide-y rounded-2xl border text-sm">
+            {recentAttempts.map((attempt) => (
+              <li key={attempt.id} className="flex items-center justify-between gap-3 px-4 py-2">
+                <Link href={`/app/exam?attempt=${attempt.id}`} className="truncate hover:underline">{attempt.title}</Link>
+                <span className="shrink-0 text-slate-600">
+                  {formatPercent(attempt.score)}
+                  {attempt.submittedAt ? ` · ${new Date(attempt.submittedAt).toLocaleDateString()}` : ""}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function ExamReportView({ exam, decks, onRestart }: { exam: GradedExam; decks: DeckOption[]; onRestart: () => void }) {
+  const deckTitle = (deckId: string) => decks.find((deck) => deck.id === deckId)?.title || "Deleted deck";
+  const focusDeckId = exam.deckIds.find((deckId) => decks.some((deck) => deck.id === deckId));
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-3xl border border-sky-200 bg-gradient-to-br from-sky-50 via-white to-emerald-50 p-6">
+        <p className="text-xs font-semibold uppercase tracking-[0.18em] text-sky-700">Score report</p>
+        <h2 className="mt-2 text-2xl font-semibold text-slate-950">{exam.title}: {formatPercent(exam.report.score)}</h2>
+        <p className="mt-2 text-sm text-slate-700">
+          {exam.report.counts.correct} correct, {exam.report.counts.partial} partially correct, {exam.report.counts.wrong} incorrect
+          {exam.report.counts.unanswered ? `, ${exam.report.counts.unanswered} unanswered` : ""} out of {exam.report.total}.
+        </p>
+        {exam.late ? (
+          <p className="mt-2 text-sm text-amber-800">Submitted after the time limit, so the answers were not graded.</p>
+        ) : null}
+        <div className="mt-4 grid gap-3 md:grid-cols-2">
+          <div className="rounded-2xl border bg-white/90 p-4 text-sm">
+            <p className="text-[11px] font-semibold uppercase tracking-[0.16em] text-slate-600">By question type</p>
+            <ul className="mt-2 space-y-1">
+              {exam.report.byType.map((entry) => (
+                <li key={entry.type} className="flex justify-between">
+                  <span>{QUESTION_TYPE_LABELS[entry.type]} ({entry.count})</span>
+                  <span>{formatPercent(entry.score)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div className="rounded-2xl border bg-white/90 p-4 text-sm">
+            <p className="text-[11px] font-semibold uppercase tracking-[0.16em] text-slate-600">By deck</p>
+            <ul className="mt-2 space-y-1">
+              {exam.report.byDeck.map((entry) => (
+                <li key={entry.deckId} className="flex justify-between gap-3">
+                  <span className="truncate">{deckTitle(entry.deckId)} ({entry.count})</span>
+                  <span>{formatPercent(entry.score)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        {exam.weakConcepts.length ? (
+          <div className="mt-4">
+            <p className="text-[11px] font-semibold uppercase tracking-[0.16em] text-amber-700">Weak concepts to revisit</p>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {exam.weakConcepts.map((concept) =>
+                focusDeckId ? (
+                  <Link
+                    key={concept}
+                    href={`/app/deck/${focusDeckId}?concept=${encodeURIComponent(concept)}&reason=${encodeURIComponent("Missed in a practice exam")}&source=practice_exam`}
+                    className="rounded-full border border-amber-200 bg-white/80 px-3 py-1 text-xs text-amber-900 hover:border-amber-400"
+                  >
+                    {concept}
+                  </Link>
+                ) : (
+                  <span key={concept} className="rounded-full border border-amber-200 bg-white/80 px-3 py-1 text-xs text-amber-900">{concept}</span>
+                )
+              )}
+            </div>
+          </div>
+        ) : null}
+        <button className="mt-5 rounded-full bg-slate-950 px-4 py-2 text-sm font-medium text-white" onClick={onRestart}>
+          Take another exam
+        </button>
+      </div>
+
+      <ol className="space-y-3">
+        {exam.results.map((result, index) => (
+          <li key={result.questionId} className="rounded-2xl border p-4 space-y-2 text-sm">
+            <div className="flex items-start justify-between gap-3">
+              <p className="font-medium whitespace-pre-wrap">{index + 1}. {result.prompt}</p>
+              <span className={`shrink-0 rounded-full border px-3 py-1 text-xs font-semibold ${GRADE_STYLES[result.grade].className}`}>
+                {GRADE_STYLES[result.grade].label}
+              </span>
+            </div>
+            {result.diff && result.grade !== "correct" ? (
+              <AnswerDiff segments={result.diff} />
+            ) : result.response ? (
+              <p className="text-slate-700">Your answer: {result.response}</p>
+            ) : null}
+            {result.grade !== "correct" ? <p className="text-emerald-900">Answer: {result.expectedAnswer}</p> : null}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+function readStoredAnswers(attemptId: string): Record<string, string> {
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(`${ANSWERS_STORAGE_PREFIX}${attemptId}`) || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function formatClock(ms: number) {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
+function formatPercent(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? `${Math.round(value * 100)}%` : "—";
+}
+
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+function readApiError(value: unknown, fallback: string) {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return fallback;
+  const error = (value as { error?: unknown }).error;
+  return typeof error === "string" && error.trim().length > 0 ? error : fallback;
+}
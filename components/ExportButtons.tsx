@@ -1,37 +1,74 @@
 "use client";
 import { useState } from "react";
+import { toast } from "sonner";
+
+type ExportFormat = "csv" | "tsv" | "anki-tsv" | "apkg";
+
+const FALLBACK_FILENAMES: Record<ExportFormat, string> = {
+  csv: "deck.csv",
+  tsv: "deck.tsv",
+  "anki-tsv": "deck.txt",
+  apkg: "deck.apkg",
+};
+
+// Prefers the UTF-8 filename* over the ASCII-only filename fallback.
+function filenameFromDisposition(header: string | null): string | null {
+  const encoded = header?.match(/filename\*=UTF-8''([^;]+)/i)?.[1];
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded);
+    } catch {
+      // fall through to the plain filename
+    }
+  }
+  const match = header?.match(/filename="([^"]+)"/);
+  return match ? match[1] : null;
+}
 
 export default function ExportButtons({ deckId }: { deckId: string }) {
   const [busy, setBusy] = useState<string | null>(null);
+  const [includeProgress, setIncludeProgress] = useState(true);
 
-  async function download(fmt: "csv" | "tsv" | "anki-tsv") {
+  async function download(fmt: ExportFormat) {
     if (busy) return;
     setBusy(fmt);
     try {
-      const res = await fetch(`/api/deck/${deckId}/export?fmt=${fmt}`, { cache: "no-store" });
+      const params = new URLSearchParams({ fmt });
+      if (fmt === "apkg" && !includeProgress) params.set("scheduling", "0");
+      const res = await fetch(`/api/deck/${deckId}/export?${params.toString()}`, { cache: "no-store" });
+      if (!res.ok) throw new Error("We couldn't prepare this export.");
       const blob = await res.blob();
       const url = URL.createObjectURL(blob);
       const a = document.createElement("a");
       a.href = url;
-      a.download = fmt === "csv" ? "deck.csv" : "deck.tsv";
+      a.download = filenameFromDisposition(res.headers.get("Content-Disposition")) || FALLBACK_FILENAMES[fmt];
       document.body.appendChild(a); a.click(); a.remove();
       URL.revokeObjectURL(url);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error && error.message ? error.message : "We couldn't prepare this export.");
     } finally {
       setBusy(null);
     }
   }
 
   return (
-    <div className="flex gap-2">
+    <div className="flex flex-wrap items-center gap-2">
       <button className="text-sm px-3 py-1.5 rounded border" onClick={() => download("csv")} disabled={!!busy}>
         {busy === "csv" ? "Preparing..." : "Download CSV"}
       </button>
       <button className="text-sm px-3 py-1.5 rounded border" onClick={() => download("tsv")} disabled={!!busy}>
         {busy === "tsv" ? "Preparing..." : "Download TSV"}
       </button>
-      <button className="text-sm px-3 py-1.5 rounded border" title="Anki can import TSV" onClick={() => download("anki-tsv")} disabled={!!busy}>
-        {busy === "anki-tsv" ? "Preparing..." : "Download for Anki"}
+      <button className="text-sm px-3 py-1.5 rounded border" title="Plain text that Anki's importer understands" onClick={() => download("anki-tsv")} disabled={!!busy}>
+        {busy === "anki-tsv" ? "Preparing..." : "Anki text"}
+      </button>
+      <button className="text-sm px-3 py-1.5 rounded border" title="Anki deck package" onClick={() => download("apkg")} disabled={!!busy}>
+        {busy === "apkg" ? "Preparing..." : "Anki package"}
       </button>
+      <label className="flex items-center gap-1 text-xs text-slate-600" title="Carry due dates, intervals and review history into Anki">
+        <input type="checkbox" checked={includeProgress} onChange={(e) => setIncludeProgress(e.target.checked)} />
+        with progress
+      </label>
     </div>
   );
 }
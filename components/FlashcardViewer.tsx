@@ -1,8 +1,19 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
+import ClozeText from "@/components/ClozeText";
+import VideoMomentLink from "@/components/VideoMomentLink";
+import { isClozeCard } from "@/lib/cards/cloze";
+import type { VideoMoment } from "@/lib/generation/provenance";
 
-type Card = { id: string; question: string; answer: string };
+type Card = {
+  id: string;
+  question: string;
+  answer: string;
+  kind?: string;
+  clozeIndex?: number | null;
+  moment?: VideoMoment | null;
+};
 
 export default function FlashcardViewer({ cards }: { cards: Card[] }) {
   const [idx, setIdx] = useState(0);
@@ -47,14 +58,16 @@ export default function FlashcardViewer({ cards }: { cards: Card[] }) {
         >
           {/* Front */}
           <div className="absolute inset-0 flex items-center justify-center text-center text-lg font-medium [backface-visibility:hidden]">
-            {c.question}
+            {isClozeCard(c) ? <ClozeText text={c.question} index={c.clozeIndex as number} revealed={false} /> : c.question}
           </div>
           {/* Back */}
           <div className="absolute inset-0 flex items-center justify-center text-center text-base text-gray-800 [transform:rotateY(180deg)] [backface-visibility:hidden]">
-            {c.answer}
+            {isClozeCard(c) ? <ClozeText text={c.question} index={c.clozeIndex as number} revealed extra={c.answer} /> : c.answer}
           </div>
         </div>
       </div>
+
+      {flipped && c.moment ? <VideoMomentLink key={c.id} moment={c.moment} /> : null}
     </div>
   );
 }
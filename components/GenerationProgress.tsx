@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import type { GenerationJobView } from "@/lib/generation/jobs";
+
+// Stage keys are the pipeline's timing labels; several map onto one user-facing step.
+const STAGES: { label: string; keys: string[] }[] = [
+  { label: "Reading your submission", keys: ["auth_ms", "form_data_ms"] },
+  { label: "Downloading your document", keys: ["doc_fetch_ms"] },
+  { label: "Reading the web page", keys: ["web_extract_ms"] },
+  { label: "Reading pages across the site", keys: ["web_crawl_ms"] },
+  { label: "Fetching the YouTube transcript", keys: ["transcript_cache_ms", "transcript_ms"] },
+  { label: "Transcribing audio", keys: ["asr_ms"] },
+  { label: "Extracting text from the PDF", keys: ["pdf_extract_ms"] },
+  { label: "Extracting text from the slides", keys: ["pptx_extract_ms"] },
+  { label: "Reading the text in your image", keys: ["image_extract_ms"] },
+  {
+    label: "Extracting text from the document",
+    keys: [
+      "docx_extract_ms",
+      "epub_extract_ms",
+      "markdown_extract_ms",
+      "html_extract_ms",
+      "spreadsheet_extract_ms",
+      "notebook_extract_ms",
+      "subtitles_extract_ms",
+    ],
+  },
+  { label: "Writing cards", keys: ["llm_flashcards_ms"] },
+  { label: "Saving your deck", keys: ["db_user_upsert_ms", "figures_store_ms", "db_deck_create_ms", "db_cards_create_ms"] },
+  { label: "Finishing up", keys: ["db_student_state_read_ms", "db_reasoning_run_create_ms"] },
+];
+
+const STATUS_LABELS: Record<GenerationJobView["status"], string> = {
+  queued: "Waiting to start",
+  running: "Working",
+  succeeded: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+async function safeJson(res: Response) {
+  try { const text = await res.text(); return text ? JSON.parse(text) : null; } catch { return null; }
+}
+
+export default function GenerationProgress({
+  jobId,
+  onFinished,
+}: {
+  jobId: string;
+  onFinished: (job: GenerationJobView) => void;
+}) {
+  const [job, setJob] = useState<GenerationJobView | null>(null);
+  const [connected, setConnected] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    // EventSource reconnects by itself after network drops and after the server closes a
+    // long-running stream, so only a terminal `done` event ends the subscription.
+    const source = new EventSource(`/api/generation-jobs/${jobId}/events`);
+    const read = (event: MessageEvent) => {
+      try { return JSON.parse(event.data) as GenerationJobView; } catch { return null; }
+    };
+    source.addEventListener("open", () => setConnected(true));
+    source.addEventListener("error", () => setConnected(false));
+    source.addEventListener("progress", (event) => {
+      const view = read(event as MessageEvent);
+      if (view) setJob(view);
+    });
+    source.addEventListener("done", (event) => {
+      source.close();
+      const view = read(event as MessageEvent);
+      if (!view) return;
+      setJob(view);
+      onFinishedRef.current(view);
+    });
+    source.addEventListener("unavailable", (event) => {
+      const data = (() => { try { return JSON.parse((event as MessageEvent).data); } catch { return null; } })();
+      if (data?.error === "Not found") {
+        source.close();
+        toast.error("That generation job no longer exists.");
+      }
+    });
+    return () => source.close();
+  }, [jobId]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  async function cancel() {
+    if (cancelling) return;
+    setCancelling(true);
+    try {
+      const res = await fetch(`/api/generation-jobs/${jobId}/cancel`, { method: "POST" });
+      const data = await safeJson(res);
+      if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "We couldn't cancel this job.");
+      if (data?.job) setJob(data.job as GenerationJobView);
+      toast.info("Stopping after the current step...");
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : "We couldn't cancel this job.");
+      setCancelling(false);
+    }
+  }
+
+  const status = job?.status ?? "queued";
+  const finished = status === "succeeded" || status === "failed" || status === "cancelled";
+  const currentStage = job?.stage === "waiting_for_capacity"
+    ? "Waiting for AI capacity, retrying shortly"
+    : STAGES.find((stage) => job?.stage && stage.keys.includes(job.stage))?.label ?? null;
+  const completed = STAGES.filter((stage) => stage.keys.some((key) => key !== job?.stage && job?.timings[key] !== undefined));
+  const elapsedSec = job ? Math.max(0, Math.round(((finished && job.finishedAt ? Date.parse(job.finishedAt) : now) - Date.parse(job.createdAt)) / 1000)) : 0;
+
+  return (
+    <div className="rounded-lg border border-slate-200 p-4 space-y-3" aria-live="polite">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-medium">{job?.title || "Generating your deck"}</p>
+          <p className="text-xs text-slate-500">
+            {STATUS_LABELS[status]}
+            {currentStage && !finished ? ` · ${currentStage}` : ""}
+            {job ? ` · ${elapsedSec}s` : ""}
+            {job && job.attempts > 1 && !finished ? ` · attempt ${job.attempts}` : ""}
+            {!connected && !finished ? " · reconnecting" : ""}
+          </p>
+        </div>
+        {!finished ? (
+          <button
+            type="button"
+            onClick={cancel}
+            disabled={cancelling || job?.cancelRequested}
+            className="px-3 py-1.5 rounded border text-sm disabled:opacity-60"
+          >
+            {cancelling || job?.cancelRequested ? "Cancelling..." : "Cancel"}
+          </button>
+        ) : null}
+      </div>
+
+      {completed.length ? (
+        <ul className="space-y-1 text-xs text-slate-600">
+          {completed.map((stage) => {
+            const ms = stage.keys.reduce((sum, key) => sum + (job?.timings[key] ?? 0), 0);
+            return (
+              <li key={stage.label} className="flex items-center justify-between gap-3">
+                <span>✓ {stage.label}</span>
+                <span className="text-slate-400">{(ms / 1000).toFixed(1)}s</span>
+              </li>
+            );
+          })}
+        </ul>
+      ) : null}
+
+      {status === "failed" && job?.error ? <p className="text-sm text-red-700">{job.error}</p> : null}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+
+type ColumnMapping = { question: number; answer: number; tags: number | null };
+
+type DelimitedPreview = {
+  delimiter: string;
+  hasHeader: boolean;
+  columns: string[];
+  rows: string[][];
+  suggestedMapping: ColumnMapping;
+};
+
+type CardPreview = {
+  title: string;
+  total: number;
+  skipped: number;
+  withScheduling: number;
+  cards: Array<{ question: string; answer: string }>;
+  warnings: string[];
+};
+
+const DELIMITER_LABELS: Record<string, string> = { ",": "Comma", "\t": "Tab", ";": "Semicolon", "|": "Pipe" };
+
+export default function ImportDeckForm() {
+  const [mode, setMode] = useState<"file" | "paste">("file");
+  const [file, setFile] = useState<File | null>(null);
+  const [text, setText] = useState("");
+  const [title, setTitle] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [table, setTable] = useState<DelimitedPreview | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [summary, setSummary] = useState<CardPreview | null>(null);
+  const router = useRouter();
+
+  function buildBody(preview: boolean) {
+    const body = new FormData();
+    if (mode === "file" && file) body.set("file", file);
+    if (mode === "paste") { body.set("text", text); body.set("format", "text"); }
+    if (title.trim()) body.set("title", title.trim());
+    if (table) {
+      body.set("delimiter", table.delimiter);
+      body.set("hasHeader", hasHeader ? "1" : "0");
+      if (mapping) body.set("mapping", JSON.stringify(mapping));
+    }
+    if (preview) body.set("preview", "1");
+    return body;
+  }
+
+  async function send(preview: boolean) {
+    const res = await fetch("/api/deck/import", { method: "POST", body: buildBody(preview) });
+    const data = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "We couldn't read this import.");
+    return data;
+  }
+
+  async function runPreview() {
+    if (busy) return;
+    setBusy(true);
+    try {
+      const data = await send(true);
+      if (data?.preview) {
+        setTable(data.preview);
+        setMapping(data.preview.suggestedMapping);
+        setHasHeader(data.preview.hasHeader);
+        setSummary(null);
+      } else {
+        setTable(null);
+        setSummary(data);
+      }
+    } catch (error: unknown) {
+      toast.error(error instanceof Error && error.message ? error.message : "We couldn't read this import.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function runImport() {
+    if (busy) return;
+    setBusy(true);
+    try {
+      const data = await send(false);
+      toast.success(`Imported ${data.imported} card${data.imported === 1 ? "" : "s"}${data.skipped ? ` (${data.skipped} skipped)` : ""}`);
+      router.push(`/app/deck/${data.deckId}`);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error && error.message ? error.message : "We couldn't import this deck.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function reset() {
+    setTable(null);
+    setMapping(null);
+    setSummary(null);
+  }
+
+  const ready = mode === "file" ? !!file : !!text.trim();
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex gap-2">
+        {(["file", "paste"] as const).map((value) => (
+          <button
+            key={value}
+            type="button"
+            className={`px-3 py-1.5 rounded border ${mode === value ? "bg-black text-white" : ""}`}
+            onClick={() => { setMode(value); reset(); }}
+          >
+            {value === "file" ? "Anki, CSV or TSV file" : "Paste term/definition list"}
+          </button>
+        ))}
+      </div>
+
+      {mode === "file" ? (
+        <input
+          type="file"
+          accept=".apkg,.colpkg,.csv,.tsv,.txt"
+          onChange={(e) => { setFile(e.target.files?.[0] || null); reset(); }}
+          className="block w-full text-sm"
+        />
+      ) : (
+        <textarea
+          value={text}
+          onChange={(e) => { setText(e.target.value); reset(); }}
+          rows={6}
+          placeholder={"photosynthesis\tHow plants turn light into chemical energy\nmitosis\tCell division that produces two identical cells"}
+          className="w-full rounded border p-2 font-mono text-xs"
+        />
+      )}
+
+      <input
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Deck title (optional)"
+        className="w-full rounded border px-2 py-1.5"
+      />
+
+      {table && mapping ? (
+        <div className="space-y-2 rounded border p-3">
+          <div className="flex flex-wrap items-center gap-3 text-xs text-slate-600">
+            <span>Delimiter: {DELIMITER_LABELS[table.delimiter] || table.delimiter}</span>
+            <label className="flex items-center gap-1">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => setHasHeader(e.target.checked)} />
+              First row is a header
+            </label>
+          </div>
+          <div className="grid gap-2 sm:grid-cols-3">
+            {(["question", "answer", "tags"] as const).map((field) => (
+              <label key={field} className="flex flex-col gap-1 text-xs text-slate-600">
+                {field === "question" ? "Question column" : field === "answer" ? "Answer column" : "Tags column"}
+                <select
+                  value={mapping[field] ?? ""}
+                  onChange={(e) => setMapping({ ...mapping, [field]: e.target.value === "" ? null : Number(e.target.value) })}
+                  className="rounded border px-2 py-1 text-sm text-slate-900"
+                >
+                  {field === "tags" ? <option value="">None</option> : null}
+                  {table.columns.map((column, index) => (
+                    <option key={index} value={index}>{column}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+          <ul className="divide-y rounded border text-xs">
+            {table.rows.map((row, index) => (
+              <li key={index} className="p-2">
+                <span className="font-medium">{row[mapping.question] || "—"}</span>
+                <span className="text-slate-500"> → {row[mapping.answer] || "—"}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      {summary ? (
+        <div className="space-y-2 rounded border p-3 text-xs text-slate-600">
+          <div>
+            <span className="font-medium text-slate-900">{summary.title}</span>: {summary.total} cards
+            {summary.withScheduling ? `, ${summary.withScheduling} with review progress` : ""}
+            {summary.skipped ? `, ${summary.skipped} skipped` : ""}
+          </div>
+          <ul className="divide-y rounded border">
+            {summary.cards.map((card, index) => (
+              <li key={index} className="p-2">
+                <span className="font-medium text-slate-900">{card.question}</span> → {card.answer}
+              </li>
+            ))}
+          </ul>
+          {summary.warnings.map((warning) => <div key={warning} className="text-amber-700">{warning}</div>)}
+        </div>
+      ) : null}
+
+      <div className="flex gap-2">
+        <button type="button" className="px-3 py-1.5 rounded border disabled:opacity-60" onClick={runPreview} disabled={!ready || busy}>
+          {busy && !table && !summary ? "Reading..." : "Preview"}
+        </button>
+        <button
+          type="button"
+          className="px-3 py-1.5 rounded bg-black text-white disabled:opacity-60"
+          onClick={runImport}
+          disabled={!ready || busy || (!table && !summary)}
+        >
+          {busy && (table || summary) ? "Importing..." : "Import deck"}
+        </button>
+      </div>
+    </div>
+  );
+}
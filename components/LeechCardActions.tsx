@@ -0,0 +1,120 @@
+"use client";
+import { useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { useRouter } from "next/navigation";
+
+type Proposal = { question: string; answer: string; verificationConfidence: number };
+
+export default function LeechCardActions({
+  cardId,
+  deckId,
+  question,
+  lapses,
+  suspended,
+  tags,
+}: {
+  cardId: string;
+  deckId: string;
+  question: string;
+  lapses: number;
+  suspended: boolean;
+  tags: string[];
+}) {
+  const [busy, setBusy] = useState<"rewrite" | "save" | null>(null);
+  const [proposals, setProposals] = useState<Proposal[]>([]);
+  const router = useRouter();
+
+  const tutorHref = `/app/deck/${deckId}?${new URLSearchParams({
+    concept: question.slice(0, 80),
+    reason: `You have forgotten this card ${lapses} times. Ask the tutor for a focused explanation before studying it again.`,
+    source: "leech",
+  }).toString()}`;
+
+  async function patch(body: Record<string, unknown>, success: string) {
+    setBusy("save");
+    try {
+      const res = await fetch(`/api/card/${cardId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "We couldn't update this card.");
+      toast.success(success);
+      setProposals([]);
+      router.refresh();
+    } catch (error: unknown) {
+      toast.error(error instanceof Error && error.message ? error.message : "We couldn't update this card.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function requestRewrite() {
+    setBusy("rewrite");
+    try {
+      const res = await fetch(`/api/card/${cardId}/rewrite`, { method: "POST" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(typeof data?.error === "string" ? data.error : "We couldn't rewrite this card.");
+      setProposals(Array.isArray(data?.proposals) ? data.proposals : []);
+    } catch (error: unknown) {
+      toast.error(error instanceof Error && error.message ? error.message : "We couldn't rewrite this card.");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button className="px-3 py-1.5 rounded bg-black text-white disabled:opacity-60" onClick={requestRewrite} disabled={!!busy}>
+          {busy === "rewrite" ? "Rewriting..." : "Rewrite with the reasoning engine"}
+        </button>
+        <Link href={tutorHref} className="px-3 py-1.5 rounded border">Ask the tutor</Link>
+        <button
+          className="px-3 py-1.5 rounded border disabled:opacity-60"
+          onClick={() => patch({ suspended: !suspended }, suspended ? "Card is back in study" : "Card suspended")}
+          disabled={!!busy}
+        >
+          {suspended ? "Unsuspend" : "Suspend"}
+        </button>
+        {tags.includes("leech") ? (
+          <button
+            className="px-3 py-1.5 rounded border disabled:opacity-60"
+            onClick={() => patch({ tags: tags.filter((tag) => tag !== "leech"), suspended: false }, "Leech flag cleared")}
+            disabled={!!busy}
+          >
+            Clear leech flag
+          </button>
+        ) : null}
+      </div>
+
+      {proposals.length ? (
+        <div className="space-y-2">
+          {proposals.map((proposal, index) => (
+            <div key={index} className="rounded-xl border border-sky-100 bg-sky-50/60 p-3 text-sm">
+              <div className="font-medium text-slate-900">{proposal.question}</div>
+              <div className="mt-1 text-slate-700">{proposal.answer}</div>
+              <div className="mt-2 flex items-center justify-between gap-3 text-xs text-slate-500">
+                <span>Verification confidence {Math.round(proposal.verificationConfidence * 100)}%</span>
+                <button
+                  className="px-2 py-1 rounded bg-sky-700 text-white disabled:opacity-60"
+                  onClick={() =>
+                    patch(
+                      { question: proposal.question, answer: proposal.answer, kind: "basic", suspended: false, tags: tags.filter((tag) => tag !== "leech") },
+                      "Card rewritten and back in study"
+                    )
+                  }
+                  disabled={!!busy}
+                >
+                  Use this version
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
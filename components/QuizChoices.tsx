@@ -0,0 +1,58 @@
+"use client";
+
+export type QuizQuestion = {
+  cardId: string;
+  prompt: string;
+  choices: string[];
+  picked: string | null;
+  correctAnswer: string | null;
+};
+
+// Multiple-choice view of a study card. Before an answer is picked every choice is a button;
+// afterwards the correct answer is highlighted in green and a wrong pick in red.
+export default function QuizChoices({
+  question,
+  busy,
+  onPick,
+}: {
+  question: QuizQuestion;
+  busy: boolean;
+  onPick: (choice: string) => void;
+}) {
+  const answered = question.picked !== null;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-lg whitespace-pre-wrap">{question.prompt}</p>
+      <div className="grid gap-2 sm:grid-cols-2">
+        {question.choices.map((choice, position) => {
+          const isAnswer = answered && choice === question.correctAnswer;
+          const isWrongPick = answered && choice === question.picked && !isAnswer;
+          return (
+            <button
+              key={choice}
+              type="button"
+              className={`flex items-start gap-2 rounded-xl border px-3 py-2 text-left text-sm disabled:cursor-default ${
+                isAnswer
+                  ? "border-emerald-400 bg-emerald-50 text-emerald-950"
+                  : isWrongPick
+                    ? "border-red-300 bg-red-50 text-red-900"
+                    : answered
+                      ? "border-slate-200 text-slate-500"
+                      : "border-slate-300 hover:border-slate-900"
+              }`}
+              onClick={() => onPick(choice)}
+              disabled={answered || busy}
+            >
+              <kbd className="text-xs text-slate-500">{position + 1}</kbd>
+              <span className="whitespace-pre-wrap">{choice}</span>
+            </button>
+          );
+        })}
+      </div>
+      {answered && question.correctAnswer && !question.choices.includes(question.correctAnswer) ? (
+        <p className="text-sm text-emerald-900">Correct answer: {question.correctAnswer}</p>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+"use client";
+
+import { useState } from "react";
+
+// The figure stored from the slide or page a card cites. A plain <img>: figures live on the
+// Blob store's per-project host, which next/image would need configured ahead of time.
+export default function SourceFigure({ figure, label }: { figure: { url: string; alt?: string }; label?: string }) {
+  const [failed, setFailed] = useState(false);
+  if (failed) return null;
+
+  return (
+    <figure className="space-y-1">
+      <a href={figure.url} target="_blank" rel="noreferrer" className="block">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img
+          src={figure.url}
+          alt={figure.alt || (label ? `Figure from ${label}` : "Figure from the source")}
+          loading="lazy"
+          onError={() => setFailed(true)}
+          className="max-h-64 w-auto max-w-full rounded-lg border border-slate-200 bg-white object-contain"
+        />
+      </a>
+      {figure.alt || label ? (
+        <figcaption className="text-xs text-slate-500">{[label, figure.alt].filter(Boolean).join(" · ")}</figcaption>
+      ) : null}
+    </figure>
+  );
+}
@@ -1,15 +1,34 @@
 "use client";
-import { useCallback, useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
+import AnswerDiff from "@/components/AnswerDiff";
+import ClozeText from "@/components/ClozeText";
+import QuizChoices, { type QuizQuestion } from "@/components/QuizChoices";
+import SourceFigure from "@/components/SourceFigure";
+import VideoMomentLink from "@/components/VideoMomentLink";
+import { cardFaces, isClozeCard } from "@/lib/cards/cloze";
+import type { VideoMoment } from "@/lib/generation/provenance";
+import type { AnswerDiffSegment, TypedAnswerGrade } from "@/lib/quiz/typedAnswer";
 import { humanizeMisconceptionCategory } from "@/lib/reasoningEngine/contracts";
+import { isReviewRating, LEARN_AHEAD_MINUTES, REVIEW_XP, type ReviewRating } from "@/lib/srs/contracts";
 import {
   TUTOR_CHAT_SESSION_CONTEXT_EVENT,
   TUTOR_CHAT_SESSION_CONTEXT_STORAGE_KEY,
   type TutorChatSessionContext,
 } from "@/lib/tutorChatSessionContext";
 
-type StudyCard = { id: string; question: string; answer: string };
+type StudyCard = {
+  id: string;
+  question: string;
+  answer: string;
+  kind?: string;
+  clozeIndex?: number | null;
+  deckId?: string;
+  deckTitle?: string | null;
+  moment?: VideoMoment | null;
+  figure?: { url: string; alt?: string } | null;
+};
 
 type TutoringGuideResponse = {
   ok: boolean;
@@ -94,7 +113,8 @@ type StrategyPolicySummary = {
 };
 
 type SessionEvent = {
-  rating: "again" | "good" | "easy";
+  rating: ReviewRating;
+  deckId: string | null;
   coached: boolean;
   recovered: boolean;
   misconception: string | null;
@@ -103,16 +123,61 @@ type SessionEvent = {
   priorConfidence: number | null;
 };
 
+type UndoEntry = {
+  reviewLogId: string;
+  queue: StudyCard[];
+  idx: number;
+  gain: number;
+  quizCorrect: boolean | null;
+};
+
+type StudyMode = "flip" | "quiz" | "typed";
+
+const STUDY_MODE_LABELS: Record<StudyMode, string> = {
+  flip: "Flip & rate",
+  quiz: "Multiple choice",
+  typed: "Type the answer",
+};
+
+type TypedAnswerResult = {
+  cardId: string;
+  grade: TypedAnswerGrade;
+  suggestedRating: ReviewRating;
+  expectedAnswer: string;
+  diff: AnswerDiffSegment[];
+  source: { label: string; excerpt: string } | null;
+};
+
+const TYPED_GRADE_STYLES: Record<TypedAnswerGrade, { label: string; className: string }> = {
+  correct: { label: "Correct", className: "border-emerald-300 bg-emerald-50 text-emerald-900" },
+  partial: { label: "Partially correct", className: "border-amber-300 bg-amber-50 text-amber-900" },
+  wrong: { label: "Not yet", className: "border-red-300 bg-red-50 text-red-900" },
+};
+
+const RATING_BUTTONS: { rating: ReviewRating; label: string; className: string }[] = [
+  { rating: "again", label: "1 · Still shaky", className: "bg-red-600" },
+  { rating: "hard", label: "2 · Hard recall", className: "bg-orange-500" },
+  { rating: "good", label: "3 · Getting there", className: "bg-yellow-500" },
+  { rating: "easy", label: "4 · Feels solid", className: "bg-green-600" },
+];
+
+// A graded quiz question keeps the card on screen until the student moves on, so the
+// queue the review produced is held here instead of being applied straight away.
+type QuizState = QuizQuestion & { next: StudyCard[] | null };
+
+const UNDO_LIMIT = 20;
+
 async function safeJson(res: Response) {
   try { const text = await res.text(); return text ? JSON.parse(text) : null; } catch { return null; }
 }
 
 function buildCoachingContext(card: StudyCard, answerDraft: string, coachResult: TutoringGuideResponse | null) {
   if (!coachResult) return null;
+  const faces = cardFaces(card);
   return {
-    prompt: card.question,
+    prompt: faces.front,
     studentAnswer: answerDraft.trim(),
-    expectedAnswer: card.answer,
+    expectedAnswer: faces.back,
     misconceptionSignals: coachResult.misconceptionSignals || [],
     weakTopicMatches: coachResult.weakTopicMatches || [],
     verification: coachResult.verification,
@@ -121,13 +186,14 @@ function buildCoachingContext(card: StudyCard, answerDraft: string, coachResult:
   };
 }
 
+// Without a deckId the carousel studies everything due today across all of the user's decks.
 export default function StudyCarousel({
   deckId,
   focusConcept,
   focusReason,
   recommendationSource,
 }: {
-  deckId: string;
+  deckId?: string | null;
   focusConcept?: string | null;
   focusReason?: string | null;
   recommendationSource?: string | null;
@@ -145,6 +211,16 @@ export default function StudyCarousel({
   const [celebrated, setCelebrated] = useState(false);
   const [sessionEvents, setSessionEvents] = useState<SessionEvent[]>([]);
   const [sessionComplete, setSessionComplete] = useState(false);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [undoing, setUndoing] = useState(false);
+  const [studyMode, setStudyMode] = useState<StudyMode>("flip");
+  const [quiz, setQuiz] = useState<QuizState | null>(null);
+  const [quizLoading, setQuizLoading] = useState(false);
+  const [quizSubmitting, setQuizSubmitting] = useState(false);
+  const [quizScore, setQuizScore] = useState({ answered: 0, correct: 0 });
+  const [typedResult, setTypedResult] = useState<TypedAnswerResult | null>(null);
+  const [grading, setGrading] = useState(false);
+  const shownAtRef = useRef(Date.now());
   const router = useRouter();
   const tutorPresence = useMemo(
     () => buildTutorPresence({
@@ -160,7 +236,7 @@ export default function StudyCarousel({
   const loadQueue = useCallback(async () => {
     setLoading(true);
     try {
-      const studyUrl = new URL(`/api/deck/${deckId}/study`, window.location.origin);
+      const studyUrl = new URL(deckId ? `/api/deck/${deckId}/study` : "/api/study/today", window.location.origin);
       if (focusConcept) studyUrl.searchParams.set("concept", focusConcept);
       const [qRes, meRes] = await Promise.all([
         fetch(studyUrl.toString(), { cache: "no-store" }),
@@ -170,7 +246,8 @@ export default function StudyCarousel({
       const meJson = meRes.ok ? await safeJson(meRes) : null;
 
       setQueue(Array.isArray(qJson?.cards) ? qJson.cards : []);
-      setIdx(0); setShowBack(false); setCelebrated(false); setAnswerDraft(""); setCoachResult(null); setPolicySummary(null); setSessionEvents([]); setSessionComplete(false);
+      setIdx(0); setShowBack(false); setCelebrated(false); setAnswerDraft(""); setCoachResult(null); setPolicySummary(null); setSessionEvents([]); setSessionComplete(false); setUndoStack([]);
+      setQuiz(null); setQuizScore({ answered: 0, correct: 0 });
       setXpToday(Number(meJson?.xpToday ?? 0));
       setGoal(Number(meJson?.dailyGoal ?? 50));
 
@@ -192,11 +269,40 @@ export default function StudyCarousel({
     setCoachResult(null);
     setPolicySummary(null);
     setCoachLoading(false);
+    setTypedResult(null);
+    shownAtRef.current = Date.now();
   }, [current?.id]);
 
+  const currentId = current?.id ?? null;
   useEffect(() => {
+    if (studyMode !== "quiz" || !currentId) return;
+    let cancelled = false;
+    setQuiz(null);
+    setQuizLoading(true);
+    (async () => {
+      try {
+        const res = await fetch(`/api/card/${currentId}/quiz`, { cache: "no-store" });
+        const data = await safeJson(res);
+        if (!res.ok || !data?.ok || !Array.isArray(data.choices)) {
+          throw new Error(readApiError(data, "We couldn't prepare a quiz question for this card."));
+        }
+        if (!cancelled) {
+          setQuiz({ cardId: currentId, prompt: String(data.prompt ?? ""), choices: data.choices, picked: null, correctAnswer: null, next: null });
+        }
+      } catch (error: unknown) {
+        if (!cancelled) toast.error(getErrorMessage(error, "We couldn't prepare a quiz question for this card."));
+      } finally {
+        if (!cancelled) setQuizLoading(false);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [currentId, studyMode]);
+
+  useEffect(() => {
+    const contextDeckId = current?.deckId || deckId;
+    if (!contextDeckId) return;
     const nextContext: TutorChatSessionContext = {
-      deckId,
+      deckId: contextDeckId,
       focusConcept: focusConcept || null,
       focusReason: focusReason || null,
       queuePosition: current
@@ -208,8 +314,8 @@ export default function StudyCarousel({
       currentCard: current
         ? {
             id: current.id,
-            question: current.question,
-            answerPreview: current.answer.slice(0, 220),
+            question: cardFaces(current).front,
+            answerPreview: cardFaces(current).back.slice(0, 220),
             revealed: showBack,
           }
         : null,
@@ -252,22 +358,48 @@ export default function StudyCarousel({
     showBack,
   ]);
 
-  const mark = useCallback(async (rating: "again" | "good" | "easy") => {
+  const advance = useCallback((next: StudyCard[]) => {
+    setQueue(next); setShowBack(false); setIdx((i) => (i >= next.length ? Math.max(0, next.length - 1) : i));
+    setAnswerDraft(""); setCoachResult(null); setPolicySummary(null); setQuiz(null); setTypedResult(null);
+    if (next.length === 0) { setSessionComplete(true); toast.success("Guided session complete 🎉"); }
+  }, []);
+
+  // `quizChoice` submits a multiple-choice answer instead of a self-rating; the server grades
+  // it and decides the rating, so the XP and requeue below use the rating it sends back.
+  const mark = useCallback(async (requested: ReviewRating, quizChoice?: string) => {
     if (!current) return;
-    const gain = rating === "easy" ? 5 : rating === "good" ? 3 : 1;
     const coachingContext = buildCoachingContext(current, answerDraft, coachResult);
-    const recovered = !!coachingContext && rating !== "again";
     try {
-      await fetch(`/api/review`, {
+      const res = await fetch(`/api/review`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ cardId: current.id, rating, coachingContext }),
+        body: JSON.stringify({
+          cardId: current.id,
+          rating: quizChoice === undefined ? requested : undefined,
+          quiz: quizChoice === undefined ? undefined : { choice: quizChoice },
+          elapsedMs: Date.now() - shownAtRef.current,
+          coachingContext,
+        }),
       });
+      const data = await safeJson(res);
+      // The card stays up when the review was not saved, so the same rating can be sent again.
+      if (!res.ok) {
+        throw new Error(readApiError(data, quizChoice !== undefined ? "We couldn't grade that answer." : "We couldn't save that study step."));
+      }
+      const rating: ReviewRating = isReviewRating(data?.rating) ? data.rating : requested;
+      const gain = REVIEW_XP[rating];
+      const recovered = !!coachingContext && rating !== "again";
+      const quizCorrect = typeof data?.quiz?.correct === "boolean" ? (data.quiz.correct as boolean) : null;
+      if (typeof data?.reviewLogId === "string") {
+        const reviewLogId = data.reviewLogId as string;
+        setUndoStack((stack) => [...stack, { reviewLogId, queue, idx, gain, quizCorrect }].slice(-UNDO_LIMIT));
+      }
 
       setSessionEvents((events) => [
         ...events,
         {
           rating,
+          deckId: current.deckId || deckId || null,
           coached: !!coachingContext,
           recovered,
           misconception: coachingContext?.misconceptionSignals?.[0] || null,
@@ -279,11 +411,30 @@ export default function StudyCarousel({
         },
       ]);
 
-      const next = [...queue]; next.splice(idx, 1); if (rating === "again") next.push(current);
-      setQueue(next); setShowBack(false); if (idx >= next.length) setIdx(Math.max(0, next.length - 1));
-      setAnswerDraft(""); setCoachResult(null); setPolicySummary(null);
+      const nextDueMs = typeof data?.nextDue === "string" ? new Date(data.nextDue).getTime() : NaN;
+      const requeue = !data?.suspended && (rating === "again" || (Number.isFinite(nextDueMs) && nextDueMs - Date.now() <= LEARN_AHEAD_MINUTES * 60_000));
+      const next = [...queue]; next.splice(idx, 1); if (requeue) next.push(current);
 
-      toast.success(rating === "easy" ? "Strong finish. +5 XP" : rating === "good" ? "Nice progress. +3 XP" : "Good catch. +1 XP");
+      if (quizCorrect !== null) {
+        const correctAnswer = typeof data?.quiz?.correctAnswer === "string" ? (data.quiz.correctAnswer as string) : null;
+        setQuiz((state) => (state && state.cardId === current.id ? { ...state, picked: quizChoice ?? null, correctAnswer, next } : state));
+        setQuizScore((score) => ({ answered: score.answered + 1, correct: score.correct + (quizCorrect ? 1 : 0) }));
+        if (quizCorrect) toast.success(`Correct. +${gain} XP`);
+        else toast.message(`Not quite. The correct answer is highlighted. +${gain} XP`);
+      } else {
+        advance(next);
+        toast.success(
+          rating === "easy" ? `Strong finish. +${gain} XP`
+            : rating === "good" ? `Nice progress. +${gain} XP`
+              : rating === "hard" ? `Hard-won recall. +${gain} XP`
+                : `Good catch. +${gain} XP`
+        );
+      }
+      if (data?.leech) {
+        toast.warning(data.suspended
+          ? "This card keeps slipping, so it was suspended. Open the deck's Leeches view to rewrite it."
+          : "This card keeps slipping and was tagged as a leech.");
+      }
       if (coachingContext) {
         toast.message(recovered ? "The tutor recorded that this coaching step helped." : "The tutor recorded that this concept still needs another pass.");
       }
@@ -297,10 +448,92 @@ export default function StudyCarousel({
         } catch { /* confetti optional */ }
         toast.success("Daily study goal reached! 🎉");
       }
-
-      if (next.length === 0) { setSessionComplete(true); toast.success("Guided session complete 🎉"); }
     } catch (error: unknown) { toast.error(getErrorMessage(error, "We couldn't save that study step.")); }
-  }, [answerDraft, celebrated, coachResult, current, goal, idx, queue, xpToday]);
+  }, [advance, answerDraft, celebrated, coachResult, current, deckId, goal, idx, queue, xpToday]);
+
+  const pickQuizChoice = useCallback(async (choice: string) => {
+    if (!quiz || quiz.picked !== null || quizSubmitting) return;
+    setQuizSubmitting(true);
+    try { await mark("good", choice); } finally { setQuizSubmitting(false); }
+  }, [mark, quiz, quizSubmitting]);
+
+  const continueQuiz = useCallback(() => {
+    if (quiz?.next) advance(quiz.next);
+  }, [advance, quiz]);
+
+  // Typed answers are graded without saving a review; the grade preselects a rating that the
+  // learner confirms (Enter) or overrides (1-4) like any other flip-and-rate review.
+  const checkTypedAnswer = useCallback(async () => {
+    if (!current || grading) return;
+    const answer = answerDraft.trim();
+    if (!answer) {
+      toast.error("Type your answer first, then check it.");
+      return;
+    }
+
+    setGrading(true);
+    try {
+      const res = await fetch(`/api/card/${current.id}/grade`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ answer }),
+      });
+      const data = await safeJson(res);
+      if (!res.ok || !data?.ok) throw new Error(readApiError(data, "We couldn't check that answer."));
+      setTypedResult({
+        cardId: current.id,
+        grade: data.grade as TypedAnswerGrade,
+        suggestedRating: isReviewRating(data.suggestedRating) ? data.suggestedRating : "good",
+        expectedAnswer: String(data.expectedAnswer ?? ""),
+        diff: Array.isArray(data.diff) ? data.diff : [],
+        source: data.source && typeof data.source.excerpt === "string"
+          ? { label: String(data.source.label ?? "Source passage"), excerpt: data.source.excerpt }
+          : null,
+      });
+      setShowBack(true);
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, "We couldn't check that answer."));
+    } finally {
+      setGrading(false);
+    }
+  }, [answerDraft, current, grading]);
+
+  const suggestedRating = typedResult && typedResult.cardId === current?.id ? typedResult.suggestedRating : null;
+
+  const undoLast = useCallback(async () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry || undoing) return;
+    setUndoing(true);
+    try {
+      const res = await fetch(`/api/review/undo`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reviewLogId: entry.reviewLogId }),
+      });
+      const data = await safeJson(res);
+      if (!res.ok || !data?.ok) {
+        // The server no longer agrees with this stack (another tab reviewed or undid), so drop it.
+        if (res.status === 409 || res.status === 404) setUndoStack([]);
+        throw new Error(readApiError(data, "We couldn't undo that rating."));
+      }
+
+      setUndoStack((stack) => stack.slice(0, -1));
+      setQueue(entry.queue); setIdx(entry.idx); setShowBack(false);
+      setQuiz((state) => (state && state.next ? { ...state, picked: null, correctAnswer: null, next: null } : state));
+      if (entry.quizCorrect !== null) {
+        const undoneCorrect = entry.quizCorrect ? 1 : 0;
+        setQuizScore((score) => ({ answered: Math.max(0, score.answered - 1), correct: Math.max(0, score.correct - undoneCorrect) }));
+      }
+      setSessionEvents((events) => events.slice(0, -1));
+      setSessionComplete(false);
+      setXpToday((xp) => Math.max(0, xp - entry.gain));
+      toast.success("Rating undone. The card is back in your queue.");
+    } catch (error: unknown) {
+      toast.error(getErrorMessage(error, "We couldn't undo that rating."));
+    } finally {
+      setUndoing(false);
+    }
+  }, [undoStack, undoing]);
 
   async function coachCurrentCard() {
     if (!current) return;
@@ -316,9 +549,9 @@ export default function StudyCarousel({
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
-          prompt: current.question,
+          prompt: cardFaces(current).front,
           studentAnswer,
-          expectedAnswer: current.answer,
+          expectedAnswer: cardFaces(current).back,
           title: "Inline study coaching",
           origin: "study_carousel",
         }),
@@ -370,23 +603,42 @@ export default function StudyCarousel({
 
   useEffect(() => {
     function onKey(e: KeyboardEvent) {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z" && !isEditableTarget(e.target)) {
+        e.preventDefault();
+        void undoLast();
+        return;
+      }
       if (!current) return;
+      if (studyMode === "typed" && (e.ctrlKey || e.metaKey) && e.key === "Enter") {
+        e.preventDefault();
+        void checkTypedAnswer();
+        return;
+      }
+      if (isEditableTarget(e.target)) return;
+      if (studyMode === "quiz") {
+        const choice = quiz?.picked === null ? quiz.choices[Number(e.key) - 1] : undefined;
+        if (choice !== undefined) void pickQuizChoice(choice);
+        if (quiz?.next && (e.key === "Enter" || e.key === " " || e.code === "Space")) { e.preventDefault(); continueQuiz(); }
+        return;
+      }
       if (e.key === " " || e.code === "Space") { e.preventDefault(); onFlip(); }
+      if (e.key === "Enter" && suggestedRating) mark(suggestedRating);
       if (e.key === "1") mark("again");
-      if (e.key === "2") mark("good");
-      if (e.key === "3") mark("easy");
+      if (e.key === "2") mark("hard");
+      if (e.key === "3") mark("good");
+      if (e.key === "4") mark("easy");
       if (e.key === "ArrowRight") setIdx((i) => Math.min(i + 1, Math.max(queue.length - 1, 0)));
       if (e.key === "ArrowLeft") setIdx((i) => Math.max(i - 1, 0));
     }
     window.addEventListener("keydown", onKey);
     return () => window.removeEventListener("keydown", onKey);
-  }, [current, mark, onFlip, queue.length]);
+  }, [checkTypedAnswer, continueQuiz, current, mark, onFlip, pickQuizChoice, queue.length, quiz, studyMode, suggestedRating, undoLast]);
 
   if (loading) return <div className="rounded border p-6 text-sm text-gray-500">Preparing your guided session...</div>;
   if (!queue.length && !sessionComplete)
     return (
       <div className="rounded border p-6 text-sm text-gray-500 flex items-center justify-between">
-        <span>Your tutor does not have a guided review pass waiting right now.</span>
+        <span>{deckId ? "Your tutor does not have a guided review pass waiting right now." : "Nothing is due across your decks right now. New cards return after your daily limits reset."}</span>
         <button className="text-sm px-3 py-1.5 rounded border" onClick={loadQueue}>Refresh</button>
       </div>
     );
@@ -430,6 +682,15 @@ export default function StudyCarousel({
             <button className="rounded-full bg-slate-950 px-4 py-2 text-sm font-medium text-white" onClick={loadQueue}>
               Start another pass
             </button>
+            {undoStack.length ? (
+              <button
+                className="rounded-full border border-slate-300 px-4 py-2 text-sm font-medium text-slate-900 disabled:opacity-60"
+                onClick={undoLast}
+                disabled={undoing}
+              >
+                Undo last rating
+              </button>
+            ) : null}
             <button className="rounded-full border border-slate-300 px-4 py-2 text-sm font-medium text-slate-900" onClick={() => router.refresh()}>
               Refresh workspace
             </button>
@@ -494,14 +755,90 @@ export default function StudyCarousel({
       </div>
 
       <div className="rounded-2xl border p-6 min-h-[220px] flex flex-col justify-between">
-        <div className="text-xs text-gray-500">
-          Prompt {idx + 1} / {queue.length} • Press <kbd>Space</kbd> to reveal, <kbd>1</kbd>/<kbd>2</kbd>/<kbd>3</kbd> to reflect how it went
+        <div className="flex flex-wrap items-start justify-between gap-3">
+          <div className="text-xs text-gray-500">
+            {!deckId && card.deckTitle ? <span className="font-medium text-slate-700">{card.deckTitle} • </span> : null}
+            Prompt {idx + 1} / {queue.length} •{" "}
+            {studyMode === "typed" ? (
+              <>Type your answer below, press <kbd>Ctrl</kbd>+<kbd>Enter</kbd> to check it, then <kbd>Enter</kbd> to accept the suggested rating or <kbd>1</kbd>/<kbd>2</kbd>/<kbd>3</kbd>/<kbd>4</kbd> to pick your own</>
+            ) : studyMode === "quiz" ? (
+              <>Press <kbd>1</kbd>/<kbd>2</kbd>/<kbd>3</kbd>/<kbd>4</kbd> to pick an answer, <kbd>Enter</kbd> to continue, <kbd>Ctrl</kbd>+<kbd>Z</kbd> to undo</>
+            ) : (
+              <>Press <kbd>Space</kbd> to reveal, <kbd>1</kbd>/<kbd>2</kbd>/<kbd>3</kbd>/<kbd>4</kbd> to reflect how it went, <kbd>Ctrl</kbd>+<kbd>Z</kbd> to undo</>
+            )}
+          </div>
+          <div className="flex items-center gap-2 text-xs">
+            {studyMode === "quiz" && quizScore.answered ? (
+              <span className="text-slate-600">Quiz score {quizScore.correct}/{quizScore.answered}</span>
+            ) : null}
+            {(["flip", "quiz", "typed"] as const).map((mode) => (
+              <button
+                key={mode}
+                type="button"
+                className={`px-2 py-1 rounded border ${studyMode === mode ? "bg-black text-white" : ""}`}
+                onClick={() => { if (quiz?.next) advance(quiz.next); setStudyMode(mode); setShowBack(false); }}
+                disabled={quizSubmitting}
+              >
+                {STUDY_MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
         </div>
-        <div className="text-lg whitespace-pre-wrap my-6">{showBack ? card.answer : card.question}</div>
+        {studyMode === "quiz" ? (
+          <div className="my-6">
+            {quiz && quiz.cardId === card.id ? (
+              <QuizChoices question={quiz} busy={quizSubmitting} onPick={(choice) => void pickQuizChoice(choice)} />
+            ) : (
+              <p className="text-sm text-gray-500">{quizLoading ? "Preparing answer choices..." : "No answer choices are available for this card. Switch to Flip & rate to review it."}</p>
+            )}
+          </div>
+        ) : (
+          <div className="text-lg whitespace-pre-wrap my-6">
+            {isClozeCard(card) ? (
+              <ClozeText text={card.question} index={card.clozeIndex as number} revealed={showBack} extra={card.answer} />
+            ) : showBack ? card.answer : card.question}
+            {studyMode === "typed" && typedResult && typedResult.cardId === card.id ? (
+              <div className="mt-4 space-y-2 rounded-xl border border-slate-200 bg-slate-50 p-3">
+                <span className={`inline-block rounded-full border px-3 py-1 text-xs font-semibold ${TYPED_GRADE_STYLES[typedResult.grade].className}`}>
+                  {TYPED_GRADE_STYLES[typedResult.grade].label}
+                </span>
+                <AnswerDiff segments={typedResult.diff} />
+                {isClozeCard(card) || typedResult.grade !== "correct" ? (
+                  <p className="text-xs text-slate-500">Expected: {typedResult.expectedAnswer}</p>
+                ) : null}
+                {typedResult.source && typedResult.grade !== "correct" ? (
+                  <p className="text-xs text-slate-500">
+                    <span className="font-medium">{typedResult.source.label}:</span> {typedResult.source.excerpt}
+                  </p>
+                ) : null}
+              </div>
+            ) : null}
+            {card.moment && (showBack || (typedResult && typedResult.cardId === card.id)) ? (
+              <div className="mt-4">
+                <VideoMomentLink key={card.id} moment={card.moment} />
+              </div>
+            ) : null}
+            {card.figure && (showBack || (typedResult && typedResult.cardId === card.id)) ? (
+              <div className="mt-4">
+                <SourceFigure key={card.id} figure={card.figure} />
+              </div>
+            ) : null}
+          </div>
+        )}
         <div className="flex items-center gap-2">
-          <button className="px-3 py-1.5 rounded border" onClick={() => setIdx((i) => Math.max(0, i - 1))} disabled={idx === 0}>◀ Earlier</button>
-          <button className="flex-1 px-3 py-1.5 rounded bg-black text-white" onClick={onFlip}>{showBack ? "Hide tutor answer" : "Reveal tutor answer"}</button>
-          <button className="px-3 py-1.5 rounded border" onClick={() => setIdx((i) => Math.min(queue.length - 1, i + 1))} disabled={idx >= queue.length - 1}>Next ▶</button>
+          <button className="px-3 py-1.5 rounded border" onClick={() => setIdx((i) => Math.max(0, i - 1))} disabled={idx === 0 || !!quiz?.next}>◀ Earlier</button>
+          {studyMode === "quiz" ? (
+            <button className="flex-1 px-3 py-1.5 rounded bg-black text-white disabled:opacity-60" onClick={continueQuiz} disabled={!quiz?.next}>
+              {quiz?.next ? "Continue" : "Pick an answer"}
+            </button>
+          ) : studyMode === "typed" && !typedResult ? (
+            <button className="flex-1 px-3 py-1.5 rounded bg-black text-white disabled:opacity-60" onClick={() => void checkTypedAnswer()} disabled={grading || !answerDraft.trim()}>
+              {grading ? "Checking..." : "Check my answer"}
+            </button>
+          ) : (
+            <button className="flex-1 px-3 py-1.5 rounded bg-black text-white" onClick={onFlip}>{showBack ? "Hide tutor answer" : "Reveal tutor answer"}</button>
+          )}
+          <button className="px-3 py-1.5 rounded border" onClick={() => setIdx((i) => Math.min(queue.length - 1, i + 1))} disabled={idx >= queue.length - 1 || !!quiz?.next}>Next ▶</button>
         </div>
       </div>
 
@@ -589,11 +926,26 @@ export default function StudyCarousel({
         ) : null}
       </div>
 
-      {showBack && (
+      {(showBack || undoStack.length > 0) && (
         <div className="flex items-center gap-3">
-          <button className="px-3 py-1.5 rounded bg-red-600 text-white" onClick={() => mark("again")}>1 · Still shaky</button>
-          <button className="px-3 py-1.5 rounded bg-yellow-500 text-white" onClick={() => mark("good")}>2 · Getting there</button>
-          <button className="px-3 py-1.5 rounded bg-green-600 text-white" onClick={() => mark("easy")}>3 · Feels solid</button>
+          {showBack ? (
+            <>
+              {RATING_BUTTONS.map((button) => (
+                <button
+                  key={button.rating}
+                  className={`px-3 py-1.5 rounded text-white ${button.className} ${suggestedRating === button.rating ? "ring-2 ring-offset-2 ring-slate-900" : ""}`}
+                  onClick={() => mark(button.rating)}
+                >
+                  {button.label}{suggestedRating === button.rating ? " · suggested" : ""}
+                </button>
+              ))}
+            </>
+          ) : null}
+          {undoStack.length ? (
+            <button className="ml-auto px-3 py-1.5 rounded border disabled:opacity-60" onClick={undoLast} disabled={undoing}>
+              ↶ Undo last rating
+            </button>
+          ) : null}
         </div>
       )}
     </div>
@@ -666,7 +1018,7 @@ function buildTutorPresence({
   }
 
   return {
-    title: focusConcept ? `Today's session centers on ${focusConcept}.` : `Start by explaining ${trimQuestion(card?.question || "this card", 56)} in your own words.`,
+    title: focusConcept ? `Today's session centers on ${focusConcept}.` : `Start by explaining ${trimQuestion(card ? cardFaces(card).front : "this card", 56)} in your own words.`,
     message: focusReason
       ? `Why this is next: ${focusReason}`
       : "Write your answer before you flip the card. Once you do, the tutor can adapt the next hint to your confidence, misconception pattern, and recent recovery history.",
@@ -681,7 +1033,7 @@ function buildTutorPresence({
   };
 }
 
-function buildSessionReflection(events: SessionEvent[], deckId: string, focusConcept?: string | null) {
+function buildSessionReflection(events: SessionEvent[], deckId: string | null | undefined, focusConcept?: string | null) {
   const coachedCount = events.filter((event) => event.coached).length;
   const recoveredCount = events.filter((event) => event.recovered).length;
   const easyCount = events.filter((event) => event.rating === "easy").length;
@@ -732,9 +1084,10 @@ function buildSessionReflection(events: SessionEvent[], deckId: string, focusCon
         ? `${focusLabel || "This concept"} was still shaky at the end of the session, so the tutor is resuming it first instead of letting the thread go cold.`
         : `${focusLabel || "This concept"} is recovering, but it needs one more deliberate revisit while the explanation path is still fresh.`;
 
-  const resumeHref = topWeakTopic || focusConcept
+  const resumeDeckId = deckId || [...events].reverse().find((event) => event.deckId)?.deckId || null;
+  const resumeHref = resumeDeckId && (topWeakTopic || focusConcept)
     ? buildDeckResumeHref({
-        deckId,
+        deckId: resumeDeckId,
         concept: topWeakTopic || focusConcept || "",
         reason: resumeReason,
         source: "session_reflection",
@@ -797,6 +1150,11 @@ function formatScore(value: number | undefined | null) {
   return num.toFixed(3);
 }
 
+function isEditableTarget(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "SELECT";
+}
+
 function getErrorMessage(error: unknown, fallback: string) {
   return error instanceof Error && error.message ? error.message : fallback;
 }
@@ -0,0 +1,34 @@
+"use client";
+
+import { useState } from "react";
+import type { VideoMoment } from "@/lib/generation/provenance";
+
+// Watch link for the moment a card came from, plus an inline player that starts there.
+// Callers key it by card so moving to another card closes the player.
+export default function VideoMomentLink({ moment }: { moment: VideoMoment }) {
+  const [playing, setPlaying] = useState(false);
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <a href={moment.href} target="_blank" rel="noreferrer" className="text-slate-700 underline">
+          ▶ Watch this moment ({moment.label})
+        </a>
+        <button type="button" className="text-xs text-slate-500 underline" onClick={() => setPlaying((open) => !open)}>
+          {playing ? "Hide player" : "Play here"}
+        </button>
+      </div>
+      {playing ? (
+        <div className="relative w-full overflow-hidden rounded-xl border border-slate-200 pt-[56.25%]">
+          <iframe
+            src={moment.embedUrl}
+            title={`Video at ${moment.label}`}
+            className="absolute inset-0 h-full w-full"
+            allow="autoplay; encrypted-media; picture-in-picture"
+            allowFullScreen
+          />
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,513 @@
+import { createHash } from "crypto";
+import JSZip from "jszip";
+import initSqlJs, { type Database } from "sql.js";
+import { isClozeCard } from "@/lib/cards/cloze";
+import type { ImportedCard, ImportedDeck, ImportedScheduling } from "@/lib/import/contracts";
+import { isSrsPhase } from "@/lib/srs/contracts";
+import type { LearningStepsConfig } from "@/lib/srs/steps";
+
+// Legacy "collection.anki2" layout (schema 11), which every Anki release since 2.1 still imports.
+const COLLECTION_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const FIELD_SEPARATOR = "\x1f";
+const ANKI_EASE: Record<string, number> = { again: 1, hard: 2, good: 3, easy: 4 };
+const MAX_REVLOG_TIME_MS = 60_000;
+
+export type ApkgCard = {
+  id: string;
+  question: string;
+  answer: string;
+  tags: string[];
+  kind: string;
+  clozeIndex: number | null;
+  noteId: string | null;
+  srsState: string;
+  srsStep: number;
+  srsDueAt: Date;
+  srsEase: number;
+  srsIntervalDays: number;
+  srsLapses: number;
+  srsReps: number;
+  suspendedAt: Date | null;
+};
+
+export type ApkgReview = {
+  cardId: string;
+  rating: string;
+  elapsedMs: number | null;
+  previousSrsState: string | null;
+  previousIntervalDays: number;
+  nextIntervalDays: number;
+  nextEase: number;
+  nextDueAt: Date;
+  reviewedAt: Date;
+};
+
+export type BuildApkgInput = {
+  deckName: string;
+  cards: ApkgCard[];
+  // Without scheduling every card is exported as new and no review history is written.
+  includeScheduling: boolean;
+  reviews?: ApkgReview[];
+  options: ApkgDeckOptions;
+  now?: Date;
+};
+
+export type ApkgDeckOptions = LearningStepsConfig & {
+  leechThreshold: number;
+  leechAction: string;
+};
+
+/**
+ * Packages a deck as an Anki .apkg: a zip holding a SQLite collection plus an (empty)
+ * media map. Note guids are the QuickStud card ids (the note id for cloze notes, whose
+ * deletions become the cards of one Anki Cloze note), so importing a newer export of the
+ * same deck updates the existing notes instead of duplicating them.
+ */
+export async function buildApkg(input: BuildApkgInput): Promise<Buffer> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    const now = input.now ?? new Date();
+    const nowSeconds = Math.floor(now.getTime() / 1000);
+    const ids = createIdSequence(now.getTime());
+    const modelId = ids();
+    const clozeModelId = ids();
+    const deckId = ids();
+    const crt = collectionCreationTime(input.cards, input.includeScheduling, now);
+
+    db.run(COLLECTION_SCHEMA);
+    db.run("INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')", [
+      crt,
+      now.getTime(),
+      now.getTime(),
+      JSON.stringify(collectionConfig(deckId, modelId)),
+      JSON.stringify({
+        [modelId]: basicModel(modelId, deckId, nowSeconds),
+        [clozeModelId]: clozeModel(clozeModelId, deckId, nowSeconds),
+      }),
+      JSON.stringify({ 1: deckJson(1, "Default", nowSeconds), [deckId]: deckJson(deckId, input.deckName, nowSeconds) }),
+      JSON.stringify({ 1: deckConfig(input.options) }),
+    ]);
+
+    const cardIds = new Map<string, number>();
+    const clozeNotes = new Map<string, number>();
+    input.cards.forEach((card, position) => {
+      const clozeNoteId = isClozeCard(card) ? card.noteId : null;
+      const ankiCardId = ids();
+      cardIds.set(card.id, ankiCardId);
+
+      let noteId = clozeNoteId ? clozeNotes.get(clozeNoteId) : undefined;
+      if (noteId === undefined) {
+        noteId = ids();
+        if (clozeNoteId) clozeNotes.set(clozeNoteId, noteId);
+
+        const fields = [toFieldHtml(card.question), toFieldHtml(card.answer)];
+        const sortField = stripHtml(fields[0]);
+        db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')", [
+          noteId,
+          clozeNoteId || card.id,
+          clozeNoteId ? clozeModelId : modelId,
+          nowSeconds,
+          card.tags.length ? ` ${card.tags.join(" ")} ` : "",
+          fields.join(FIELD_SEPARATOR),
+          sortField,
+          fieldChecksum(sortField),
+        ]);
+      }
+
+      // New cards are due in deck order; Anki reads their due value as a queue position.
+      const scheduling = input.includeScheduling
+        ? toAnkiScheduling(card, position + 1, crt, input.options)
+        : newCardScheduling(position + 1);
+      // A cloze card's ord is its deletion number minus one: c1 is ord 0.
+      db.run("INSERT INTO cards VALUES (?, ?, ?, ?, ?, -1, ?, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, '')", [
+        ankiCardId,
+        noteId,
+        deckId,
+        clozeNoteId ? (card.clozeIndex as number) - 1 : 0,
+        nowSeconds,
+        scheduling.type,
+        card.suspendedAt && input.includeScheduling ? -1 : scheduling.queue,
+        scheduling.due,
+        scheduling.ivl,
+        scheduling.factor,
+        scheduling.reps,
+        scheduling.lapses,
+        scheduling.left,
+      ]);
+    });
+
+    if (input.includeScheduling && input.reviews?.length) writeReviewLog(db, input.reviews, cardIds);
+
+    const zip = new JSZip();
+    zip.file("collection.anki2", db.export());
+    zip.file("media", "{}");
+    return await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Reads the notes of an .apkg (or .colpkg) back into cards. The first two fields of each
+ * note become question and answer, HTML is flattened to text, and the scheduling of the
+ * note's first card is kept so intervals and due dates survive the move. Cloze notes keep
+ * every card, one per deletion, each with its own scheduling.
+ */
+export async function readApkg(data: ArrayBuffer | Uint8Array, now = new Date()): Promise<ImportedDeck> {
+  const zip = await JSZip.loadAsync(data);
+  // Newer exports ship a placeholder collection.anki2 next to the compressed anki21b file.
+  const compressed = !!zip.file("collection.anki21b");
+  const collection = zip.file("collection.anki21") || (compressed ? null : zip.file("collection.anki2"));
+  if (!collection) {
+    throw new Error(
+      compressed
+        ? "This package uses Anki's newest compressed format. Re-export it with \"Support older Anki versions\" enabled."
+        : "This file does not contain an Anki collection."
+    );
+  }
+
+  const SQL = await initSqlJs();
+  const db = new SQL.Database(await collection.async("uint8array"));
+  try {
+    const [col] = rows(db, "SELECT crt, decks, models FROM col LIMIT 1");
+    const crt = Number(col?.crt || 0);
+    const decks = parseJsonObject(col?.decks);
+    const models = parseJsonObject(col?.models);
+    const warnings: string[] = [];
+
+    const cardRows = rows(
+      db,
+      `SELECT n.id AS nid, n.mid AS mid, n.flds AS flds, n.tags AS tags, c.ord AS ord, c.did AS did, c.type AS type,
+              c.queue AS queue, c.due AS due, c.ivl AS ivl, c.factor AS factor, c.reps AS reps, c.lapses AS lapses, c.left AS left
+       FROM notes n JOIN cards c ON c.nid = n.id
+       ORDER BY n.id, c.ord, c.id`
+    );
+
+    const deckCounts = new Map<string, number>();
+    const seenNotes = new Set<string>();
+    const cards: ImportedCard[] = [];
+    for (const row of cardRows) {
+      const noteKey = String(row.nid);
+      const isCloze = (models[String(row.mid)] as { type?: unknown } | undefined)?.type === 1;
+      // Other note types contribute only their first card.
+      if (!isCloze && seenNotes.has(noteKey)) continue;
+      const firstOfNote = !seenNotes.has(noteKey);
+      seenNotes.add(noteKey);
+
+      const fields = String(row.flds || "").split(FIELD_SEPARATOR).map(htmlToText);
+      if (isCloze ? !fields[0] : fields.length < 2 || !fields[0] || !fields[1]) {
+        if (firstOfNote) {
+          warnings.push(`Note ${row.nid} skipped: it needs a non-empty ${isCloze ? "text" : "first and second"} field.`);
+        }
+        continue;
+      }
+      const deckName = String((decks[String(row.did)] as { name?: unknown } | undefined)?.name || "");
+      if (deckName && firstOfNote) deckCounts.set(deckName, (deckCounts.get(deckName) || 0) + 1);
+
+      cards.push({
+        question: fields[0],
+        answer: fields.slice(1).filter(Boolean).join("\n"),
+        tags: String(row.tags || "").split(/\s+/).filter(Boolean),
+        scheduling: fromAnkiScheduling(row, crt, now),
+        cloze: isCloze ? { index: Number(row.ord) + 1, noteKey } : null,
+      });
+    }
+
+    const title = [...deckCounts.entries()].sort((left, right) => right[1] - left[1])[0]?.[0] || null;
+    if (deckCounts.size > 1) warnings.push(`Cards from ${deckCounts.size} Anki decks were merged into one deck.`);
+    return { title: title ? title.split("::").pop() || title : null, cards, warnings };
+  } finally {
+    db.close();
+  }
+}
+
+function fromAnkiScheduling(row: Record<string, unknown>, crt: number, now: Date): ImportedScheduling | null {
+  const type = Number(row.type);
+  const queue = Number(row.queue);
+  const due = Number(row.due);
+  const suspendedAt = queue === -1 ? now : null;
+  const common = {
+    srsStep: 0,
+    srsEase: Number(row.factor) > 0 ? Number(row.factor) / 1000 : 2.5,
+    srsIntervalDays: Math.max(0, Number(row.ivl) || 0),
+    srsReps: Math.max(0, Number(row.reps) || 0),
+    srsLapses: Math.max(0, Number(row.lapses) || 0),
+    suspendedAt,
+  };
+
+  if (type === 2) return { ...common, srsState: "review", srsDueAt: new Date((crt + due * 86_400) * 1000) };
+  if (type === 1 || type === 3) {
+    // Learning cards are due at an epoch timestamp (seconds).
+    const dueAt = due > 1_000_000_000 ? new Date(due * 1000) : now;
+    return { ...common, srsState: type === 1 ? "learning" : "relearning", srsDueAt: dueAt };
+  }
+  return suspendedAt ? { ...common, srsState: "new", srsDueAt: now, srsEase: 2.5 } : null;
+}
+
+function rows(db: Database, sql: string): Array<Record<string, unknown>> {
+  const [result] = db.exec(sql);
+  if (!result) return [];
+  return result.values.map((values) => Object.fromEntries(result.columns.map((column, index) => [column, values[index]])));
+}
+
+function parseJsonObject(value: unknown): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(String(value || "{}"));
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function htmlToText(value: string): string {
+  return value
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(div|p|li)>/gi, "\n")
+    .replace(/<img[^>]*>/gi, "")
+    .replace(/\[sound:[^\]]*\]/gi, "")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function writeReviewLog(db: Database, reviews: ApkgReview[], cardIds: Map<string, number>) {
+  const used = new Set<number>();
+  for (const review of reviews) {
+    const cid = cardIds.get(review.cardId);
+    if (!cid) continue;
+
+    // revlog ids are the review time in ms and must be unique.
+    let id = review.reviewedAt.getTime();
+    while (used.has(id)) id += 1;
+    used.add(id);
+
+    // Anki stores sub-day intervals as negative seconds.
+    const ivl = review.nextIntervalDays > 0
+      ? review.nextIntervalDays
+      : -Math.max(60, Math.round((review.nextDueAt.getTime() - review.reviewedAt.getTime()) / 1000));
+
+    db.run("INSERT INTO revlog VALUES (?, ?, -1, ?, ?, ?, ?, ?, ?)", [
+      id,
+      cid,
+      ANKI_EASE[review.rating] ?? 3,
+      ivl,
+      review.previousIntervalDays,
+      Math.round(review.nextEase * 1000),
+      Math.min(MAX_REVLOG_TIME_MS, Math.max(0, review.elapsedMs ?? 0)),
+      revlogType(review.previousSrsState),
+    ]);
+  }
+}
+
+function toAnkiScheduling(card: ApkgCard, position: number, crt: number, options: LearningStepsConfig) {
+  const phase = isSrsPhase(card.srsState) ? card.srsState : "new";
+  const factor = Math.round(card.srsEase * 1000);
+  const base = { ivl: card.srsIntervalDays, factor, reps: card.srsReps, lapses: card.srsLapses };
+
+  if (phase === "review") {
+    const dueDay = Math.round((startOfDay(card.srsDueAt).getTime() / 1000 - crt) / 86_400);
+    return { ...base, type: 2, queue: 2, due: dueDay, left: 0 };
+  }
+  if (phase === "learning" || phase === "relearning") {
+    const steps = phase === "learning" ? options.learningSteps : options.relearningSteps;
+    const remaining = Math.max(1, steps.length - card.srsStep);
+    return {
+      ...base,
+      type: phase === "learning" ? 1 : 3,
+      queue: 1,
+      due: Math.floor(card.srsDueAt.getTime() / 1000),
+      left: remaining,
+    };
+  }
+  return newCardScheduling(position);
+}
+
+function newCardScheduling(position: number) {
+  return { type: 0, queue: 0, due: position, ivl: 0, factor: 0, reps: 0, lapses: 0, left: 0 };
+}
+
+function revlogType(previousSrsState: string | null): number {
+  if (previousSrsState === "review") return 1;
+  if (previousSrsState === "relearning") return 2;
+  return 0;
+}
+
+// Review due dates are day numbers counted from the collection creation day, so start
+// the collection on or before the earliest review due date to keep them non-negative.
+function collectionCreationTime(cards: ApkgCard[], includeScheduling: boolean, now: Date): number {
+  let earliest = startOfDay(now).getTime();
+  if (includeScheduling) {
+    for (const card of cards) {
+      if (card.srsState === "review") earliest = Math.min(earliest, startOfDay(card.srsDueAt).getTime());
+    }
+  }
+  return Math.floor(earliest / 1000);
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function createIdSequence(start: number) {
+  let next = start;
+  return () => next++;
+}
+
+function toFieldHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r?\n/g, "<br>");
+}
+
+function stripHtml(value: string): string {
+  return value
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function fieldChecksum(value: string): number {
+  return parseInt(createHash("sha1").update(value, "utf8").digest("hex").slice(0, 8), 16);
+}
+
+function collectionConfig(deckId: number, modelId: number) {
+  return {
+    activeDecks: [deckId],
+    curDeck: deckId,
+    curModel: modelId,
+    newSpread: 0,
+    collapseTime: 1200,
+    timeLim: 0,
+    estTimes: true,
+    dueCounts: true,
+    sortType: "noteFld",
+    sortBackwards: false,
+    nextPos: 1,
+    schedVer: 2,
+  };
+}
+
+function basicModel(id: number, deckId: number, mod: number) {
+  return {
+    id,
+    name: "QuickStud Basic",
+    type: 0,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tags: [],
+    vers: [],
+    latexPre: "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+    latexPost: "\\end{document}",
+    css: ".card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }",
+    req: [[0, "any", [0]]],
+    flds: ["Front", "Back"].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: "Arial", size: 20, media: [] })),
+    tmpls: [
+      {
+        name: "Card 1",
+        ord: 0,
+        qfmt: "{{Front}}",
+        afmt: "{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}",
+        did: null,
+        bqfmt: "",
+        bafmt: "",
+      },
+    ],
+  };
+}
+
+function clozeModel(id: number, deckId: number, mod: number) {
+  const base = basicModel(id, deckId, mod);
+  return {
+    ...base,
+    name: "QuickStud Cloze",
+    type: 1,
+    css: `${base.css}\n.cloze { font-weight: bold; color: blue; }`,
+    flds: ["Text", "Back Extra"].map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: "Arial", size: 20, media: [] })),
+    tmpls: [
+      {
+        name: "Cloze",
+        ord: 0,
+        qfmt: "{{cloze:Text}}",
+        afmt: "{{cloze:Text}}<br>\n{{Back Extra}}",
+        did: null,
+        bqfmt: "",
+        bafmt: "",
+      },
+    ],
+  };
+}
+
+function deckJson(id: number, name: string, mod: number) {
+  return {
+    id,
+    name: name.replace(/::/g, ":").trim() || "QuickStud deck",
+    desc: "",
+    mod,
+    usn: -1,
+    collapsed: false,
+    browserCollapsed: false,
+    dyn: 0,
+    conf: 1,
+    extendNew: 0,
+    extendRev: 0,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  };
+}
+
+function deckConfig(options: ApkgDeckOptions) {
+  return {
+    id: 1,
+    name: "Default",
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { delays: options.learningSteps, ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+    // Anki's leechAction is 0 for suspend and 1 for tag only.
+    lapse: {
+      delays: options.relearningSteps,
+      mult: 0,
+      minInt: 1,
+      leechFails: options.leechThreshold,
+      leechAction: options.leechAction === "tag" ? 1 : 0,
+    },
+    rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, hardFactor: 1.2, bury: false },
+  };
+}
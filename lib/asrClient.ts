@@ -1,4 +1,6 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import { put } from "@vercel/blob";
+import { transcribeAudioLocally } from "@/lib/localAsr";
 
 export type ASRResult =
   | { ok: true; transcript: string; segments?: unknown; detectedLanguage?: string; raw?: unknown }
@@ -11,6 +13,9 @@ export type ASRResult =
       raw?: unknown;
     };
 
+/** Where speech recognition runs: RunPod (default) or Whisper on this server's CPU (ASR_BACKEND=local). */
+export type AsrBackend = "runpod" | "local";
+
 let loggedRunpodASRKeys = false;
 
 type RunpodAsrMode = "runsync" | "run";
@@ -350,3 +355,69 @@ export async function transcribeAudioUrlWithRunpod(
     };
   }
 }
+
+export function asrBackend(): AsrBackend {
+  return (process.env.ASR_BACKEND || "").trim().toLowerCase() === "local" ? "local" : "runpod";
+}
+
+export function hasAsrConfigured(): boolean {
+  return asrBackend() === "local" || !!(process.env.RUNPOD_ASR_ENDPOINT || process.env.RUNPOD_ASR_ENDPOINT_ID);
+}
+
+/** Transcribes audio or video at a URL with the configured backend. */
+export async function transcribeAudioUrl(
+  audioUrl: string,
+  opts?: { timeoutMs?: number } & Record<string, unknown>
+): Promise<ASRResult> {
+  if (asrBackend() === "local") return transcribeAudioLocally(audioUrl);
+  return transcribeAudioUrlWithRunpod(audioUrl, opts);
+}
+
+/**
+ * Transcribes an audio buffer with the configured backend. RunPod needs the audio uploaded to
+ * Vercel Blob first; the local backend reads it directly. Throws with an actionable message
+ * when ASR or Blob is not configured.
+ */
+export async function transcribeAudioBuffer(buf: Buffer, filename: string, contentType: string): Promise<string> {
+  if (asrBackend() === "local") {
+    const asr = await transcribeAudioLocally(buf);
+    if (!asr.ok) throw new Error(`Local ASR failed: ${asr.message} [${asr.code}]`);
+    return asr.transcript;
+  }
+
+  // Prefer RunPod ASR (Whisper replacement) if configured.
+  const hasRunpodAsr = !!(process.env.RUNPOD_ASR_ENDPOINT || process.env.RUNPOD_ASR_ENDPOINT_ID);
+  if (hasRunpodAsr) {
+    const hasBlobToken = !!process.env.BLOB_READ_WRITE_TOKEN;
+    if (!hasBlobToken) {
+      throw new Error(
+        "Vercel Blob is not configured for server-side uploads. Set BLOB_READ_WRITE_TOKEN in production so the server can upload audio for ASR."
+      );
+    }
+    const safeName = (filename || "audio.mp3").replace(/[^a-zA-Z0-9._-]+/g, "_");
+    const pathname = `uploads/audio/${Date.now()}-${safeName}`;
+    let blob: { url: string };
+    try {
+      blob = await put(pathname, new Blob([buf as any]), {
+        access: "public",
+        contentType: contentType || "application/octet-stream",
+        addRandomSuffix: true,
+      });
+    } catch (e: any) {
+      const msg = String(e?.message || e || "BLOB_UPLOAD_FAILED");
+      throw new Error(`Vercel Blob upload failed: ${msg}`);
+    }
+
+    const asr = await transcribeAudioUrlWithRunpod(blob.url);
+    if (!asr.ok) {
+      throw new Error(`RunPod ASR failed: ${asr.message} [${asr.code}]`);
+    }
+    const t = String(asr.transcript || "").replace(/\s+/g, " ").trim();
+    if (!t) throw new Error("No speech recognized.");
+    return t;
+  }
+
+  throw new Error(
+    "RunPod ASR is not configured. Set RUNPOD_ASR_ENDPOINT(_ID) and RUNPOD_ASR_API_KEY (or RUNPOD_ASR_API_KEY/RUNPOD_API_KEY) in Vercel env vars, or ASR_BACKEND=local to transcribe on this server."
+  );
+}
@@ -1,5 +1,37 @@
 export type Cue = { startMs: number; endMs: number; text: string };
 
+// Parse subtitle buffers (SRT or VTT) into plain text
+export function parseSubtitleBuffer(buf: Buffer): string {
+  const s = buf.toString("utf8");
+  // Remove WEBVTT header
+  let t = s.replace(/^WEBVTT[\s\S]*?\n\n/, "");
+  // Remove SRT numeric indexes and timestamps
+  t = t.replace(/^[0-9]+\s*\n/gm, "");
+  t = t.replace(/\d{2}:\d{2}:\d{2}[\.,]\d{3}\s*-->\s*\d{2}:\d{2}:\d{2}[\.,]\d{3}/g, "");
+  // Remove VTT timestamps
+  t = t.replace(/\d{2}:\d{2}\.\d{3}\s*-->\s*\d{2}:\d{2}\.\d{3}/g, "");
+  // Remove remaining tag-like constructs
+  t = t.replace(/<[^>]+>/g, "");
+  // Collapse whitespace
+  return t.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Turns ASR segments (`{ start, end, text }` in seconds, as Whisper workers return them) into
+ * cues. Anything that does not look like a segment list gives null.
+ */
+export function segmentsToCues(segments: unknown): Cue[] | null {
+  if (!Array.isArray(segments)) return null;
+  const cues: Cue[] = [];
+  for (const segment of segments) {
+    const { start, end, text } = (segment ?? {}) as { start?: unknown; end?: unknown; text?: unknown };
+    if (typeof start !== "number" || typeof text !== "string" || !text.trim()) continue;
+    const endSec = typeof end === "number" && end >= start ? end : start;
+    cues.push({ startMs: Math.round(start * 1000), endMs: Math.round(endSec * 1000), text: text.trim() });
+  }
+  return cues.length ? cues : null;
+}
+
 export function toWebVTT(cues: Cue[]): string {
   const out = ["WEBVTT", ""];
   for (let i = 0; i < cues.length; i++) {
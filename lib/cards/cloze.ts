@@ -0,0 +1,104 @@
+export const CARD_KINDS = ["basic", "cloze"] as const;
+
+export type CardKind = (typeof CARD_KINDS)[number];
+
+// A note can hold at most this many deletions; each one becomes its own review item.
+export const MAX_CLOZE_INDEX = 20;
+
+export type ClozeSegment = { text: string; kind: "text" | "blank" | "answer" };
+
+export type CardFacesInput = {
+  question: string;
+  answer: string;
+  kind?: string | null;
+  clozeIndex?: number | null;
+};
+
+// {{c1::answer}} or {{c1::answer::hint}}, using Anki's syntax so imports and exports round-trip.
+const CLOZE_PATTERN = /\{\{c(\d+)::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+
+export function isCardKind(value: unknown): value is CardKind {
+  return typeof value === "string" && (CARD_KINDS as readonly string[]).includes(value);
+}
+
+export function isClozeCard(card: { kind?: string | null; clozeIndex?: number | null }): boolean {
+  return card.kind === "cloze" && typeof card.clozeIndex === "number";
+}
+
+export function hasCloze(text: string): boolean {
+  return clozeIndexes(text).length > 0;
+}
+
+/** The distinct deletion numbers in a cloze text, ascending (c1, c2, ... → [1, 2, ...]). */
+export function clozeIndexes(text: string): number[] {
+  const indexes = new Set<number>();
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const index = Number(match[1]);
+    if (index >= 1 && index <= MAX_CLOZE_INDEX) indexes.add(index);
+  }
+  return [...indexes].sort((left, right) => left - right);
+}
+
+/**
+ * Splits a cloze text for one review item: deletions with the active index become a
+ * blank (showing the hint when there is one) or, once revealed, the highlighted answer.
+ * Every other deletion is shown as plain text, like Anki does. A null index treats every
+ * deletion as active, which is how the card list previews a whole note.
+ */
+export function clozeSegments(text: string, index: number | null, revealed: boolean): ClozeSegment[] {
+  const segments: ClozeSegment[] = [];
+  let cursor = 0;
+  for (const match of text.matchAll(CLOZE_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), kind: "text" });
+    const [, number, content, hint] = match;
+    if (index !== null && Number(number) !== index) segments.push({ text: content, kind: "text" });
+    else if (revealed) segments.push({ text: content, kind: "answer" });
+    else segments.push({ text: hint?.trim() ? `[${hint.trim()}]` : "[...]", kind: "blank" });
+    cursor = start + match[0].length;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), kind: "text" });
+  return segments;
+}
+
+export function renderCloze(text: string, index: number, revealed: boolean): string {
+  return clozeSegments(text, index, revealed).map((segment) => segment.text).join("");
+}
+
+/** The cloze text with every deletion filled in, for search, previews and plain-text exports. */
+export function stripCloze(text: string): string {
+  return text.replace(CLOZE_PATTERN, (_match, _number, content: string) => content);
+}
+
+export function clozeAnswers(text: string, index: number): string[] {
+  return clozeSegments(text, index, true).filter((segment) => segment.kind === "answer").map((segment) => segment.text);
+}
+
+/**
+ * Plain-text front and back of any card. Basic cards are returned unchanged; for cloze
+ * cards the back is the completed sentence followed by the optional extra notes. Tutor
+ * and grading flows use these instead of the raw `{{c1::...}}` text.
+ */
+export function cardFaces(card: CardFacesInput): { front: string; back: string } {
+  if (!isClozeCard(card)) return { front: card.question, back: card.answer };
+  const index = card.clozeIndex as number;
+  const completed = renderCloze(card.question, index, true);
+  return {
+    front: renderCloze(card.question, index, false),
+    back: card.answer.trim() ? `${completed}\n\n${card.answer.trim()}` : completed,
+  };
+}
+
+/**
+ * Card rows for one cloze note: one per deletion index, all sharing the note's text,
+ * extra notes and a generated noteId so edits and deletes can address the whole note.
+ */
+export function clozeNoteCards(text: string, extra: string, noteId = globalThis.crypto.randomUUID()) {
+  return clozeIndexes(text).map((clozeIndex) => ({
+    question: text,
+    answer: extra,
+    kind: "cloze" as const,
+    clozeIndex,
+    noteId,
+  }));
+}
@@ -0,0 +1,166 @@
+import type { PageRange } from "@/lib/extractors/pages";
+
+export const SOURCE_FILE_KINDS = [
+  "pdf",
+  "pptx",
+  "docx",
+  "epub",
+  "markdown",
+  "html",
+  "spreadsheet",
+  "notebook",
+  "subtitles",
+  "image",
+] as const;
+
+export type SourceFileKind = (typeof SOURCE_FILE_KINDS)[number];
+
+/**
+ * One structural unit of an extracted file. Pages and slides keep their number in the
+ * original; sections (document headings, EPUB chapters, sheets, notebook headings) are
+ * numbered in reading order. A "text" section is unstructured body text.
+ */
+export type ExtractedSection = {
+  kind: "page" | "slide" | "section" | "text";
+  number: number;
+  heading?: string;
+  text: string;
+  /** Figures embedded in this unit, in reading order; stored separately from the text. */
+  images?: ExtractedImage[];
+  /** Set when the text was read from an image by OCR: Tesseract's mean word confidence, 0-100. */
+  ocrConfidence?: number;
+};
+
+/** An embedded picture as found in the file, before it is stored anywhere. */
+export type ExtractedImage = {
+  name: string;
+  contentType: string;
+  data: Buffer;
+  alt?: string;
+};
+
+export type ExtractedDocument = {
+  kind: SourceFileKind;
+  title: string | null;
+  sections: ExtractedSection[];
+};
+
+/** What is known about an uploaded or fetched file besides its bytes. */
+export type SourceFileMeta = {
+  name?: string;
+  type?: string;
+  /** Only these pages, for formats that have them; empty or absent reads the whole file. */
+  pages?: PageRange[];
+};
+
+/** A file the extractor understood but cannot use, for a reason the user can act on. */
+export type SourceExtractionError = Error & { code: string };
+
+export interface SourceExtractor {
+  kind: SourceFileKind;
+  /** Lower-case extensions without the dot. */
+  extensions: readonly string[];
+  mimeTypes: readonly string[];
+  /** Recognizes the format from its bytes when the name and type say nothing useful. */
+  sniff?(buf: Buffer): boolean;
+  /**
+   * Null when the file holds no readable text. Throws a SourceExtractionError when it can say
+   * why in terms the user can act on (a scanned PDF, a page range past the end).
+   */
+  extract(buf: Buffer, meta: SourceFileMeta): Promise<ExtractedDocument | null>;
+}
+
+// Below this much text (markers aside) an extraction is treated as empty, e.g. a scanned PDF.
+export const MIN_EXTRACTED_CHARS = 50;
+
+/**
+ * Flattens a document into the marked-up text generation works on: "[Page N]", "[Slide N]"
+ * and "[Section N]" markers let chunking and card provenance follow the structure.
+ */
+export function documentToSourceText(doc: ExtractedDocument): string {
+  return doc.sections
+    .map((section) => {
+      const body = section.heading ? `${section.heading}\n${section.text}` : section.text;
+      if (section.kind === "page") return `[Page ${section.number}] ${body}`;
+      if (section.kind === "slide") return `[Slide ${section.number}] ${body}`;
+      if (section.kind === "section") return `[Section ${section.number}] ${body}`;
+      return body;
+    })
+    .join("\n\n")
+    .trim();
+}
+
+export function sourceExtractionError(code: string, message: string): SourceExtractionError {
+  return Object.assign(new Error(message), { name: "SourceExtractionError", code });
+}
+
+export function isSourceExtractionError(error: unknown): error is SourceExtractionError {
+  return error instanceof Error && error.name === "SourceExtractionError";
+}
+
+export function extractedChars(doc: ExtractedDocument): number {
+  return doc.sections.reduce((sum, section) => sum + section.text.trim().length, 0);
+}
+
+/**
+ * Numbers headed blocks as sections in reading order. A document without any heading stays
+ * one unstructured text section, since a lone "[Section 1]" would only add noise.
+ */
+export function headedSections(blocks: Array<{ heading?: string; text: string }>): ExtractedSection[] {
+  const kept = blocks
+    .map((block) => ({ heading: block.heading?.trim() || undefined, text: block.text.trim() }))
+    .filter((block) => block.text || block.heading);
+  if (!kept.some((block) => block.heading)) {
+    const text = kept.map((block) => block.text).filter(Boolean).join("\n\n");
+    return text ? [{ kind: "text", number: 1, text }] : [];
+  }
+  return kept.map((block, index) => ({ kind: "section", number: index + 1, ...block }));
+}
+
+/**
+ * Merges the blocks of one unit (an EPUB chapter, a crawled page) into a single section body:
+ * the first heading names it and later headings stay inline with their text.
+ */
+export function foldBlocks(blocks: Array<{ heading?: string; text: string }>): { heading?: string; text: string } {
+  const first = blocks.findIndex((block) => block.heading);
+  const text = blocks
+    .map((block, index) => (block.heading && index !== first ? `${block.heading}\n${block.text}` : block.text))
+    .filter(Boolean)
+    .join("\n\n")
+    .trim();
+  return { heading: blocks[first]?.heading, text };
+}
+
+// The XML entities plus the HTML ones common in prose; anything else is left as written.
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: "\u00a0",
+  ndash: "–", mdash: "—", hellip: "…", lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”",
+  bull: "•", middot: "·", copy: "©", reg: "®", deg: "°", times: "×", shy: "",
+};
+
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase();
+    if (lower.startsWith("#x")) return safeCodePoint(parseInt(lower.slice(2), 16), entity);
+    if (lower.startsWith("#")) return safeCodePoint(parseInt(lower.slice(1), 10), entity);
+    return NAMED_ENTITIES[lower] ?? entity;
+  });
+}
+
+/** Collapses runs of spaces but keeps paragraph breaks, which headings and cells rely on. */
+export function tidyText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t\f\v\u00a0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function safeCodePoint(code: number, fallback: string): string {
+  try {
+    return String.fromCodePoint(code);
+  } catch {
+    return fallback;
+  }
+}
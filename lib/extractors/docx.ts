@@ -0,0 +1,58 @@
+import JSZip from "jszip";
+import {
+  MIN_EXTRACTED_CHARS,
+  decodeXmlEntities,
+  extractedChars,
+  headedSections,
+  type SourceExtractor,
+} from "@/lib/extractors/contracts";
+import { coreTitle, isZip } from "@/lib/extractors/zip";
+
+// Word's built-in title and top three heading styles, by style id.
+const HEADING_STYLE = /^(?:title|heading[1-3])$/i;
+
+export const docxExtractor: SourceExtractor = {
+  kind: "docx",
+  extensions: ["docx"],
+  mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  sniff: (buf) => isZip(buf) && buf.includes("word/document.xml"),
+  async extract(buf) {
+    try {
+      const zip = await JSZip.loadAsync(buf);
+      const xml = await zip.file("word/document.xml")?.async("string");
+      if (!xml) return null;
+
+      const blocks: Array<{ heading?: string; text: string }> = [{ text: "" }];
+      // Table cells hold paragraphs too, so tables come out one cell per line in reading order.
+      for (const match of xml.matchAll(/<w:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g)) {
+        const paragraph = match[1] ?? "";
+        const text = paragraphText(paragraph);
+        if (!text) continue;
+        const style = paragraph.match(/<w:pStyle\s+w:val="([^"]+)"/)?.[1] ?? "";
+        if (HEADING_STYLE.test(style)) blocks.push({ heading: text, text: "" });
+        else blocks[blocks.length - 1].text += `${text}\n`;
+      }
+
+      const sections = headedSections(blocks);
+      const doc = {
+        kind: "docx" as const,
+        title: (await coreTitle(zip)) ?? sections.find((section) => section.heading)?.heading ?? null,
+        sections,
+      };
+      return extractedChars(doc) < MIN_EXTRACTED_CHARS ? null : doc;
+    } catch (error) {
+      console.error("[DOCX] Error extracting text:", error instanceof Error ? error.message : error);
+      return null;
+    }
+  },
+};
+
+function paragraphText(paragraph: string): string {
+  let text = "";
+  for (const match of paragraph.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>/g)) {
+    if (match[2] === "tab") text += " ";
+    else if (match[2]) text += "\n";
+    else text += decodeXmlEntities(match[1]);
+  }
+  return text.replace(/[ \t]+/g, " ").trim();
+}
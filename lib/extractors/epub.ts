@@ -0,0 +1,82 @@
+import JSZip from "jszip";
+import {
+  MIN_EXTRACTED_CHARS,
+  decodeXmlEntities,
+  extractedChars,
+  foldBlocks,
+  type ExtractedSection,
+  type SourceExtractor,
+} from "@/lib/extractors/contracts";
+import { htmlToBlocks } from "@/lib/extractors/html";
+import { isZip } from "@/lib/extractors/zip";
+
+// Front and back matter that only repeats the book's structure or boilerplate.
+const SKIPPED_ITEM = /(?:^|[/_-])(?:toc|nav|cover|copyright|titlepage)[^/]*$/i;
+
+export const epubExtractor: SourceExtractor = {
+  kind: "epub",
+  extensions: ["epub"],
+  mimeTypes: ["application/epub+zip"],
+  // The OCF spec requires an uncompressed "mimetype" entry first, so its content is plain in the header.
+  sniff: (buf) => isZip(buf) && buf.subarray(0, 128).includes("application/epub+zip"),
+  async extract(buf) {
+    try {
+      const zip = await JSZip.loadAsync(buf);
+      const container = await zip.file("META-INF/container.xml")?.async("string");
+      const opfPath = container?.match(/<rootfile\b[^>]*full-path="([^"]+)"/)?.[1];
+      const opf = opfPath ? await zip.file(opfPath)?.async("string") : null;
+      if (!opfPath || !opf) return null;
+
+      const baseDir = opfPath.includes("/") ? opfPath.slice(0, opfPath.lastIndexOf("/") + 1) : "";
+      const manifest = new Map<string, { href: string; mediaType: string }>();
+      for (const match of opf.matchAll(/<item\b[^>]*>/g)) {
+        const id = attribute(match[0], "id");
+        const href = attribute(match[0], "href");
+        if (id && href) manifest.set(id, { href, mediaType: attribute(match[0], "media-type") ?? "" });
+      }
+
+      // Chapters in spine (reading) order, one section per content document.
+      const sections: ExtractedSection[] = [];
+      for (const match of opf.matchAll(/<itemref\b[^>]*>/g)) {
+        const item = manifest.get(attribute(match[0], "idref") ?? "");
+        if (!item || !/html/i.test(item.mediaType) || SKIPPED_ITEM.test(item.href)) continue;
+        const html = await zip.file(resolvePath(baseDir, item.href))?.async("string");
+        if (!html) continue;
+        const { title, blocks } = htmlToBlocks(html);
+        const { heading, text } = foldBlocks(blocks);
+        if (!text) continue;
+        sections.push({ kind: "section", number: sections.length + 1, heading: heading ?? title ?? undefined, text });
+      }
+
+      const rawTitle = opf.match(/<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/)?.[1];
+      const doc = { kind: "epub" as const, title: rawTitle ? decodeXmlEntities(rawTitle).trim() || null : null, sections };
+      return extractedChars(doc) < MIN_EXTRACTED_CHARS ? null : doc;
+    } catch (error) {
+      console.error("[EPUB] Error extracting text:", error instanceof Error ? error.message : error);
+      return null;
+    }
+  },
+};
+
+function attribute(tag: string, name: string): string | null {
+  const value = tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+  return value === undefined ? null : decodeXmlEntities(value);
+}
+
+// Manifest hrefs are relative to the package document and may be percent-encoded.
+function resolvePath(baseDir: string, href: string): string {
+  const parts: string[] = [];
+  for (const part of `${baseDir}${safeDecodeUri(href.split("#")[0])}`.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  }
+  return parts.join("/");
+}
+
+function safeDecodeUri(value: string): string {
+  try {
+    return decodeURI(value);
+  } catch {
+    return value;
+  }
+}
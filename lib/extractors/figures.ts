@@ -0,0 +1,53 @@
+import { put } from "@vercel/blob";
+import type { ExtractedDocument, ExtractedSection } from "@/lib/extractors/contracts";
+
+/** A stored figure and the page, slide or section it belongs to, kept on the deck for citations. */
+export type SourceFigure = {
+  kind: ExtractedSection["kind"];
+  number: number;
+  url: string;
+  alt?: string;
+};
+
+/**
+ * Uploads the images an extractor found to Blob storage so cards citing their page or slide
+ * can show them. Figures are an extra: without a Blob token, or when an upload fails, the deck
+ * is generated without them.
+ */
+export async function storeSourceFigures(doc: ExtractedDocument): Promise<SourceFigure[]> {
+  if (!doc.sections.some((section) => section.images?.length)) return [];
+  if (!process.env.BLOB_READ_WRITE_TOKEN) {
+    console.warn("[Figures] BLOB_READ_WRITE_TOKEN is not set; skipping source images");
+    return [];
+  }
+  const figures: SourceFigure[] = [];
+  for (const section of doc.sections) {
+    for (const image of section.images ?? []) {
+      try {
+        const safeName = image.name.replace(/[^a-zA-Z0-9._-]+/g, "_");
+        const blob = await put(`uploads/figures/${doc.kind}-${section.kind}${section.number}-${safeName}`, image.data, {
+          access: "public",
+          contentType: image.contentType,
+          addRandomSuffix: true,
+        });
+        figures.push({ kind: section.kind, number: section.number, url: blob.url, ...(image.alt ? { alt: image.alt } : {}) });
+      } catch (error: unknown) {
+        console.warn("[Figures] Upload failed:", image.name, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+  console.log("[Figures] Stored:", { kind: doc.kind, figures: figures.length });
+  return figures;
+}
+
+export function readSourceFigures(value: unknown): SourceFigure[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (figure): figure is SourceFigure =>
+      !!figure &&
+      typeof figure === "object" &&
+      typeof figure.url === "string" &&
+      typeof figure.number === "number" &&
+      ["page", "slide", "section", "text"].includes(figure.kind)
+  );
+}
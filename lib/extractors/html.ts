@@ -0,0 +1,95 @@
+import { Readability } from "@mozilla/readability";
+import { JSDOM, VirtualConsole } from "jsdom";
+import {
+  MIN_EXTRACTED_CHARS,
+  decodeXmlEntities,
+  extractedChars,
+  headedSections,
+  tidyText,
+  type SourceExtractor,
+} from "@/lib/extractors/contracts";
+
+export type HtmlBlocks = {
+  title: string | null;
+  blocks: Array<{ heading?: string; text: string }>;
+};
+
+/** A parsed page: its main content as blocks plus every link on it, resolved against the page URL. */
+export type HtmlPage = HtmlBlocks & { links: string[] };
+
+// Sections break on the top three heading levels; deeper headings stay inline with their text.
+const HEADING = /<h([1-3])\b[^>]*>([\s\S]*?)<\/h\1>/gi;
+const BLOCK_END = /<\/(?:p|div|tr|h[1-6]|section|article|blockquote|pre|table|ul|ol|dl|dd|dt|figcaption|caption)>/gi;
+
+export const htmlExtractor: SourceExtractor = {
+  kind: "html",
+  extensions: ["html", "htm", "xhtml"],
+  mimeTypes: ["text/html", "application/xhtml+xml"],
+  sniff: (buf) => /<!doctype html|<html[\s>]/i.test(buf.subarray(0, 1024).toString("utf8")),
+  async extract(buf) {
+    const { title, blocks } = parseHtmlPage(buf.toString("utf8"));
+    const doc = {
+      kind: "html" as const,
+      title: title ?? blocks.find((block) => block.heading)?.heading ?? null,
+      sections: headedSections(blocks),
+    };
+    return extractedChars(doc) < MIN_EXTRACTED_CHARS ? null : doc;
+  },
+};
+
+/**
+ * Reads the main content of a page with Readability (the engine behind Firefox's reader view),
+ * which drops navigation, cookie banners, sidebars and footers while keeping the article's
+ * headings. Pages Readability finds no article in fall back to the whole body.
+ */
+export function parseHtmlPage(html: string, url?: string): HtmlPage {
+  // A silent console: jsdom otherwise logs every stylesheet it cannot parse.
+  const dom = new JSDOM(html, { ...(url ? { url } : {}), virtualConsole: new VirtualConsole() });
+  try {
+    const document = dom.window.document;
+    // Collected first, since Readability rewrites the document it parses.
+    const links = [...document.querySelectorAll("a[href]")]
+      .map((anchor) => (anchor as HTMLAnchorElement).href)
+      .filter(Boolean);
+    const pageTitle = document.title.replace(/\s+/g, " ").trim() || null;
+    const article = new Readability(document).parse();
+    if (article?.content && (article.textContent?.trim().length ?? 0) >= MIN_EXTRACTED_CHARS) {
+      return { title: article.title?.trim() || pageTitle, blocks: htmlToBlocks(article.content).blocks, links };
+    }
+    return { ...htmlToBlocks(html), links };
+  } finally {
+    dom.window.close();
+  }
+}
+
+/** Splits an HTML page into heading-led blocks of plain text, dropping scripts, styles and page chrome. */
+export function htmlToBlocks(html: string): HtmlBlocks {
+  const rawTitle = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, " ")
+    .replace(/<(script|style|noscript|template|svg|head|nav|header|footer|aside)\b[\s\S]*?<\/\1>/gi, " ");
+
+  const blocks: HtmlBlocks["blocks"] = [];
+  let heading: string | undefined;
+  let last = 0;
+  for (const match of body.matchAll(HEADING)) {
+    blocks.push({ heading, text: htmlFragmentToText(body.slice(last, match.index)) });
+    heading = htmlFragmentToText(match[2]).replace(/\s+/g, " ") || undefined;
+    last = (match.index ?? 0) + match[0].length;
+  }
+  blocks.push({ heading, text: htmlFragmentToText(body.slice(last)) });
+
+  const title = rawTitle ? decodeXmlEntities(rawTitle).replace(/\s+/g, " ").trim() : "";
+  return { title: title || null, blocks };
+}
+
+/** Plain text of an HTML fragment, keeping one line per paragraph, list item and table row. */
+export function htmlFragmentToText(fragment: string): string {
+  const text = fragment
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/t[dh]>/gi, " | ")
+    .replace(BLOCK_END, "\n")
+    .replace(/<[^>]+>/g, " ");
+  return tidyText(decodeXmlEntities(text)).replace(/\s*\|\s*(?=\n|$)/g, "");
+}
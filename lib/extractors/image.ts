@@ -0,0 +1,40 @@
+import { MIN_EXTRACTED_CHARS, sourceExtractionError, type SourceExtractor } from "@/lib/extractors/contracts";
+import { MIN_OCR_CONFIDENCE, OCR_ENABLED, recognizeImage } from "@/lib/extractors/ocr";
+
+// Magic numbers of the formats OCR decodes; phone photos arrive as JPEG (or HEIC, which is not read).
+const SIGNATURES: Array<(buf: Buffer) => boolean> = [
+  (buf) => buf.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  (buf) => buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff,
+  (buf) => buf.subarray(0, 4).toString("latin1") === "RIFF" && buf.subarray(8, 12).toString("latin1") === "WEBP",
+  (buf) => /^GIF8[79]a/.test(buf.subarray(0, 6).toString("latin1")),
+  (buf) => buf.subarray(0, 2).toString("latin1") === "BM",
+];
+
+export const imageExtractor: SourceExtractor = {
+  kind: "image",
+  extensions: ["png", "jpg", "jpeg", "webp", "gif", "bmp"],
+  mimeTypes: ["image/png", "image/jpeg", "image/webp", "image/gif", "image/bmp"],
+  sniff: (buf) => SIGNATURES.some((matches) => matches(buf)),
+  // A photo of notes or a whiteboard is one unstructured block of text.
+  async extract(buf) {
+    if (!OCR_ENABLED) {
+      throw sourceExtractionError("OCR_DISABLED", "Reading text from images is turned off on this server. Paste the text instead.");
+    }
+    console.log("[Image] Starting OCR, buffer size:", buf.length);
+    let result;
+    try {
+      result = await recognizeImage(buf);
+    } catch (error) {
+      console.error("[Image] OCR failed:", error instanceof Error ? error.message : error);
+      return null;
+    }
+    console.log("[Image] OCR complete:", { chars: result.text.length, confidence: result.confidence });
+    if (result.text.length < MIN_EXTRACTED_CHARS || result.confidence < MIN_OCR_CONFIDENCE) {
+      throw sourceExtractionError(
+        "OCR_NO_TEXT",
+        "We couldn't read enough text in that image. Try a sharper, well-lit photo taken straight on, or paste the text instead."
+      );
+    }
+    return { kind: "image", title: null, sections: [{ kind: "text", number: 1, text: result.text, ocrConfidence: result.confidence }] };
+  },
+};
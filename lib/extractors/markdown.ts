@@ -0,0 +1,88 @@
+import {
+  MIN_EXTRACTED_CHARS,
+  decodeXmlEntities,
+  extractedChars,
+  headedSections,
+  tidyText,
+  type SourceExtractor,
+} from "@/lib/extractors/contracts";
+
+export type MarkdownBlock = { heading?: string; text: string };
+
+export const markdownExtractor: SourceExtractor = {
+  kind: "markdown",
+  extensions: ["md", "markdown", "mdown", "mkd"],
+  mimeTypes: ["text/markdown", "text/x-markdown"],
+  async extract(buf) {
+    const { title, body } = splitFrontMatter(buf.toString("utf8"));
+    const blocks = markdownToBlocks(body);
+    const doc = {
+      kind: "markdown" as const,
+      title: title ?? blocks.find((block) => block.heading)?.heading ?? null,
+      sections: headedSections(blocks),
+    };
+    return extractedChars(doc) < MIN_EXTRACTED_CHARS ? null : doc;
+  },
+};
+
+/**
+ * Splits Markdown into blocks led by its top three heading levels (ATX or setext), with
+ * inline syntax reduced to plain text. Fenced code is kept verbatim and never read as headings.
+ */
+export function markdownToBlocks(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [{ text: "" }];
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  let fence: string | null = null;
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+    const current = blocks[blocks.length - 1];
+    const fenceMatch = line.match(/^\s*(```|~~~)/);
+    if (fenceMatch) {
+      fence = fence === null ? fenceMatch[1] : fence === fenceMatch[1] ? null : fence;
+      continue;
+    }
+    if (fence !== null) {
+      current.text += `${line}\n`;
+      continue;
+    }
+
+    const atx = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    const setext = !atx && line.trim() && /^\s{0,3}(=+|-+)\s*$/.test(lines[index + 1] ?? "") && !/^\s*[-*+]\s/.test(line);
+    if (atx && atx[1].length <= 3) {
+      blocks.push({ heading: inlineText(atx[2]), text: "" });
+    } else if (setext) {
+      blocks.push({ heading: inlineText(line), text: "" });
+      index += 1;
+    } else {
+      current.text += `${inlineText(atx ? atx[2] : line)}\n`;
+    }
+  }
+
+  return blocks.map((block) => ({ heading: block.heading, text: tidyText(block.text) }));
+}
+
+function splitFrontMatter(markdown: string): { title: string | null; body: string } {
+  const match = markdown.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+  if (!match) return { title: null, body: markdown };
+  const title = match[1].match(/^title:\s*["']?(.*?)["']?\s*$/m)?.[1]?.trim();
+  return { title: title || null, body: markdown.slice(match[0].length) };
+}
+
+function inlineText(line: string): string {
+  return decodeXmlEntities(
+    line
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, "$1")
+      .replace(/<[^>]+>/g, " ")
+      .replace(/^\s{0,3}>\s?/, "")
+      .replace(/^\s*([-*+]|\d+[.)])\s+/, "- ")
+      .replace(/(\*\*|__)(.+?)\1/g, "$2")
+      .replace(/\*(\S(?:.*?\S)?)\*/g, "$1")
+      // Underscores inside words (snake_case) are not emphasis.
+      .replace(/(^|\W)_(\S(?:.*?\S)?)_(?=\W|$)/g, "$1$2")
+      .replace(/`([^`]+)`/g, "$1")
+      .replace(/^\s*\|?(\s*:?-{3,}:?\s*\|)+\s*:?-*:?\s*$/, "")
+  ).trim();
+}
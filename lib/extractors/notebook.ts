@@ -0,0 +1,70 @@
+import {
+  MIN_EXTRACTED_CHARS,
+  extractedChars,
+  headedSections,
+  type SourceExtractor,
+} from "@/lib/extractors/contracts";
+import { markdownToBlocks, type MarkdownBlock } from "@/lib/extractors/markdown";
+
+type NotebookCell = {
+  cell_type?: string;
+  source?: string | string[];
+  outputs?: Array<{ output_type?: string; text?: string | string[]; data?: Record<string, unknown> }>;
+};
+
+// Outputs explain what code did, but long ones are usually data dumps.
+const MAX_OUTPUT_CHARS = 600;
+
+export const notebookExtractor: SourceExtractor = {
+  kind: "notebook",
+  extensions: ["ipynb"],
+  mimeTypes: ["application/x-ipynb+json"],
+  sniff: (buf) => /^\s*\{[\s\S]*"nbformat"\s*:/.test(buf.subarray(0, 4096).toString("utf8")),
+  async extract(buf) {
+    let notebook: { cells?: NotebookCell[]; metadata?: { title?: unknown; kernelspec?: { language?: unknown } } };
+    try {
+      notebook = JSON.parse(buf.toString("utf8"));
+    } catch {
+      return null;
+    }
+    if (!Array.isArray(notebook?.cells)) return null;
+
+    const language = typeof notebook.metadata?.kernelspec?.language === "string" ? notebook.metadata.kernelspec.language : "code";
+    // Markdown cells carry the headings; code cells and their output join the section they sit under.
+    const blocks: MarkdownBlock[] = [{ text: "" }];
+    for (const cell of notebook.cells) {
+      const source = joinLines(cell.source).trim();
+      if (cell.cell_type === "markdown") {
+        const [lead, ...rest] = markdownToBlocks(source);
+        if (lead?.text) blocks[blocks.length - 1].text += `${lead.text}\n\n`;
+        for (const block of rest) blocks.push({ heading: block.heading, text: block.text ? `${block.text}\n\n` : "" });
+      } else if (cell.cell_type === "code" && source) {
+        const output = cellOutput(cell);
+        blocks[blocks.length - 1].text += `${language}:\n${source}\n${output ? `Output:\n${output}\n` : ""}\n`;
+      }
+    }
+
+    const sections = headedSections(blocks);
+    const title = typeof notebook.metadata?.title === "string" ? notebook.metadata.title.trim() : "";
+    const doc = {
+      kind: "notebook" as const,
+      title: title || (sections.find((section) => section.heading)?.heading ?? null),
+      sections,
+    };
+    return extractedChars(doc) < MIN_EXTRACTED_CHARS ? null : doc;
+  },
+};
+
+function cellOutput(cell: NotebookCell): string {
+  const parts: string[] = [];
+  for (const output of cell.outputs ?? []) {
+    if (output.output_type === "stream") parts.push(joinLines(output.text));
+    else if (output.data?.["text/plain"] !== undefined) parts.push(joinLines(output.data["text/plain"] as string | string[]));
+  }
+  const text = parts.join("\n").trim();
+  return text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}…` : text;
+}
+
+function joinLines(value: string | string[] | undefined): string {
+  return Array.isArray(value) ? value.join("") : String(value ?? "");
+}
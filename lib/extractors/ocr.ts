@@ -0,0 +1,110 @@
+import type { Worker } from "tesseract.js";
+import type { ExtractedDocument, ExtractedSection } from "@/lib/extractors/contracts";
+
+/** Text read from one image, with Tesseract's mean word confidence (0-100). */
+export type OcrResult = { text: string; confidence: number };
+
+/** How sure OCR was of one page or image, kept on the deck so shaky pages can be pointed out. */
+export type OcrSectionConfidence = { kind: ExtractedSection["kind"]; number: number; confidence: number };
+
+export const OCR_ENABLED = process.env.OCR_ENABLED !== "0";
+// "+"-separated Tesseract language codes, e.g. "eng+deu".
+const OCR_LANGS = process.env.OCR_LANGS || "eng";
+// Pages read below this confidence are mostly misread marks (stamps, photos, ruled paper).
+export const MIN_OCR_CONFIDENCE = Number(process.env.OCR_MIN_CONFIDENCE || 30);
+// Pages kept but read below this have enough misread words that their cards are worth checking.
+export const LOW_OCR_CONFIDENCE = Number(process.env.OCR_LOW_CONFIDENCE || 70);
+// Tesseract reads best around 300 DPI text height; larger photos only cost time and memory.
+const MAX_OCR_IMAGE_SIDE = Number(process.env.OCR_MAX_IMAGE_SIDE || 2800);
+const OCR_TIMEOUT_MS = Number(process.env.OCR_TIMEOUT_MS || 60_000);
+
+let workerPromise: Promise<Worker> | null = null;
+// One recognition at a time: the WASM engine is single-threaded and each run holds the full bitmap.
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Reads the text in an image (PNG, JPEG, WebP, GIF or BMP bytes) with Tesseract compiled to
+ * WASM, on the CPU. Language data is downloaded on first use unless OCR_LANG_PATH points at a
+ * directory of *.traineddata.gz files (as in the @tesseract.js-data packages).
+ */
+export function recognizeImage(image: Buffer): Promise<OcrResult> {
+  const run = queue.then(() => recognize(image));
+  queue = run.catch(() => null);
+  return run;
+}
+
+async function recognize(image: Buffer): Promise<OcrResult> {
+  const prepared = await prepareImage(image);
+  const loading = loadWorker();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Covers loading too: without network for the language data, the worker never reports ready.
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`OCR exceeded ${Math.round(OCR_TIMEOUT_MS / 1000)}s`)), OCR_TIMEOUT_MS);
+  });
+  try {
+    const worker = await Promise.race([loading, timeout]);
+    const { data } = await Promise.race([worker.recognize(prepared, { rotateAuto: true }), timeout]);
+    return { text: data.text.replace(/[ \t]+/g, " ").replace(/\n{3,}/g, "\n\n").trim(), confidence: Math.round(data.confidence) };
+  } catch (error) {
+    // A timed-out worker is still busy with the old image (or stuck loading); the next run starts a fresh one.
+    if (workerPromise === loading) workerPromise = null;
+    void loading.then((worker) => worker.terminate()).catch(() => undefined);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function loadWorker(): Promise<Worker> {
+  workerPromise ??= (async () => {
+    const { createWorker } = await import("tesseract.js");
+    console.log("[OCR] Loading Tesseract:", OCR_LANGS);
+    return createWorker(OCR_LANGS, undefined, {
+      ...(process.env.OCR_LANG_PATH ? { langPath: process.env.OCR_LANG_PATH } : {}),
+      ...(process.env.OCR_CACHE_DIR ? { cachePath: process.env.OCR_CACHE_DIR } : {}),
+      // Without a handler, a failed job is rethrown from the worker's message listener and
+      // takes the whole process down; the job's own promise already rejects with it.
+      errorHandler: (error: unknown) => console.warn("[OCR] Worker error:", error),
+    });
+  })();
+  // A failed load (no network for the language data) should be retried by the next request.
+  workerPromise.catch(() => {
+    workerPromise = null;
+  });
+  return workerPromise;
+}
+
+/** The OCR'd pages or images of a document, in order, with their confidence. */
+export function ocrConfidenceOf(doc: ExtractedDocument): OcrSectionConfidence[] {
+  return doc.sections
+    .filter((section) => section.ocrConfidence !== undefined)
+    .map((section) => ({ kind: section.kind, number: section.number, confidence: section.ocrConfidence! }));
+}
+
+export function readOcrConfidence(value: unknown): OcrSectionConfidence[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (entry): entry is OcrSectionConfidence =>
+      !!entry &&
+      typeof entry === "object" &&
+      typeof entry.number === "number" &&
+      typeof entry.confidence === "number" &&
+      ["page", "slide", "section", "text"].includes(entry.kind)
+  );
+}
+
+// Decodes, flattens transparency onto white and scales phone photos down, so Tesseract always
+// gets a PNG of a size it reads well.
+async function prepareImage(image: Buffer): Promise<Buffer> {
+  const { createCanvas, loadImage } = await import("@napi-rs/canvas");
+  const source = await loadImage(image);
+  const scale = Math.min(1, MAX_OCR_IMAGE_SIDE / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext("2d");
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(source, 0, 0, width, height);
+  return canvas.encode("png");
+}
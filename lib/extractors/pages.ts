@@ -0,0 +1,45 @@
+/** An inclusive range of 1-based page numbers; `to` is open-ended for "12-". */
+export type PageRange = { from: number; to: number };
+
+// Far more ranges than anyone types; keeps a pasted table of contents from becoming a filter.
+const MAX_RANGES = 20;
+
+/**
+ * Parses what people type to pick pages: "45-120", "3, 7-9", "pp. 12–30", "10 to 20" or "200-".
+ * Empty input selects everything ([]); null means the input could not be read.
+ */
+export function parsePageRanges(input: string): PageRange[] | null {
+  const normalized = input
+    .toLowerCase()
+    .replace(/\b(?:pages?|pp?)\b\.?/g, " ")
+    .replace(/\s*(?:[-‐‑–—]|\bto\b)\s*/g, "-")
+    .trim();
+  if (!normalized) return [];
+  const parts = normalized.split(/[\s,;]+/).filter(Boolean);
+  if (parts.length > MAX_RANGES) return null;
+
+  const ranges: PageRange[] = [];
+  for (const part of parts) {
+    const match = part.match(/^(\d{1,5})(?:-(\d{1,5})?)?$/);
+    if (!match) return null;
+    const from = Number(match[1]);
+    const to = match[2] ? Number(match[2]) : part.includes("-") ? Number.POSITIVE_INFINITY : from;
+    if (from < 1 || to < from) return null;
+    ranges.push({ from, to });
+  }
+  return ranges.sort((a, b) => a.from - b.from);
+}
+
+export function inPageRanges(ranges: readonly PageRange[], page: number): boolean {
+  return !ranges.length || ranges.some((range) => page >= range.from && page <= range.to);
+}
+
+/** "45–120, 200 onwards", for messages and titles. */
+export function formatPageRanges(ranges: readonly PageRange[]): string {
+  return ranges
+    .map((range) => {
+      if (range.to === Number.POSITIVE_INFINITY) return `${range.from} onwards`;
+      return range.from === range.to ? String(range.from) : `${range.from}–${range.to}`;
+    })
+    .join(", ");
+}
@@ -0,0 +1,238 @@
+import type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { TextItem, TextMarkedContent } from "pdfjs-dist/types/src/display/api";
+import {
+  MIN_EXTRACTED_CHARS,
+  extractedChars,
+  isSourceExtractionError,
+  sourceExtractionError,
+  tidyText,
+  type ExtractedSection,
+  type SourceExtractor,
+} from "@/lib/extractors/contracts";
+import { MIN_OCR_CONFIDENCE, OCR_ENABLED, recognizeImage, type OcrResult } from "@/lib/extractors/ocr";
+import { formatPageRanges, inPageRanges } from "@/lib/extractors/pages";
+
+type PdfLine = { text: string; size: number };
+
+// A line set this much larger than the body text is a heading, if it is short enough to be one.
+const HEADING_SIZE_RATIO = 1.15;
+const MAX_HEADING_CHARS = 120;
+// Running headers and footers sit in the first and last lines of a page and repeat across pages.
+const EDGE_LINES = 2;
+const MIN_PAGES_FOR_RUNNING_LINES = 3;
+const RUNNING_LINE_SHARE = 0.5;
+// A page with less text than this is a scan (perhaps with a stray text-layer page number) and is
+// read by OCR instead, up to a limit per document since each page takes seconds on the CPU.
+const OCR_PAGE_MIN_CHARS = 20;
+const MAX_OCR_PAGES = Number(process.env.OCR_MAX_PDF_PAGES || 40);
+// 200 DPI: small print stays legible without a letter page growing past ~2200px.
+const OCR_RENDER_SCALE = 200 / 72;
+const PAGE_NUMBER_LINE = /^(?:page\s*)?(?:\d+|m{0,3}(?:cm|cd|d?c{0,3})(?:xc|xl|l?x{0,3})(?:ix|iv|v?i{0,3}))(?:\s*(?:of|\/)\s*\d+)?$/i;
+
+export const pdfExtractor: SourceExtractor = {
+  kind: "pdf",
+  extensions: ["pdf"],
+  mimeTypes: ["application/pdf"],
+  sniff: (buf) => buf.subarray(0, 1024).includes("%PDF-"),
+  async extract(buf, meta) {
+    console.log("[PDF] Starting extraction, buffer size:", buf.length);
+    // The legacy build runs in Node without DOM globals; text extraction needs no canvas.
+    const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+    let pdf: PDFDocumentProxy;
+    try {
+      pdf = await pdfjs.getDocument({ data: new Uint8Array(buf), verbosity: 0, isEvalSupported: false }).promise;
+    } catch (error) {
+      console.error("[PDF] Error opening document:", error instanceof Error ? error.message : error);
+      return null;
+    }
+
+    try {
+      const ranges = meta.pages ?? [];
+      const pageNumbers = Array.from({ length: pdf.numPages }, (_, index) => index + 1).filter((n) => inPageRanges(ranges, n));
+      if (!pageNumbers.length) {
+        throw sourceExtractionError(
+          "PDF_PAGE_RANGE",
+          `This PDF has ${pdf.numPages} page${pdf.numPages === 1 ? "" : "s"}, so pages ${formatPageRanges(ranges)} select nothing.`
+        );
+      }
+
+      const pages: Array<{ number: number; lines: PdfLine[]; ocr?: OcrResult }> = [];
+      let ocrPages = 0;
+      for (const number of pageNumbers) {
+        const page = await pdf.getPage(number);
+        const lines = textLines((await page.getTextContent()).items);
+        const chars = lines.reduce((sum, line) => sum + line.text.length, 0);
+        if (chars < OCR_PAGE_MIN_CHARS && OCR_ENABLED && ocrPages < MAX_OCR_PAGES) {
+          ocrPages += 1;
+          const ocr = await ocrPage(page);
+          if (ocr) {
+            // OCR lines carry no font size, but running headers and page numbers still get dropped.
+            const ocrLines = ocr.text.split("\n").map((text) => ({ text: text.trim(), size: 0 })).filter((line) => line.text);
+            pages.push({ number, lines: ocrLines, ocr });
+            page.cleanup();
+            continue;
+          }
+        }
+        pages.push({ number, lines });
+        page.cleanup();
+      }
+
+      const running = runningLines(pages.map((page) => page.lines));
+      const bodySize = dominantSize(pages.filter((page) => !page.ocr).flatMap((page) => page.lines));
+      const sections: ExtractedSection[] = [];
+      for (const page of pages) {
+        const lines = page.lines.filter((line, index) => {
+          const atEdge = index < EDGE_LINES || index >= page.lines.length - EDGE_LINES;
+          return !atEdge || !(running.has(lineKey(line.text)) || PAGE_NUMBER_LINE.test(line.text));
+        });
+        if (page.ocr) {
+          const text = tidyText(lines.map((line) => line.text).join("\n"));
+          if (text) sections.push({ kind: "page", number: page.number, text, ocrConfidence: page.ocr.confidence });
+          continue;
+        }
+        const section = pageSection(page.number, lines, bodySize);
+        if (section.text || section.heading) sections.push(section);
+      }
+
+      const info = (await pdf.getMetadata().catch(() => null))?.info as { Title?: unknown } | undefined;
+      const title = typeof info?.Title === "string" ? info.Title.trim() : "";
+      const doc = { kind: "pdf" as const, title: title || null, sections };
+      console.log("[PDF] Extraction complete:", {
+        pages: pdf.numPages,
+        read: pageNumbers.length,
+        headings: sections.filter((section) => section.heading).length,
+        runningLines: running.size,
+        ocrPages: pages.filter((page) => page.ocr).length,
+        chars: extractedChars(doc),
+      });
+
+      // Scanned PDFs render pages without any text layer.
+      if (extractedChars(doc) < MIN_EXTRACTED_CHARS) {
+        throw sourceExtractionError(
+          "PDF_NO_TEXT_LAYER",
+          ranges.length
+            ? `Pages ${formatPageRanges(ranges)} of this PDF have no selectable text, and OCR could not read them either. Try other pages, or paste the text instead.`
+            : "This PDF has no selectable text, and OCR could not read the scanned pages either. Try a cleaner scan, or paste the text instead."
+        );
+      }
+      return doc;
+    } catch (error) {
+      if (isSourceExtractionError(error)) throw error;
+      console.error("[PDF] Error extracting text:", error instanceof Error ? error.message : error);
+      return null;
+    } finally {
+      await pdf.destroy();
+    }
+  },
+};
+
+// pdf.js yields positioned text runs; consecutive runs on one baseline make a line.
+function textLines(items: ReadonlyArray<TextItem | TextMarkedContent>): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let current: { text: string; size: number; y: number; endX: number } | null = null;
+  for (const item of items) {
+    if (!("str" in item)) continue;
+    const size = Math.hypot(item.transform[2], item.transform[3]) || item.height;
+    const [x, y] = [item.transform[4], item.transform[5]];
+    if (item.str) {
+      if (current && Math.abs(current.y - y) <= Math.max(current.size, size) * 0.5) {
+        // Runs split mid-line (font or kerning changes) only need a space across a visible gap.
+        const gap = x - current.endX > size * 0.2 && !/\s$/.test(current.text) && !/^\s/.test(item.str);
+        current.text += `${gap ? " " : ""}${item.str}`;
+        current.size = Math.max(current.size, size);
+      } else {
+        if (current) lines.push(current);
+        current = { text: item.str, size, y, endX: x };
+      }
+      current.endX = x + item.width;
+    }
+    if (item.hasEOL && current) {
+      lines.push(current);
+      current = null;
+    }
+  }
+  if (current) lines.push(current);
+  return lines
+    .map((line) => ({ text: line.text.replace(/\s+/g, " ").trim(), size: Math.round(line.size * 2) / 2 }))
+    .filter((line) => line.text);
+}
+
+// Renders a scanned page and reads it; pages OCR is unsure of keep whatever text layer they had.
+async function ocrPage(page: PDFPageProxy): Promise<OcrResult | null> {
+  try {
+    const { createCanvas } = await import("@napi-rs/canvas");
+    const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+    const context = canvas.getContext("2d");
+    context.fillStyle = "#ffffff";
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    // @napi-rs/canvas implements the subset of the DOM canvas API pdf.js draws with.
+    await page.render({
+      canvas: canvas as unknown as HTMLCanvasElement,
+      canvasContext: context as unknown as CanvasRenderingContext2D,
+      viewport,
+    }).promise;
+    const result = await recognizeImage(await canvas.encode("png"));
+    console.log("[PDF] OCR page", page.pageNumber, { chars: result.text.length, confidence: result.confidence });
+    return result.text && result.confidence >= MIN_OCR_CONFIDENCE ? result : null;
+  } catch (error) {
+    console.warn("[PDF] OCR failed on page", page.pageNumber, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// Page numbers inside a running header ("Chapter 3 · 41") change from page to page.
+function lineKey(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ").trim();
+}
+
+function runningLines(pages: PdfLine[][]): Set<string> {
+  if (pages.length < MIN_PAGES_FOR_RUNNING_LINES) return new Set();
+  const counts = new Map<string, number>();
+  for (const lines of pages) {
+    const edges = new Set([...lines.slice(0, EDGE_LINES), ...lines.slice(-EDGE_LINES)].map((line) => lineKey(line.text)));
+    for (const key of edges) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const threshold = Math.max(2, Math.ceil(pages.length * RUNNING_LINE_SHARE));
+  return new Set([...counts].filter(([, count]) => count >= threshold).map(([key]) => key));
+}
+
+// The body font is the size most of the text is set in, measured in characters rather than lines.
+function dominantSize(lines: PdfLine[]): number {
+  const chars = new Map<number, number>();
+  for (const line of lines) chars.set(line.size, (chars.get(line.size) ?? 0) + line.text.length);
+  return [...chars].sort((a, b) => b[1] - a[1])[0]?.[0] ?? 0;
+}
+
+/**
+ * Headings at the top of a page name its section (a chapter opening); headings further down
+ * stay in the text as their own paragraph. Body lines are rejoined into paragraphs, undoing
+ * the hyphenation of words broken across lines.
+ */
+function pageSection(number: number, lines: PdfLine[], bodySize: number): ExtractedSection {
+  const isHeading = (line: PdfLine) =>
+    bodySize > 0 && line.size >= bodySize * HEADING_SIZE_RATIO && line.text.length <= MAX_HEADING_CHARS && /\p{L}/u.test(line.text);
+  let top = 0;
+  while (top < lines.length && isHeading(lines[top])) top += 1;
+  const heading = lines
+    .slice(0, top)
+    .map((line) => line.text)
+    .reduce((joined, text) => (joined ? `${joined}${/[:.?!]$/.test(joined) ? " " : ": "}${text}` : text), "");
+
+  const paragraphs: string[] = [];
+  let paragraph = "";
+  for (const line of lines.slice(top)) {
+    if (isHeading(line)) {
+      paragraphs.push(paragraph, line.text);
+      paragraph = "";
+    } else if (/\p{L}-$/u.test(paragraph) && /^\p{Ll}/u.test(line.text)) {
+      paragraph = `${paragraph.slice(0, -1)}${line.text}`;
+    } else {
+      paragraph = paragraph ? `${paragraph} ${line.text}` : line.text;
+    }
+  }
+  paragraphs.push(paragraph);
+
+  const text = tidyText(paragraphs.filter(Boolean).join("\n\n"));
+  return { kind: "page", number, ...(heading ? { heading } : {}), text };
+}
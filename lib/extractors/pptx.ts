@@ -0,0 +1,195 @@
+import JSZip from "jszip";
+import {
+  MIN_EXTRACTED_CHARS,
+  decodeXmlEntities,
+  extractedChars,
+  tidyText,
+  type ExtractedImage,
+  type ExtractedSection,
+  type SourceExtractor,
+} from "@/lib/extractors/contracts";
+import { coreTitle, isZip } from "@/lib/extractors/zip";
+
+type SlideRels = { notes: string | null; images: Map<string, string> };
+
+// Formats browsers can show; EMF/WMF/TIFF clip art would only be dead links on a card.
+const IMAGE_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+};
+// Icons and bullets are tiny and full-bleed photos huge; neither is the figure a card wants.
+const MIN_IMAGE_BYTES = 4 * 1024;
+const MAX_IMAGE_BYTES = 3 * 1024 * 1024;
+const MAX_IMAGES_PER_SLIDE = 2;
+const MAX_IMAGES_PER_DECK = 40;
+
+// Top-level shapes in reading order: text boxes, tables (inside graphic frames) and pictures.
+const SHAPE = /<p:sp\b[\s\S]*?<\/p:sp>|<p:graphicFrame\b[\s\S]*?<\/p:graphicFrame>|<p:pic\b[\s\S]*?<\/p:pic>/g;
+const TITLE_PLACEHOLDER = /<p:ph\b[^>]*\btype="(?:title|ctrTitle)"/;
+
+export const pptxExtractor: SourceExtractor = {
+  kind: "pptx",
+  extensions: ["pptx"],
+  mimeTypes: ["application/vnd.openxmlformats-officedocument.presentationml.presentation"],
+  sniff: (buf) => isZip(buf) && buf.includes("ppt/slides/"),
+  async extract(buf) {
+    try {
+      console.log("[PPTX] Starting extraction, buffer size:", buf.length);
+      const zip = await JSZip.loadAsync(buf);
+      const slideFiles = Object.keys(zip.files)
+        .filter((p) => /^ppt\/slides\/slide\d+\.xml$/.test(p))
+        .sort((a, b) => slideNumber(a) - slideNumber(b));
+      if (!slideFiles.length) {
+        console.error("[PPTX] No slides found in file");
+        return null;
+      }
+
+      const sections: ExtractedSection[] = [];
+      // The same picture (a logo, a recurring diagram) is only worth storing once.
+      const seenImages = new Set<string>();
+      let imageCount = 0;
+      for (const path of slideFiles) {
+        const xml = await zip.files[path].async("string");
+        const rels = await slideRels(zip, path);
+
+        let heading: string | undefined;
+        const body: string[] = [];
+        const images: ExtractedImage[] = [];
+        for (const [shape] of xml.matchAll(SHAPE)) {
+          if (shape.startsWith("<p:pic")) {
+            const target = rels.images.get(shape.match(/<a:blip\b[^>]*\br:embed="([^"]+)"/)?.[1] ?? "");
+            if (!target || seenImages.has(target) || images.length >= MAX_IMAGES_PER_SLIDE) continue;
+            if (imageCount >= MAX_IMAGES_PER_DECK) continue;
+            seenImages.add(target);
+            const image = await readImage(zip, target, shape);
+            if (image) {
+              images.push(image);
+              imageCount += 1;
+            }
+          } else if (shape.includes("<a:tbl>")) {
+            body.push(tableText(shape));
+          } else if (!heading && TITLE_PLACEHOLDER.test(shape)) {
+            heading = paragraphs(shape).join(" ") || undefined;
+          } else {
+            body.push(paragraphs(shape).join("\n"));
+          }
+        }
+
+        const notes = rels.notes ? await notesText(zip, rels.notes) : "";
+        if (notes) body.push(`Speaker notes: ${notes}`);
+        const text = tidyText(body.filter(Boolean).join("\n"));
+        // Numbered by position among slides with text, as hidden or empty slides are skipped.
+        if (text || heading) {
+          sections.push({
+            kind: "slide",
+            number: sections.length + 1,
+            ...(heading ? { heading } : {}),
+            text,
+            ...(images.length ? { images } : {}),
+          });
+        }
+      }
+
+      const doc = { kind: "pptx" as const, title: await coreTitle(zip), sections };
+      console.log("[PPTX] Extraction complete:", {
+        slides: sections.length,
+        chars: extractedChars(doc),
+        withNotes: sections.filter((section) => section.text.includes("Speaker notes:")).length,
+        images: imageCount,
+      });
+      if (extractedChars(doc) < MIN_EXTRACTED_CHARS) {
+        console.warn("[PPTX] Extracted text is suspiciously short");
+        return null;
+      }
+      return doc;
+    } catch (error) {
+      console.error("[PPTX] Error extracting text:", error instanceof Error ? error.message : error);
+      return null;
+    }
+  },
+};
+
+function slideNumber(path: string): number {
+  return parseInt(path.match(/slide(\d+)\.xml/)?.[1] || "0", 10);
+}
+
+// ppt/slides/_rels/slideN.xml.rels names the slide's notes page and the media its pictures embed.
+async function slideRels(zip: JSZip, slidePath: string): Promise<SlideRels> {
+  const relsPath = slidePath.replace(/([^/]+)$/, "_rels/$1.rels");
+  const xml = (await zip.file(relsPath)?.async("string")) ?? "";
+  const rels: SlideRels = { notes: null, images: new Map() };
+  for (const [tag] of xml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = tag.match(/\bId="([^"]+)"/)?.[1];
+    const type = tag.match(/\bType="([^"]+)"/)?.[1] ?? "";
+    const target = tag.match(/\bTarget="([^"]+)"/)?.[1];
+    if (!id || !target || /\bTargetMode="External"/.test(tag)) continue;
+    const resolved = resolvePath(slidePath, decodeXmlEntities(target));
+    if (type.endsWith("/notesSlide")) rels.notes = resolved;
+    else if (type.endsWith("/image")) rels.images.set(id, resolved);
+  }
+  return rels;
+}
+
+function resolvePath(from: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = from.split("/").slice(0, -1);
+  for (const part of target.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  }
+  return parts.join("/");
+}
+
+// One line per paragraph; runs within a paragraph are pieces of the same sentence.
+function paragraphs(xml: string): string[] {
+  return [...xml.matchAll(/<a:p(?:\s[^>]*)?>([\s\S]*?)<\/a:p>/g)]
+    .map(([, paragraph]) =>
+      paragraph
+        .replace(/<a:br\b[^>]*\/>/g, "<a:t>\n</a:t>")
+        .match(/<a:t>[^<]*<\/a:t>/g)
+        ?.map((run) => decodeXmlEntities(run.slice(5, -6)))
+        .join("")
+        .replace(/[ \t]+/g, " ")
+        .trim() ?? ""
+    )
+    .filter(Boolean);
+}
+
+// Rows as "cell | cell" lines, like tables from every other format.
+function tableText(xml: string): string {
+  return [...xml.matchAll(/<a:tr\b[\s\S]*?<\/a:tr>/g)]
+    .map(([row]) =>
+      [...row.matchAll(/<a:tc\b[\s\S]*?<\/a:tc>|<a:tc\b[^>]*\/>/g)]
+        // Cells merged into their neighbour repeat nothing of their own.
+        .filter(([cell]) => !/<a:tc\b[^>]*\b(?:hMerge|vMerge)="1"/.test(cell))
+        .map(([cell]) => paragraphs(cell).join(" "))
+        .join(" | ")
+        .replace(/(?:\s*\|\s*)+$/, "")
+    )
+    .filter((row) => row.replace(/[\s|]/g, ""))
+    .join("\n");
+}
+
+// Only the notes body: the notes page also repeats the slide image, number, header and footer.
+async function notesText(zip: JSZip, path: string): Promise<string> {
+  const xml = await zip.file(path)?.async("string");
+  if (!xml) return "";
+  const body = [...xml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g)]
+    .filter(([shape]) => /<p:ph\b[^>]*\btype="body"/.test(shape))
+    .flatMap(([shape]) => paragraphs(shape));
+  return tidyText(body.join("\n"));
+}
+
+async function readImage(zip: JSZip, path: string, shape: string): Promise<ExtractedImage | null> {
+  const name = path.split("/").pop() || path;
+  const contentType = IMAGE_TYPES[name.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1] ?? ""];
+  const entry = zip.file(path);
+  if (!contentType || !entry) return null;
+  const data = await entry.async("nodebuffer");
+  if (data.length < MIN_IMAGE_BYTES || data.length > MAX_IMAGE_BYTES) return null;
+  const alt = decodeXmlEntities(shape.match(/<p:cNvPr\b[^>]*\bdescr="([^"]*)"/)?.[1] ?? "").trim();
+  return { name, contentType, data, ...(alt ? { alt } : {}) };
+}
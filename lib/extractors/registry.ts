@@ -0,0 +1,51 @@
+import type { SourceExtractor, SourceFileKind, SourceFileMeta } from "@/lib/extractors/contracts";
+import { docxExtractor } from "@/lib/extractors/docx";
+import { epubExtractor } from "@/lib/extractors/epub";
+import { htmlExtractor } from "@/lib/extractors/html";
+import { imageExtractor } from "@/lib/extractors/image";
+import { markdownExtractor } from "@/lib/extractors/markdown";
+import { notebookExtractor } from "@/lib/extractors/notebook";
+import { pdfExtractor } from "@/lib/extractors/pdf";
+import { pptxExtractor } from "@/lib/extractors/pptx";
+import { spreadsheetExtractor } from "@/lib/extractors/spreadsheet";
+import { subtitlesExtractor } from "@/lib/extractors/subtitles";
+
+// Sniffing runs in this order, so the zip-based formats with a distinctive entry come first
+// and the loose text formats last.
+export const SOURCE_EXTRACTORS: readonly SourceExtractor[] = [
+  pdfExtractor,
+  pptxExtractor,
+  docxExtractor,
+  spreadsheetExtractor,
+  epubExtractor,
+  notebookExtractor,
+  imageExtractor,
+  subtitlesExtractor,
+  htmlExtractor,
+  markdownExtractor,
+];
+
+// Browsers and servers send these for files they know nothing about.
+const GENERIC_MIME_TYPES = new Set(["", "application/octet-stream", "binary/octet-stream", "application/zip", "text/plain"]);
+
+export function sourceExtractorFor(kind: SourceFileKind): SourceExtractor {
+  return SOURCE_EXTRACTORS.find((extractor) => extractor.kind === kind)!;
+}
+
+/**
+ * Picks the extractor for a file by extension, then by MIME type, then by its bytes, since
+ * names and types are often missing or generic for fetched documents.
+ */
+export function detectSourceExtractor(buf: Buffer, meta: SourceFileMeta): SourceExtractor | null {
+  const extension = (meta.name || "").toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (extension) {
+    const byExtension = SOURCE_EXTRACTORS.find((extractor) => extractor.extensions.includes(extension));
+    if (byExtension) return byExtension;
+  }
+  const type = (meta.type || "").toLowerCase().split(";")[0].trim();
+  if (!GENERIC_MIME_TYPES.has(type)) {
+    const byType = SOURCE_EXTRACTORS.find((extractor) => extractor.mimeTypes.includes(type));
+    if (byType) return byType;
+  }
+  return SOURCE_EXTRACTORS.find((extractor) => extractor.sniff?.(buf)) ?? null;
+}
@@ -0,0 +1,97 @@
+import * as XLSX from "xlsx";
+import {
+  MIN_EXTRACTED_CHARS,
+  extractedChars,
+  type ExtractedSection,
+  type SourceExtractor,
+} from "@/lib/extractors/contracts";
+import { isZip } from "@/lib/extractors/zip";
+import { detectDelimiter, parseDelimitedRows } from "@/lib/import/delimited";
+
+type Sheet = { name: string; rows: string[][] };
+
+// Far more rows than fit in one generation anyway; the rest would only cost memory.
+const MAX_SHEET_ROWS = 5000;
+
+export const spreadsheetExtractor: SourceExtractor = {
+  kind: "spreadsheet",
+  extensions: ["xlsx", "xlsm", "xls", "ods", "csv", "tsv"],
+  mimeTypes: [
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/vnd.ms-excel",
+    "application/vnd.oasis.opendocument.spreadsheet",
+    "text/csv",
+    "text/tab-separated-values",
+  ],
+  sniff: (buf) => isZip(buf) && buf.includes("xl/workbook.xml"),
+  async extract(buf) {
+    try {
+      const workbook = isZip(buf) || isOleCompound(buf) ? readWorkbook(buf) : null;
+      // Plain-text sheets go through the same delimiter detection as card imports.
+      const sheets = workbook?.sheets ?? [{ name: "", rows: readDelimited(buf.toString("utf8").replace(/^\uFEFF/, "")) }];
+
+      // Each sheet is a section; a lone sheet (every CSV) is just text.
+      const sections: ExtractedSection[] = [];
+      for (const sheet of sheets) {
+        const text = sheetText(sheet.rows);
+        if (!text) continue;
+        sections.push(
+          sheets.length > 1
+            ? { kind: "section", number: sections.length + 1, heading: sheet.name, text }
+            : { kind: "text", number: 1, text }
+        );
+      }
+      const doc = { kind: "spreadsheet" as const, title: workbook?.title ?? null, sections };
+      return extractedChars(doc) < MIN_EXTRACTED_CHARS ? null : doc;
+    } catch (error) {
+      console.error("[Spreadsheet] Error extracting text:", error instanceof Error ? error.message : error);
+      return null;
+    }
+  },
+};
+
+function readWorkbook(buf: Buffer): { title: string | null; sheets: Sheet[] } {
+  const workbook = XLSX.read(buf, { type: "buffer", sheetRows: MAX_SHEET_ROWS });
+  const sheets = workbook.SheetNames.map((name) => ({
+    name,
+    rows: XLSX.utils
+      .sheet_to_json<unknown[]>(workbook.Sheets[name], { header: 1, blankrows: false, defval: "", raw: false })
+      .map((row) => row.map((cell) => String(cell ?? "").trim())),
+  }));
+  return { title: workbook.Props?.Title?.trim() || null, sheets };
+}
+
+function readDelimited(text: string): string[][] {
+  return parseDelimitedRows(text, detectDelimiter(text))
+    .slice(0, MAX_SHEET_ROWS)
+    .map((row) => row.map((cell) => cell.trim()));
+}
+
+/**
+ * Rows under a header row read as "Column: value" pairs so each line stands on its own as a
+ * fact; sheets without one fall back to cells separated by " | ".
+ */
+function sheetText(rows: string[][]): string {
+  const filled = rows.filter((row) => row.some(Boolean));
+  if (!filled.length) return "";
+  const header = filled[0];
+  const hasHeader =
+    filled.length > 1 && header.filter(Boolean).length >= 2 && header.every((cell) => !cell || Number.isNaN(Number(cell)));
+  if (!hasHeader) return filled.map((row) => row.filter(Boolean).join(" | ")).join("\n");
+
+  return filled
+    .slice(1)
+    .map((row) =>
+      row
+        .map((cell, index) => (cell ? (header[index] ? `${header[index]}: ${cell}` : cell) : ""))
+        .filter(Boolean)
+        .join("; ")
+    )
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Legacy .xls (and other OLE2 compound files) start with this signature.
+function isOleCompound(buf: Buffer): boolean {
+  return buf.length > 8 && buf.subarray(0, 8).equals(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]));
+}
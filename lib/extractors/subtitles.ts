@@ -0,0 +1,17 @@
+import { parseSubtitleBuffer } from "@/lib/captions";
+import type { SourceExtractor } from "@/lib/extractors/contracts";
+
+export const subtitlesExtractor: SourceExtractor = {
+  kind: "subtitles",
+  extensions: ["srt", "vtt"],
+  mimeTypes: ["text/vtt", "application/x-subrip", "text/srt"],
+  sniff: (buf) => {
+    const head = buf.subarray(0, 256).toString("utf8").replace(/^\uFEFF/, "");
+    return head.startsWith("WEBVTT") || /^\s*\d+\r?\n\d{2}:\d{2}:\d{2}[.,]\d{3}\s*-->/.test(head);
+  },
+  // A transcript has no structure of its own; chunking splits it into time windows instead.
+  async extract(buf) {
+    const text = parseSubtitleBuffer(buf);
+    return text ? { kind: "subtitles", title: null, sections: [{ kind: "text", number: 1, text }] } : null;
+  },
+};
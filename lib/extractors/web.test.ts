@@ -0,0 +1,195 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { crawlSite, parseRobots, robotsAllows } from "@/lib/extractors/web";
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+describe("parseRobots / robotsAllows", () => {
+  it("lets Allow win a tie with an equally specific Disallow", () => {
+    const robots = parseRobots("User-agent: *\nDisallow: /docs\nAllow: /docs\n");
+    expect(robotsAllows(robots, "/docs/intro")).toBe(true);
+  });
+
+  it("lets the longer rule win over the shorter one either way", () => {
+    const robots = parseRobots("User-agent: *\nDisallow: /docs/\nAllow: /docs/public/\nDisallow: /docs/public/drafts\n");
+    expect(robotsAllows(robots, "/docs/private")).toBe(false);
+    expect(robotsAllows(robots, "/docs/public/intro")).toBe(true);
+    expect(robotsAllows(robots, "/docs/public/drafts/1")).toBe(false);
+    expect(robotsAllows(robots, "/blog")).toBe(true);
+  });
+
+  it("matches * anywhere and $ only at the end of the path", () => {
+    const robots = parseRobots("User-agent: *\nDisallow: /*.php$\nDisallow: /*/print\n");
+    expect(robotsAllows(robots, "/index.php")).toBe(false);
+    expect(robotsAllows(robots, "/index.php?page=2")).toBe(true);
+    expect(robotsAllows(robots, "/guide/chapter-1/print")).toBe(false);
+    expect(robotsAllows(robots, "/print")).toBe(true);
+  });
+
+  it("treats regex characters in patterns literally", () => {
+    const robots = parseRobots("User-agent: *\nDisallow: /search?q=\n");
+    expect(robotsAllows(robots, "/search?q=cells")).toBe(false);
+    expect(robotsAllows(robots, "/searchXq=cells")).toBe(true);
+  });
+
+  it("uses the group naming the crawler instead of the * group", () => {
+    const robots = parseRobots(
+      "User-agent: *\nDisallow: /\n\nUser-agent: OtherBot\nUser-agent: QuickStudBot\nDisallow: /private\nCrawl-delay: 2\n"
+    );
+    expect(robotsAllows(robots, "/notes")).toBe(true);
+    expect(robotsAllows(robots, "/private/notes")).toBe(false);
+    expect(robots.crawlDelayMs).toBe(2000);
+  });
+
+  it("falls back to the * group, and an empty Disallow allows everything", () => {
+    expect(robotsAllows(parseRobots("User-agent: OtherBot\nDisallow: /\n\nUser-agent: *\nDisallow: /tmp\n"), "/notes")).toBe(true);
+    expect(robotsAllows(parseRobots("User-agent: *\nDisallow:\n"), "/anything")).toBe(true);
+  });
+});
+
+describe("crawlSite", () => {
+  let site: Server;
+  let offsite: Server;
+  let origin: string;
+  let offsiteOrigin: string;
+  let routes: Record<string, Handler>;
+
+  beforeAll(async () => {
+    site = createServer((req, res) => {
+      const handler = routes[new URL(req.url || "/", origin).pathname];
+      if (handler) return handler(req, res);
+      res.writeHead(404).end();
+    });
+    offsite = createServer((req, res) => html(page("Elsewhere", "A page on another site entirely.", []))(req, res));
+    origin = await listen(site);
+    offsiteOrigin = await listen(offsite);
+  });
+
+  afterAll(async () => {
+    await Promise.all([close(site), close(offsite)]);
+  });
+
+  beforeEach(() => {
+    routes = {};
+    vi.spyOn(console, "log").mockImplementation(() => undefined);
+    vi.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  function robots(status: number, body = ""): Handler {
+    return (_req, res) => res.writeHead(status, { "Content-Type": "text/plain" }).end(body);
+  }
+
+  function crawledPaths(crawl: Awaited<ReturnType<typeof crawlSite>>): string[] {
+    return crawl?.pages.map((crawled) => new URL(crawled.url).pathname) ?? [];
+  }
+
+  it("follows same-site links the robots.txt allows", async () => {
+    routes["/robots.txt"] = robots(200, "User-agent: *\nDisallow: /private\n");
+    routes["/"] = html(page("Home", "The home page introduces cell biology.", ["/cells", "/private/notes", "https://example.org/x"]));
+    routes["/cells"] = html(page("Cells", "Cells are the basic unit of life.", []));
+    routes["/private/notes"] = html(page("Private", "Notes that robots.txt keeps out.", []));
+
+    const crawl = await crawlSite(new URL(`${origin}/`), { maxDepth: 1 });
+    expect(crawledPaths(crawl)).toEqual(["/", "/cells"]);
+    expect(crawl?.skippedByRobots).toBe(1);
+    expect(crawl?.doc.sections.map((section) => section.heading)).toEqual(["Home", "Cells"]);
+  });
+
+  it("follows every link when robots.txt is missing (4xx)", async () => {
+    routes["/robots.txt"] = robots(404);
+    routes["/"] = html(page("Home", "The home page introduces cell biology.", ["/private/notes"]));
+    routes["/private/notes"] = html(page("Private", "Notes that any robots.txt would have to name.", []));
+
+    const crawl = await crawlSite(new URL(`${origin}/`), { maxDepth: 1 });
+    expect(crawledPaths(crawl)).toEqual(["/", "/private/notes"]);
+    expect(crawl?.skippedByRobots).toBe(0);
+  });
+
+  it("reads only the start page when robots.txt fails (5xx)", async () => {
+    routes["/robots.txt"] = robots(503);
+    routes["/"] = html(page("Home", "The home page introduces cell biology.", ["/cells"]));
+    routes["/cells"] = html(page("Cells", "Cells are the basic unit of life.", []));
+
+    const crawl = await crawlSite(new URL(`${origin}/`), { maxDepth: 1 });
+    expect(crawledPaths(crawl)).toEqual(["/"]);
+    expect(crawl?.skippedByRobots).toBe(1);
+  });
+
+  it("reads only the start page when robots.txt cannot be fetched", async () => {
+    routes["/robots.txt"] = (req) => req.socket.destroy();
+    routes["/"] = html(page("Home", "The home page introduces cell biology.", ["/cells"]));
+    routes["/cells"] = html(page("Cells", "Cells are the basic unit of life.", []));
+
+    const crawl = await crawlSite(new URL(`${origin}/`), { maxDepth: 1 });
+    expect(crawledPaths(crawl)).toEqual(["/"]);
+    expect(crawl?.skippedByRobots).toBe(1);
+  });
+
+  it("ends a branch at a redirect to another origin", async () => {
+    routes["/robots.txt"] = robots(404);
+    routes["/"] = html(page("Home", "The home page introduces cell biology.", ["/away", "/cells"]));
+    routes["/away"] = (_req, res) => res.writeHead(302, { Location: `${offsiteOrigin}/elsewhere` }).end();
+    routes["/cells"] = html(page("Cells", "Cells are the basic unit of life.", []));
+
+    const crawl = await crawlSite(new URL(`${origin}/`), { maxDepth: 1 });
+    expect(crawledPaths(crawl)).toEqual(["/", "/cells"]);
+    expect(crawl?.pages.every((crawled) => crawled.url.startsWith(origin))).toBe(true);
+  });
+
+  it("stops at the depth limit", async () => {
+    routes["/robots.txt"] = robots(404);
+    routes["/"] = html(page("Home", "The home page introduces cell biology.", ["/one"]));
+    routes["/one"] = html(page("One", "One link away from the start page.", ["/two"]));
+    routes["/two"] = html(page("Two", "Two links away from the start page.", ["/three"]));
+    routes["/three"] = html(page("Three", "Three links away, past every depth limit.", []));
+
+    expect(crawledPaths(await crawlSite(new URL(`${origin}/`), { maxDepth: 0 }))).toEqual(["/"]);
+    const crawl = await crawlSite(new URL(`${origin}/`), { maxDepth: 1 });
+    expect(crawledPaths(crawl)).toEqual(["/", "/one"]);
+    expect(crawl?.pages.map((crawled) => crawled.depth)).toEqual([0, 1]);
+  });
+
+  it("stops at the page limit, breadth first", async () => {
+    routes["/robots.txt"] = robots(404);
+    routes["/"] = html(page("Home", "The home page introduces cell biology.", ["/a", "/b", "/c"]));
+    for (const name of ["a", "b", "c"]) {
+      routes[`/${name}`] = html(page(`Page ${name}`, `Page ${name} has text of its own about organelles.`, []));
+    }
+
+    expect(crawledPaths(await crawlSite(new URL(`${origin}/`), { maxDepth: 1, maxPages: 3 }))).toEqual(["/", "/a", "/b"]);
+  });
+
+  it("keeps one copy of a page reachable under several URLs", async () => {
+    const home = html(page("Home", "The home page introduces cell biology.", ["/index.html", "/?ref=nav", "/cells#top"]));
+    routes["/robots.txt"] = robots(404);
+    routes["/"] = home;
+    routes["/index.html"] = home;
+    routes["/cells"] = html(page("Cells", "Cells are the basic unit of life.", ["/#intro"]));
+
+    const crawl = await crawlSite(new URL(`${origin}/`), { maxDepth: 2 });
+    expect(crawledPaths(crawl)).toEqual(["/", "/cells"]);
+    expect(crawl?.doc.sections).toHaveLength(2);
+  });
+});
+
+// Enough prose for Readability to treat the paragraphs as the page's article.
+function page(title: string, lead: string, links: string[]): string {
+  const filler = Array.from({ length: 4 }, (_, index) => `<p>${lead} Paragraph ${index + 1} expands on this with enough detail to read as an article.</p>`);
+  const nav = links.map((href) => `<li><a href="${href}">${href}</a></li>`).join("");
+  return `<!doctype html><html><head><title>${title}</title></head><body><nav><ul>${nav}</ul></nav><article><h1>${title}</h1>${filler.join("")}</article></body></html>`;
+}
+
+function html(body: string): Handler {
+  return (_req, res) => res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" }).end(body);
+}
+
+function listen(server: Server): Promise<string> {
+  return new Promise((resolve) => {
+    server.listen(0, "127.0.0.1", () => resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`));
+  });
+}
+
+function close(server: Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
@@ -0,0 +1,245 @@
+import {
+  MIN_EXTRACTED_CHARS,
+  extractedChars,
+  foldBlocks,
+  headedSections,
+  type ExtractedDocument,
+} from "@/lib/extractors/contracts";
+import { parseHtmlPage, type HtmlPage } from "@/lib/extractors/html";
+
+export type CrawlOptions = {
+  maxDepth?: number;
+  maxPages?: number;
+};
+
+export type CrawledPage = {
+  url: string;
+  title: string | null;
+  depth: number;
+  chars: number;
+};
+
+export type SiteCrawl = {
+  doc: ExtractedDocument;
+  pages: CrawledPage[];
+  skippedByRobots: number;
+};
+
+type RobotsRule = { allow: boolean; pattern: string };
+type RobotsRules = { rules: RobotsRule[]; crawlDelayMs: number };
+
+// Single pages are fetched on the user's behalf like a browser would; many sites refuse bot UAs.
+const BROWSER_USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124 Safari/537.36";
+// Crawling follows links on its own, so it identifies itself and honours robots.txt for this token.
+const CRAWLER_USER_AGENT = "Mozilla/5.0 (compatible; QuickStudBot/1.0)";
+const ROBOTS_AGENT_TOKEN = "quickstudbot";
+
+const FETCH_TIMEOUT_MS = Number(process.env.WEB_FETCH_TIMEOUT_MS || 15_000);
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+// Ceilings for what a request may ask for, not defaults: a crawl stays well inside one job.
+const MAX_CRAWL_DEPTH = Math.max(0, Number(process.env.WEB_CRAWL_MAX_DEPTH || 2));
+const MAX_CRAWL_PAGES = Math.max(1, Number(process.env.WEB_CRAWL_MAX_PAGES || 20));
+const CRAWL_TIMEOUT_MS = Number(process.env.WEB_CRAWL_TIMEOUT_MS || 90_000);
+const MAX_CRAWL_DELAY_MS = 5_000;
+
+const ALLOW_ALL: RobotsRules = { rules: [], crawlDelayMs: 0 };
+const DISALLOW_ALL: RobotsRules = { rules: [{ allow: false, pattern: "/" }], crawlDelayMs: 0 };
+// Links to files rather than pages; the crawl only reads HTML.
+const NON_PAGE_PATH = /\.(?:pdf|zip|gz|tgz|tar|png|jpe?g|gif|svg|webp|ico|mp3|mp4|mov|webm|css|js|json|xml|rss|atom|woff2?|ttf|docx?|pptx?|xlsx?|csv|epub)$/i;
+
+/** Fetches one web page and returns its main content, sectioned by its headings. */
+export async function extractWebPage(url: URL): Promise<ExtractedDocument | null> {
+  const page = await fetchHtml(url, BROWSER_USER_AGENT);
+  if (!page) return null;
+  const { title, blocks } = parseHtmlPage(page.html, page.url);
+  const doc: ExtractedDocument = { kind: "html", title: title ?? url.hostname, sections: headedSections(blocks) };
+  return extractedChars(doc) < MIN_EXTRACTED_CHARS ? null : doc;
+}
+
+/**
+ * Builds one document from a site: starting at `start`, follows same-origin links breadth
+ * first up to `maxDepth` links away and `maxPages` pages, one section per page. robots.txt
+ * decides which discovered pages may be fetched; the start page was asked for explicitly.
+ */
+export async function crawlSite(start: URL, opts: CrawlOptions = {}): Promise<SiteCrawl | null> {
+  const maxDepth = clamp(opts.maxDepth ?? MAX_CRAWL_DEPTH, 0, MAX_CRAWL_DEPTH);
+  const maxPages = clamp(opts.maxPages ?? MAX_CRAWL_PAGES, 1, MAX_CRAWL_PAGES);
+  const robots = await fetchRobots(start.origin);
+  const delayMs = Math.min(robots.crawlDelayMs, MAX_CRAWL_DELAY_MS);
+  const deadline = Date.now() + CRAWL_TIMEOUT_MS;
+
+  const startUrl = crawlableUrl(start.toString(), start.origin) ?? start.toString();
+  const queue = [{ url: startUrl, depth: 0 }];
+  const queued = new Set([startUrl]);
+  const seenTexts = new Set<string>();
+  const pages: CrawledPage[] = [];
+  const sections: Array<{ heading?: string; text: string }> = [];
+  let skippedByRobots = 0;
+  let fetched = 0;
+
+  while (queue.length && pages.length < maxPages && Date.now() < deadline) {
+    const { url, depth } = queue.shift()!;
+    const target = new URL(url);
+    if (depth > 0 && !robotsAllows(robots, `${target.pathname}${target.search}`)) {
+      skippedByRobots += 1;
+      continue;
+    }
+    if (fetched > 0 && delayMs) await new Promise((resolve) => setTimeout(resolve, delayMs));
+    fetched += 1;
+
+    const page = await fetchHtml(target, CRAWLER_USER_AGENT);
+    // A redirect off the site ends that branch; its links are not ours to follow.
+    if (!page || new URL(page.url).origin !== start.origin) continue;
+    const parsed: HtmlPage = parseHtmlPage(page.html, page.url);
+    const section = foldBlocks([{ heading: parsed.title ?? undefined, text: "" }, ...parsed.blocks]);
+    // The same page is often reachable under several URLs ("/", "/index.html", "?ref=nav").
+    const fingerprint = section.text.slice(0, 500);
+    if (section.text && !seenTexts.has(fingerprint)) {
+      seenTexts.add(fingerprint);
+      pages.push({ url: page.url, title: parsed.title, depth, chars: section.text.length });
+      sections.push(section);
+    }
+
+    if (depth >= maxDepth) continue;
+    for (const link of parsed.links) {
+      const next = crawlableUrl(link, start.origin);
+      if (!next || queued.has(next)) continue;
+      queued.add(next);
+      queue.push({ url: next, depth: depth + 1 });
+    }
+  }
+
+  if (!pages.length) return null;
+  const doc: ExtractedDocument = {
+    kind: "html",
+    title: pages[0].title ?? start.hostname,
+    sections: sections.map((section, index) => ({
+      kind: "section",
+      number: index + 1,
+      heading: section.heading ?? pages[index].url,
+      text: section.text,
+    })),
+  };
+  console.log("[Crawl] Finished:", { start: start.toString(), pages: pages.length, fetched, skippedByRobots });
+  if (extractedChars(doc) < MIN_EXTRACTED_CHARS) return null;
+  return { doc, pages, skippedByRobots };
+}
+
+/**
+ * Parses robots.txt (RFC 9309) down to the rules for one crawler: the groups naming its token,
+ * or the "*" groups when none do. Wildcards ("*") and end anchors ("$") are supported.
+ */
+export function parseRobots(text: string, agentToken = ROBOTS_AGENT_TOKEN): RobotsRules {
+  type Group = { agents: string[]; rules: RobotsRule[]; crawlDelayMs: number };
+  const groups: Group[] = [];
+  let current: Group | null = null;
+  let inAgentLines = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const match = line.match(/^([a-z-]+)\s*:\s*(.*)$/i);
+    if (!match) continue;
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+    if (key === "user-agent") {
+      // Consecutive user-agent lines share the rules that follow them.
+      if (!current || !inAgentLines) {
+        current = { agents: [], rules: [], crawlDelayMs: 0 };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      inAgentLines = true;
+      continue;
+    }
+    inAgentLines = false;
+    if (!current) continue;
+    if (key === "allow" || key === "disallow") {
+      // An empty Disallow allows everything; it adds no rule.
+      if (value) current.rules.push({ allow: key === "allow", pattern: value });
+    } else if (key === "crawl-delay") {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds > 0) current.crawlDelayMs = seconds * 1000;
+    }
+  }
+
+  const token = agentToken.toLowerCase();
+  const own = groups.filter((group) => group.agents.includes(token));
+  const chosen = own.length ? own : groups.filter((group) => group.agents.includes("*"));
+  return {
+    rules: chosen.flatMap((group) => group.rules),
+    crawlDelayMs: Math.max(0, ...chosen.map((group) => group.crawlDelayMs)),
+  };
+}
+
+/** The most specific (longest) matching rule wins; on a tie, Allow does. */
+export function robotsAllows(robots: RobotsRules, path: string): boolean {
+  let best: RobotsRule | null = null;
+  for (const rule of robots.rules) {
+    if (!robotsPattern(rule.pattern).test(path)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return !best || best.allow;
+}
+
+async function fetchRobots(origin: string): Promise<RobotsRules> {
+  try {
+    const res = await fetch(`${origin}/robots.txt`, {
+      headers: { "User-Agent": CRAWLER_USER_AGENT },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    // No robots.txt (any 4xx) means no restrictions; a failing one means the site is off limits.
+    if (res.status >= 400 && res.status < 500) return ALLOW_ALL;
+    if (!res.ok) return DISALLOW_ALL;
+    return parseRobots(await res.text());
+  } catch (error: unknown) {
+    console.warn("[Crawl] robots.txt unreachable, following no links:", error instanceof Error ? error.message : error);
+    return DISALLOW_ALL;
+  }
+}
+
+async function fetchHtml(url: URL, userAgent: string): Promise<{ url: string; html: string } | null> {
+  try {
+    const res = await fetch(url.toString(), {
+      headers: { "User-Agent": userAgent, Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.5" },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!res.ok) return null;
+    const type = res.headers.get("content-type") || "";
+    if (type && !/html/i.test(type)) return null;
+    if (Number(res.headers.get("content-length") || 0) > MAX_PAGE_BYTES) return null;
+    const html = await res.text();
+    return { url: res.url || url.toString(), html: html.slice(0, MAX_PAGE_BYTES) };
+  } catch (error: unknown) {
+    console.warn("[Web] Fetch failed:", url.toString(), error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+// Same-origin http(s) page links, without the fragment, which never changes the page.
+function crawlableUrl(link: string, origin: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return null;
+  }
+  if (!/^https?:$/.test(url.protocol) || url.origin !== origin || NON_PAGE_PATH.test(url.pathname)) return null;
+  url.hash = "";
+  return url.toString();
+}
+
+function robotsPattern(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Math.floor(Number.isFinite(value) ? value : max)));
+}
@@ -0,0 +1,14 @@
+import type JSZip from "jszip";
+import { decodeXmlEntities } from "@/lib/extractors/contracts";
+
+/** Local file header magic shared by OOXML, EPUB and every other zip-based format. */
+export function isZip(buf: Buffer): boolean {
+  return buf.length > 4 && buf[0] === 0x50 && buf[1] === 0x4b && buf[2] === 0x03 && buf[3] === 0x04;
+}
+
+/** The dc:title Office apps store in docProps/core.xml, if the author set one. */
+export async function coreTitle(zip: JSZip): Promise<string | null> {
+  const xml = await zip.file("docProps/core.xml")?.async("string");
+  const title = xml?.match(/<dc:title>([\s\S]*?)<\/dc:title>/)?.[1];
+  return title ? decodeXmlEntities(title).trim() || null : null;
+}
@@ -0,0 +1,391 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { readFileSync } from "fs";
+import { parseSubtitleBuffer, type Cue } from "@/lib/captions";
+import { downloadYouTubeSubtitles, parseVTT } from "@/lib/fallback/yt-dlp";
+
+// Caption scrapers and downloads that talk to YouTube directly. They are unreliable from
+// serverless hosts, so they only run as transcript providers when a deployment enables them.
+
+const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124 Safari/537.36";
+
+function cleanText(s: string) {
+  return String(s || "").replace(/\s+/g, " ").trim();
+}
+
+/** Downloads captions with the yt-dlp binary. Throws when the binary is missing or the download fails. */
+export async function fetchYouTubeCuesViaYtDlp(id: string, language = "en"): Promise<Cue[] | null> {
+  const subtitlePath = await downloadYouTubeSubtitles(id, { lang: language, format: "vtt" });
+  const cues = parseVTT(readFileSync(subtitlePath, "utf-8"));
+  return cues.some((cue) => cue.text.trim()) ? cues : null;
+}
+
+/** Captions through the youtube-transcript package, which reports offset and duration in seconds. */
+export async function fetchYouTubeCuesViaLibrary(id: string, language = "en"): Promise<Cue[] | null> {
+  const { YoutubeTranscript } = (await import("youtube-transcript")) as any;
+  const items =
+    (await YoutubeTranscript.fetchTranscript(id).catch(() => null)) ??
+    (await YoutubeTranscript.fetchTranscript(id, { lang: language }).catch(() => null));
+  if (!Array.isArray(items) || !items.length) return null;
+  const cues: Cue[] = items.map((i: any) => ({
+    startMs: Math.round(Number(i.offset || 0) * 1000),
+    endMs: Math.round((Number(i.offset || 0) + Number(i.duration || 0)) * 1000),
+    text: String(i.text || ""),
+  }));
+  return cues.some((cue) => cue.text.trim()) ? cues : null;
+}
+
+/** Caption track from ytdl-core's player response. Throws when ytdl-core cannot load the video at all. */
+export async function fetchYouTubeTranscriptViaYtdlCore(id: string): Promise<string | null> {
+  const ytdl = (await import("ytdl-core")) as any;
+  const ytdlDefault = ytdl.default ?? ytdl;
+  const watchUrl = `https://www.youtube.com/watch?v=${id}`;
+  const requestOptions = {
+    headers: {
+      "User-Agent": USER_AGENT,
+      "Accept-Language": "en-US,en;q=0.9",
+    },
+  };
+
+  const info = await (ytdlDefault.getInfo
+    ? ytdlDefault.getInfo(watchUrl, { requestOptions })
+    : ytdl.getInfo(watchUrl, { requestOptions }));
+  const pr =
+    info.player_response ||
+    (typeof info.player_response === "string" ? JSON.parse(info.player_response) : info.player_response) ||
+    info.playerResponse;
+
+  const tracks = pr?.captions?.playerCaptionsTracklistRenderer?.captionTracks;
+  if (!tracks || !tracks.length) return null;
+
+  const track = tracks.find((t: any) => t.languageCode === "en") || tracks[0];
+  const baseUrl: string = track.baseUrl;
+
+  const captionFetchHeaders = {
+    "User-Agent": requestOptions.headers["User-Agent"],
+    "Accept-Language": requestOptions.headers["Accept-Language"],
+  };
+
+  // Try JSON3
+  try {
+    const r = await fetch(baseUrl + "&fmt=json3", { headers: captionFetchHeaders });
+    if (r.ok) {
+      const j: any = await r.json();
+      const text = (j.events || [])
+        .map((ev: any) => (ev.segs || []).map((s: any) => s.utf8 || "").join(""))
+        .join(" ");
+      const cleaned = String(text || "").replace(/\s+/g, " ").trim();
+      if (cleaned) return cleaned;
+    }
+  } catch {
+    // ignore
+  }
+
+  // Fallback XML timedtext
+  try {
+    const r2 = await fetch(baseUrl, { headers: captionFetchHeaders });
+    if (r2.ok) {
+      const xml = await r2.text();
+      const matches = Array.from(xml.matchAll(/<text[^>]*>([^<]*)<\/text>/g));
+      const text = matches
+        .map((m: any) =>
+          String(m[1] || "")
+            .replace(/&amp;/g, "&")
+            .replace(/&#39;/g, "'")
+            .replace(/&quot;/g, '"')
+            .replace(/&gt;/g, ">")
+            .replace(/&lt;/g, "<")
+        )
+        .join(" ");
+      const cleaned = String(text || "").replace(/\s+/g, " ").trim();
+      if (cleaned) return cleaned;
+    }
+  } catch {
+    // ignore
+  }
+
+  return null;
+}
+
+export async function fetchYouTubeTranscriptViaTimedText(id: string): Promise<string | null> {
+  // Direct caption fetch that avoids ytdl-core parsing and avoids audio downloads.
+  // Works when captions (including auto captions) are available via timedtext.
+  const headers = {
+    "User-Agent": USER_AGENT,
+    "Accept-Language": "en-US,en;q=0.9",
+    // Prefer caption formats, not HTML.
+    Accept: "text/vtt,application/xml,text/xml,application/json,*/*;q=0.8",
+    Referer: `https://www.youtube.com/watch?v=${encodeURIComponent(id)}`,
+  };
+
+  // First try to discover which caption tracks exist (language + manual vs ASR).
+  // This dramatically improves success vs hardcoding lang=en.
+  type Track = { lang: string; name?: string; isAsr: boolean };
+  const listUrls = [
+    `https://video.google.com/timedtext?type=list&v=${encodeURIComponent(id)}`,
+    `https://www.youtube.com/api/timedtext?type=list&v=${encodeURIComponent(id)}`,
+  ];
+
+  async function fetchTrackList(): Promise<Track[]> {
+    for (const listUrl of listUrls) {
+      try {
+        const r = await fetch(listUrl, { headers });
+        if (!r.ok) continue;
+        const xml = await r.text();
+        if (!xml || xml.trim().length < 10) continue;
+
+        const tracks: Track[] = [];
+        const re = /<track\b([^>]*)\/?>(?:<\/track>)?/gi;
+        for (const m of xml.matchAll(re)) {
+          const attrs = String(m[1] || "");
+          const lang = (attrs.match(/\blang_code="([^"]+)"/i)?.[1] || "").trim();
+          if (!lang) continue;
+          const name = (attrs.match(/\bname="([^"]*)"/i)?.[1] || "").trim();
+          const kind = (attrs.match(/\bkind="([^"]+)"/i)?.[1] || "").trim().toLowerCase();
+          tracks.push({ lang, name: name || undefined, isAsr: kind === "asr" });
+        }
+
+        if (tracks.length) return tracks;
+      } catch {
+        // ignore and try next list url
+      }
+    }
+
+    return [];
+  }
+
+  function buildTimedtextUrl(track: Track, fmt: "vtt" | "xml"): string {
+    const base = `https://www.youtube.com/api/timedtext?v=${encodeURIComponent(id)}&lang=${encodeURIComponent(track.lang)}`;
+    const name = track.name ? `&name=${encodeURIComponent(track.name)}` : "";
+    const kind = track.isAsr ? "&kind=asr" : "";
+    const format = fmt === "vtt" ? "&fmt=vtt" : "";
+    return `${base}${name}${kind}${format}`;
+  }
+
+  function parseJson3ToText(json: any): string {
+    const events = Array.isArray(json?.events) ? json.events : [];
+    const parts: string[] = [];
+    for (const ev of events) {
+      const segs = Array.isArray(ev?.segs) ? ev.segs : [];
+      for (const seg of segs) {
+        const t = typeof seg?.utf8 === "string" ? seg.utf8 : "";
+        if (t) parts.push(t);
+      }
+    }
+    return cleanText(parts.join(" "));
+  }
+
+  const tracks = await fetchTrackList();
+  const preferred: Track[] = [];
+
+  if (tracks.length) {
+    const byExact = (lang: string, isAsr: boolean) => tracks.filter((t) => t.lang === lang && t.isAsr === isAsr);
+    const byPrefix = (prefix: string, isAsr: boolean) => tracks.filter((t) => t.lang.startsWith(prefix) && t.isAsr === isAsr);
+    // Prefer English manual captions, then English ASR. Include en-* locales.
+    preferred.push(...byExact("en", false), ...byPrefix("en-", false));
+    preferred.push(...byExact("en", true), ...byPrefix("en-", true));
+    // Then any manual captions, then any ASR captions.
+    preferred.push(...tracks.filter((t) => !t.lang.startsWith("en") && !t.isAsr));
+    preferred.push(...tracks.filter((t) => !t.lang.startsWith("en") && t.isAsr));
+
+    // Fetch each track (try VTT first, then XML, then json3)
+    for (const track of preferred) {
+      for (const fmt of ["vtt", "xml"] as const) {
+        const url = buildTimedtextUrl(track, fmt);
+        try {
+          const r = await fetch(url, { headers });
+          if (!r.ok) continue;
+          const contentType = (r.headers.get("content-type") || "").toLowerCase();
+          const body = await r.text();
+          if (!body || body.trim().length < 10) continue;
+
+          if (contentType.includes("text/vtt") || /^WEBVTT/i.test(body.trim())) {
+            const cleaned = parseSubtitleBuffer(Buffer.from(body, "utf8"));
+            if (cleaned) return cleaned;
+            continue;
+          }
+
+          const matches = Array.from(body.matchAll(/<text[^>]*>([^<]*)<\/text>/g));
+          const text = matches
+            .map((m: any) =>
+              String(m[1] || "")
+                .replace(/&amp;/g, "&")
+                .replace(/&#39;/g, "'")
+                .replace(/&quot;/g, '"')
+                .replace(/&gt;/g, ">")
+                .replace(/&lt;/g, "<")
+            )
+            .join(" ");
+          const cleaned = cleanText(text || "");
+          if (cleaned) return cleaned;
+        } catch {
+          // ignore and try next
+        }
+      }
+
+      // json3 captions (common alternative when XML/VTT isn't returned)
+      try {
+        const url = `${buildTimedtextUrl(track, "xml")}&fmt=json3`;
+        const r = await fetch(url, { headers });
+        if (!r.ok) continue;
+        const json = await r.json().catch(() => null);
+        const cleaned = parseJson3ToText(json);
+        if (cleaned) return cleaned;
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  const candidates = [
+    // Manual captions
+    `https://www.youtube.com/api/timedtext?v=${encodeURIComponent(id)}&lang=en&fmt=vtt`,
+    `https://www.youtube.com/api/timedtext?v=${encodeURIComponent(id)}&lang=en`,
+    // Auto captions (ASR)
+    `https://www.youtube.com/api/timedtext?v=${encodeURIComponent(id)}&lang=en&kind=asr&fmt=vtt`,
+    `https://www.youtube.com/api/timedtext?v=${encodeURIComponent(id)}&lang=en&kind=asr`,
+  ];
+
+  for (const url of candidates) {
+    try {
+      const r = await fetch(url, { headers });
+      if (!r.ok) continue;
+      const contentType = (r.headers.get("content-type") || "").toLowerCase();
+      const body = await r.text();
+      if (!body || body.trim().length < 10) continue;
+
+      // If VTT, reuse our subtitle parsing.
+      if (contentType.includes("text/vtt") || /^WEBVTT/i.test(body.trim())) {
+        const cleaned = parseSubtitleBuffer(Buffer.from(body, "utf8"));
+        if (cleaned) return cleaned;
+        continue;
+      }
+
+      // XML timedtext
+      const matches = Array.from(body.matchAll(/<text[^>]*>([^<]*)<\/text>/g));
+      const text = matches
+        .map((m: any) =>
+          String(m[1] || "")
+            .replace(/&amp;/g, "&")
+            .replace(/&#39;/g, "'")
+            .replace(/&quot;/g, '"')
+            .replace(/&gt;/g, ">")
+            .replace(/&lt;/g, "<")
+        )
+        .join(" ");
+      const cleaned = cleanText(text || "");
+      if (cleaned) return cleaned;
+    } catch {
+      // ignore and try next
+    }
+  }
+
+  return null;
+}
+
+/** Reads the caption track out of ytInitialPlayerResponse on the watch page. */
+export async function fetchYouTubeTranscriptViaWatchPage(id: string): Promise<string | null> {
+  const watchUrl = `https://www.youtube.com/watch?v=${id}`;
+  const htmlRes = await fetch(watchUrl, { headers: { "User-Agent": USER_AGENT, "Accept-Language": "en-US,en;q=0.9" } });
+  if (!htmlRes.ok) throw new Error(`YouTube watch page returned HTTP ${htmlRes.status}`);
+  const html = await htmlRes.text();
+  // Look for ytInitialPlayerResponse JSON in HTML
+  const patterns = [
+    /ytInitialPlayerResponse\s*=\s*(\{[\s\S]*?\})\s*;\s*var/,
+    /ytInitialPlayerResponse\s*=\s*(\{[\s\S]*?\})\s*;\s*function/,
+    /ytInitialPlayerResponse\s*=\s*(\{[\s\S]*?\})\s*;\s*if/,
+    /window\["ytInitialPlayerResponse"\]\s*=\s*(\{[\s\S]*?\})\s*;/,
+    /var\s+ytInitialPlayerResponse\s*=\s*(\{[\s\S]*?\})\s*;/,
+  ];
+  let prObj: any = null;
+  for (const p of patterns) {
+    const m = html.match(p);
+    if (m && m[1]) {
+      try { prObj = JSON.parse(m[1]); break; } catch { /* try next */ }
+    }
+  }
+  // fallback: search for "player_response":"{...}" style (escaped)
+  if (!prObj) {
+    const esc = html.match(/"player_response"\s*:\s*"(\{[\s\S]*?\})"/);
+    if (esc && esc[1]) {
+      try { prObj = JSON.parse(esc[1].replace(/\\n/g, "").replace(/\\"/g, '"')); } catch {}
+    }
+  }
+  const tracks = prObj?.captions?.playerCaptionsTracklistRenderer?.captionTracks;
+  if (!tracks || !tracks.length) return null;
+
+  const track = tracks.find((t: any) => t.languageCode === "en") || tracks[0];
+  const baseUrl: string = track.baseUrl;
+  try {
+    const r = await fetch(baseUrl + "&fmt=json3");
+    if (r.ok) {
+      const j = await r.json();
+      const text = (j.events || []).map((ev: any) => (ev.segs || []).map((s: any) => s.utf8 || "").join("")).join(" ");
+      const cleaned = cleanText(text || "");
+      if (cleaned) return cleaned;
+    }
+  } catch { /* fall through to XML */ }
+  try {
+    const r2 = await fetch(baseUrl);
+    if (r2.ok) {
+      const xml = await r2.text();
+      const matches = Array.from(xml.matchAll(/<text[^>]*>([^<]*)<\/text>/g));
+      const text = matches.map((m: any) => m[1].replace(/&amp;/g, "&").replace(/&#39;/g, "'").replace(/&quot;/g, '"')).join(" ");
+      const cleaned = cleanText(text || "");
+      if (cleaned) return cleaned;
+    }
+  } catch {}
+  return null;
+}
+
+export async function downloadYouTubeAudioBufferViaYtdlCore(
+  id: string,
+  maxBytes: number
+): Promise<{ buf: Buffer; filename: string; contentType: string }> {
+  const ytdl = (await import("ytdl-core")) as any;
+  const ytdlDefault = ytdl.default ?? ytdl;
+
+  const watchUrl = `https://www.youtube.com/watch?v=${id}`;
+  const requestOptions = {
+    headers: {
+      "User-Agent": USER_AGENT,
+      "Accept-Language": "en-US,en;q=0.9",
+    },
+  };
+
+  const info = await (ytdlDefault.getInfo
+    ? ytdlDefault.getInfo(watchUrl, { requestOptions })
+    : ytdl.getInfo(watchUrl, { requestOptions }));
+  const format = ytdlDefault.chooseFormat
+    ? ytdlDefault.chooseFormat(info.formats, { quality: "highestaudio", filter: "audioonly" })
+    : (ytdl.chooseFormat(info.formats, { quality: "highestaudio", filter: "audioonly" }) as any);
+
+  const mimeTypeRaw: string | undefined = format?.mimeType;
+  const contentType = (mimeTypeRaw ? String(mimeTypeRaw).split(";")[0] : "audio/webm") || "audio/webm";
+  const ext = contentType.includes("mp4") || contentType.includes("m4a") ? "m4a" : "webm";
+  const filename = `youtube-${id}.${ext}`;
+
+  const stream = ytdlDefault(watchUrl, {
+    quality: format.itag,
+    requestOptions,
+    highWaterMark: 1 << 25,
+  });
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  await new Promise<void>((resolve, reject) => {
+    stream.on("data", (chunk: Buffer) => {
+      total += chunk.length;
+      if (total > maxBytes) {
+        stream.destroy(new Error(`YouTube audio too large (> ${maxBytes} bytes)`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on("end", () => resolve());
+    stream.on("error", (e: any) => reject(e));
+  });
+
+  return { buf: Buffer.concat(chunks), filename, contentType };
+}
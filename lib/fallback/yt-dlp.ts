@@ -126,6 +126,53 @@ export function parseVTT(vttContent: string): Array<{ startMs: number; endMs: nu
   return cues;
 }
 
+export interface FlatPlaylist {
+  title: string | null;
+  entries: Array<{ id: string; title: string | null; durationSec: number | null }>;
+}
+
+/**
+ * List the videos of a playlist or channel URL without downloading anything
+ * (`--flat-playlist` only reads the listing pages).
+ */
+export async function listYouTubePlaylist(url: string, options: { limit?: number } = {}): Promise<FlatPlaylist> {
+  const args = ["--flat-playlist", "-J", "--no-warnings"];
+  if (options.limit) args.push("--playlist-end", String(options.limit));
+  args.push(url);
+
+  const stdout = await new Promise<string>((resolve, reject) => {
+    const proc = spawn("yt-dlp", args, { stdio: ["ignore", "pipe", "pipe"] });
+    let out = "";
+    let stderr = "";
+    proc.stdout?.on("data", (data) => {
+      out += data.toString();
+    });
+    proc.stderr?.on("data", (data) => {
+      stderr += data.toString();
+    });
+    proc.on("error", (err) => {
+      reject(err.message.includes("ENOENT") ? new Error("yt-dlp not found. Install with: pip install yt-dlp") : err);
+    });
+    proc.on("close", (code) => {
+      if (code === 0) resolve(out);
+      else reject(new Error(`yt-dlp exited with code ${code}\nStderr: ${stderr}`));
+    });
+  });
+
+  const json = JSON.parse(stdout) as { title?: unknown; entries?: unknown };
+  const entries = Array.isArray(json.entries) ? json.entries : [];
+  return {
+    title: typeof json.title === "string" ? json.title : null,
+    entries: entries
+      .map((entry: { id?: unknown; title?: unknown; duration?: unknown }) => ({
+        id: typeof entry?.id === "string" ? entry.id : "",
+        title: typeof entry?.title === "string" ? entry.title : null,
+        durationSec: typeof entry?.duration === "number" ? entry.duration : null,
+      }))
+      .filter((entry) => /^[a-zA-Z0-9_-]{11}$/.test(entry.id)),
+  };
+}
+
 /**
  * Parse SRT subtitle file into normalized cues
  */
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { allocateChunkBudget, splitSourceIntoChunks, type SourceChunk } from "@/lib/generation/chunks";
+
+// Whole sentences adding up to roughly `chars` characters.
+function prose(chars: number, topic = "cell"): string {
+  const sentence = `The ${topic} stores energy for later use. `;
+  return sentence.repeat(Math.max(1, Math.round(chars / sentence.length))).trim();
+}
+
+function marked(noun: "Page" | "Slide", sizes: number[]): string {
+  return sizes.map((size, index) => `[${noun} ${index + 1}]\n${prose(size, `${noun.toLowerCase()}${index + 1}`)}`).join("\n\n");
+}
+
+// Every non-space character of the source, in order, across the chunks.
+function expectFullCoverage(source: string, chunks: SourceChunk[]) {
+  const strip = (value: string) => value.replace(/\s+/g, "");
+  expect(strip(chunks.map((chunk) => chunk.text).join(""))).toBe(strip(source));
+}
+
+describe("splitSourceIntoChunks", () => {
+  it("packs whole pages into chunks labelled with their page range", () => {
+    const source = marked("Page", [500, 500, 500, 500, 500, 500]);
+    const chunks = splitSourceIntoChunks(source, { targetChars: 1200, maxChunks: 8 });
+    expect(chunks.map((chunk) => chunk.label)).toEqual(["Pages 1–2", "Pages 3–4", "Pages 5–6"]);
+    expect(chunks.map((chunk) => chunk.index)).toEqual([0, 1, 2]);
+    for (const chunk of chunks) expect(chunk.chars).toBe(chunk.text.length);
+    expectFullCoverage(source, chunks);
+  });
+
+  it("labels slide decks by slide and keeps text before the first marker", () => {
+    const source = `Course intro.\n${marked("Slide", [300, 300, 300])}`;
+    const chunks = splitSourceIntoChunks(source, { targetChars: 400, maxChunks: 8 });
+    expect(chunks.map((chunk) => chunk.label)).toEqual(["Slide 1", "Slide 2", "Slide 3"]);
+    expect(chunks[0].text.startsWith("Course intro.")).toBe(true);
+    expectFullCoverage(source, chunks);
+  });
+
+  it("splits one oversized page rather than letting a chunk run far over budget", () => {
+    const source = marked("Page", [3000]);
+    const chunks = splitSourceIntoChunks(source, { targetChars: 1000, maxChunks: 8 });
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.label).toBe("Page 1");
+      expect(chunk.chars).toBeLessThanOrEqual(1000);
+    }
+    expectFullCoverage(source, chunks);
+  });
+
+  it("labels transcript windows with contiguous approximate timestamps", () => {
+    const source = prose(6000, "lecture");
+    const chunks = splitSourceIntoChunks(source, { targetChars: 1500, maxChunks: 8, structure: "transcript" });
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks[0].label.startsWith("≈0:00–")).toBe(true);
+    for (let index = 1; index < chunks.length; index += 1) {
+      const previousEnd = chunks[index - 1].label.split("–")[1];
+      expect(chunks[index].label).toBe(`≈${previousEnd}–${chunks[index].label.split("–")[1]}`);
+    }
+    expectFullCoverage(source, chunks);
+  });
+
+  it("grows chunks past the target so a long source still fits in maxChunks", () => {
+    const source = prose(20_000);
+    const chunks = splitSourceIntoChunks(source, { targetChars: 1000, maxChunks: 4 });
+    expect(chunks.length).toBeLessThanOrEqual(4);
+    expect(chunks.map((chunk) => chunk.label)).toEqual(chunks.map((_, index) => `Part ${index + 1} of ${chunks.length}`));
+    expectFullCoverage(source, chunks);
+  });
+
+  it("folds the smallest neighbouring chunks together when packing overshoots maxChunks", () => {
+    // Greedy packing leaves four single-page chunks; pages 2 and 3 are the smallest pair.
+    const source = marked("Page", [1000, 600, 500, 1000]);
+    const chunks = splitSourceIntoChunks(source, { targetChars: 100, maxChunks: 3 });
+    expect(chunks.map((chunk) => chunk.label)).toEqual(["Page 1", "Pages 2–3", "Page 4"]);
+    expectFullCoverage(source, chunks);
+  });
+
+  it("merges the first pair when every neighbouring pair is the same size", () => {
+    const source = marked("Page", [600, 600, 600]);
+    const chunks = splitSourceIntoChunks(source, { targetChars: 100, maxChunks: 2 });
+    expect(chunks.map((chunk) => chunk.label)).toEqual(["Pages 1–2", "Page 3"]);
+    expectFullCoverage(source, chunks);
+  });
+
+  it("returns no chunks for an empty source", () => {
+    expect(splitSourceIntoChunks("   ", { targetChars: 1000, maxChunks: 4 })).toEqual([]);
+  });
+});
+
+describe("allocateChunkBudget", () => {
+  const sized = (...chars: number[]) => chars.map((value) => ({ chars: value }));
+
+  it("splits cards in proportion to length, giving leftovers to the largest remainders", () => {
+    // Shares after the one-card floor: 0.7, 2.1, 4.2.
+    expect(allocateChunkBudget(sized(100, 300, 600), 10)).toEqual([2, 3, 5]);
+  });
+
+  it("gives every chunk at least one card when there are enough to go around", () => {
+    expect(allocateChunkBudget(sized(1000, 10, 10), 5)).toEqual([3, 1, 1]);
+  });
+
+  it("hands out a short budget to the earliest chunks when remainders tie", () => {
+    expect(allocateChunkBudget(sized(10, 10, 10, 10), 2)).toEqual([1, 1, 0, 0]);
+  });
+
+  it("always sums to the total", () => {
+    const chunks = sized(1234, 87, 4410, 19, 960, 2);
+    for (const total of [1, 5, 6, 7, 20, 33, 100]) {
+      const budgets = allocateChunkBudget(chunks, total);
+      expect(budgets.reduce((sum, budget) => sum + budget, 0)).toBe(total);
+      if (total >= chunks.length) expect(Math.min(...budgets)).toBeGreaterThanOrEqual(1);
+    }
+  });
+
+  it("returns zeros for no cards and nothing for no chunks", () => {
+    expect(allocateChunkBudget(sized(10, 20), 0)).toEqual([0, 0]);
+    expect(allocateChunkBudget([], 10)).toEqual([]);
+  });
+});
@@ -0,0 +1,282 @@
+export type SourceStructure = "pages" | "slides" | "sections" | "transcript" | "text";
+
+export type SourceChunk = {
+  index: number;
+  label: string;
+  text: string;
+  chars: number;
+};
+
+/** What the deck records about each chunk after generation. */
+export type ChunkCoverage = {
+  index: number;
+  label: string;
+  chars: number;
+  budget: number;
+  generated: number;
+  selected: number;
+};
+
+type GeneratedCard = { question: string; answer: string };
+
+type ChunkGenerateFn = (source: string, count: number, attempt: number) => Promise<GeneratedCard[] | null>;
+
+type SourceUnit = { number: number | null; text: string; wordOffset: number };
+
+// Spoken English averages roughly this many words per minute, which is how transcript
+// windows are turned into approximate timestamps when the transcript has none.
+export const SPOKEN_WORDS_PER_MINUTE = 150;
+const TEXT_UNIT_CHARS = 1200;
+
+const PAGE_MARKER = /\[Page\s+(\d+)\]/i;
+const SLIDE_MARKER = /\[Slide\s+(\d+)\]/i;
+const SECTION_MARKER = /\[Section\s+(\d+)\]/i;
+
+export function detectSourceStructure(source: string, opts?: { transcript?: boolean }): SourceStructure {
+  if (PAGE_MARKER.test(source)) return "pages";
+  if (SLIDE_MARKER.test(source)) return "slides";
+  if (SECTION_MARKER.test(source)) return "sections";
+  return opts?.transcript ? "transcript" : "text";
+}
+
+/**
+ * Splits a long source into at most `maxChunks` chunks on structural boundaries: whole PDF
+ * pages, PPTX slides or document sections when the extractor marked them, otherwise sentence-aligned windows
+ * (time windows for transcripts). Chunks aim for `targetChars` but grow when the source is
+ * too long to fit in `maxChunks` chunks of that size, so the whole source is always covered.
+ */
+export function splitSourceIntoChunks(
+  source: string,
+  opts: { targetChars: number; maxChunks: number; structure?: SourceStructure }
+): SourceChunk[] {
+  const text = String(source || "").trim();
+  if (!text) return [];
+  const structure = opts.structure ?? detectSourceStructure(text);
+  const chunkChars = Math.max(opts.targetChars, Math.ceil(text.length / Math.max(1, opts.maxChunks)));
+
+  const groups: SourceUnit[][] = [];
+  let current: SourceUnit[] = [];
+  let currentChars = 0;
+  for (const unit of sourceUnits(text, structure, chunkChars)) {
+    if (current.length && currentChars + unit.text.length > chunkChars) {
+      groups.push(current);
+      current = [];
+      currentChars = 0;
+    }
+    current.push(unit);
+    currentChars += unit.text.length + 1;
+  }
+  if (current.length) groups.push(current);
+
+  // Greedy packing can leave a short tail over the limit; fold the smallest neighbours together.
+  const groupChars = (group: SourceUnit[]) => group.reduce((sum, unit) => sum + unit.text.length + 1, 0);
+  while (groups.length > Math.max(1, opts.maxChunks)) {
+    let merge = 0;
+    for (let index = 1; index < groups.length - 1; index += 1) {
+      if (groupChars(groups[index]) + groupChars(groups[index + 1]) < groupChars(groups[merge]) + groupChars(groups[merge + 1])) merge = index;
+    }
+    groups.splice(merge, 2, [...groups[merge], ...groups[merge + 1]]);
+  }
+
+  return groups.map((units, index) => {
+    const chunkText = units.map((unit) => unit.text).join("\n");
+    return {
+      index,
+      label: chunkLabel(structure, units, index, groups.length, chunkText),
+      text: chunkText,
+      chars: chunkText.length,
+    };
+  });
+}
+
+/**
+ * Splits `total` cards across chunks in proportion to their length (largest remainder), so
+ * a 40-page chapter gets more cards than a 2-page appendix. Every chunk gets at least one
+ * card when there are enough to go around.
+ */
+export function allocateChunkBudget(chunks: Pick<SourceChunk, "chars">[], total: number): number[] {
+  if (!chunks.length || total <= 0) return chunks.map(() => 0);
+  const floor = total >= chunks.length ? 1 : 0;
+  const remaining = total - floor * chunks.length;
+  const totalChars = chunks.reduce((sum, chunk) => sum + Math.max(1, chunk.chars), 0);
+  const shares = chunks.map((chunk) => (remaining * Math.max(1, chunk.chars)) / totalChars);
+  const budgets = shares.map((share) => floor + Math.floor(share));
+
+  let left = total - budgets.reduce((sum, budget) => sum + budget, 0);
+  const byRemainder = shares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (left <= 0) break;
+    budgets[index] += 1;
+    left -= 1;
+  }
+  return budgets;
+}
+
+/**
+ * Map step of chunked generation, shaped as a `ReasoningEngine.generateFlashcards` generator.
+ * Attempt 1 asks every chunk for a little more than its budget; later attempts only top up
+ * chunks that came back short. The engine then dedupes and ranks all candidates together,
+ * and `coverage` attributes the cards it kept back to the chunks they came from.
+ */
+export function createChunkedGenerator(
+  chunks: SourceChunk[],
+  budgets: number[],
+  generate: ChunkGenerateFn,
+  opts: { concurrency: number; overGenerate?: number }
+) {
+  const generated = chunks.map(() => 0);
+  const chunkOfQuestion = new Map<string, number>();
+  let succeeded = 0;
+
+  const generator = async ({ attempt }: { attempt: number }): Promise<GeneratedCard[] | null> => {
+    const pending = chunks.filter(
+      (chunk) => budgets[chunk.index] > 0 && (attempt === 1 || generated[chunk.index] < budgets[chunk.index])
+    );
+    const cards: GeneratedCard[] = [];
+    const errors: unknown[] = [];
+
+    await forEachWithConcurrency(pending, opts.concurrency, async (chunk) => {
+      const budget = budgets[chunk.index];
+      const want = attempt === 1
+        ? Math.ceil(budget * (opts.overGenerate ?? 1.25))
+        : Math.max(1, budget - generated[chunk.index]);
+      try {
+        const out = await generate(chunk.text, want, attempt);
+        succeeded += 1;
+        for (const card of out || []) {
+          const key = questionKey(card.question);
+          if (!chunkOfQuestion.has(key)) {
+            chunkOfQuestion.set(key, chunk.index);
+            generated[chunk.index] += 1;
+          }
+          cards.push(card);
+        }
+      } catch (error) {
+        // One failing chunk should not sink the deck; the others still contribute cards.
+        errors.push(error);
+      }
+    });
+
+    // Only surface a failure when no chunk has ever produced output, so a failed top-up on a
+    // later attempt cannot throw away the cards earlier attempts already returned.
+    if (!succeeded && errors.length) throw errors[0];
+    return cards.length ? cards : null;
+  };
+
+  const coverage = (selected: GeneratedCard[]): ChunkCoverage[] => {
+    const kept = chunks.map(() => 0);
+    for (const card of selected) {
+      const index = chunkOfQuestion.get(questionKey(card.question));
+      if (index !== undefined) kept[index] += 1;
+    }
+    return chunks.map((chunk) => ({
+      index: chunk.index,
+      label: chunk.label,
+      chars: chunk.chars,
+      budget: budgets[chunk.index] ?? 0,
+      generated: generated[chunk.index],
+      selected: kept[chunk.index],
+    }));
+  };
+
+  return { generator, coverage };
+}
+
+async function forEachWithConcurrency<T>(items: T[], limit: number, fn: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const item = items[next];
+      next += 1;
+      await fn(item);
+    }
+  });
+  await Promise.all(workers);
+}
+
+// Same normalization the reasoning engine dedupes on, so coverage lines up with its selection.
+function questionKey(question: string): string {
+  return String(question || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function sourceUnits(text: string, structure: SourceStructure, maxUnitChars: number): SourceUnit[] {
+  const marker =
+    structure === "pages" ? PAGE_MARKER : structure === "slides" ? SLIDE_MARKER : structure === "sections" ? SECTION_MARKER : null;
+  const units: SourceUnit[] = [];
+  let wordOffset = 0;
+  const push = (number: number | null, piece: string) => {
+    const cleaned = piece.replace(/\s+/g, " ").trim();
+    if (!cleaned) return;
+    units.push({ number, text: cleaned, wordOffset });
+    wordOffset += cleaned.split(" ").length;
+  };
+
+  if (marker) {
+    const pattern = new RegExp(`${marker.source}[\\s\\S]*?(?=${marker.source}|$)`, "gi");
+    const leading = text.split(marker)[0];
+    if (leading.trim()) push(null, leading);
+    for (const match of text.matchAll(pattern)) {
+      const number = Number(match[0].match(marker)?.[1]);
+      // A single oversized page, slide or section is split so no chunk ends up far over budget.
+      for (const piece of splitSentences(match[0], maxUnitChars)) push(number, piece);
+    }
+    return units;
+  }
+
+  for (const piece of splitSentences(text, Math.min(TEXT_UNIT_CHARS, maxUnitChars))) push(null, piece);
+  return units;
+}
+
+/** Packs sentences into pieces of at most `maxChars`; a single longer sentence is hard-split. */
+function splitSentences(text: string, maxChars: number): string[] {
+  const sentences = text.replace(/\s+/g, " ").match(/[^.!?]+(?:[.!?]+["')\]]*\s*|$)/g) || [text];
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of sentences) {
+    if (current && current.length + sentence.length > maxChars) {
+      pieces.push(current);
+      current = "";
+    }
+    if (sentence.length > maxChars) {
+      for (let start = 0; start < sentence.length; start += maxChars) pieces.push(sentence.slice(start, start + maxChars));
+      continue;
+    }
+    current += sentence;
+  }
+  if (current.trim()) pieces.push(current);
+  return pieces;
+}
+
+function chunkLabel(structure: SourceStructure, units: SourceUnit[], index: number, count: number, chunkText: string): string {
+  if (structure === "pages" || structure === "slides" || structure === "sections") {
+    const numbers = units.map((unit) => unit.number).filter((number): number is number => number !== null);
+    const noun = structure === "pages" ? "Page" : structure === "slides" ? "Slide" : "Section";
+    if (!numbers.length) return `Part ${index + 1} of ${count}`;
+    const first = Math.min(...numbers);
+    const last = Math.max(...numbers);
+    return first === last ? `${noun} ${first}` : `${noun}s ${first}–${last}`;
+  }
+  if (structure === "transcript") {
+    const startWords = units[0]?.wordOffset ?? 0;
+    const endWords = startWords + chunkText.split(/\s+/).length;
+    const toSeconds = (words: number) => (words / SPOKEN_WORDS_PER_MINUTE) * 60;
+    return `≈${formatTimestamp(toSeconds(startWords))}–${formatTimestamp(toSeconds(endWords))}`;
+  }
+  return `Part ${index + 1} of ${count}`;
+}
+
+/** "4:05" or "1:02:09". */
+export function formatTimestamp(seconds: number): string {
+  const totalSeconds = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  const mmss = `${String(mins).padStart(hours ? 2 : 1, "0")}:${String(secs).padStart(2, "0")}`;
+  return hours ? `${hours}:${mmss}` : mmss;
+}
@@ -0,0 +1,191 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { listYouTubePlaylist } from "@/lib/fallback/yt-dlp";
+import { fetchSupadataCollectionVideos, hasSupadataConfigured } from "@/lib/supadata";
+import { fetchYouTubeOEmbed, type YouTubeCollectionParse } from "@/lib/youtube";
+import {
+  enqueueGenerationJob,
+  generationJobView,
+  GENERATION_JOB_VIEW_SELECT,
+  type GenerationJobView,
+} from "@/lib/generation/jobs";
+
+type YouTubeCollection = Extract<YouTubeCollectionParse, { ok: true }>;
+
+export type CourseVideo = { videoId: string; title: string; url: string };
+
+export type CourseVideoListResult =
+  | { ok: true; title: string | null; videos: CourseVideo[]; provider: "supadata" | "yt-dlp" }
+  | { ok: false; code: "COURSE_EMPTY" | "COURSE_LIST_FAILED"; message: string };
+
+/** One video of a course: where it sits in the series, its generation job and, once built, its deck. */
+export type CourseVideoView = {
+  position: number;
+  job: GenerationJobView;
+};
+
+export type CourseView = {
+  id: string;
+  title: string;
+  sourceUrl: string;
+  sourceKind: string;
+  createdAt: string;
+  counts: Record<GenerationJobView["status"], number>;
+  videos: CourseVideoView[];
+};
+
+// Whole lecture series are fine; whole channels are capped so one paste cannot queue hundreds of jobs.
+export const MAX_COURSE_VIDEOS = Number(process.env.COURSE_MAX_VIDEOS || 50);
+const TITLE_LOOKUP_CONCURRENCY = 4;
+
+/**
+ * Lists the videos of a playlist or channel in order. Supadata is tried first because it works
+ * from serverless hosts; yt-dlp is the fallback where the binary is installed. Supadata only
+ * returns ids, so titles are looked up through oEmbed.
+ */
+export async function listCourseVideos(collection: YouTubeCollection, limit = MAX_COURSE_VIDEOS): Promise<CourseVideoListResult> {
+  let failure = "No video listing provider is available.";
+
+  if (hasSupadataConfigured()) {
+    const listed = await fetchSupadataCollectionVideos({
+      kind: collection.kind,
+      id: collection.kind === "playlist" ? collection.id : collection.canonicalUrl,
+      limit,
+    });
+    if (listed.ok) {
+      const ids = [...new Set(listed.videoIds)].slice(0, limit);
+      if (!ids.length) return { ok: false, code: "COURSE_EMPTY", message: "That playlist or channel has no videos." };
+      const [title, titles] = await Promise.all([
+        collection.kind === "playlist" ? oEmbedTitle(collection.canonicalUrl) : Promise.resolve(null),
+        mapWithConcurrency(ids, TITLE_LOOKUP_CONCURRENCY, (id) => oEmbedTitle(videoUrl(id))),
+      ]);
+      return {
+        ok: true,
+        title,
+        provider: "supadata",
+        videos: ids.map((id, index) => ({ videoId: id, title: titles[index] || `Video ${index + 1}`, url: videoUrl(id) })),
+      };
+    }
+    failure = listed.message;
+    console.warn("[Course] Supadata listing failed:", listed.reason, listed.message);
+  }
+
+  try {
+    const playlist = await listYouTubePlaylist(collection.canonicalUrl, { limit });
+    const seen = new Set<string>();
+    const entries = playlist.entries.filter((entry) => !seen.has(entry.id) && seen.add(entry.id)).slice(0, limit);
+    if (!entries.length) return { ok: false, code: "COURSE_EMPTY", message: "That playlist or channel has no videos." };
+    return {
+      ok: true,
+      title: playlist.title,
+      provider: "yt-dlp",
+      videos: entries.map((entry, index) => ({
+        videoId: entry.id,
+        title: entry.title || `Video ${index + 1}`,
+        url: videoUrl(entry.id),
+      })),
+    };
+  } catch (error: unknown) {
+    failure = error instanceof Error ? error.message : failure;
+    console.warn("[Course] yt-dlp listing failed:", failure);
+  }
+
+  return { ok: false, code: "COURSE_LIST_FAILED", message: failure };
+}
+
+/**
+ * Creates the course and queues one generation job per video, in playlist order. Each job
+ * replays the create form with the video's URL and title, so it goes through the same
+ * transcript fallbacks as a single pasted video; the worker files the finished deck under
+ * the course.
+ */
+export async function enqueueCourse(input: {
+  userId: string;
+  title: string;
+  collection: YouTubeCollection;
+  videos: CourseVideo[];
+  form: FormData;
+  requestUrl: string;
+}): Promise<{ id: string; jobIds: string[] }> {
+  const course = await prisma.course.create({
+    data: {
+      userId: input.userId,
+      title: input.title.slice(0, 120) || "New Course",
+      sourceUrl: input.collection.canonicalUrl,
+      sourceKind: input.collection.kind,
+    },
+    select: { id: true },
+  });
+
+  const jobIds: string[] = [];
+  for (const [position, video] of input.videos.entries()) {
+    const form = new FormData();
+    for (const [name, value] of input.form.entries()) {
+      if (name !== "url" && name !== "title" && typeof value === "string") form.append(name, value);
+    }
+    form.append("url", video.url);
+    form.append("title", video.title);
+    const job = await enqueueGenerationJob({
+      userId: input.userId,
+      title: video.title,
+      form,
+      requestUrl: input.requestUrl,
+      course: { id: course.id, position },
+    });
+    jobIds.push(job.id);
+  }
+  return { id: course.id, jobIds };
+}
+
+export const COURSE_VIEW_SELECT = {
+  id: true,
+  title: true,
+  sourceUrl: true,
+  sourceKind: true,
+  createdAt: true,
+  generationJobs: {
+    orderBy: { coursePosition: "asc" },
+    select: { ...GENERATION_JOB_VIEW_SELECT, coursePosition: true },
+  },
+} satisfies Prisma.CourseSelect;
+
+export function courseView(course: Prisma.CourseGetPayload<{ select: typeof COURSE_VIEW_SELECT }>): CourseView {
+  const counts: CourseView["counts"] = { queued: 0, running: 0, succeeded: 0, failed: 0, cancelled: 0 };
+  const videos = course.generationJobs.map((job, index) => {
+    const view = generationJobView(job);
+    counts[view.status] += 1;
+    return { position: job.coursePosition ?? index, job: view };
+  });
+  return {
+    id: course.id,
+    title: course.title,
+    sourceUrl: course.sourceUrl,
+    sourceKind: course.sourceKind,
+    createdAt: course.createdAt.toISOString(),
+    counts,
+    videos,
+  };
+}
+
+function videoUrl(id: string): string {
+  return `https://www.youtube.com/watch?v=${id}`;
+}
+
+async function oEmbedTitle(url: string): Promise<string | null> {
+  const meta = await fetchYouTubeOEmbed(url);
+  return "title" in meta && meta.title ? meta.title : null;
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next;
+      next += 1;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,402 @@
+import { del, put } from "@vercel/blob";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { runFlashcardsPipeline } from "@/lib/generation/flashcardsPipeline";
+
+export type GenerationJobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+/** What the progress UI and the SSE stream see; the stored form input never leaves the server. */
+export type GenerationJobView = {
+  id: string;
+  title: string;
+  status: GenerationJobStatus;
+  stage: string | null;
+  timings: Record<string, number>;
+  attempts: number;
+  deckId: string | null;
+  origin: string | null;
+  error: string | null;
+  errorCode: string | null;
+  cancelRequested: boolean;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+};
+
+type StoredFormEntry =
+  | { name: string; value: string }
+  | { name: string; file: { url: string; name: string; type: string } };
+
+type StoredJobInput = { requestUrl: string; entries: StoredFormEntry[] };
+
+type ClaimedJob = {
+  id: string;
+  attempts: number;
+  input: Prisma.JsonValue;
+  cancelRequestedAt: Date | null;
+  deckId: string | null;
+  origin: string | null;
+  courseId: string | null;
+  coursePosition: number | null;
+  user: { clerkUserId: string };
+};
+
+const HEARTBEAT_MS = 10_000;
+// A running job whose worker has not checked in for this long is assumed lost (server restart,
+// crash or function timeout) and is claimed again by the next worker.
+const STALE_AFTER_MS = 60_000;
+const MAX_JOB_ATTEMPTS = Number(process.env.GENERATION_JOB_MAX_ATTEMPTS || 3);
+// RunPod queueing and timeouts are usually capacity problems, so those jobs wait and retry.
+const RETRY_DELAY_MS = 30_000;
+const RETRYABLE_CODES = new Set(["RUNPOD_IN_QUEUE", "RUNPOD_TIMEOUT"]);
+
+export const TERMINAL_JOB_STATUSES: GenerationJobStatus[] = ["succeeded", "failed", "cancelled"];
+
+export function isTerminalJobStatus(status: string): boolean {
+  return (TERMINAL_JOB_STATUSES as string[]).includes(status);
+}
+
+/**
+ * Persists a create-form submission so a worker can replay it later. Files are moved to Blob
+ * storage because a job may be picked up by a different server process than the one that
+ * received the upload.
+ */
+export async function enqueueGenerationJob(input: {
+  userId: string;
+  title: string;
+  form: FormData;
+  requestUrl: string;
+  // Set for the per-video jobs of a playlist or channel import.
+  course?: { id: string; position: number };
+}): Promise<{ id: string }> {
+  const entries: StoredFormEntry[] = [];
+  for (const [name, value] of input.form.entries()) {
+    if (typeof value === "string") {
+      entries.push({ name, value });
+      continue;
+    }
+    // Browsers submit empty file inputs as zero-byte files; the pipeline ignores those anyway.
+    if (!value.size) continue;
+    const safeName = (value.name || "upload.bin").replace(/[^a-zA-Z0-9._-]+/g, "_");
+    const blob = await put(`uploads/jobs/${Date.now()}-${safeName}`, value, {
+      access: "public",
+      contentType: value.type || "application/octet-stream",
+      addRandomSuffix: true,
+    });
+    entries.push({ name, file: { url: blob.url, name: value.name || safeName, type: value.type || "" } });
+  }
+
+  const stored: StoredJobInput = { requestUrl: input.requestUrl, entries };
+  return prisma.generationJob.create({
+    data: {
+      userId: input.userId,
+      title: input.title.slice(0, 120) || "New Deck",
+      input: stored as unknown as Prisma.InputJsonValue,
+      courseId: input.course?.id ?? null,
+      coursePosition: input.course?.position ?? null,
+    },
+    select: { id: true },
+  });
+}
+
+/**
+ * Marks a job for cancellation. Queued jobs are cancelled immediately; a running job is
+ * stopped by its worker at the next stage boundary or heartbeat.
+ */
+export async function cancelGenerationJob(id: string): Promise<void> {
+  const now = new Date();
+  const cancelled = await prisma.generationJob.updateMany({
+    where: { id, status: "queued" },
+    data: { status: "cancelled", cancelRequestedAt: now, finishedAt: now, stage: null },
+  });
+  if (cancelled.count) {
+    const job = await prisma.generationJob.findUnique({ where: { id }, select: { input: true } });
+    if (job) await deleteJobUploads(job.input);
+  }
+  await prisma.generationJob.updateMany({
+    where: { id, status: "running", cancelRequestedAt: null },
+    data: { cancelRequestedAt: now },
+  });
+}
+
+export const GENERATION_JOB_VIEW_SELECT = {
+  id: true,
+  title: true,
+  status: true,
+  stage: true,
+  timings: true,
+  attempts: true,
+  deckId: true,
+  origin: true,
+  error: true,
+  errorCode: true,
+  cancelRequestedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  finishedAt: true,
+} satisfies Prisma.GenerationJobSelect;
+
+export function generationJobView(
+  job: Prisma.GenerationJobGetPayload<{ select: typeof GENERATION_JOB_VIEW_SELECT }>
+): GenerationJobView {
+  const timings = job.timings && typeof job.timings === "object" && !Array.isArray(job.timings)
+    ? (job.timings as Record<string, number>)
+    : {};
+  return {
+    id: job.id,
+    title: job.title,
+    status: job.status as GenerationJobStatus,
+    stage: job.stage,
+    timings,
+    attempts: job.attempts,
+    deckId: job.deckId,
+    origin: job.origin,
+    error: job.error,
+    errorCode: job.errorCode,
+    cancelRequested: !!job.cancelRequestedAt,
+    createdAt: job.createdAt.toISOString(),
+    updatedAt: job.updatedAt.toISOString(),
+    finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null,
+  };
+}
+
+let activeWorker: Promise<void> | null = null;
+
+/**
+ * Runs queued jobs in this process until the queue is empty. Safe to call from every request
+ * that might have work to do: at most one loop runs per process, and claims are atomic so
+ * loops in different processes never run the same job. Jobs left `running` by a process
+ * that died are claimed again once their heartbeat goes stale.
+ */
+export function runGenerationWorker(): Promise<void> {
+  if (!activeWorker) {
+    activeWorker = drainQueue()
+      .catch((error: unknown) => {
+        console.error("[GenerationJob] Worker stopped:", error instanceof Error ? error.message : error);
+      })
+      .finally(() => {
+        activeWorker = null;
+      });
+  }
+  return activeWorker;
+}
+
+async function drainQueue(): Promise<void> {
+  for (;;) {
+    const job = await claimNextJob();
+    if (job) {
+      await runJob(job);
+      continue;
+    }
+    if (job === null) return;
+    // job === undefined: another worker won the claim race; look again.
+  }
+}
+
+/** Returns the claimed job, `undefined` when a claim lost a race, or `null` when nothing is due. */
+async function claimNextJob(): Promise<ClaimedJob | null | undefined> {
+  const now = new Date();
+  let candidate = await findClaimableJob(now);
+  if (!candidate) {
+    // Retrying jobs wait for runAfter; if one is due soon, wait for it rather than exiting.
+    const delayed = await prisma.generationJob.findFirst({
+      where: { status: "queued" },
+      orderBy: { runAfter: "asc" },
+      select: { runAfter: true },
+    });
+    const wait = delayed ? delayed.runAfter.getTime() - now.getTime() : Infinity;
+    if (wait > RETRY_DELAY_MS) return null;
+    await new Promise((resolve) => setTimeout(resolve, Math.max(0, wait)));
+    candidate = await findClaimableJob(new Date());
+    if (!candidate) return null;
+  }
+
+  // Compare-and-set on the fields just read, so two workers never both claim one job.
+  const claimed = await prisma.generationJob.updateMany({
+    where: { id: candidate.id, status: candidate.status, heartbeatAt: candidate.heartbeatAt },
+    data: { status: "running", heartbeatAt: new Date(), startedAt: new Date(), attempts: { increment: 1 } },
+  });
+  if (!claimed.count) return undefined;
+
+  return prisma.generationJob.findUnique({
+    where: { id: candidate.id },
+    select: {
+      id: true,
+      attempts: true,
+      input: true,
+      cancelRequestedAt: true,
+      deckId: true,
+      origin: true,
+      courseId: true,
+      coursePosition: true,
+      user: { select: { clerkUserId: true } },
+    },
+  });
+}
+
+function findClaimableJob(now: Date) {
+  return prisma.generationJob.findFirst({
+    where: {
+      OR: [
+        { status: "queued", runAfter: { lte: now } },
+        { status: "running", heartbeatAt: { lt: new Date(now.getTime() - STALE_AFTER_MS) } },
+      ],
+    },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, status: true, heartbeatAt: true },
+  });
+}
+
+async function runJob(job: ClaimedJob): Promise<void> {
+  // A reclaimed job whose worker died after writing the deck is finished, not generated again.
+  if (job.deckId) return finishWithDeck(job, job.deckId, job.origin);
+  if (job.cancelRequestedAt) return finishJob(job.id, { status: "cancelled" });
+  if (job.attempts > MAX_JOB_ATTEMPTS) {
+    return finishJob(job.id, {
+      status: "failed",
+      error: "Generation was interrupted too many times. Please try again.",
+      errorCode: "JOB_INTERRUPTED",
+    });
+  }
+
+  const controller = new AbortController();
+  let timings: Record<string, number> = {};
+  const checkIn = async (data: Prisma.GenerationJobUpdateInput) => {
+    const row = await prisma.generationJob
+      .update({ where: { id: job.id }, data: { ...data, heartbeatAt: new Date() }, select: { cancelRequestedAt: true } })
+      .catch(() => null);
+    if (row?.cancelRequestedAt) controller.abort();
+  };
+  const heartbeat = setInterval(() => void checkIn({}), HEARTBEAT_MS);
+
+  try {
+    const req = await rebuildRequest(job.input as unknown as StoredJobInput);
+    const res = await runFlashcardsPipeline(req, {
+      clerkUserId: job.user.clerkUserId,
+      signal: controller.signal,
+      onStage: async (stage, stageTimings) => {
+        timings = stageTimings;
+        await checkIn({ stage, timings: { ...stageTimings } });
+      },
+      onDeckCreated: async (tx, deck) => {
+        await tx.generationJob.update({ where: { id: job.id }, data: { deckId: deck.id, origin: deck.origin } });
+      },
+    });
+    await recordPipelineResponse(job, res, timings);
+  } catch (error: unknown) {
+    const code = (error as { code?: unknown } | null)?.code;
+    await finishJob(job.id, {
+      status: code === "JOB_CANCELLED" ? "cancelled" : "failed",
+      error: error instanceof Error ? error.message : "Generation failed.",
+      errorCode: typeof code === "string" ? code : "SERVER_FAIL",
+      timings,
+    });
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+// The pipeline answers like the synchronous route: a 303 to the new deck, or a JSON error.
+async function recordPipelineResponse(job: ClaimedJob, res: Response, timings: Record<string, number>) {
+  const location = res.headers.get("Location");
+  const target = location ? new URL(location, "http://localhost") : null;
+  const deckId = target?.pathname.match(/^\/app\/deck\/([^/]+)/)?.[1] ?? null;
+  if (deckId) return finishWithDeck(job, deckId, target?.searchParams.get("origin") ?? null, timings);
+
+  // A failure after the deck and its cards were written (say, saving the reasoning run) still
+  // leaves the student a complete deck.
+  const recorded = await prisma.generationJob.findUnique({ where: { id: job.id }, select: { deckId: true, origin: true } });
+  if (recorded?.deckId) return finishWithDeck(job, recorded.deckId, recorded.origin, timings);
+
+  const body = (await res.json().catch(() => null)) as
+    | { error?: unknown; code?: unknown; timings?: unknown }
+    | null;
+  const code = typeof body?.code === "string" ? body.code : null;
+  const error = typeof body?.error === "string" ? body.error : `Generation failed (HTTP ${res.status}).`;
+  const finalTimings = body?.timings && typeof body.timings === "object" ? (body.timings as Record<string, number>) : timings;
+
+  if (code && RETRYABLE_CODES.has(code) && job.attempts < MAX_JOB_ATTEMPTS) {
+    await prisma.generationJob.update({
+      where: { id: job.id },
+      data: {
+        status: "queued",
+        stage: "waiting_for_capacity",
+        runAfter: new Date(Date.now() + RETRY_DELAY_MS),
+        error,
+        errorCode: code,
+        timings: finalTimings,
+      },
+    });
+    return;
+  }
+
+  return finishJob(job.id, {
+    status: code === "JOB_CANCELLED" ? "cancelled" : "failed",
+    error,
+    errorCode: code ?? (res.status === 307 || res.status === 302 ? "UNAUTHORIZED" : "SERVER_FAIL"),
+    timings: finalTimings,
+  });
+}
+
+async function finishWithDeck(job: ClaimedJob, deckId: string, origin: string | null, timings?: Record<string, number>) {
+  if (job.courseId) {
+    await prisma.deck.update({
+      where: { id: deckId },
+      data: { courseId: job.courseId, coursePosition: job.coursePosition },
+    });
+  }
+  return finishJob(job.id, { status: "succeeded", deckId, origin, timings });
+}
+
+async function finishJob(
+  id: string,
+  result: {
+    status: Extract<GenerationJobStatus, "succeeded" | "failed" | "cancelled">;
+    deckId?: string;
+    origin?: string | null;
+    error?: string;
+    errorCode?: string;
+    timings?: Record<string, number>;
+  }
+) {
+  const job = await prisma.generationJob.update({
+    where: { id },
+    select: { input: true },
+    data: {
+      status: result.status,
+      stage: null,
+      deckId: result.deckId ?? null,
+      origin: result.origin ?? null,
+      error: result.status === "succeeded" ? null : (result.error ?? (result.status === "cancelled" ? "Generation was cancelled." : null)),
+      errorCode: result.status === "succeeded" ? null : (result.errorCode ?? (result.status === "cancelled" ? "JOB_CANCELLED" : null)),
+      ...(result.timings ? { timings: result.timings } : {}),
+      finishedAt: new Date(),
+    },
+  });
+  await deleteJobUploads(job.input);
+}
+
+// Uploads are public blobs kept only so a worker can replay the form; a finished job never reads them again.
+async function deleteJobUploads(input: Prisma.JsonValue) {
+  const entries = (input as unknown as StoredJobInput | null)?.entries ?? [];
+  const urls = entries.flatMap((entry) => ("file" in entry ? [entry.file.url] : []));
+  if (!urls.length) return;
+  await del(urls).catch((error: unknown) => {
+    console.warn("[GenerationJob] Could not delete uploads:", error instanceof Error ? error.message : error);
+  });
+}
+
+async function rebuildRequest(input: StoredJobInput): Promise<Request> {
+  const form = new FormData();
+  for (const entry of input.entries) {
+    if ("value" in entry) {
+      form.append(entry.name, entry.value);
+      continue;
+    }
+    const res = await fetch(entry.file.url);
+    if (!res.ok) throw new Error(`Could not read the uploaded file ${entry.file.name} (HTTP ${res.status}).`);
+    const buf = await res.arrayBuffer();
+    form.append(entry.name, new File([buf], entry.file.name, { type: entry.file.type }));
+  }
+  return new Request(input.requestUrl, { method: "POST", body: form });
+}
@@ -0,0 +1,275 @@
+import { stripCloze } from "@/lib/cards/cloze";
+import { formatTimestamp, SPOKEN_WORDS_PER_MINUTE } from "@/lib/generation/chunks";
+import type { Cue } from "@/lib/captions";
+import type { SourceFigure } from "@/lib/extractors/figures";
+import { parseYouTube } from "@/lib/youtube";
+
+/**
+ * Where in the extracted source a card came from. Offsets index into the text the deck was
+ * generated from (Deck.source is a prefix of it), and `excerpt` keeps the passage itself so
+ * the citation still works for sources too long to store in full.
+ */
+export type SourceSpan = {
+  kind: "page" | "slide" | "section" | "time" | "text";
+  start: number;
+  end: number;
+  excerpt: string;
+  page?: number;
+  slide?: number;
+  section?: number;
+  startSec?: number;
+  // Transcript timestamps estimated from word position rather than read from captions.
+  approximate?: boolean;
+  // A figure stored from the cited page or slide, shown next to the card.
+  figure?: { url: string; alt?: string };
+};
+
+type Passage = { start: number; end: number; tokens: Set<string> };
+type Marker = { offset: number; number: number };
+type TimedWord = { wordOffset: number; startSec: number };
+type DeckSource = { sourceUrl: string | null; sourceKind: string | null };
+
+/** The moment in a YouTube source a card came from: a watch link and an embeddable player that starts there. */
+export type VideoMoment = {
+  videoId: string;
+  startSec: number;
+  label: string;
+  href: string;
+  embedUrl: string;
+};
+
+const PASSAGE_CHARS = 480;
+const MAX_EXCERPT_CHARS = 600;
+// Below this share of the card's words found in the best passage, the match is a guess.
+const MIN_MATCH_SCORE = 0.3;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "are", "was", "were", "that", "this", "with", "from", "into", "what", "which", "when",
+  "where", "who", "why", "how", "does", "did", "its", "their", "they", "them", "than", "then", "has", "have",
+  "had", "can", "could", "would", "should", "not", "but", "also", "about", "between", "each", "other",
+]);
+
+/**
+ * Indexes a source once and returns a function that finds the passage best supporting a card,
+ * scored by how many of the card's content words (answer weighted over question) it contains.
+ * When the transcript's caption cues are passed (the source being their text joined in order),
+ * time spans carry the cue's real start time instead of an estimate. With the figures stored
+ * from the file, spans on a page, slide or section carry its first figure.
+ */
+export function createSourceLocator(
+  source: string,
+  opts?: { transcript?: boolean; cues?: Cue[] | null; figures?: SourceFigure[] | null }
+) {
+  const text = String(source || "");
+  const pages = markerOffsets(text, /\[Page\s+(\d+)\]/gi);
+  const slides = markerOffsets(text, /\[Slide\s+(\d+)\]/gi);
+  const sections = markerOffsets(text, /\[Section\s+(\d+)\]/gi);
+  const passages = splitPassages(text, [...pages, ...slides, ...sections].map((marker) => marker.offset));
+  const timeline = opts?.cues?.length ? cueTimeline(opts.cues) : null;
+  const figures = opts?.figures ?? [];
+  const withFigure = (span: SourceSpan, kind: SourceFigure["kind"], number: number): SourceSpan => {
+    const figure = figures.find((candidate) => candidate.kind === kind && candidate.number === number);
+    return figure ? { ...span, figure: { url: figure.url, ...(figure.alt ? { alt: figure.alt } : {}) } } : span;
+  };
+
+  return (card: { question: string; answer: string }): SourceSpan | null => {
+    const answerTokens = contentTokens(card.answer);
+    const questionTokens = contentTokens(stripCloze(card.question));
+    if (!answerTokens.size && !questionTokens.size) return null;
+
+    let best: Passage | null = null;
+    let bestScore = 0;
+    for (const passage of passages) {
+      const score = answerTokens.size
+        ? 0.65 * coverage(answerTokens, passage.tokens) + 0.35 * coverage(questionTokens, passage.tokens)
+        : coverage(questionTokens, passage.tokens);
+      if (score > bestScore) {
+        best = passage;
+        bestScore = score;
+      }
+    }
+    if (!best || bestScore < MIN_MATCH_SCORE) return null;
+
+    const excerpt = text
+      .slice(best.start, best.end)
+      .replace(/\[(?:Page|Slide|Section)\s+\d+\]/gi, " ")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, MAX_EXCERPT_CHARS);
+    const span: SourceSpan = { kind: "text", start: best.start, end: best.end, excerpt };
+
+    const page = markerAt(pages, best.start);
+    const slide = markerAt(slides, best.start);
+    const section = markerAt(sections, best.start);
+    if (page !== null) return withFigure({ ...span, kind: "page", page }, "page", page);
+    if (slide !== null) return withFigure({ ...span, kind: "slide", slide }, "slide", slide);
+    if (section !== null) return withFigure({ ...span, kind: "section", section }, "section", section);
+    if (opts?.transcript || timeline) {
+      const wordsBefore = text.slice(0, best.start).split(/\s+/).filter(Boolean).length;
+      if (timeline) {
+        // Captions are precise enough to start at the sentence itself rather than the passage.
+        const anchor = bestSentenceStart(text, best, answerTokens.size ? answerTokens : questionTokens);
+        const cueStart = startSecAt(timeline, text.slice(0, anchor).split(/\s+/).filter(Boolean).length);
+        if (cueStart !== null) return { ...span, kind: "time", startSec: cueStart };
+      }
+      return { ...span, kind: "time", startSec: Math.round((wordsBefore / SPOKEN_WORDS_PER_MINUTE) * 60), approximate: true };
+    }
+    return span;
+  };
+}
+
+/** Short human label for a citation: "Page 4", "Slide 7", "Section 2", "≈12:34" or "Source passage". */
+export function sourceSpanLabel(span: SourceSpan): string {
+  if (span.kind === "page" && span.page) return `Page ${span.page}`;
+  if (span.kind === "slide" && span.slide) return `Slide ${span.slide}`;
+  if (span.kind === "section" && span.section) return `Section ${span.section}`;
+  if (span.kind === "time" && typeof span.startSec === "number") {
+    return `${span.approximate ? "≈" : ""}${formatTimestamp(span.startSec)}`;
+  }
+  return "Source passage";
+}
+
+/**
+ * Deep link into the original when there is one: the PDF viewer's page anchor, a YouTube
+ * timestamp, or a text fragment that scrolls a web page to the passage.
+ */
+export function sourceSpanHref(span: SourceSpan, deck: DeckSource): string | null {
+  if (!deck.sourceUrl) return null;
+  const moment = videoMoment(span, deck);
+  if (moment) return moment.href;
+  let url: URL;
+  try {
+    url = new URL(deck.sourceUrl);
+  } catch {
+    return null;
+  }
+  if (span.kind === "page" && span.page && deck.sourceKind === "pdf") {
+    url.hash = `page=${span.page}`;
+    return url.toString();
+  }
+  if (span.kind === "time" && typeof span.startSec === "number") {
+    url.hash = `t=${Math.max(0, Math.floor(span.startSec))}`;
+    return url.toString();
+  }
+  if (deck.sourceKind === "url" && span.excerpt) {
+    const words = span.excerpt.split(/\s+/);
+    const fragment = words.length > 8
+      ? `${encodeURIComponent(words.slice(0, 4).join(" "))},${encodeURIComponent(words.slice(-4).join(" "))}`
+      : encodeURIComponent(span.excerpt);
+    return `${url.toString().replace(/#.*$/, "")}#:~:text=${fragment}`;
+  }
+  return url.toString();
+}
+
+export function videoMoment(span: SourceSpan | null, deck: DeckSource): VideoMoment | null {
+  if (!span || span.kind !== "time" || typeof span.startSec !== "number") return null;
+  if (deck.sourceKind !== "youtube" || !deck.sourceUrl) return null;
+  const parsed = parseYouTube(deck.sourceUrl);
+  if (!parsed.ok) return null;
+  const startSec = Math.max(0, Math.floor(span.startSec));
+  return {
+    videoId: parsed.videoId,
+    startSec,
+    label: sourceSpanLabel(span),
+    href: `https://www.youtube.com/watch?v=${parsed.videoId}&t=${startSec}s`,
+    embedUrl: `https://www.youtube-nocookie.com/embed/${parsed.videoId}?start=${startSec}&autoplay=1&rel=0`,
+  };
+}
+
+export function readSourceSpan(value: unknown): SourceSpan | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const span = value as Partial<SourceSpan>;
+  if (!span.kind || !["page", "slide", "section", "time", "text"].includes(span.kind)) return null;
+  if (typeof span.start !== "number" || typeof span.end !== "number" || typeof span.excerpt !== "string") return null;
+  return span as SourceSpan;
+}
+
+// Sentence-aligned passages of roughly PASSAGE_CHARS, overlapping by one sentence so a fact
+// that straddles a boundary is still found whole in one of them. Passages never cross a page,
+// slide or section marker, so every passage belongs to exactly one of them.
+function splitPassages(text: string, boundaries: number[]): Passage[] {
+  const edges = [...new Set([0, ...boundaries, text.length])].sort((a, b) => a - b);
+  const passages: Passage[] = [];
+  for (let segment = 0; segment + 1 < edges.length; segment += 1) {
+    const offset = edges[segment];
+    const sentences = [...text.slice(offset, edges[segment + 1]).matchAll(/[^.!?\n]+(?:[.!?]+|\n|$)/g)]
+      .map((match) => ({ start: offset + (match.index ?? 0), end: offset + (match.index ?? 0) + match[0].length }))
+      .filter((sentence) => sentence.end > sentence.start);
+    let first = 0;
+    while (first < sentences.length) {
+      let last = first;
+      while (last + 1 < sentences.length && sentences[last + 1].end - sentences[first].start <= PASSAGE_CHARS) last += 1;
+      const start = sentences[first].start;
+      const end = sentences[last].end;
+      passages.push({ start, end, tokens: contentTokens(text.slice(start, end)) });
+      first = last > first ? last : last + 1;
+    }
+  }
+  return passages;
+}
+
+function markerOffsets(text: string, pattern: RegExp): Marker[] {
+  return [...text.matchAll(pattern)].map((match) => ({ offset: match.index ?? 0, number: Number(match[1]) }));
+}
+
+function markerAt(markers: Marker[], offset: number): number | null {
+  let found: number | null = null;
+  for (const marker of markers) {
+    if (marker.offset > offset) break;
+    found = marker.number;
+  }
+  return found;
+}
+
+// Word position of each cue in the joined transcript. Joining and whitespace cleanup never
+// split or merge words, so a word index in the source maps straight onto the cue it came from.
+function cueTimeline(cues: Cue[]): TimedWord[] {
+  const timeline: TimedWord[] = [];
+  let wordOffset = 0;
+  for (const cue of cues) {
+    const words = String(cue.text || "").split(/\s+/).filter(Boolean).length;
+    if (!words) continue;
+    timeline.push({ wordOffset, startSec: Math.max(0, Math.floor(cue.startMs / 1000)) });
+    wordOffset += words;
+  }
+  return timeline;
+}
+
+function bestSentenceStart(text: string, passage: Passage, tokens: Set<string>): number {
+  let anchor = passage.start;
+  let bestScore = 0;
+  for (const match of text.slice(passage.start, passage.end).matchAll(/[^.!?\n]+(?:[.!?]+|\n|$)/g)) {
+    const score = coverage(tokens, contentTokens(match[0]));
+    if (score > bestScore) {
+      anchor = passage.start + (match.index ?? 0);
+      bestScore = score;
+    }
+  }
+  return anchor;
+}
+
+function startSecAt(timeline: TimedWord[], wordIndex: number): number | null {
+  let found: number | null = null;
+  for (const entry of timeline) {
+    if (entry.wordOffset > wordIndex) break;
+    found = entry.startSec;
+  }
+  return found;
+}
+
+function contentTokens(text: string): Set<string> {
+  return new Set(
+    String(text || "")
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, " ")
+      .split(/\s+/)
+      .filter((token) => token.length >= 3 && !STOPWORDS.has(token))
+  );
+}
+
+function coverage(needles: Set<string>, haystack: Set<string>): number {
+  if (!needles.size) return 0;
+  let hits = 0;
+  for (const token of needles) if (haystack.has(token)) hits += 1;
+  return hits / needles.size;
+}
@@ -0,0 +1,53 @@
+import { hasCloze } from "@/lib/cards/cloze";
+import type { SrsPhase } from "@/lib/srs/contracts";
+
+export const IMPORT_FORMATS = ["apkg", "csv", "tsv", "text"] as const;
+
+export type ImportFormat = (typeof IMPORT_FORMATS)[number];
+
+export const MAX_IMPORT_CARDS = 5000;
+export const MAX_IMPORT_BYTES = 50 * 1024 * 1024;
+
+// Matches the limits the card editor enforces.
+export const MAX_QUESTION_CHARS = 500;
+export const MAX_ANSWER_CHARS = 2000;
+
+export type ImportedScheduling = {
+  srsState: SrsPhase;
+  srsStep: number;
+  srsDueAt: Date;
+  srsEase: number;
+  srsIntervalDays: number;
+  srsReps: number;
+  srsLapses: number;
+  suspendedAt: Date | null;
+};
+
+export type ImportedCard = {
+  question: string;
+  answer: string;
+  tags: string[];
+  scheduling: ImportedScheduling | null;
+  // Set for the cards of an Anki cloze note; noteKey groups the deletions of one note.
+  cloze?: { index: number; noteKey: string } | null;
+};
+
+export type ImportedDeck = {
+  title: string | null;
+  cards: ImportedCard[];
+  warnings: string[];
+};
+
+export function isImportFormat(value: unknown): value is ImportFormat {
+  return typeof value === "string" && (IMPORT_FORMATS as readonly string[]).includes(value);
+}
+
+export function normalizeImportedCard(card: ImportedCard): ImportedCard | null {
+  const question = card.question.trim().slice(0, MAX_QUESTION_CHARS);
+  const answer = card.answer.trim().slice(0, MAX_ANSWER_CHARS);
+  // Cloze cards carry the note text in the question; the extra notes are optional.
+  if (!question || (!answer && !card.cloze && !hasCloze(question))) return null;
+
+  const tags = [...new Set(card.tags.map((tag) => tag.trim().toLowerCase().replace(/\s+/g, "-").slice(0, 40)).filter(Boolean))];
+  return { ...card, question, answer, tags: tags.slice(0, 20) };
+}
@@ -0,0 +1,188 @@
+import { hasCloze } from "@/lib/cards/cloze";
+import type { ImportedCard, ImportedDeck } from "@/lib/import/contracts";
+
+export const IMPORT_DELIMITERS = [",", "\t", ";", "|"] as const;
+
+export type ImportDelimiter = (typeof IMPORT_DELIMITERS)[number];
+
+export type ColumnMapping = {
+  question: number;
+  answer: number;
+  tags?: number | null;
+};
+
+export type DelimitedPreview = {
+  delimiter: ImportDelimiter;
+  hasHeader: boolean;
+  columns: string[];
+  rows: string[][];
+  suggestedMapping: ColumnMapping;
+};
+
+const PREVIEW_ROWS = 5;
+
+export function isImportDelimiter(value: unknown): value is ImportDelimiter {
+  return typeof value === "string" && (IMPORT_DELIMITERS as readonly string[]).includes(value);
+}
+
+/**
+ * Picks the delimiter that splits the first lines into the most consistent number of
+ * columns (at least two). Ties go to the order of IMPORT_DELIMITERS, so plain CSV wins
+ * over semicolons when both fit.
+ */
+export function detectDelimiter(text: string): ImportDelimiter {
+  const sample = text.split(/\r?\n/).filter((line) => line.trim()).slice(0, 20).join("\n");
+  let best: { delimiter: ImportDelimiter; score: number } = { delimiter: ",", score: -1 };
+
+  for (const delimiter of IMPORT_DELIMITERS) {
+    const widths = parseDelimitedRows(sample, delimiter).map((row) => row.length);
+    if (!widths.length) continue;
+    const width = mostCommon(widths);
+    if (width < 2) continue;
+    const score = widths.filter((value) => value === width).length / widths.length + width * 0.01;
+    if (score > best.score) best = { delimiter, score };
+  }
+  return best.delimiter;
+}
+
+/** RFC 4180 style parsing: quoted fields may contain the delimiter, quotes ("") and newlines. */
+export function parseDelimitedRows(text: string, delimiter: ImportDelimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') { field += '"'; index += 1; }
+      else if (char === '"') quoted = false;
+      else field += char;
+      continue;
+    }
+    if (char === '"' && !field) quoted = true;
+    else if (char === delimiter) { row.push(field); field = ""; }
+    else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      row.push(field); field = "";
+      if (row.some((value) => value.trim())) rows.push(row);
+      row = [];
+    } else field += char;
+  }
+  row.push(field);
+  if (row.some((value) => value.trim())) rows.push(row);
+  return rows;
+}
+
+export function previewDelimited(text: string, delimiter?: ImportDelimiter | null): DelimitedPreview {
+  const resolved = delimiter || detectDelimiter(text);
+  const rows = parseDelimitedRows(stripBom(text), resolved);
+  const hasHeader = looksLikeHeader(rows[0]);
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const columns = hasHeader
+    ? Array.from({ length: width }, (_, index) => rows[0][index]?.trim() || `Column ${index + 1}`)
+    : Array.from({ length: width }, (_, index) => `Column ${index + 1}`);
+
+  return {
+    delimiter: resolved,
+    hasHeader,
+    columns,
+    rows: rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + PREVIEW_ROWS),
+    suggestedMapping: suggestMapping(columns),
+  };
+}
+
+export function parseDelimitedDeck(
+  text: string,
+  options: { delimiter?: ImportDelimiter | null; hasHeader?: boolean | null; mapping?: ColumnMapping | null }
+): ImportedDeck {
+  const preview = previewDelimited(text, options.delimiter);
+  const hasHeader = options.hasHeader ?? preview.hasHeader;
+  const mapping = options.mapping || preview.suggestedMapping;
+  const rows = parseDelimitedRows(stripBom(text), preview.delimiter).slice(hasHeader ? 1 : 0);
+  const warnings: string[] = [];
+
+  const cards: ImportedCard[] = [];
+  rows.forEach((row, index) => {
+    const question = row[mapping.question]?.trim() || "";
+    const answer = row[mapping.answer]?.trim() || "";
+    if (!question || (!answer && !hasCloze(question))) {
+      warnings.push(`Row ${index + (hasHeader ? 2 : 1)} skipped: missing question or answer.`);
+      return;
+    }
+    const tags = mapping.tags != null ? (row[mapping.tags] || "").split(/[\s,;]+/).filter(Boolean) : [];
+    cards.push({ question, answer, tags, scheduling: null });
+  });
+
+  return { title: null, cards, warnings };
+}
+
+/**
+ * The "term<TAB>definition" format Quizlet and most flashcard sites export. Custom
+ * separators cover Quizlet's "between term and definition" / "between rows" options.
+ */
+export function parseTermDefinitionText(
+  text: string,
+  options: { termSeparator?: string | null; cardSeparator?: string | null } = {}
+): ImportedDeck {
+  const termSeparator = unescapeSeparator(options.termSeparator) || "\t";
+  const cardSeparator = unescapeSeparator(options.cardSeparator) || "\n";
+  const warnings: string[] = [];
+  const cards: ImportedCard[] = [];
+
+  stripBom(text)
+    .replace(/\r\n/g, "\n")
+    .split(cardSeparator)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry, index) => {
+      const at = entry.indexOf(termSeparator);
+      if (at <= 0) {
+        warnings.push(`Entry ${index + 1} skipped: no "${describeSeparator(termSeparator)}" between term and definition.`);
+        return;
+      }
+      cards.push({
+        question: entry.slice(0, at).trim(),
+        answer: entry.slice(at + termSeparator.length).trim(),
+        tags: [],
+        scheduling: null,
+      });
+    });
+
+  return { title: null, cards, warnings };
+}
+
+function suggestMapping(columns: string[]): ColumnMapping {
+  const find = (pattern: RegExp) => columns.findIndex((column) => pattern.test(column));
+  const question = find(/^(question|front|term|prompt|q)$/i);
+  const answer = find(/^(answer|back|definition|response|a)$/i);
+  const tags = find(/^tags?$/i);
+  return {
+    question: question >= 0 ? question : 0,
+    answer: answer >= 0 ? answer : question === 1 ? 0 : 1,
+    tags: tags >= 0 ? tags : null,
+  };
+}
+
+function looksLikeHeader(row: string[] | undefined): boolean {
+  if (!row) return false;
+  return row.some((value) => /^(question|answer|front|back|term|definition|tags?|prompt|response)$/i.test(value.trim()));
+}
+
+function mostCommon(values: number[]): number {
+  const counts = new Map<number, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+  return [...counts.entries()].sort((left, right) => right[1] - left[1] || right[0] - left[0])[0][0];
+}
+
+function unescapeSeparator(value: string | null | undefined): string {
+  return String(value || "").replace(/\\t/g, "\t").replace(/\\n/g, "\n");
+}
+
+function describeSeparator(value: string): string {
+  return value === "\t" ? "tab" : value === "\n" ? "new line" : value;
+}
+
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
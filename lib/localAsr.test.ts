@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { audioUrlError, transcribeAudioLocally } from "@/lib/localAsr";
+
+describe("audioUrlError", () => {
+  it("accepts http(s) URLs on public hosts", () => {
+    expect(audioUrlError("https://cdn.example.com/lecture.mp3")).toBeNull();
+    expect(audioUrlError("http://93.184.216.34/a.wav")).toBeNull();
+    expect(audioUrlError("https://[2606:4700::1111]/a.wav")).toBeNull();
+  });
+
+  it("rejects schemes ffmpeg would otherwise open", () => {
+    for (const url of ["file:///etc/passwd", "concat:/etc/passwd|/etc/hosts", "ftp://example.com/a.mp3", "/tmp/a.mp3"]) {
+      expect(audioUrlError(url)).not.toBeNull();
+    }
+  });
+
+  it("rejects loopback, private, link-local and mapped addresses", () => {
+    for (const url of [
+      "http://localhost:3000/a.mp3",
+      "http://api.localhost/a.mp3",
+      "http://127.0.0.1/a.mp3",
+      "http://10.1.2.3/a.mp3",
+      "http://172.20.0.1/a.mp3",
+      "http://192.168.1.1/a.mp3",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://0.0.0.0/a.mp3",
+      "http://[::1]/a.mp3",
+      "http://[fd00::1]/a.mp3",
+      "http://[fe80::1]/a.mp3",
+      "http://[::ffff:127.0.0.1]/a.mp3",
+    ]) {
+      expect(audioUrlError(url)).not.toBeNull();
+    }
+  });
+});
+
+describe("transcribeAudioLocally", () => {
+  it("refuses to fetch a private URL before queueing any work", async () => {
+    const result = await transcribeAudioLocally("http://127.0.0.1:9/a.mp3");
+    expect(result).toMatchObject({ ok: false, code: "HTTP_ERROR" });
+  });
+});
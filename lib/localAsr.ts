@@ -0,0 +1,269 @@
+import { spawn } from "child_process";
+import { lookup as dnsLookup } from "dns";
+import { mkdtemp, open, rm, writeFile } from "fs/promises";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Agent, fetch as undiciFetch } from "undici";
+import type { ASRResult } from "@/lib/asrClient";
+
+/** One timed piece of a transcript, in seconds, in the shape Whisper workers return. */
+export type AsrSegment = { start: number; end: number; text: string };
+
+type WhisperOutput = {
+  text: string;
+  chunks?: Array<{ timestamp: [number | null, number | null]; text: string; language?: string | null }>;
+};
+type WhisperTranscriber = (audio: Float32Array, options: Record<string, unknown>) => Promise<WhisperOutput>;
+
+const SAMPLE_RATE = 16_000;
+const FFMPEG_BIN = process.env.FFMPEG_PATH || "ffmpeg";
+// Multilingual by default so the detected language is meaningful; "*.en" models are faster for English-only use.
+const LOCAL_ASR_MODEL = process.env.LOCAL_ASR_MODEL || "Xenova/whisper-base";
+// Audio is decoded and transcribed one window at a time, so a lecture-length file never sits in
+// memory as a whole. Whisper itself still sees 30s chunks with overlap inside each window.
+const WINDOW_SECONDS = Math.max(30, Number(process.env.LOCAL_ASR_WINDOW_SECONDS || 300));
+// CPU transcription runs at a fraction of real time, far slower than the RunPod timeouts allow for.
+const LOCAL_ASR_TIMEOUT_MS = Number(process.env.LOCAL_ASR_TIMEOUT_MS || 30 * 60 * 1000);
+const MAX_DOWNLOAD_BYTES = Number(process.env.LOCAL_ASR_MAX_DOWNLOAD_BYTES || 500 * 1024 * 1024);
+const DOWNLOAD_TIMEOUT_MS = Number(process.env.LOCAL_ASR_DOWNLOAD_TIMEOUT_MS || 5 * 60 * 1000);
+const MAX_REDIRECTS = 5;
+
+// Loopback, private, link-local, CGNAT, multicast and reserved ranges: nothing a media URL from
+// a user should make this server connect to.
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16], ["172.16.0.0", 12],
+  ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) NON_PUBLIC.addSubnet(network, prefix, "ipv4");
+for (const [network, prefix] of [["::", 128], ["::1", 128], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]] as const) {
+  NON_PUBLIC.addSubnet(network, prefix, "ipv6");
+}
+
+// Checked again at connect time, so a hostname cannot resolve to a public address when validated
+// and a private one when fetched.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0);
+    const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (blocked) return callback(new Error(`${hostname} resolves to a non-public address`), "", 0);
+    if (options.all) return (callback as unknown as (err: null, all: typeof addresses) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+const downloadAgent = new Agent({ connect: { lookup: publicLookup } });
+
+let transcriberPromise: Promise<WhisperTranscriber> | null = null;
+// One transcription at a time: the model already uses every core, and parallel runs only add memory.
+let queue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Transcribes an audio or video file (an http(s) URL on a public host, or the file's bytes) with
+ * Whisper on the CPU through @xenova/transformers. Needs ffmpeg on the PATH (or FFMPEG_PATH); the
+ * model is downloaded on first use unless LOCAL_ASR_MODELS_DIR points at a local copy.
+ */
+export async function transcribeAudioLocally(input: string | Buffer, opts?: { language?: string }): Promise<ASRResult> {
+  // Written to disk rather than piped, since containers like MP4 need a seekable input. URLs are
+  // downloaded here rather than handed to ffmpeg, which would also open local paths, file:,
+  // concat: and HLS playlists pointing anywhere.
+  const tempDir = await mkdtemp(join(tmpdir(), "quickstud-asr-"));
+  const source = join(tempDir, "input");
+  try {
+    if (typeof input === "string") {
+      try {
+        await downloadAudio(input, source);
+      } catch (error: unknown) {
+        return { ok: false, code: "HTTP_ERROR", message: `Could not download the audio: ${error instanceof Error ? error.message : error}` };
+      }
+    } else {
+      await writeFile(source, input);
+    }
+    // Downloads happen outside the queue, so a slow host does not hold up other transcriptions.
+    const run = queue.then(() => transcribe(source, opts));
+    queue = run.catch(() => null);
+    return await run;
+  } finally {
+    await rm(tempDir, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
+
+/** Why an audio URL may not be fetched by this server, or null when it may. */
+export function audioUrlError(raw: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return "audioUrl must be an absolute http(s) URL";
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return "audioUrl must use http or https";
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (host === "localhost" || host.endsWith(".localhost") || (isIP(host) && !isPublicAddress(host))) {
+    return "audioUrl must point at a public host";
+  }
+  return null;
+}
+
+async function transcribe(source: string, opts?: { language?: string }): Promise<ASRResult> {
+  const deadline = Date.now() + LOCAL_ASR_TIMEOUT_MS;
+  try {
+    const transcriber = await loadTranscriber();
+    const multilingual = !/\.en$/i.test(LOCAL_ASR_MODEL);
+    const segments: AsrSegment[] = [];
+    const texts: string[] = [];
+    let detectedLanguage: string | undefined;
+    let offsetSeconds = 0;
+
+    for await (const samples of decodeWindows(source, WINDOW_SECONDS * SAMPLE_RATE)) {
+      if (Date.now() > deadline) {
+        return { ok: false, code: "TIMEOUT", message: `Local ASR exceeded ${Math.round(LOCAL_ASR_TIMEOUT_MS / 1000)}s` };
+      }
+      const windowSeconds = samples.length / SAMPLE_RATE;
+      const output = await transcriber(samples, {
+        chunk_length_s: 30,
+        stride_length_s: 5,
+        return_timestamps: true,
+        ...(multilingual && opts?.language ? { language: opts.language } : {}),
+      });
+      texts.push(output.text);
+      for (const chunk of output.chunks ?? []) {
+        detectedLanguage ??= chunk.language ?? undefined;
+        const text = chunk.text.trim();
+        if (!text) continue;
+        const [start, end] = chunk.timestamp;
+        segments.push({
+          start: round(offsetSeconds + (start ?? 0)),
+          end: round(offsetSeconds + (end ?? windowSeconds)),
+          text,
+        });
+      }
+      offsetSeconds += windowSeconds;
+    }
+
+    const transcript = texts.join(" ").replace(/\s+/g, " ").trim();
+    if (!transcript) {
+      return { ok: false, code: "BAD_OUTPUT", message: "Local ASR recognized no speech." };
+    }
+    return {
+      ok: true,
+      transcript,
+      segments,
+      detectedLanguage: detectedLanguage ?? (multilingual ? undefined : "english"),
+    };
+  } catch (error: unknown) {
+    return { ok: false, code: "EXCEPTION", message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Follows redirects by hand so every hop is checked, and stops at MAX_DOWNLOAD_BYTES.
+async function downloadAudio(raw: string, path: string): Promise<void> {
+  let url = raw;
+  for (let hop = 0; ; hop += 1) {
+    const invalid = audioUrlError(url);
+    if (invalid) throw new Error(invalid);
+    const res = await undiciFetch(url, {
+      dispatcher: downloadAgent,
+      redirect: "manual",
+      signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+    });
+    const location = res.headers.get("location");
+    if (res.status >= 300 && res.status < 400 && location) {
+      await res.body?.cancel();
+      if (hop >= MAX_REDIRECTS) throw new Error("too many redirects");
+      url = new URL(location, url).toString();
+      continue;
+    }
+    if (!res.ok || !res.body) throw new Error(`HTTP ${res.status}`);
+    if (Number(res.headers.get("content-length") || 0) > MAX_DOWNLOAD_BYTES) throw new Error("file is too large");
+
+    const file = await open(path, "w");
+    try {
+      let bytes = 0;
+      for await (const chunk of res.body) {
+        bytes += chunk.length;
+        if (bytes > MAX_DOWNLOAD_BYTES) throw new Error("file is too large");
+        await file.write(chunk);
+      }
+    } finally {
+      await file.close();
+    }
+    return;
+  }
+}
+
+function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 ("::ffff:127.0.0.1") is checked as the IPv4 address it carries.
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  if (mapped) return !NON_PUBLIC.check(mapped, "ipv4");
+  const family = isIP(address);
+  if (!family) return false;
+  return !NON_PUBLIC.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+async function loadTranscriber(): Promise<WhisperTranscriber> {
+  transcriberPromise ??= (async () => {
+    const { env, pipeline } = await import("@xenova/transformers");
+    if (process.env.LOCAL_ASR_CACHE_DIR) env.cacheDir = process.env.LOCAL_ASR_CACHE_DIR;
+    if (process.env.LOCAL_ASR_MODELS_DIR) {
+      // Offline installs: load only from the given directory, never from the Hugging Face Hub.
+      env.localModelPath = process.env.LOCAL_ASR_MODELS_DIR;
+      env.allowRemoteModels = false;
+    }
+    console.log("[ASR] Loading local Whisper model:", LOCAL_ASR_MODEL);
+    const transcriber = await pipeline("automatic-speech-recognition", LOCAL_ASR_MODEL, { quantized: true });
+    return transcriber as unknown as WhisperTranscriber;
+  })();
+  // A failed load (no network, bad model id) should be retried by the next request.
+  transcriberPromise.catch(() => {
+    transcriberPromise = null;
+  });
+  return transcriberPromise;
+}
+
+/** Decodes a local media file to 16 kHz mono float PCM, yielding `windowSamples` at a time. */
+async function* decodeWindows(input: string, windowSamples: number): AsyncGenerator<Float32Array> {
+  const proc = spawn(
+    FFMPEG_BIN,
+    ["-nostdin", "-loglevel", "error", "-protocol_whitelist", "file", "-i", input, "-vn", "-ac", "1", "-ar", String(SAMPLE_RATE), "-f", "f32le", "pipe:1"],
+    { stdio: ["ignore", "pipe", "pipe"] }
+  );
+  let stderr = "";
+  proc.stderr.on("data", (data) => {
+    stderr = (stderr + data.toString()).slice(-500);
+  });
+  const exited = new Promise<number | null>((resolve, reject) => {
+    proc.on("error", (err) => reject(new Error(`Could not spawn ffmpeg (${FFMPEG_BIN}): ${err.message}`)));
+    proc.on("close", resolve);
+  });
+  exited.catch(() => undefined);
+
+  const windowBytes = windowSamples * 4;
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+  const take = (bytes: number): Float32Array => {
+    const joined = Buffer.concat(pending, pendingBytes);
+    // Copy into a fresh, aligned buffer; the rest stays pending for the next window.
+    const samples = new Float32Array(bytes / 4);
+    new Uint8Array(samples.buffer).set(joined.subarray(0, bytes));
+    pending = pendingBytes > bytes ? [joined.subarray(bytes)] : [];
+    pendingBytes -= bytes;
+    return samples;
+  };
+
+  try {
+    for await (const chunk of proc.stdout) {
+      pending.push(chunk as Buffer);
+      pendingBytes += (chunk as Buffer).length;
+      while (pendingBytes >= windowBytes) yield take(windowBytes);
+    }
+    const code = await exited;
+    if (code !== 0) throw new Error(`ffmpeg failed with code ${code}. ${stderr.trim()}`);
+    const tail = pendingBytes - (pendingBytes % 4);
+    if (tail > 0) yield take(tail);
+  } finally {
+    if (proc.exitCode === null) proc.kill("SIGKILL");
+  }
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 100) / 100;
+}
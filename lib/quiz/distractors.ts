@@ -0,0 +1,97 @@
+import { cardFaces, clozeAnswers, isClozeCard, type CardFacesInput } from "@/lib/cards/cloze";
+
+// Four choices per question: the correct answer plus three distractors.
+export const QUIZ_DISTRACTOR_COUNT = 3;
+
+export type QuizCardInput = CardFacesInput & { id: string };
+
+export type DistractorCandidate = { text: string; score: number };
+
+/**
+ * What a multiple-choice question asks for. Basic cards use their answer; cloze cards
+ * use the hidden text of their deletion, so the choices are the fill-ins, not sentences.
+ */
+export function quizAnswer(card: CardFacesInput): string {
+  if (isClozeCard(card)) return clozeAnswers(card.question, card.clozeIndex as number).join(" … ");
+  return card.answer.trim();
+}
+
+export function quizPrompt(card: CardFacesInput): string {
+  return cardFaces(card).front;
+}
+
+export function sameChoice(left: string, right: string): boolean {
+  return normalizeChoice(left) === normalizeChoice(right);
+}
+
+/**
+ * Ranks the answers of other cards in the deck as distractors for `card`. Plausible
+ * distractors look like the right answer: similar length, same kind of card and some
+ * vocabulary shared with the prompt. Exact or near duplicates of the answer are dropped.
+ */
+export function rankDeckDistractors(card: QuizCardInput, pool: QuizCardInput[]): DistractorCandidate[] {
+  const answer = quizAnswer(card);
+  const promptTokens = tokenSet(`${quizPrompt(card)} ${answer}`);
+  const seen = new Set([normalizeChoice(answer)]);
+  const ranked: DistractorCandidate[] = [];
+
+  for (const other of pool) {
+    if (other.id === card.id) continue;
+    // Siblings of a cloze note reveal each other's text, so they make poor distractors.
+    if (isClozeCard(card) && isClozeCard(other) && other.question === card.question) continue;
+    const text = quizAnswer(other);
+    const key = normalizeChoice(text);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+
+    const lengthRatio = Math.min(text.length, answer.length) / Math.max(text.length, answer.length, 1);
+    const sameKind = isClozeCard(card) === isClozeCard(other) ? 1 : 0;
+    const overlap = jaccard(promptTokens, tokenSet(`${quizPrompt(other)} ${text}`));
+    ranked.push({ text, score: round3(lengthRatio * 0.45 + sameKind * 0.25 + overlap * 0.3) });
+  }
+
+  return ranked.sort((left, right) => right.score - left.score || left.text.localeCompare(right.text));
+}
+
+/** Keeps the first `count` distinct distractors that differ from the answer and from each other. */
+export function mergeDistractors(answer: string, lists: string[][], count = QUIZ_DISTRACTOR_COUNT): string[] {
+  const seen = new Set([normalizeChoice(answer)]);
+  const out: string[] = [];
+  for (const text of lists.flat()) {
+    const trimmed = text.trim();
+    const key = normalizeChoice(trimmed);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    out.push(trimmed);
+    if (out.length >= count) break;
+  }
+  return out;
+}
+
+export function shuffleChoices(answer: string, distractors: string[], random: () => number = Math.random): string[] {
+  const choices = [answer, ...distractors];
+  for (let index = choices.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(random() * (index + 1));
+    [choices[index], choices[swap]] = [choices[swap], choices[index]];
+  }
+  return choices;
+}
+
+function normalizeChoice(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function tokenSet(value: string): Set<string> {
+  return new Set(normalizeChoice(value).split(" ").filter((token) => token.length >= 4));
+}
+
+function jaccard(left: Set<string>, right: Set<string>): number {
+  if (!left.size || !right.size) return 0;
+  let shared = 0;
+  for (const token of left) if (right.has(token)) shared += 1;
+  return shared / (left.size + right.size - shared);
+}
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { clozeNoteCards } from "@/lib/cards/cloze";
+import {
+  assembleExam,
+  examReport,
+  gradeExamQuestion,
+  type ExamCardInput,
+  type ExamQuestion,
+  type ExamQuestionResult,
+} from "@/lib/quiz/exam";
+
+// Makes shuffle() swap nothing, so cards are picked in input order.
+const keepOrder = () => 0.999999;
+
+function seeded(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1_103_515_245 + 12_345) % 2 ** 31;
+    return state / 2 ** 31;
+  };
+}
+
+function basic(id: string, question: string, answer: string, deckId = "deck-a"): ExamCardInput {
+  return { id, deckId, question, answer };
+}
+
+const BASICS = [
+  basic("b1", "Capital of France?", "Paris"),
+  basic("b2", "Capital of Italy?", "Rome"),
+  basic("b3", "Capital of Spain?", "Madrid"),
+  basic("b4", "Capital of Portugal?", "Lisbon"),
+];
+
+function clozeNote(prefix: string, text: string, noteId: string): ExamCardInput[] {
+  return clozeNoteCards(text, "", noteId).map((card, index) => ({ ...card, id: `${prefix}${index + 1}`, deckId: "deck-a" }));
+}
+
+describe("assembleExam", () => {
+  it("picks the same questions for the same random source", () => {
+    const cards = [...BASICS, basic("b5", "Capital of Greece?", "Athens"), basic("b6", "Capital of Malta?", "Valletta")];
+    const first = assembleExam(cards, 4, seeded(7));
+    const second = assembleExam(cards, 4, seeded(7));
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(4);
+    expect(first.map((question) => question.id)).toEqual(["q1", "q2", "q3", "q4"]);
+  });
+
+  it("asks at most one cloze question per note", () => {
+    const note = clozeNote("c", "{{c1::Mitochondria}} make {{c2::ATP}} from {{c3::glucose}}.", "note-1");
+    const exam = assembleExam([...note, basic("b1", "Powerhouse of the cell?", "Mitochondria")], 10, keepOrder);
+    const cloze = exam.filter((question) => question.type === "cloze");
+    expect(cloze).toHaveLength(1);
+    expect(cloze[0]).toMatchObject({ cardId: "c1", choices: null, answer: "Mitochondria" });
+    expect(exam).toHaveLength(2);
+  });
+
+  it("alternates basic cards between multiple choice and typed answers", () => {
+    const exam = assembleExam(BASICS, 4, keepOrder);
+    expect(exam.map((question) => question.type)).toEqual(["mcq", "typed", "mcq", "typed"]);
+    const mcq = exam[0];
+    expect(mcq.choices).toContain(mcq.answer);
+    expect(new Set(mcq.choices).size).toBe(mcq.choices!.length);
+  });
+
+  it("falls back to a typed question when there are too few distractors", () => {
+    const exam = assembleExam([basic("b1", "Capital of France?", "Paris"), basic("b2", "Capital of Italy?", "Paris")], 2, keepOrder);
+    expect(exam[0]).toMatchObject({ type: "typed", choices: null });
+  });
+
+  it("uses a card's cached distractors when the deck has none", () => {
+    const card = { ...basic("b1", "Capital of France?", "Paris"), distractors: ["Lyon", "Marseille", "Nice"] };
+    const [question] = assembleExam([card], 1, keepOrder);
+    expect(question.type).toBe("mcq");
+    expect([...question.choices!].sort()).toEqual(["Lyon", "Marseille", "Nice", "Paris"]);
+  });
+
+  it("skips cards without an answer and stops at the requested count", () => {
+    const exam = assembleExam([basic("blank", "Empty?", "  "), ...BASICS], 2, keepOrder);
+    expect(exam.map((question) => question.cardId)).toEqual(["b1", "b2"]);
+  });
+});
+
+describe("gradeExamQuestion", () => {
+  const engine = (confidence: number) => ({ verify: async () => ({ confidence }) }) as never;
+  const mcq: ExamQuestion = { id: "q1", cardId: "b1", deckId: "deck-a", type: "mcq", prompt: "Capital of France?", choices: ["Paris", "Rome"], answer: "Paris" };
+  const typed: ExamQuestion = { ...mcq, id: "q2", type: "typed", choices: null, answer: "the light reactions" };
+
+  it("grades multiple choice all or nothing", async () => {
+    expect(await gradeExamQuestion(mcq, " paris ", engine(0))).toMatchObject({ grade: "correct", credit: 1, diff: null });
+    expect(await gradeExamQuestion(mcq, "Rome", engine(1))).toMatchObject({ grade: "wrong", credit: 0 });
+  });
+
+  it("scores a blank response as unanswered", async () => {
+    expect(await gradeExamQuestion(typed, "   ", engine(1))).toMatchObject({ grade: "unanswered", credit: 0, response: "" });
+  });
+
+  it("gives typed answers half credit when partially correct, with a diff", async () => {
+    const result = await gradeExamQuestion(typed, "light reactions", engine(0.6));
+    expect(result).toMatchObject({ grade: "partial", credit: 0.5, expectedAnswer: "the light reactions" });
+    expect(result.diff).toEqual([
+      { text: "the", kind: "missing" },
+      { text: "light reactions", kind: "same" },
+    ]);
+  });
+});
+
+describe("examReport", () => {
+  const result = (type: ExamQuestionResult["type"], deckId: string, grade: ExamQuestionResult["grade"], credit: number): ExamQuestionResult => ({
+    questionId: `${type}-${deckId}-${grade}`,
+    cardId: "card",
+    deckId,
+    type,
+    prompt: "prompt",
+    response: grade === "unanswered" ? "" : "response",
+    expectedAnswer: "answer",
+    grade,
+    credit,
+    diff: null,
+  });
+
+  it("totals credit overall, by question type and by deck", () => {
+    const report = examReport([
+      result("mcq", "deck-a", "correct", 1),
+      result("typed", "deck-a", "partial", 0.5),
+      result("typed", "deck-b", "wrong", 0),
+      result("cloze", "deck-b", "unanswered", 0),
+    ]);
+    expect(report).toMatchObject({ score: 0.375, earned: 1.5, total: 4 });
+    expect(report.counts).toEqual({ correct: 1, partial: 1, wrong: 1, unanswered: 1 });
+    expect(report.byType).toEqual([
+      { type: "mcq", count: 1, score: 1 },
+      { type: "typed", count: 2, score: 0.25 },
+      { type: "cloze", count: 1, score: 0 },
+    ]);
+    expect(report.byDeck).toEqual([
+      { deckId: "deck-a", count: 2, score: 0.75 },
+      { deckId: "deck-b", count: 2, score: 0 },
+    ]);
+  });
+
+  it("scores an empty exam as zero", () => {
+    expect(examReport([])).toMatchObject({ score: 0, earned: 0, total: 0, byType: [], byDeck: [] });
+  });
+});
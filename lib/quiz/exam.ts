@@ -0,0 +1,205 @@
+import { isClozeCard } from "@/lib/cards/cloze";
+import {
+  mergeDistractors,
+  quizAnswer,
+  quizPrompt,
+  rankDeckDistractors,
+  sameChoice,
+  shuffleChoices,
+  type QuizCardInput,
+} from "@/lib/quiz/distractors";
+import { diffAnswer, gradeTypedAnswer, type AnswerDiffSegment, type TypedAnswerGrade } from "@/lib/quiz/typedAnswer";
+import type { ReasoningEngine } from "@/lib/reasoningEngine/engine";
+
+export type ExamQuestionType = "mcq" | "typed" | "cloze";
+
+export const EXAM_LIMITS = {
+  minQuestions: 5,
+  maxQuestions: 50,
+  defaultQuestions: 20,
+  minMinutes: 2,
+  maxMinutes: 180,
+} as const;
+
+// Default time budget per question when the student does not pick a time limit.
+export const EXAM_SECONDS_PER_QUESTION = 60;
+
+// Answers longer than this are hard to reproduce word for word, so they become multiple choice.
+const MAX_TYPED_ANSWER_CHARS = 160;
+const MIN_EXAM_DISTRACTORS = 2;
+const MIN_DECK_SCORE = 0.35;
+
+export type ExamCardInput = QuizCardInput & {
+  deckId: string;
+  noteId?: string | null;
+  distractors?: string[];
+};
+
+export type ExamQuestion = {
+  id: string;
+  cardId: string;
+  deckId: string;
+  type: ExamQuestionType;
+  prompt: string;
+  choices: string[] | null;
+  answer: string;
+};
+
+export type PublicExamQuestion = Omit<ExamQuestion, "answer">;
+
+export type ExamQuestionGrade = TypedAnswerGrade | "unanswered";
+
+export type ExamQuestionResult = {
+  questionId: string;
+  cardId: string;
+  deckId: string;
+  type: ExamQuestionType;
+  prompt: string;
+  response: string;
+  expectedAnswer: string;
+  grade: ExamQuestionGrade;
+  credit: number;
+  diff: AnswerDiffSegment[] | null;
+};
+
+export type ExamReport = {
+  score: number;
+  earned: number;
+  total: number;
+  counts: Record<ExamQuestionGrade, number>;
+  byType: { type: ExamQuestionType; count: number; score: number }[];
+  byDeck: { deckId: string; count: number; score: number }[];
+};
+
+/**
+ * Picks `count` cards at random and turns each into a question. Cloze cards become fill-in
+ * questions, at most one per note; basic cards alternate between multiple choice and typed
+ * answers, with long answers always asked as multiple choice. A basic card only becomes
+ * multiple choice when the pool (or its cached distractors) offers enough wrong options.
+ */
+export function assembleExam(cards: ExamCardInput[], count: number, random: () => number = Math.random): ExamQuestion[] {
+  const usedNotes = new Set<string>();
+  const picked: ExamCardInput[] = [];
+  for (const card of shuffle(cards, random)) {
+    if (picked.length >= count) break;
+    if (card.noteId) {
+      if (usedNotes.has(card.noteId)) continue;
+      usedNotes.add(card.noteId);
+    }
+    if (!quizAnswer(card)) continue;
+    picked.push(card);
+  }
+
+  let basicCount = 0;
+  return picked.map((card, index) => {
+    const id = `q${index + 1}`;
+    const prompt = quizPrompt(card);
+    const answer = quizAnswer(card);
+    const base = { id, cardId: card.id, deckId: card.deckId, prompt, answer };
+    if (isClozeCard(card)) return { ...base, type: "cloze" as const, choices: null };
+
+    const wantsChoices = answer.length > MAX_TYPED_ANSWER_CHARS || basicCount % 2 === 0;
+    basicCount += 1;
+    if (wantsChoices) {
+      const ranked = rankDeckDistractors(card, cards);
+      const distractors = mergeDistractors(answer, [
+        card.distractors ?? [],
+        ranked.filter((candidate) => candidate.score >= MIN_DECK_SCORE).map((candidate) => candidate.text),
+        ranked.map((candidate) => candidate.text),
+      ]);
+      if (distractors.length >= MIN_EXAM_DISTRACTORS) {
+        return { ...base, type: "mcq" as const, choices: shuffleChoices(answer, distractors, random) };
+      }
+    }
+    return { ...base, type: "typed" as const, choices: null };
+  });
+}
+
+export function publicExamQuestions(questions: ExamQuestion[]): PublicExamQuestion[] {
+  return questions.map((question) => ({
+    id: question.id,
+    cardId: question.cardId,
+    deckId: question.deckId,
+    type: question.type,
+    prompt: question.prompt,
+    choices: question.choices,
+  }));
+}
+
+/**
+ * Grades one answer. Multiple choice is all or nothing; typed and cloze answers go through
+ * the reasoning engine's verification and earn half credit when partially correct.
+ */
+export async function gradeExamQuestion(
+  question: ExamQuestion,
+  response: string,
+  engine: Pick<ReasoningEngine, "verify">
+): Promise<ExamQuestionResult> {
+  const trimmed = response.trim();
+  const base = {
+    questionId: question.id,
+    cardId: question.cardId,
+    deckId: question.deckId,
+    type: question.type,
+    prompt: question.prompt,
+    response: trimmed,
+    expectedAnswer: question.answer,
+  };
+  if (!trimmed) return { ...base, grade: "unanswered", credit: 0, diff: null };
+
+  if (question.type === "mcq") {
+    const grade = sameChoice(trimmed, question.answer) ? "correct" : "wrong";
+    return { ...base, grade, credit: grade === "correct" ? 1 : 0, diff: null };
+  }
+
+  const verification = await engine.verify({ prompt: question.prompt, answer: trimmed, expectedAnswer: question.answer });
+  const grade = gradeTypedAnswer(verification.confidence, trimmed, question.answer);
+  return { ...base, grade, credit: creditForGrade(grade), diff: diffAnswer(trimmed, question.answer) };
+}
+
+export function creditForGrade(grade: ExamQuestionGrade): number {
+  return grade === "correct" ? 1 : grade === "partial" ? 0.5 : 0;
+}
+
+export function examReport(results: ExamQuestionResult[]): ExamReport {
+  const counts: Record<ExamQuestionGrade, number> = { correct: 0, partial: 0, wrong: 0, unanswered: 0 };
+  const byType = new Map<ExamQuestionType, { count: number; earned: number }>();
+  const byDeck = new Map<string, { count: number; earned: number }>();
+  let earned = 0;
+
+  for (const result of results) {
+    counts[result.grade] += 1;
+    earned += result.credit;
+    tally(byType, result.type, result.credit);
+    tally(byDeck, result.deckId, result.credit);
+  }
+
+  return {
+    score: ratio(earned, results.length),
+    earned,
+    total: results.length,
+    counts,
+    byType: [...byType.entries()].map(([type, entry]) => ({ type, count: entry.count, score: ratio(entry.earned, entry.count) })),
+    byDeck: [...byDeck.entries()].map(([deckId, entry]) => ({ deckId, count: entry.count, score: ratio(entry.earned, entry.count) })),
+  };
+}
+
+function tally<K>(map: Map<K, { count: number; earned: number }>, key: K, credit: number) {
+  const entry = map.get(key) ?? { count: 0, earned: 0 };
+  entry.count += 1;
+  entry.earned += credit;
+  map.set(key, entry);
+}
+
+function ratio(earned: number, count: number): number {
+  return count ? Math.round((earned / count) * 1000) / 1000 : 0;
+}
+
+function shuffle<T>(values: T[], random: () => number): T[] {
+  const out = [...values];
+  for (let index = out.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(random() * (index + 1));
+    [out[index], out[swap]] = [out[swap], out[index]];
+  }
+  return out;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { diffAnswer, gradeTypedAnswer, ratingForGrade } from "@/lib/quiz/typedAnswer";
+
+describe("diffAnswer", () => {
+  it("marks typed-only words extra and expected-only words missing around the common words", () => {
+    expect(diffAnswer("the mitochondria make energy", "The mitochondria produce energy")).toEqual([
+      { text: "The mitochondria", kind: "same" },
+      { text: "make", kind: "extra" },
+      { text: "produce", kind: "missing" },
+      { text: "energy", kind: "same" },
+    ]);
+  });
+
+  it("ignores case and punctuation and keeps the expected spelling for matched words", () => {
+    expect(diffAnswer("paris, france!", "Paris France")).toEqual([{ text: "Paris France", kind: "same" }]);
+  });
+
+  it("reports an empty answer as entirely missing and an unrelated one as extra plus missing", () => {
+    expect(diffAnswer("", "adenosine triphosphate")).toEqual([{ text: "adenosine triphosphate", kind: "missing" }]);
+    expect(diffAnswer("glucose", "ATP")).toEqual([
+      { text: "glucose", kind: "extra" },
+      { text: "ATP", kind: "missing" },
+    ]);
+  });
+
+  it("keeps the longest common subsequence when words are reordered", () => {
+    const segments = diffAnswer("b a c", "a b c");
+    const same = segments.filter((segment) => segment.kind === "same").map((segment) => segment.text).join(" ");
+    expect(same.split(" ")).toHaveLength(2);
+    expect(segments[segments.length - 1]).toEqual({ text: "c", kind: "same" });
+  });
+});
+
+describe("gradeTypedAnswer", () => {
+  it("grades by verification confidence", () => {
+    expect(gradeTypedAnswer(0.9, "made in the nucleus", "ribosomes")).toBe("correct");
+    expect(gradeTypedAnswer(0.75, "made in the nucleus", "ribosomes")).toBe("correct");
+    expect(gradeTypedAnswer(0.6, "made in the nucleus", "ribosomes")).toBe("partial");
+    expect(gradeTypedAnswer(0.5, "made in the nucleus", "ribosomes")).toBe("partial");
+    expect(gradeTypedAnswer(0.35, "made in the nucleus", "ribosomes")).toBe("wrong");
+  });
+
+  it("counts a word-for-word match as correct whatever the confidence", () => {
+    expect(gradeTypedAnswer(0.35, "H2O.", "h2o")).toBe("correct");
+    expect(gradeTypedAnswer(0, "", "")).toBe("wrong");
+  });
+});
+
+describe("ratingForGrade", () => {
+  it("suggests good, hard or again", () => {
+    expect(ratingForGrade("correct")).toBe("good");
+    expect(ratingForGrade("partial")).toBe("hard");
+    expect(ratingForGrade("wrong")).toBe("again");
+  });
+});
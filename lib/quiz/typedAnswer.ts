@@ -0,0 +1,79 @@
+import type { ReviewRating } from "@/lib/srs/contracts";
+
+export type TypedAnswerGrade = "correct" | "partial" | "wrong";
+
+export type AnswerDiffSegment = { text: string; kind: "same" | "missing" | "extra" };
+
+// Verification confidence at or above these marks counts as correct / partially correct.
+// The engine reports 0.35 for an answer with no overlap, so "wrong" covers anything close to that.
+const CORRECT_CONFIDENCE = 0.75;
+const PARTIAL_CONFIDENCE = 0.5;
+
+// The word diff is quadratic, so very long answers are only compared up to this many words.
+const MAX_DIFF_WORDS = 200;
+
+/**
+ * Maps a verification result to a grade. An answer that matches the expected text word for
+ * word is always correct, even when it is too short for the engine's token overlap to see it.
+ */
+export function gradeTypedAnswer(confidence: number, typed: string, expected: string): TypedAnswerGrade {
+  if (diffKey(typed) && diffKey(typed) === diffKey(expected)) return "correct";
+  if (confidence >= CORRECT_CONFIDENCE) return "correct";
+  if (confidence >= PARTIAL_CONFIDENCE) return "partial";
+  return "wrong";
+}
+
+/** The review rating a grade suggests; the learner can still pick another one before saving. */
+export function ratingForGrade(grade: TypedAnswerGrade): ReviewRating {
+  return grade === "correct" ? "good" : grade === "partial" ? "hard" : "again";
+}
+
+/**
+ * Word-level diff of a typed answer against the expected one. "missing" words appear only in
+ * the expected answer, "extra" words only in the typed one; case and punctuation are ignored
+ * when matching, and the expected answer's spelling is kept for matched words.
+ */
+export function diffAnswer(typed: string, expected: string): AnswerDiffSegment[] {
+  const typedWords = splitWords(typed);
+  const expectedWords = splitWords(expected);
+  const left = typedWords.slice(0, MAX_DIFF_WORDS);
+  const right = expectedWords.slice(0, MAX_DIFF_WORDS);
+  const leftKeys = left.map(diffKey);
+  const rightKeys = right.map(diffKey);
+
+  // lengths[i][j] = longest common subsequence of left[i..] and right[j..]
+  const lengths = Array.from({ length: left.length + 1 }, () => new Array<number>(right.length + 1).fill(0));
+  for (let i = left.length - 1; i >= 0; i -= 1) {
+    for (let j = right.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] = leftKeys[i] === rightKeys[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: AnswerDiffSegment[] = [];
+  const push = (text: string, kind: AnswerDiffSegment["kind"]) => {
+    const last = segments[segments.length - 1];
+    if (last?.kind === kind) last.text = `${last.text} ${text}`;
+    else segments.push({ text, kind });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (leftKeys[i] === rightKeys[j]) { push(right[j], "same"); i += 1; j += 1; }
+    else if (lengths[i + 1][j] >= lengths[i][j + 1]) { push(left[i], "extra"); i += 1; }
+    else { push(right[j], "missing"); j += 1; }
+  }
+  for (; i < typedWords.length; i += 1) push(typedWords[i], "extra");
+  for (; j < expectedWords.length; j += 1) push(expectedWords[j], "missing");
+  return segments;
+}
+
+function splitWords(value: string): string[] {
+  return value.split(/\s+/).filter(Boolean);
+}
+
+function diffKey(value: string): string {
+  return value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
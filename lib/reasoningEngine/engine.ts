@@ -48,6 +48,8 @@ export type VerifyInput = {
   prompt: string;
   answer: string;
   expectedAnswer?: string;
+  // The passage the card was generated from, when the card cites one.
+  sourcePassage?: string;
 };
 
 export type CompareExplanationsInput = {
@@ -137,13 +139,25 @@ class QuickStudReasoningEngine implements ReasoningEngine {
   async verify(input: VerifyInput): Promise<ReasoningResponse> {
     const answer = normalizeText(input.answer);
     const expected = normalizeText(input.expectedAnswer || "");
+    const passage = normalizeText(input.sourcePassage || "");
     const overlap = expected ? tokenOverlap(answer, expected) : 0;
-    const confidence = expected ? clampUnit(0.35 + overlap * 0.65) : clampUnit(0.25 + lexicalCompleteness(answer) * 0.5);
-    const verdict = expected
+    const grounding = passage ? tokenOverlap(answer, passage) : 0;
+    // The expected answer stays the reference; the cited passage only stands in when there is none.
+    const confidence = expected
+      ? clampUnit(0.35 + overlap * 0.65)
+      : passage
+        ? clampUnit(0.25 + grounding * 0.6)
+        : clampUnit(0.25 + lexicalCompleteness(answer) * 0.5);
+    const baseVerdict = expected
       ? overlap >= 0.65
         ? "Answer is broadly consistent with the expected answer."
         : "Answer likely needs revision against the expected answer."
-      : "Verification ran without an expected answer; confidence is based on answer completeness only.";
+      : passage
+        ? "Verification ran against the cited source passage because there is no expected answer."
+        : "Verification ran without an expected answer; confidence is based on answer completeness only.";
+    const verdict = passage
+      ? `${baseVerdict} ${grounding >= 0.5 ? "The cited source passage supports it." : "The cited source passage does not clearly support it."}`
+      : baseVerdict;
 
     return createReasoningResponse({
       final_answer: verdict,
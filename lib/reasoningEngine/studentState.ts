@@ -9,7 +9,7 @@ import {
 
 type UpdateStudentStateFromVerificationInput = {
   userId: string;
-  mode: "verify_answer" | "compare_explanations";
+  mode: "verify_answer" | "compare_explanations" | "quiz_answer";
   prompt: string;
   response: ReasoningResponse;
   answer?: string;
@@ -114,6 +114,43 @@ export async function updateStudentStateFromVerification(input: UpdateStudentSta
   });
 }
 
+/**
+ * Folds an exam's outcome into the student state: concepts from missed questions become weak
+ * concepts, and concepts that were only ever answered correctly stop being weak. Returns the
+ * concepts the exam flagged so the attempt can show them in its report.
+ */
+export async function updateStudentStateFromExam(input: { userId: string; missedPrompts: string[]; passedPrompts: string[] }) {
+  const existing = await prisma.studentState.findUnique({ where: { userId: input.userId } });
+  const current = decodeStudentState(existing);
+  const missedConcepts = uniqueLimited(input.missedPrompts.flatMap(extractConcepts), 12);
+  const passedConcepts = input.passedPrompts.flatMap(extractConcepts).filter((concept) => !missedConcepts.includes(concept));
+
+  const weakConcepts = uniqueLimited(
+    [...missedConcepts, ...current.weakConcepts.filter((concept) => !passedConcepts.includes(concept))],
+    12
+  );
+  const recentFailures = uniqueLimited([...input.missedPrompts.map(summarizePrompt), ...current.recentFailures], 8);
+  const recentSuccesses = uniqueLimited([...input.passedPrompts.map(summarizePrompt), ...current.recentSuccesses], 8);
+
+  await prisma.studentState.upsert({
+    where: { userId: input.userId },
+    create: {
+      userId: input.userId,
+      weakConcepts: weakConcepts as Prisma.InputJsonValue,
+      recentFailures: recentFailures as Prisma.InputJsonValue,
+      recentSuccesses: recentSuccesses as Prisma.InputJsonValue,
+    },
+    update: {
+      weakConcepts: weakConcepts as Prisma.InputJsonValue,
+      recentFailures: recentFailures as Prisma.InputJsonValue,
+      recentSuccesses: recentSuccesses as Prisma.InputJsonValue,
+    },
+    select: { id: true },
+  });
+
+  return missedConcepts;
+}
+
 export function formatStudentState(state: StudentState | null) {
   const decoded = decodeStudentState(state);
   return {
@@ -173,6 +210,10 @@ function inferMisconceptionPattern(input: UpdateStudentStateFromVerificationInpu
   if (input.mode === "compare_explanations") {
     return input.response.confidence < 0.5 ? "CONCEPTUAL_CONFUSION" : null;
   }
+  // Picking a plausible distractor means two related ideas are being mixed up.
+  if (input.mode === "quiz_answer") {
+    return input.response.confidence < 0.5 ? "CONCEPTUAL_CONFUSION" : null;
+  }
 
   const answer = normalizeText(input.answer || "");
   const expected = normalizeText(input.expectedAnswer || "");
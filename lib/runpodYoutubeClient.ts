@@ -3,7 +3,8 @@
 export type RunpodYoutubeFailureReason = "NOT_CONFIGURED" | "HTTP_ERROR" | "TIMEOUT" | "EMPTY_OUTPUT" | "EXCEPTION";
 
 export type RunpodYoutubeResult =
-  | { ok: true; transcript: string; id?: string; raw?: unknown }
+  // `language` is the one the worker reports detecting, else the one it was asked to transcribe in.
+  | { ok: true; transcript: string; language: string; id?: string; raw?: unknown }
   | {
       ok: false;
       reason: RunpodYoutubeFailureReason;
@@ -101,6 +102,15 @@ function extractTranscriptFromRunpodOutput(output: any): string | null {
   return null;
 }
 
+function extractLanguageFromRunpodOutput(output: any): string | null {
+  const root = Array.isArray(output) ? output?.[0] : output;
+  const candidates = [root?.detected_language, root?.detectedLanguage, root?.language, root?.lang, root?.result?.language];
+  for (const c of candidates) {
+    if (typeof c === "string" && c.trim()) return c.trim();
+  }
+  return null;
+}
+
 export async function transcribeYoutubeUrlWithRunpod(
   youtubeUrl: string,
   options?: { timeoutMs?: number; pollMs?: number; language?: string }
@@ -212,7 +222,7 @@ export async function transcribeYoutubeUrlWithRunpod(
         const out = (raw as any)?.output ?? (raw as any)?.outputs ?? (raw as any);
         const transcript = extractTranscriptFromRunpodOutput(out);
         if (transcript) {
-          return { ok: true, transcript, id: jobId, raw: out };
+          return { ok: true, transcript, language: extractLanguageFromRunpodOutput(out) ?? language, id: jobId, raw: out };
         }
         return {
           ok: false,
@@ -277,7 +287,13 @@ export async function transcribeYoutubeUrlWithRunpod(
       const out = (raw as any)?.output ?? (raw as any)?.outputs ?? (raw as any);
       const transcript = extractTranscriptFromRunpodOutput(out);
       if (transcript) {
-        return { ok: true, transcript, id: (raw as any)?.id ?? (raw as any)?.jobId ?? undefined, raw: out };
+        return {
+          ok: true,
+          transcript,
+          language: extractLanguageFromRunpodOutput(out) ?? language,
+          id: (raw as any)?.id ?? (raw as any)?.jobId ?? undefined,
+          raw: out,
+        };
       }
 
       // Some workers might return { status: "IN_QUEUE" } even on runsync-style endpoints.
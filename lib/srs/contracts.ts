@@ -0,0 +1,70 @@
+export const REVIEW_RATINGS = ["again", "hard", "good", "easy"] as const;
+
+export type ReviewRating = (typeof REVIEW_RATINGS)[number];
+
+export const REVIEW_XP: Record<ReviewRating, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 5,
+};
+
+export const SCHEDULER_IDS = ["sm2", "fsrs"] as const;
+
+export type SchedulerId = (typeof SCHEDULER_IDS)[number];
+
+export const SRS_PHASES = ["new", "learning", "review", "relearning"] as const;
+
+export type SrsPhase = (typeof SRS_PHASES)[number];
+
+// Learning and relearning steps are minutes apart, so cards due within this window join the current session.
+export const LEARN_AHEAD_MINUTES = 20;
+
+export type CardSchedulingState = {
+  phase: SrsPhase;
+  step: number;
+  ease: number;
+  reps: number;
+  intervalDays: number;
+  lapses: number;
+  lastReviewedAt: Date | null;
+  stability: number | null;
+  difficulty: number | null;
+};
+
+export type SchedulingOutcome = {
+  phase: SrsPhase;
+  step: number;
+  ease: number;
+  reps: number;
+  intervalDays: number;
+  minutes: number;
+  lapse: boolean;
+  stability: number | null;
+  difficulty: number | null;
+  retrievability: number | null;
+};
+
+export interface ReviewScheduler {
+  readonly id: SchedulerId;
+  schedule(state: CardSchedulingState, rating: ReviewRating, now: Date): SchedulingOutcome;
+}
+
+export function isReviewRating(value: unknown): value is ReviewRating {
+  return typeof value === "string" && (REVIEW_RATINGS as readonly string[]).includes(value);
+}
+
+export function isSchedulerId(value: unknown): value is SchedulerId {
+  return typeof value === "string" && (SCHEDULER_IDS as readonly string[]).includes(value);
+}
+
+export function isSrsPhase(value: unknown): value is SrsPhase {
+  return typeof value === "string" && (SRS_PHASES as readonly string[]).includes(value);
+}
+
+export function computeNextDue(now: Date, outcome: Pick<SchedulingOutcome, "intervalDays" | "minutes">): Date {
+  const nextDue = new Date(now);
+  if (outcome.minutes && outcome.minutes > 0) nextDue.setMinutes(nextDue.getMinutes() + outcome.minutes);
+  else nextDue.setDate(nextDue.getDate() + outcome.intervalDays);
+  return nextDue;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { buildDailyQueue, normalizeDailyLimit, type QueueCandidate } from "@/lib/srs/dailyQueue";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+const DAY = 86_400_000;
+
+function card(id: string, deckId: string, dueDaysAgo = 0, intervalDays = 1): QueueCandidate {
+  return { id, deckId, srsDueAt: new Date(NOW.getTime() - dueDaysAgo * DAY), srsIntervalDays: intervalDays };
+}
+
+function ids(cards: QueueCandidate[]): string[] {
+  return cards.map((entry) => entry.id);
+}
+
+describe("buildDailyQueue", () => {
+  it("caps reviews by the day's remaining limit, keeping the most overdue relative to interval", () => {
+    const queue = buildDailyQueue({
+      learning: [],
+      reviews: [card("long", "a", 1, 60), card("short", "a", 1, 2), card("late", "a", 10, 5)],
+      fresh: [],
+      newRemaining: 20,
+      reviewRemaining: 2,
+      now: NOW,
+    });
+    expect(ids(queue.cards)).toEqual(["late", "short"]);
+    expect(queue.counts).toEqual({ learning: 0, review: 2, new: 0 });
+  });
+
+  it("caps new cards by the day's remaining limit and treats a negative remainder as zero", () => {
+    const fresh = [card("n1", "a"), card("n2", "a"), card("n3", "a")];
+    const capped = buildDailyQueue({ learning: [], reviews: [], fresh, newRemaining: 2, reviewRemaining: 0, now: NOW });
+    expect(ids(capped.cards)).toEqual(["n1", "n2"]);
+
+    const exhausted = buildDailyQueue({ learning: [], reviews: [], fresh, newRemaining: -3, reviewRemaining: -1, now: NOW });
+    expect(exhausted.cards).toEqual([]);
+    expect(exhausted.counts).toEqual({ learning: 0, review: 0, new: 0 });
+  });
+
+  it("puts every learning card first, in due order, whatever the caps", () => {
+    const queue = buildDailyQueue({
+      learning: [card("l2", "a", 0), card("l1", "b", 0.01)],
+      reviews: [card("r1", "a", 1)],
+      fresh: [card("n1", "a")],
+      newRemaining: 0,
+      reviewRemaining: 0,
+      now: NOW,
+    });
+    expect(ids(queue.cards)).toEqual(["l1", "l2"]);
+    expect(queue.counts).toEqual({ learning: 2, review: 0, new: 0 });
+  });
+
+  it("spreads new cards evenly through the reviews", () => {
+    const queue = buildDailyQueue({
+      learning: [],
+      reviews: [card("r1", "a", 4), card("r2", "a", 3), card("r3", "a", 2), card("r4", "a", 1)],
+      fresh: [card("n1", "a"), card("n2", "a")],
+      newRemaining: 20,
+      reviewRemaining: 200,
+      now: NOW,
+    });
+    expect(ids(queue.cards)).toEqual(["r1", "n1", "r2", "r3", "n2", "r4"]);
+  });
+
+  it("alternates decks within reviews and within new cards", () => {
+    const queue = buildDailyQueue({
+      learning: [],
+      reviews: [card("a1", "a", 5), card("a2", "a", 4), card("a3", "a", 3), card("b1", "b", 2)],
+      fresh: [card("na1", "a"), card("na2", "a"), card("nb1", "b")],
+      newRemaining: 2,
+      reviewRemaining: 200,
+      now: NOW,
+    });
+    const reviews = queue.cards.filter((entry) => !entry.id.startsWith("n"));
+    const fresh = queue.cards.filter((entry) => entry.id.startsWith("n"));
+    expect(ids(reviews)).toEqual(["a1", "b1", "a2", "a3"]);
+    // The cap applies after interleaving, so the smaller deck still gets its first new card.
+    expect(ids(fresh)).toEqual(["na1", "nb1"]);
+  });
+});
+
+describe("normalizeDailyLimit", () => {
+  it("accepts integers from zero to the maximum and rejects anything else", () => {
+    expect(normalizeDailyLimit(0)).toBe(0);
+    expect(normalizeDailyLimit(9999)).toBe(9999);
+    expect(normalizeDailyLimit(10_000)).toBeNull();
+    expect(normalizeDailyLimit(-1)).toBeNull();
+    expect(normalizeDailyLimit(2.5)).toBeNull();
+    expect(normalizeDailyLimit("20")).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+export const DEFAULT_DAILY_NEW_LIMIT = 20;
+export const DEFAULT_DAILY_REVIEW_LIMIT = 200;
+export const MAX_DAILY_LIMIT = 9999;
+
+export type QueueCandidate = {
+  id: string;
+  deckId: string;
+  srsDueAt: Date;
+  srsIntervalDays: number;
+};
+
+export type DailyQueueInput<T extends QueueCandidate> = {
+  learning: T[];
+  reviews: T[];
+  fresh: T[];
+  newRemaining: number;
+  reviewRemaining: number;
+  now: Date;
+};
+
+export type DailyQueue<T extends QueueCandidate> = {
+  cards: T[];
+  counts: { learning: number; review: number; new: number };
+};
+
+/**
+ * Orders one day's study across every deck. Learning cards come first because their
+ * steps are minutes apart; reviews are ranked by how far past due they are relative to
+ * their interval, so a 2-day card that is a day late beats a 60-day card that is a day
+ * late. New cards are spread evenly through the reviews, and both pools alternate decks
+ * so a large course deck cannot crowd out the others.
+ */
+export function buildDailyQueue<T extends QueueCandidate>(input: DailyQueueInput<T>): DailyQueue<T> {
+  const learning = [...input.learning].sort((left, right) => left.srsDueAt.getTime() - right.srsDueAt.getTime());
+
+  const reviews = [...input.reviews]
+    .sort((left, right) => overdueness(right, input.now) - overdueness(left, input.now))
+    .slice(0, Math.max(0, input.reviewRemaining));
+  const fresh = interleaveByDeck(input.fresh).slice(0, Math.max(0, input.newRemaining));
+
+  return {
+    cards: [...learning, ...spreadEvenly(interleaveByDeck(reviews), fresh)],
+    counts: { learning: learning.length, review: reviews.length, new: fresh.length },
+  };
+}
+
+export function startOfStudyDay(now: Date): Date {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+export function normalizeDailyLimit(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isInteger(value)) return null;
+  return value >= 0 && value <= MAX_DAILY_LIMIT ? value : null;
+}
+
+function overdueness(card: QueueCandidate, now: Date): number {
+  const overdueDays = (now.getTime() - card.srsDueAt.getTime()) / 86_400_000;
+  return overdueDays / Math.max(1, card.srsIntervalDays);
+}
+
+// Round-robin across decks while keeping each deck's own order, so the first card of
+// every deck appears before the second card of any deck.
+function interleaveByDeck<T extends QueueCandidate>(cards: T[]): T[] {
+  const byDeck = new Map<string, T[]>();
+  for (const card of cards) {
+    const bucket = byDeck.get(card.deckId);
+    if (bucket) bucket.push(card);
+    else byDeck.set(card.deckId, [card]);
+  }
+
+  const buckets = [...byDeck.values()];
+  const result: T[] = [];
+  for (let round = 0; result.length < cards.length; round += 1) {
+    for (const bucket of buckets) {
+      if (round < bucket.length) result.push(bucket[round]);
+    }
+  }
+  return result;
+}
+
+function spreadEvenly<T>(base: T[], extra: T[]): T[] {
+  if (!extra.length) return base;
+  if (!base.length) return extra;
+
+  const gap = (base.length + 1) / (extra.length + 1);
+  const result: T[] = [];
+  let inserted = 0;
+  base.forEach((item, index) => {
+    while (inserted < extra.length && (inserted + 1) * gap <= index + 1) result.push(extra[inserted++]);
+    result.push(item);
+  });
+  while (inserted < extra.length) result.push(extra[inserted++]);
+  return result;
+}
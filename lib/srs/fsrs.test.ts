@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { CardSchedulingState } from "@/lib/srs/contracts";
+import { FSRS_DEFAULT_WEIGHTS, FsrsScheduler, seedFsrsStateFromSm2 } from "@/lib/srs/fsrs";
+
+const DAY_MS = 86_400_000;
+const NOW = new Date("2026-01-01T09:00:00Z");
+
+// A card SM-2 has seen three times, last 10 days ago at a 10 day interval: what the migration backfills.
+const SM2_CARD: CardSchedulingState = {
+  phase: "review",
+  step: 0,
+  ease: 2.5,
+  reps: 3,
+  intervalDays: 10,
+  lapses: 0,
+  lastReviewedAt: new Date(NOW.getTime() - 10 * DAY_MS),
+  stability: null,
+  difficulty: null,
+};
+
+describe("seedFsrsStateFromSm2", () => {
+  it("uses the interval as stability and maps ease linearly onto difficulty", () => {
+    expect(seedFsrsStateFromSm2(SM2_CARD)).toEqual({ stability: 10, difficulty: 5 });
+    expect(seedFsrsStateFromSm2({ ...SM2_CARD, ease: 1.3 })?.difficulty).toBe(10);
+    expect(seedFsrsStateFromSm2({ ...SM2_CARD, ease: 3.2 })?.difficulty).toBeCloseTo(2.0833, 4);
+    expect(seedFsrsStateFromSm2({ ...SM2_CARD, ease: 4 })?.difficulty).toBe(1);
+  });
+
+  it("floors stability at the first FSRS weight, as the migration's GREATEST does", () => {
+    expect(seedFsrsStateFromSm2({ ...SM2_CARD, reps: 0, intervalDays: 0, lapses: 1 })?.stability).toBe(FSRS_DEFAULT_WEIGHTS[0]);
+  });
+
+  it("leaves cards SM-2 never scheduled without memory state", () => {
+    expect(seedFsrsStateFromSm2({ ease: 2.5, reps: 0, intervalDays: 0, lapses: 0 })).toBeNull();
+  });
+});
+
+describe("FsrsScheduler", () => {
+  it("pins again, good, easy from a seeded SM-2 card", () => {
+    const scheduler = new FsrsScheduler();
+
+    const again = scheduler.schedule(SM2_CARD, "again", NOW);
+    // Reviewed exactly one stability later, recall probability is the requested retention.
+    expect(again).toMatchObject({ phase: "relearning", reps: 0, lapse: true, retrievability: 0.9 });
+    expect(again).toMatchObject({ stability: 2.5604, difficulty: 6.7444, ease: 2.081 });
+
+    const afterLapse = new Date(NOW.getTime() + DAY_MS);
+    const good = scheduler.schedule(
+      { ...SM2_CARD, phase: "relearning", reps: 0, intervalDays: 0, lapses: 1, lastReviewedAt: NOW, stability: again.stability, difficulty: again.difficulty },
+      "good",
+      afterLapse
+    );
+    expect(good).toMatchObject({ phase: "review", reps: 1, intervalDays: 5, retrievability: 0.9571 });
+    expect(good).toMatchObject({ stability: 4.8436, difficulty: 6.6953, ease: 2.093 });
+
+    const easy = scheduler.schedule(
+      { ...SM2_CARD, reps: 1, intervalDays: 5, lapses: 1, lastReviewedAt: afterLapse, stability: good.stability, difficulty: good.difficulty },
+      "easy",
+      new Date(afterLapse.getTime() + 5 * DAY_MS)
+    );
+    expect(easy).toMatchObject({ phase: "review", reps: 2, intervalDays: 33, retrievability: 0.8973 });
+    expect(easy).toMatchObject({ stability: 33.322, difficulty: 5.7781, ease: 2.313 });
+  });
+
+  it("starts new cards from the initial stability weights", () => {
+    const scheduler = new FsrsScheduler();
+    const card = { ...SM2_CARD, reps: 0, intervalDays: 0, lastReviewedAt: null };
+    expect(scheduler.schedule(card, "good", NOW)).toMatchObject({ stability: 3.7145, difficulty: 5.1618, intervalDays: 4 });
+    expect(scheduler.schedule(card, "easy", NOW)).toMatchObject({ stability: 13.8206, difficulty: 3.932, intervalDays: 14 });
+  });
+
+  it("caps intervals at the configured maximum", () => {
+    const scheduler = new FsrsScheduler({ maximumIntervalDays: 20 });
+    const card = { ...SM2_CARD, reps: 0, intervalDays: 0, lastReviewedAt: null };
+    expect(scheduler.schedule(card, "easy", NOW).intervalDays).toBe(14);
+    expect(scheduler.schedule({ ...card, stability: 100, difficulty: 5, reps: 5, lastReviewedAt: NOW }, "good", new Date(NOW.getTime() + 100 * DAY_MS)).intervalDays).toBe(20);
+  });
+});
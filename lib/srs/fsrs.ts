@@ -0,0 +1,198 @@
+import type { CardSchedulingState, ReviewRating, ReviewScheduler, SchedulingOutcome } from "@/lib/srs/contracts";
+
+// FSRS-4.5 default parameters (open-spaced-repetition/fsrs4anki).
+export const FSRS_DEFAULT_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474, 0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272,
+  2.8755,
+] as const;
+
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+const DAY_MS = 86_400_000;
+const RELEARN_MINUTES = 10;
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+const MIN_EASE = 1.3;
+
+const GRADE: Record<ReviewRating, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4,
+};
+
+type FsrsSchedulerOptions = {
+  weights?: readonly number[];
+  requestRetention?: number;
+  maximumIntervalDays?: number;
+};
+
+type MemoryState = { stability: number; difficulty: number };
+
+export class FsrsScheduler implements ReviewScheduler {
+  readonly id = "fsrs" as const;
+  private readonly w: readonly number[];
+  private readonly requestRetention: number;
+  private readonly maximumIntervalDays: number;
+
+  constructor(options?: FsrsSchedulerOptions) {
+    this.w = options?.weights?.length === FSRS_DEFAULT_WEIGHTS.length ? options.weights : FSRS_DEFAULT_WEIGHTS;
+    this.requestRetention = clamp(options?.requestRetention ?? 0.9, 0.7, 0.99);
+    this.maximumIntervalDays = Math.max(1, Math.floor(options?.maximumIntervalDays ?? 36500));
+  }
+
+  schedule(state: CardSchedulingState, rating: ReviewRating, now: Date): SchedulingOutcome {
+    const grade = GRADE[rating];
+    const memory = readMemoryState(state);
+    const lapse = rating === "again" && memory !== null;
+
+    let stability: number;
+    let difficulty: number;
+    let retrievability: number | null = null;
+
+    if (!memory) {
+      stability = this.initStability(grade);
+      difficulty = this.initDifficulty(grade);
+    } else {
+      const elapsedDays = state.lastReviewedAt
+        ? Math.max(0, (now.getTime() - state.lastReviewedAt.getTime()) / DAY_MS)
+        : Math.max(0, state.intervalDays);
+      retrievability = this.retrievability(elapsedDays, memory.stability);
+      if (state.phase === "relearning" && rating !== "again" && elapsedDays < 1) {
+        // Graduating from relearning the same day: FSRS-4.5 leaves same-day reviews out of the
+        // memory model, so the card keeps the state its lapse set.
+        stability = memory.stability;
+        difficulty = memory.difficulty;
+      } else {
+        difficulty = this.nextDifficulty(memory.difficulty, grade);
+        stability = rating === "again"
+          ? this.forgetStability(memory.difficulty, memory.stability, retrievability)
+          : this.recallStability(memory.difficulty, memory.stability, retrievability, grade);
+      }
+    }
+
+    stability = round4(stability);
+    difficulty = round4(difficulty);
+
+    if (rating === "again") {
+      return {
+        phase: "relearning",
+        step: 0,
+        ease: easeFromDifficulty(difficulty),
+        reps: 0,
+        intervalDays: 0,
+        minutes: RELEARN_MINUTES,
+        lapse,
+        stability,
+        difficulty,
+        retrievability: retrievability === null ? null : round4(retrievability),
+      };
+    }
+
+    return {
+      phase: "review",
+      step: 0,
+      ease: easeFromDifficulty(difficulty),
+      reps: state.reps + 1,
+      intervalDays: this.nextInterval(stability),
+      minutes: 0,
+      lapse: false,
+      stability,
+      difficulty,
+      retrievability: retrievability === null ? null : round4(retrievability),
+    };
+  }
+
+  retrievability(elapsedDays: number, stability: number): number {
+    return Math.pow(1 + (FACTOR * elapsedDays) / stability, DECAY);
+  }
+
+  private nextInterval(stability: number): number {
+    const interval = (stability / FACTOR) * (Math.pow(this.requestRetention, 1 / DECAY) - 1);
+    return Math.min(this.maximumIntervalDays, Math.max(1, Math.round(interval)));
+  }
+
+  private initStability(grade: number): number {
+    return Math.max(0.1, this.w[grade - 1]);
+  }
+
+  private initDifficulty(grade: number): number {
+    return clampDifficulty(this.w[4] - (grade - 3) * this.w[5]);
+  }
+
+  private nextDifficulty(difficulty: number, grade: number): number {
+    const next = difficulty - this.w[6] * (grade - 3);
+    // Mean reversion toward the initial "good" difficulty keeps D from drifting to the bounds.
+    return clampDifficulty(this.w[7] * this.initDifficulty(3) + (1 - this.w[7]) * next);
+  }
+
+  private recallStability(difficulty: number, stability: number, retrievability: number, grade: number): number {
+    const hardPenalty = grade === 2 ? this.w[15] : 1;
+    const easyBonus = grade === 4 ? this.w[16] : 1;
+    return (
+      stability *
+      (1 +
+        Math.exp(this.w[8]) *
+          (11 - difficulty) *
+          Math.pow(stability, -this.w[9]) *
+          (Math.exp((1 - retrievability) * this.w[10]) - 1) *
+          hardPenalty *
+          easyBonus)
+    );
+  }
+
+  private forgetStability(difficulty: number, stability: number, retrievability: number): number {
+    const next =
+      this.w[11] *
+      Math.pow(difficulty, -this.w[12]) *
+      (Math.pow(stability + 1, this.w[13]) - 1) *
+      Math.exp((1 - retrievability) * this.w[14]);
+    return Math.max(0.1, Math.min(stability, next));
+  }
+}
+
+/**
+ * Derives FSRS memory state for a card that has only been scheduled by SM-2.
+ * Mirrors the backfill in the `add_fsrs_scheduler` migration so lazily seeded
+ * cards and migrated cards start from the same place.
+ */
+export function seedFsrsStateFromSm2(state: Pick<CardSchedulingState, "ease" | "reps" | "intervalDays" | "lapses">): MemoryState | null {
+  if (state.reps <= 0 && state.lapses <= 0 && state.intervalDays <= 0) return null;
+  return {
+    stability: Math.max(FSRS_DEFAULT_WEIGHTS[0], state.intervalDays),
+    difficulty: difficultyFromEase(state.ease),
+  };
+}
+
+function readMemoryState(state: CardSchedulingState): MemoryState | null {
+  if (isPositive(state.stability) && isPositive(state.difficulty)) {
+    return { stability: state.stability, difficulty: state.difficulty };
+  }
+  return seedFsrsStateFromSm2(state);
+}
+
+// Linear map between SM-2 ease (1.3..~3.5) and FSRS difficulty (10..1); 2.5 lands on 5.
+function difficultyFromEase(ease: number): number {
+  return clampDifficulty(5 - ((ease - 2.5) * 5) / 1.2);
+}
+
+function easeFromDifficulty(difficulty: number): number {
+  return Math.max(MIN_EASE, Math.round((2.5 - ((difficulty - 5) * 1.2) / 5) * 1000) / 1000);
+}
+
+function clampDifficulty(value: number): number {
+  return clamp(value, MIN_DIFFICULTY, MAX_DIFFICULTY);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  if (!Number.isFinite(value)) return min;
+  return Math.max(min, Math.min(max, value));
+}
+
+function isPositive(value: number | null): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+function round4(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
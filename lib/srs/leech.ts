@@ -0,0 +1,38 @@
+export const LEECH_TAG = "leech";
+
+export const LEECH_ACTIONS = ["suspend", "tag"] as const;
+
+export type LeechAction = (typeof LEECH_ACTIONS)[number];
+
+export const DEFAULT_LEECH_THRESHOLD = 8;
+export const MAX_LEECH_THRESHOLD = 99;
+
+export function isLeechAction(value: unknown): value is LeechAction {
+  return typeof value === "string" && (LEECH_ACTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * A card becomes a leech on the lapse that reaches the threshold and is flagged again
+ * every half-threshold lapses after that, so a card that was unsuspended without being
+ * fixed does not linger unnoticed.
+ */
+export function isLeechLapse(lapses: number, threshold: number): boolean {
+  if (threshold < 1 || lapses < threshold) return false;
+  return (lapses - threshold) % Math.max(1, Math.ceil(threshold / 2)) === 0;
+}
+
+export function markLeech(
+  card: { tags: string[]; suspendedAt: Date | null },
+  action: string,
+  now: Date
+): { tags: string[]; suspendedAt: Date | null } {
+  return {
+    tags: card.tags.includes(LEECH_TAG) ? card.tags : [...card.tags, LEECH_TAG],
+    suspendedAt: action === "tag" ? card.suspendedAt : card.suspendedAt ?? now,
+  };
+}
+
+export function normalizeLeechThreshold(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isInteger(value)) return null;
+  return value >= 1 && value <= MAX_LEECH_THRESHOLD ? value : null;
+}
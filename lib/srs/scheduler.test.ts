@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { resolveSchedulerId } from "@/lib/srs/scheduler";
+
+describe("resolveSchedulerId", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("prefers the deck's scheduler over the user's and the environment's", () => {
+    vi.stubEnv("SRS_DEFAULT_SCHEDULER", "sm2");
+    expect(resolveSchedulerId("fsrs", "sm2")).toBe("fsrs");
+    expect(resolveSchedulerId("sm2", "fsrs")).toBe("sm2");
+  });
+
+  it("falls back to the user's scheduler when the deck has none", () => {
+    vi.stubEnv("SRS_DEFAULT_SCHEDULER", "sm2");
+    expect(resolveSchedulerId(null, "fsrs")).toBe("fsrs");
+    expect(resolveSchedulerId(undefined, "fsrs")).toBe("fsrs");
+  });
+
+  it("falls back to SRS_DEFAULT_SCHEDULER, then SM-2", () => {
+    vi.stubEnv("SRS_DEFAULT_SCHEDULER", "fsrs");
+    expect(resolveSchedulerId(null, null)).toBe("fsrs");
+    vi.stubEnv("SRS_DEFAULT_SCHEDULER", "");
+    expect(resolveSchedulerId(null, null)).toBe("sm2");
+  });
+
+  it("skips values that are not scheduler ids", () => {
+    vi.stubEnv("SRS_DEFAULT_SCHEDULER", "anki");
+    expect(resolveSchedulerId("leitner", "fsrs")).toBe("fsrs");
+    expect(resolveSchedulerId("", "FSRS")).toBe("sm2");
+  });
+});
@@ -0,0 +1,29 @@
+import { isSchedulerId, type ReviewScheduler, type SchedulerId } from "@/lib/srs/contracts";
+import { FsrsScheduler } from "@/lib/srs/fsrs";
+import { Sm2Scheduler } from "@/lib/srs/sm2";
+import { LearningStepsScheduler, readStepsConfig, type LearningStepsConfig } from "@/lib/srs/steps";
+
+export function createReviewScheduler(id: SchedulerId, steps?: LearningStepsConfig): ReviewScheduler {
+  const base = id === "fsrs"
+    ? new FsrsScheduler({
+        requestRetention: readNumberEnv("FSRS_REQUEST_RETENTION"),
+        maximumIntervalDays: readNumberEnv("FSRS_MAXIMUM_INTERVAL_DAYS"),
+      })
+    : new Sm2Scheduler();
+  return new LearningStepsScheduler(base, steps ?? readStepsConfig(null));
+}
+
+// Deck choice wins over the user's default, which wins over SRS_DEFAULT_SCHEDULER.
+export function resolveSchedulerId(deckScheduler?: string | null, userScheduler?: string | null): SchedulerId {
+  if (isSchedulerId(deckScheduler)) return deckScheduler;
+  if (isSchedulerId(userScheduler)) return userScheduler;
+  const configured = process.env.SRS_DEFAULT_SCHEDULER;
+  return isSchedulerId(configured) ? configured : "sm2";
+}
+
+function readNumberEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+  const parsed = Number(raw);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import type { CardSchedulingState, ReviewRating } from "@/lib/srs/contracts";
+import { Sm2Scheduler } from "@/lib/srs/sm2";
+
+const NOW = new Date("2026-01-01T09:00:00Z");
+
+function newCard(): CardSchedulingState {
+  return { phase: "review", step: 0, ease: 2.5, reps: 0, intervalDays: 0, lapses: 0, lastReviewedAt: null, stability: null, difficulty: null };
+}
+
+function review(ratings: ReviewRating[], state = newCard()) {
+  const scheduler = new Sm2Scheduler();
+  return ratings.map((rating) => {
+    const outcome = scheduler.schedule(state, rating);
+    state = { ...state, ease: outcome.ease, reps: outcome.reps, intervalDays: outcome.intervalDays, lastReviewedAt: NOW };
+    return outcome;
+  });
+}
+
+describe("Sm2Scheduler", () => {
+  it("schedules good, good, good at 1, 3 and 7 days while ease drifts down", () => {
+    const outcomes = review(["good", "good", "good"]);
+    expect(outcomes.map((o) => o.intervalDays)).toEqual([1, 3, 7]);
+    expect(outcomes.map((o) => o.ease)).toEqual([2.48, 2.46, 2.44].map((ease) => expect.closeTo(ease, 10)));
+    expect(outcomes.map((o) => o.reps)).toEqual([1, 2, 3]);
+  });
+
+  it("schedules easy, easy, easy at 2, 4 and 14 days", () => {
+    const outcomes = review(["easy", "easy", "easy"]);
+    expect(outcomes.map((o) => o.intervalDays)).toEqual([2, 4, 14]);
+    expect(outcomes[2].ease).toBeCloseTo(2.95, 10);
+  });
+
+  it("sends a lapse to relearning with lower ease and no memory state", () => {
+    const [, , lapse] = review(["good", "good", "again"]);
+    expect(lapse).toMatchObject({ phase: "relearning", reps: 0, intervalDays: 0, minutes: 10, lapse: true, stability: null, difficulty: null });
+    expect(lapse.ease).toBeCloseTo(2.26, 10);
+  });
+
+  it("never lets ease fall below 1.3", () => {
+    const [outcome] = review(["again"], { ...newCard(), ease: 1.35, reps: 4, intervalDays: 20 });
+    expect(outcome.ease).toBe(1.3);
+  });
+});
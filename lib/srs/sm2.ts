@@ -0,0 +1,43 @@
+import type { CardSchedulingState, ReviewRating, ReviewScheduler, SchedulingOutcome } from "@/lib/srs/contracts";
+
+const MIN_EASE = 1.3;
+const RELEARN_MINUTES = 10;
+
+export class Sm2Scheduler implements ReviewScheduler {
+  readonly id = "sm2" as const;
+
+  schedule(state: CardSchedulingState, rating: ReviewRating): SchedulingOutcome {
+    const { ease, reps, intervalDays: interval } = state;
+    let newInterval = interval;
+
+    if (rating === "again") {
+      return withoutMemoryState({ phase: "relearning", ease: Math.max(MIN_EASE, ease - 0.2), reps: 0, intervalDays: 0, minutes: RELEARN_MINUTES, lapse: true });
+    }
+    if (rating === "hard") {
+      const newEase = Math.max(MIN_EASE, ease - 0.15);
+      if (reps < 1) newInterval = 1;
+      else newInterval = Math.round(interval * 1.2);
+      return withoutMemoryState({ phase: "review", ease: newEase, reps: reps + 1, intervalDays: Math.max(1, newInterval), minutes: 0, lapse: false });
+    }
+    if (rating === "good") {
+      const newEase = Math.max(MIN_EASE, ease - 0.02);
+      if (reps < 1) newInterval = 1;
+      else if (reps < 2) newInterval = 3;
+      else newInterval = Math.round(interval * newEase);
+      return withoutMemoryState({ phase: "review", ease: newEase, reps: reps + 1, intervalDays: Math.max(1, newInterval), minutes: 0, lapse: false });
+    }
+    // easy
+    const newEase = ease + 0.15;
+    if (reps < 1) newInterval = 2;
+    else if (reps < 2) newInterval = 4;
+    else newInterval = Math.round(interval * newEase * 1.2);
+    return withoutMemoryState({ phase: "review", ease: newEase, reps: reps + 1, intervalDays: Math.max(1, newInterval), minutes: 0, lapse: false });
+  }
+}
+
+// SM-2 does not model memory state. Clearing it lets FSRS re-seed from the SM-2 columns if the deck switches over.
+function withoutMemoryState(
+  next: Pick<SchedulingOutcome, "phase" | "ease" | "reps" | "intervalDays" | "minutes" | "lapse">
+): SchedulingOutcome {
+  return { ...next, step: 0, stability: null, difficulty: null, retrievability: null };
+}
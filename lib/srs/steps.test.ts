@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import type { CardSchedulingState, ReviewRating, ReviewScheduler } from "@/lib/srs/contracts";
+import { FsrsScheduler } from "@/lib/srs/fsrs";
+import { Sm2Scheduler } from "@/lib/srs/sm2";
+import { LearningStepsScheduler, parseStepList } from "@/lib/srs/steps";
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 86_400_000;
+const START = new Date("2026-01-01T09:00:00Z");
+
+const NEW_CARD: CardSchedulingState = {
+  phase: "new",
+  step: 0,
+  ease: 2.5,
+  reps: 0,
+  intervalDays: 0,
+  lapses: 0,
+  lastReviewedAt: null,
+  stability: null,
+  difficulty: null,
+};
+
+// Applies each rating `minutes` after the last, carrying state forward like /api/review does.
+function run(base: ReviewScheduler, steps: number[], card: CardSchedulingState, reviews: Array<[ReviewRating, number]>) {
+  const scheduler = new LearningStepsScheduler(base, { learningSteps: steps, relearningSteps: steps });
+  let state = card;
+  let now = state.lastReviewedAt ?? START;
+  return reviews.map(([rating, minutes]) => {
+    now = new Date(now.getTime() + minutes * MINUTE_MS);
+    const outcome = scheduler.schedule(state, rating, now);
+    state = {
+      ...state,
+      phase: outcome.phase,
+      step: outcome.step,
+      ease: outcome.ease,
+      reps: outcome.reps,
+      intervalDays: outcome.intervalDays,
+      lapses: state.lapses + (outcome.lapse ? 1 : 0),
+      lastReviewedAt: now,
+      stability: outcome.stability,
+      difficulty: outcome.difficulty,
+    };
+    return outcome;
+  });
+}
+
+describe("LearningStepsScheduler", () => {
+  it("walks a new card through its steps before SM-2 sees it", () => {
+    const outcomes = run(new Sm2Scheduler(), [1, 10], NEW_CARD, [["good", 0], ["again", 1], ["good", 1], ["good", 10]]);
+    expect(outcomes.map((o) => [o.phase, o.step, o.minutes, o.intervalDays])).toEqual([
+      ["learning", 1, 10, 0],
+      ["learning", 0, 1, 0],
+      ["learning", 1, 10, 0],
+      ["review", 0, 0, 1],
+    ]);
+    expect(outcomes[3].reps).toBe(1);
+  });
+
+  it("keeps the stability an FSRS lapse set when the card graduates from relearning the same day", () => {
+    const card = { ...NEW_CARD, phase: "review" as const, reps: 3, intervalDays: 10, lastReviewedAt: new Date(START.getTime() - 10 * DAY_MS), stability: 10, difficulty: 5 };
+    const [lapse, graduation] = run(new FsrsScheduler(), [10], card, [["again", 10 * 24 * 60], ["good", 10]]);
+    expect(lapse).toMatchObject({ phase: "relearning", lapse: true, minutes: 10 });
+    expect(graduation).toMatchObject({ phase: "review", stability: lapse.stability, difficulty: lapse.difficulty, intervalDays: 3 });
+  });
+
+  it("updates FSRS memory normally when relearning ends on a later day", () => {
+    const card = { ...NEW_CARD, phase: "review" as const, reps: 3, intervalDays: 10, lastReviewedAt: new Date(START.getTime() - 10 * DAY_MS), stability: 10, difficulty: 5 };
+    const [lapse, graduation] = run(new FsrsScheduler(), [2 * 24 * 60], card, [["again", 10 * 24 * 60], ["good", 2 * 24 * 60]]);
+    expect(graduation.stability).toBeGreaterThan(lapse.stability!);
+  });
+});
+
+describe("parseStepList", () => {
+  it("reads minutes, hours and days", () => {
+    expect(parseStepList("1m 10m 1h 1d")).toEqual([1, 10, 60, 1440]);
+    expect(parseStepList("15, 30")).toEqual([15, 30]);
+    expect(parseStepList("1w")).toBeNull();
+    expect(parseStepList("")).toBeNull();
+  });
+});
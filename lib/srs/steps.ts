@@ -0,0 +1,127 @@
+import type {
+  CardSchedulingState,
+  ReviewRating,
+  ReviewScheduler,
+  SchedulerId,
+  SchedulingOutcome,
+  SrsPhase,
+} from "@/lib/srs/contracts";
+
+// A single 10 minute step reproduces the original behaviour: "again" re-shows after
+// 10 minutes and the first "good" graduates straight to a one day interval.
+export const DEFAULT_LEARNING_STEPS = [10];
+export const DEFAULT_RELEARNING_STEPS = [10];
+
+const MAX_STEPS = 10;
+const MAX_STEP_MINUTES = 7 * 1440;
+
+export type LearningStepsConfig = {
+  learningSteps: number[];
+  relearningSteps: number[];
+};
+
+/**
+ * Runs new and lapsed cards through short, minute-based steps before handing them
+ * to the underlying algorithm. The wrapped scheduler only ever sees graduations and
+ * lapses, so SM-2 reps are not inflated by same-day repeats. A card graduating from
+ * relearning reaches it still in the relearning phase, and FSRS keeps the stability
+ * the lapse set instead of updating it a second time that day.
+ */
+export class LearningStepsScheduler implements ReviewScheduler {
+  readonly id: SchedulerId;
+
+  constructor(
+    private readonly base: ReviewScheduler,
+    private readonly config: LearningStepsConfig
+  ) {
+    this.id = base.id;
+  }
+
+  schedule(state: CardSchedulingState, rating: ReviewRating, now: Date): SchedulingOutcome {
+    if (state.phase === "review") {
+      const outcome = this.base.schedule(state, rating, now);
+      if (rating !== "again") return outcome;
+      const steps = this.config.relearningSteps;
+      if (!steps.length) return { ...outcome, phase: "review", step: 0, intervalDays: 1, minutes: 0 };
+      return { ...outcome, phase: "relearning", step: 0, intervalDays: 0, minutes: steps[0] };
+    }
+
+    const phase: SrsPhase = state.phase === "relearning" ? "relearning" : "learning";
+    const steps = phase === "relearning" ? this.config.relearningSteps : this.config.learningSteps;
+    if (!steps.length || rating === "easy") return this.graduate(state, rating, now);
+
+    const step = Math.max(0, Math.min(steps.length - 1, state.step));
+    if (rating === "again") return stay(state, phase, 0, steps[0]);
+    if (rating === "hard") return stay(state, phase, step, hardDelayMinutes(steps, step));
+    if (step + 1 < steps.length) return stay(state, phase, step + 1, steps[step + 1]);
+    return this.graduate(state, "good", now);
+  }
+
+  private graduate(state: CardSchedulingState, rating: ReviewRating, now: Date): SchedulingOutcome {
+    const phase: SrsPhase = state.phase === "relearning" ? "relearning" : "review";
+    return this.base.schedule({ ...state, phase, step: 0 }, rating, now);
+  }
+}
+
+/**
+ * Parses a step list such as "1m 10m 1h" (bare numbers are minutes).
+ * Returns null when any token is unreadable or out of range.
+ */
+export function parseStepList(input: unknown): number[] | null {
+  const tokens = Array.isArray(input)
+    ? input.map((value) => String(value))
+    : String(input ?? "").split(/[\s,]+/);
+  const steps: number[] = [];
+
+  for (const token of tokens.map((value) => value.trim().toLowerCase()).filter(Boolean)) {
+    const match = token.match(/^(\d+(?:\.\d+)?)\s*(m|min|h|hr|d)?$/);
+    if (!match) return null;
+    const amount = Number(match[1]);
+    const unit = match[2] || "m";
+    const minutes = Math.round(unit.startsWith("h") ? amount * 60 : unit === "d" ? amount * 1440 : amount);
+    if (minutes < 1 || minutes > MAX_STEP_MINUTES) return null;
+    steps.push(minutes);
+  }
+
+  return steps.length && steps.length <= MAX_STEPS ? steps : null;
+}
+
+export function formatStepList(steps: number[]): string {
+  return steps
+    .map((minutes) => {
+      if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+      if (minutes % 60 === 0) return `${minutes / 60}h`;
+      return `${minutes}m`;
+    })
+    .join(" ");
+}
+
+export function readStepsConfig(deck: { learningSteps?: number[] | null; relearningSteps?: number[] | null } | null): LearningStepsConfig {
+  return {
+    learningSteps: deck?.learningSteps?.length ? deck.learningSteps : DEFAULT_LEARNING_STEPS,
+    relearningSteps: deck?.relearningSteps?.length ? deck.relearningSteps : DEFAULT_RELEARNING_STEPS,
+  };
+}
+
+function stay(state: CardSchedulingState, phase: SrsPhase, step: number, minutes: number): SchedulingOutcome {
+  return {
+    phase,
+    step,
+    ease: state.ease,
+    reps: state.reps,
+    intervalDays: state.intervalDays,
+    minutes,
+    lapse: false,
+    stability: state.stability,
+    difficulty: state.difficulty,
+    retrievability: null,
+  };
+}
+
+// Anki's convention: "hard" on the first step waits halfway to the second; with a single
+// step it waits 1.5x (capped at one extra day); later steps simply repeat.
+function hardDelayMinutes(steps: number[], step: number): number {
+  if (step === 0 && steps.length > 1) return Math.round((steps[0] + steps[1]) / 2);
+  if (steps.length === 1) return Math.round(Math.min(steps[0] * 1.5, steps[0] + 1440));
+  return steps[step];
+}
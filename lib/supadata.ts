@@ -1,6 +1,10 @@
+import type { Cue } from "@/lib/captions";
+
 export type SupadataTranscriptSuccess = {
   ok: true;
   transcript: string;
+  // Timed segments, so cards can link back to the moment in the video they came from.
+  cues?: Cue[];
   lang?: string;
   availableLangs?: string[];
   raw: unknown;
@@ -16,6 +20,10 @@ export type SupadataTranscriptFailure = {
 
 export type SupadataTranscriptResult = SupadataTranscriptSuccess | SupadataTranscriptFailure;
 
+export type SupadataVideoListResult =
+  | { ok: true; videoIds: string[]; raw: unknown }
+  | SupadataTranscriptFailure;
+
 export function hasSupadataConfigured(): boolean {
   return !!(process.env.SUPADATA_API_KEY || "").trim();
 }
@@ -46,7 +54,7 @@ export async function fetchSupadataTranscript(args: {
   try {
     const u = new URL("https://api.supadata.ai/v1/transcript");
     u.searchParams.set("url", args.youtubeUrl);
-    u.searchParams.set("text", "true");
+    u.searchParams.set("text", "false");
     u.searchParams.set("mode", "auto");
     if (args.language) u.searchParams.set("lang", String(args.language));
 
@@ -67,7 +75,19 @@ export async function fetchSupadataTranscript(args: {
       };
     }
 
-    const transcript = typeof (data as any)?.content === "string" ? (data as any).content : "";
+    // With text=false the content is an array of { text, offset, duration } segments in ms;
+    // accept a plain string too in case the API falls back to it.
+    const content: unknown = (data as { content?: unknown } | null)?.content;
+    const cues: Cue[] | undefined = Array.isArray(content)
+      ? (content as Array<{ text?: unknown; offset?: unknown; duration?: unknown }>)
+          .filter((seg) => typeof seg?.text === "string" && Number.isFinite(Number(seg?.offset)))
+          .map((seg) => ({
+            startMs: Number(seg.offset),
+            endMs: Number(seg.offset) + (Number(seg.duration) || 0),
+            text: String(seg.text),
+          }))
+      : undefined;
+    const transcript = typeof content === "string" ? content : cues ? cues.map((cue) => cue.text).join(" ") : "";
     if (!transcript.trim()) {
       return {
         ok: false,
@@ -80,6 +100,7 @@ export async function fetchSupadataTranscript(args: {
     return {
       ok: true,
       transcript,
+      cues: cues?.length ? cues : undefined,
       lang: typeof (data as any)?.lang === "string" ? (data as any).lang : undefined,
       availableLangs: Array.isArray((data as any)?.availableLangs)
         ? (data as any).availableLangs.filter((x: any) => typeof x === "string")
@@ -95,3 +116,69 @@ export async function fetchSupadataTranscript(args: {
     };
   }
 }
+
+/**
+ * Lists the regular videos of a playlist or channel (shorts and upcoming live streams are left
+ * out). `id` may be a playlist id, channel id, @handle or the collection URL itself.
+ */
+export async function fetchSupadataCollectionVideos(args: {
+  kind: "playlist" | "channel";
+  id: string;
+  limit?: number;
+}): Promise<SupadataVideoListResult> {
+  const apiKey = (process.env.SUPADATA_API_KEY || "").trim();
+  if (!apiKey) {
+    return {
+      ok: false,
+      reason: "NOT_CONFIGURED",
+      message: "Missing env var: SUPADATA_API_KEY",
+    };
+  }
+
+  try {
+    const u = new URL(`https://api.supadata.ai/v1/youtube/${args.kind}/videos`);
+    u.searchParams.set("id", args.id);
+    if (args.limit) u.searchParams.set("limit", String(args.limit));
+    if (args.kind === "channel") u.searchParams.set("type", "video");
+
+    const r = await fetch(u.toString(), {
+      method: "GET",
+      headers: { "x-api-key": apiKey },
+    });
+
+    const data = await r.json().catch(() => null);
+
+    if (!r.ok) {
+      return {
+        ok: false,
+        reason: "HTTP_ERROR",
+        message: `Supadata failed (HTTP ${r.status})`,
+        httpStatus: r.status,
+        raw: data,
+      };
+    }
+
+    const ids = (data as { videoIds?: unknown } | null)?.videoIds;
+    if (!Array.isArray(ids)) {
+      return {
+        ok: false,
+        reason: "INVALID_RESPONSE",
+        message: "Video list missing in Supadata response",
+        raw: data,
+      };
+    }
+
+    return {
+      ok: true,
+      videoIds: ids.filter((id): id is string => typeof id === "string"),
+      raw: data,
+    };
+  } catch (e: unknown) {
+    return {
+      ok: false,
+      reason: "EXCEPTION",
+      message: String((e as { message?: unknown } | null)?.message || e || "SUPADATA_EXCEPTION"),
+      raw: e,
+    };
+  }
+}
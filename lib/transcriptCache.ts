@@ -0,0 +1,160 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import type { Cue } from "@/lib/captions";
+import type { TranscriptProviderId } from "@/lib/transcriptProviders";
+
+export type CachedTranscript = {
+  videoId: string;
+  language: string;
+  provider: TranscriptProviderId;
+  text: string;
+  cues: Cue[] | null;
+  fetchedAt: Date;
+  hits: number;
+};
+
+/** Cache metadata without the transcript itself, for the lookup endpoint. */
+export type TranscriptCacheEntry = Omit<CachedTranscript, "text" | "cues"> & { chars: number; cueCount: number };
+
+// Transcripts of a published video rarely change, so entries live until invalidated unless a
+// deployment opts into expiry.
+const MAX_AGE_MS = Number(process.env.TRANSCRIPT_CACHE_MAX_AGE_DAYS || 0) * 24 * 60 * 60 * 1000;
+// BCP 47 "undetermined": the key for transcripts from providers that do not say which track they returned.
+export const UNKNOWN_TRANSCRIPT_LANGUAGE = "und";
+
+/**
+ * Reads a cached transcript. Entries are keyed by the language the provider returned, so a
+ * request for a language only hits a track in that language; without one, providers return the
+ * video's own track, and the first track cached for the video serves. Cache errors (including
+ * the table not being migrated yet) are logged and treated as a miss, so fetching still works
+ * without the cache.
+ */
+export async function readCachedTranscript(videoId: string, language?: string): Promise<CachedTranscript | null> {
+  try {
+    const row = language
+      ? await prisma.transcript.findUnique({
+          where: { videoId_language: { videoId, language: normalizeLanguage(language) } },
+        })
+      : await prisma.transcript.findFirst({ where: { videoId }, orderBy: { createdAt: "asc" } });
+    if (!row) return null;
+    if (MAX_AGE_MS > 0 && Date.now() - row.fetchedAt.getTime() > MAX_AGE_MS) return null;
+
+    await prisma.transcript.update({ where: { id: row.id }, data: { hits: { increment: 1 } } }).catch(() => null);
+    return {
+      videoId: row.videoId,
+      language: row.language,
+      provider: row.provider as TranscriptProviderId,
+      text: row.text,
+      cues: readCues(row.cues),
+      fetchedAt: row.fetchedAt,
+      hits: row.hits + 1,
+    };
+  } catch (error: unknown) {
+    console.warn("[TranscriptCache] Read failed:", error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Stores (or replaces) the full transcript for a video under the language the provider reported.
+ * Failures are logged, never thrown.
+ */
+export async function saveTranscript(input: {
+  videoId: string;
+  language?: string | null;
+  provider: TranscriptProviderId;
+  text: string;
+  cues?: Cue[] | null;
+}): Promise<void> {
+  const text = String(input.text || "").trim();
+  if (!text) return;
+  const language = input.language ? normalizeLanguage(input.language) : UNKNOWN_TRANSCRIPT_LANGUAGE;
+  const data = {
+    provider: input.provider,
+    text,
+    cues: input.cues?.length ? (input.cues as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+    fetchedAt: new Date(),
+    hits: 0,
+  };
+  try {
+    await prisma.transcript.upsert({
+      where: { videoId_language: { videoId: input.videoId, language } },
+      update: data,
+      create: { videoId: input.videoId, language, ...data },
+    });
+  } catch (error: unknown) {
+    console.warn("[TranscriptCache] Write failed:", error instanceof Error ? error.message : error);
+  }
+}
+
+/** Drops cached transcripts for a video (one language, or all of them) so the next request refetches. */
+export async function invalidateTranscript(videoId: string, language?: string): Promise<number> {
+  const result = await prisma.transcript.deleteMany({
+    where: { videoId, ...(language ? { language: normalizeLanguage(language) } : {}) },
+  });
+  return result.count;
+}
+
+export async function listCachedTranscripts(videoId: string): Promise<TranscriptCacheEntry[]> {
+  const rows = await prisma.transcript.findMany({
+    where: { videoId },
+    orderBy: { language: "asc" },
+  });
+  return rows.map((row) => ({
+    videoId: row.videoId,
+    language: row.language,
+    provider: row.provider as TranscriptProviderId,
+    fetchedAt: row.fetchedAt,
+    hits: row.hits,
+    chars: row.text.length,
+    cueCount: readCues(row.cues)?.length ?? 0,
+  }));
+}
+
+/**
+ * Returns the cached transcript, or runs `fetchTranscript` and caches what it returns.
+ * `cached` tells callers whether a provider was actually called.
+ */
+export async function getOrFetchTranscript(
+  videoId: string,
+  language: string,
+  fetchTranscript: () => Promise<{
+    provider: TranscriptProviderId;
+    text: string;
+    cues?: Cue[] | null;
+    language?: string | null;
+  } | null>
+): Promise<(CachedTranscript & { cached: boolean }) | null> {
+  const hit = await readCachedTranscript(videoId, language);
+  if (hit) return { ...hit, cached: true };
+
+  const fetched = await fetchTranscript();
+  if (!fetched?.text?.trim()) return null;
+  await saveTranscript({ videoId, ...fetched });
+  return {
+    videoId,
+    language: fetched.language ? normalizeLanguage(fetched.language) : UNKNOWN_TRANSCRIPT_LANGUAGE,
+    provider: fetched.provider,
+    text: fetched.text,
+    cues: fetched.cues ?? null,
+    fetchedAt: new Date(),
+    hits: 0,
+    cached: false,
+  };
+}
+
+// "en-US" and "en_us" name the same track; the key is the lowercase, hyphenated form.
+function normalizeLanguage(language: string): string {
+  return language.trim().toLowerCase().replace(/_/g, "-");
+}
+
+function readCues(value: Prisma.JsonValue | null): Cue[] | null {
+  if (!Array.isArray(value)) return null;
+  const cues = value.filter(
+    (cue): cue is Cue =>
+      !!cue && typeof cue === "object" && !Array.isArray(cue) &&
+      typeof (cue as Record<string, unknown>).startMs === "number" &&
+      typeof (cue as Record<string, unknown>).text === "string"
+  );
+  return cues.length ? cues : null;
+}
@@ -0,0 +1,386 @@
+import type { Cue } from "@/lib/captions";
+import { hasAsrConfigured, transcribeAudioBuffer } from "@/lib/asrClient";
+import {
+  downloadYouTubeAudioBufferViaYtdlCore,
+  fetchYouTubeCuesViaLibrary,
+  fetchYouTubeCuesViaYtDlp,
+  fetchYouTubeTranscriptViaTimedText,
+  fetchYouTubeTranscriptViaWatchPage,
+  fetchYouTubeTranscriptViaYtdlCore,
+} from "@/lib/fallback/youtubeCaptions";
+import { transcribeYoutubeUrlWithRunpod } from "@/lib/runpodYoutubeClient";
+import { fetchSupadataTranscript, hasSupadataConfigured } from "@/lib/supadata";
+import { transcribeYoutubeViaAsrWorker } from "@/lib/youtubeAsrWorkerClient";
+
+/** Which path produced a transcript; paid ASR providers are the ones the cache matters most for. */
+export type TranscriptProviderId =
+  | "supadata"
+  | "yt-dlp"
+  | "youtube-transcript"
+  | "timedtext"
+  | "watch-page"
+  | "ytdl-core"
+  | "asr-worker"
+  | "runpod-youtube"
+  | "runpod-asr";
+
+// Without a language, providers that can detect it (Supadata) return the video's own track and
+// caption scrapers prefer English.
+export type TranscriptRequest = { videoId: string; url: string; language?: string };
+
+/**
+ * `NO_TRANSCRIPT` means the provider worked but the video has nothing for it (no captions);
+ * every other reason means the provider itself broke and counts towards demotion.
+ */
+export type TranscriptFailureReason =
+  | "NOT_CONFIGURED"
+  | "MISCONFIGURED"
+  | "NO_TRANSCRIPT"
+  | "HTTP_ERROR"
+  | "TIMEOUT"
+  | "INVALID_RESPONSE"
+  | "EXCEPTION";
+
+/** `language` is the track the provider says it returned; providers that cannot tell leave it out. */
+export type TranscriptProviderResult =
+  | { ok: true; text: string; cues?: Cue[] | null; language?: string }
+  | { ok: false; reason: TranscriptFailureReason; message: string; httpStatus?: number };
+
+export interface TranscriptProvider {
+  id: TranscriptProviderId;
+  description: string;
+  /** Cheap env check; unconfigured providers are skipped without counting as a failure. */
+  isConfigured(): boolean;
+  fetch(request: TranscriptRequest): Promise<TranscriptProviderResult>;
+}
+
+export type TranscriptAttempt = {
+  provider: TranscriptProviderId;
+  outcome: "ok" | "failed" | "skipped";
+  reason?: TranscriptFailureReason;
+  message?: string;
+  durationMs: number;
+  demoted: boolean;
+};
+
+export type TranscriptChainResult =
+  | {
+      ok: true;
+      provider: TranscriptProviderId;
+      text: string;
+      cues: Cue[] | null;
+      language: string | null;
+      attempts: TranscriptAttempt[];
+    }
+  | { ok: false; attempts: TranscriptAttempt[] };
+
+export type TranscriptProviderHealth = {
+  id: TranscriptProviderId;
+  description: string;
+  configured: boolean;
+  demotedUntil: string | null;
+  attempts: number;
+  successes: number;
+  failures: number;
+  consecutiveFailures: number;
+  avgLatencyMs: number | null;
+  lastLatencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastFailure: { reason: TranscriptFailureReason; message: string } | null;
+  failureReasons: Partial<Record<TranscriptFailureReason, number>>;
+};
+
+// The hosted API is the only provider that works reliably from Vercel. Scraping and download
+// fallbacks join the default chain only when a deployment opts into both flags.
+const LEGACY_FALLBACKS_ENABLED =
+  process.env.YOUTUBE_ALLOW_LEGACY_FALLBACKS === "1" && process.env.DISABLE_YOUTUBE_URLS === "0";
+const DEFAULT_CHAIN: TranscriptProviderId[] = LEGACY_FALLBACKS_ENABLED
+  ? ["supadata", "yt-dlp", "youtube-transcript", "timedtext", "watch-page", "ytdl-core", "asr-worker", "runpod-youtube", "runpod-asr"]
+  : ["supadata"];
+// A provider that breaks this many times in a row moves to the back of the chain for a while.
+const DEMOTE_AFTER_FAILURES = Math.max(1, Number(process.env.TRANSCRIPT_PROVIDER_DEMOTE_AFTER || 3));
+const DEMOTION_MS = Number(process.env.TRANSCRIPT_PROVIDER_DEMOTION_MINUTES || 15) * 60 * 1000;
+
+const providers: Record<TranscriptProviderId, TranscriptProvider> = {
+  supadata: {
+    id: "supadata",
+    description: "Supadata transcript API",
+    isConfigured: hasSupadataConfigured,
+    async fetch({ url, language }) {
+      const result = await fetchSupadataTranscript({ youtubeUrl: url, language });
+      if (!result.ok) {
+        // Supadata answers 404 for videos that have no transcript to give.
+        const reason = result.httpStatus === 404 ? "NO_TRANSCRIPT" : result.reason;
+        return { ok: false, reason, message: result.message, httpStatus: result.httpStatus };
+      }
+      // Supadata echoes the track it picked, which without a request is the video's own language.
+      return { ok: true, text: result.transcript, cues: result.cues ?? null, language: result.lang ?? language };
+    },
+  },
+  "yt-dlp": {
+    id: "yt-dlp",
+    description: "yt-dlp subtitle download",
+    isConfigured: () => true,
+    async fetch({ videoId, language = "en" }) {
+      // yt-dlp downloads exactly the subtitle language it is asked for.
+      return withLanguage(fromCues(await fetchYouTubeCuesViaYtDlp(videoId, language)), language);
+    },
+  },
+  "youtube-transcript": {
+    id: "youtube-transcript",
+    description: "youtube-transcript package",
+    isConfigured: () => true,
+    async fetch({ videoId, language }) {
+      return fromCues(await fetchYouTubeCuesViaLibrary(videoId, language));
+    },
+  },
+  timedtext: {
+    id: "timedtext",
+    description: "YouTube timedtext endpoints",
+    isConfigured: () => true,
+    async fetch({ videoId }) {
+      return fromText(await fetchYouTubeTranscriptViaTimedText(videoId));
+    },
+  },
+  "watch-page": {
+    id: "watch-page",
+    description: "Caption track from the watch page",
+    isConfigured: () => true,
+    async fetch({ videoId }) {
+      return fromText(await fetchYouTubeTranscriptViaWatchPage(videoId));
+    },
+  },
+  "ytdl-core": {
+    id: "ytdl-core",
+    description: "Caption track via ytdl-core",
+    isConfigured: () => true,
+    async fetch({ videoId }) {
+      return fromText(await fetchYouTubeTranscriptViaYtdlCore(videoId));
+    },
+  },
+  "asr-worker": {
+    id: "asr-worker",
+    description: "External YouTube ASR worker (YT_ASR_WORKER_URL)",
+    isConfigured: () => !!(process.env.YT_ASR_WORKER_URL || "").trim(),
+    async fetch({ url, language }) {
+      const result = await transcribeYoutubeViaAsrWorker(url, { language });
+      if (!result.ok) return { ok: false, reason: result.reason, message: result.message, httpStatus: result.httpStatus };
+      return fromText(result.transcript);
+    },
+  },
+  "runpod-youtube": {
+    id: "runpod-youtube",
+    description: "RunPod YouTube ingest worker",
+    isConfigured: () =>
+      !!((process.env.RUNPOD_YOUTUBE_ENDPOINT || "").trim() || (process.env.RUNPOD_YOUTUBE_ENDPOINT_ID || "").trim()) &&
+      !!((process.env.RUNPOD_YOUTUBE_API_KEY || "").trim() || (process.env.RUNPOD_API_KEY || "").trim()),
+    async fetch({ url, language }) {
+      // Common misconfig: pointing the YouTube worker at the Whisper endpoint, which expects an
+      // audio URL and cannot transcribe a watch URL.
+      if (runpodYoutubeLooksLikeAsrEndpoint()) {
+        return {
+          ok: false,
+          reason: "MISCONFIGURED",
+          message:
+            "RUNPOD_YOUTUBE_ENDPOINT(_ID) appears to point at the Whisper/ASR endpoint. Configure a separate YouTube ingest worker.",
+        };
+      }
+      const result = await transcribeYoutubeUrlWithRunpod(url, { language });
+      if (!result.ok) {
+        const reason = result.reason === "EMPTY_OUTPUT" ? "NO_TRANSCRIPT" : result.reason;
+        return { ok: false, reason, message: result.message, httpStatus: result.httpStatus };
+      }
+      return withLanguage(fromText(result.transcript), result.language);
+    },
+  },
+  "runpod-asr": {
+    id: "runpod-asr",
+    // The id predates the local backend; this runs whichever ASR backend is configured.
+    description: "Audio download + ASR (RunPod or local Whisper)",
+    isConfigured: () => process.env.DISABLE_AUDIO_UPLOAD !== "1" && hasAsrConfigured(),
+    async fetch({ videoId }) {
+      // Keep this conservative to avoid blowing serverless memory/time.
+      const maxBytes = Number(process.env.YT_AUDIO_MAX_BYTES || 35_000_000);
+      const audio = await downloadYouTubeAudioBufferViaYtdlCore(videoId, maxBytes);
+      return fromText(await transcribeAudioBuffer(audio.buf, audio.filename, audio.contentType));
+    },
+  },
+};
+
+type HealthCounters = Omit<TranscriptProviderHealth, "id" | "description" | "configured" | "demotedUntil" | "avgLatencyMs"> & {
+  totalLatencyMs: number;
+  demotedUntil: number | null;
+};
+
+// Counters live in process memory, so on serverless hosts they describe one instance's recent
+// traffic rather than the whole deployment.
+const health = new Map<TranscriptProviderId, HealthCounters>();
+const CONFIGURED_CHAIN = parseChain(process.env.TRANSCRIPT_PROVIDER_CHAIN || "");
+
+export function isTranscriptProviderId(value: string): value is TranscriptProviderId {
+  return Object.prototype.hasOwnProperty.call(providers, value);
+}
+
+/** The configured chain: TRANSCRIPT_PROVIDER_CHAIN (comma-separated ids) or the default. */
+export function transcriptProviderChain(): TranscriptProviderId[] {
+  return CONFIGURED_CHAIN.length ? CONFIGURED_CHAIN : DEFAULT_CHAIN;
+}
+
+/**
+ * Tries each provider of the chain in order until one returns a transcript. Providers that
+ * were demoted for failing repeatedly are tried last, after every healthy one. Every call is
+ * recorded in the attempt list and the provider's health counters.
+ */
+export async function fetchTranscriptFromChain(
+  request: TranscriptRequest,
+  options: { chain?: TranscriptProviderId[] } = {}
+): Promise<TranscriptChainResult> {
+  const now = Date.now();
+  const chain = options.chain ?? transcriptProviderChain();
+  const ordered = [
+    ...chain.filter((id) => !isDemoted(id, now)),
+    ...chain.filter((id) => isDemoted(id, now)),
+  ];
+
+  const attempts: TranscriptAttempt[] = [];
+  for (const id of ordered) {
+    const provider = providers[id];
+    const demoted = isDemoted(id, now);
+    if (!provider.isConfigured()) {
+      attempts.push({ provider: id, outcome: "skipped", reason: "NOT_CONFIGURED", durationMs: 0, demoted });
+      continue;
+    }
+
+    const startedAt = Date.now();
+    let result: TranscriptProviderResult;
+    try {
+      result = await provider.fetch(request);
+    } catch (error: unknown) {
+      result = { ok: false, reason: "EXCEPTION", message: error instanceof Error ? error.message : String(error) };
+    }
+    const durationMs = Date.now() - startedAt;
+    recordOutcome(id, result, durationMs);
+
+    if (result.ok) {
+      attempts.push({ provider: id, outcome: "ok", durationMs, demoted });
+      return { ok: true, provider: id, text: result.text, cues: result.cues ?? null, language: result.language ?? null, attempts };
+    }
+    console.warn(`[Transcripts] ${id} failed for ${request.videoId}: ${result.reason} ${result.message}`);
+    attempts.push({ provider: id, outcome: "failed", reason: result.reason, message: result.message, durationMs, demoted });
+  }
+  return { ok: false, attempts };
+}
+
+/** "supadata: HTTP_ERROR, yt-dlp: EXCEPTION", for error messages that say which provider broke. */
+export function describeTranscriptAttempts(attempts: TranscriptAttempt[]): string {
+  return attempts
+    .filter((attempt) => attempt.outcome === "failed")
+    .map((attempt) => `${attempt.provider}: ${attempt.reason}`)
+    .join(", ");
+}
+
+/** Health of every provider, chain members first in chain order, for the diagnostics endpoint. */
+export function transcriptProviderHealth(): { chain: TranscriptProviderId[]; providers: TranscriptProviderHealth[] } {
+  const now = Date.now();
+  const chain = transcriptProviderChain();
+  const ids = [...chain, ...(Object.keys(providers) as TranscriptProviderId[]).filter((id) => !chain.includes(id))];
+  return {
+    chain,
+    providers: ids.map((id) => {
+      const counters = countersFor(id);
+      const { totalLatencyMs, demotedUntil, ...rest } = counters;
+      return {
+        ...rest,
+        id,
+        description: providers[id].description,
+        configured: providers[id].isConfigured(),
+        demotedUntil: demotedUntil && demotedUntil > now ? new Date(demotedUntil).toISOString() : null,
+        avgLatencyMs: counters.attempts ? Math.round(totalLatencyMs / counters.attempts) : null,
+      };
+    }),
+  };
+}
+
+function parseChain(raw: string): TranscriptProviderId[] {
+  const ids = raw.split(",").map((id) => id.trim()).filter(Boolean);
+  const unknown = ids.filter((id) => !isTranscriptProviderId(id));
+  if (unknown.length) console.warn("[Transcripts] Ignoring unknown providers in TRANSCRIPT_PROVIDER_CHAIN:", unknown.join(", "));
+  return [...new Set(ids.filter(isTranscriptProviderId))];
+}
+
+function countersFor(id: TranscriptProviderId): HealthCounters {
+  let counters = health.get(id);
+  if (!counters) {
+    counters = {
+      attempts: 0,
+      successes: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      totalLatencyMs: 0,
+      lastLatencyMs: null,
+      lastSuccessAt: null,
+      lastFailureAt: null,
+      lastFailure: null,
+      failureReasons: {},
+      demotedUntil: null,
+    };
+    health.set(id, counters);
+  }
+  return counters;
+}
+
+function isDemoted(id: TranscriptProviderId, now: number): boolean {
+  const until = health.get(id)?.demotedUntil;
+  return !!until && until > now;
+}
+
+function recordOutcome(id: TranscriptProviderId, result: TranscriptProviderResult, durationMs: number) {
+  const counters = countersFor(id);
+  counters.attempts += 1;
+  counters.totalLatencyMs += durationMs;
+  counters.lastLatencyMs = durationMs;
+  if (result.ok) {
+    counters.successes += 1;
+    counters.consecutiveFailures = 0;
+    counters.demotedUntil = null;
+    counters.lastSuccessAt = new Date().toISOString();
+    return;
+  }
+
+  counters.failures += 1;
+  counters.failureReasons[result.reason] = (counters.failureReasons[result.reason] ?? 0) + 1;
+  counters.lastFailureAt = new Date().toISOString();
+  counters.lastFailure = { reason: result.reason, message: result.message };
+  // A video without captions says nothing about the provider, so it does not count towards demotion.
+  if (result.reason === "NO_TRANSCRIPT") return;
+  counters.consecutiveFailures += 1;
+  if (counters.consecutiveFailures >= DEMOTE_AFTER_FAILURES && DEMOTION_MS > 0) {
+    const alreadyDemoted = isDemoted(id, Date.now());
+    counters.demotedUntil = Date.now() + DEMOTION_MS;
+    if (!alreadyDemoted) console.warn(`[Transcripts] Demoting ${id} after ${counters.consecutiveFailures} consecutive failures.`);
+  }
+}
+
+function fromText(text: string | null | undefined): TranscriptProviderResult {
+  const cleaned = String(text || "").replace(/\s+/g, " ").trim();
+  return cleaned ? { ok: true, text: cleaned } : { ok: false, reason: "NO_TRANSCRIPT", message: "No transcript returned." };
+}
+
+function fromCues(cues: Cue[] | null): TranscriptProviderResult {
+  if (!cues?.length) return { ok: false, reason: "NO_TRANSCRIPT", message: "No captions returned." };
+  const result = fromText(cues.map((cue) => cue.text).join(" "));
+  return result.ok ? { ...result, cues } : result;
+}
+
+function withLanguage(result: TranscriptProviderResult, language: string): TranscriptProviderResult {
+  return result.ok ? { ...result, language } : result;
+}
+
+function runpodYoutubeLooksLikeAsrEndpoint(): boolean {
+  const ytEndpointId = (process.env.RUNPOD_YOUTUBE_ENDPOINT_ID || "").trim();
+  const asrEndpointId = (process.env.RUNPOD_ASR_ENDPOINT_ID || "").trim();
+  const ytEndpoint = (process.env.RUNPOD_YOUTUBE_ENDPOINT || "").trim().replace(/\/+$/, "");
+  const asrEndpoint = (process.env.RUNPOD_ASR_ENDPOINT || "").trim().replace(/\/+$/, "");
+  return (!!ytEndpointId && ytEndpointId === asrEndpointId) || (!!ytEndpoint && ytEndpoint === asrEndpoint);
+}
@@ -70,6 +70,53 @@ export function parseYouTube(input: string): YouTubeParse {
   return { ok: true, videoId: id, canonicalUrl: `https://www.youtube.com/watch?v=${id}` };
 }
 
+export type YouTubeCollectionParse =
+  | { ok: true; kind: "playlist"; id: string; canonicalUrl: string }
+  | { ok: true; kind: "channel"; id: string; canonicalUrl: string }
+  | { ok: false; reason: string };
+
+const PLAYLIST_ID_RE = /^[a-zA-Z0-9_-]{12,64}$/;
+const CHANNEL_ID_RE = /^UC[a-zA-Z0-9_-]{22}$/;
+
+/**
+ * Recognises URLs that stand for a series of videos: playlist pages and channel pages
+ * (`/channel/UC…`, `/@handle`, `/c/name`, `/user/name`). A watch URL that merely carries a
+ * `list` parameter is treated as the single video it points at, like `parseYouTube` does.
+ * Channel ids are the `UC…` id when the URL has one, otherwise the `@handle` or legacy name.
+ */
+export function parseYouTubeCollection(input: string): YouTubeCollectionParse {
+  const raw = String(input || "").trim();
+  if (!raw) return { ok: false, reason: "Empty input" };
+
+  let url: URL;
+  try {
+    url = new URL(raw.includes("://") ? raw : `https://${raw}`);
+  } catch {
+    return { ok: false, reason: "Not a valid URL" };
+  }
+
+  const host = normalizeHost(url.hostname);
+  if (host !== "youtube.com" && host !== "m.youtube.com" && host !== "music.youtube.com") {
+    return { ok: false, reason: "Not a YouTube URL" };
+  }
+
+  const segments = url.pathname.split("/").filter(Boolean);
+  if (segments[0] === "playlist") {
+    const list = url.searchParams.get("list") || "";
+    if (!PLAYLIST_ID_RE.test(list)) return { ok: false, reason: "Could not extract YouTube playlist id" };
+    return { ok: true, kind: "playlist", id: list, canonicalUrl: `https://www.youtube.com/playlist?list=${list}` };
+  }
+
+  let channel: string | null = null;
+  if (segments[0] === "channel" && CHANNEL_ID_RE.test(segments[1] || "")) channel = segments[1];
+  else if (segments[0]?.startsWith("@") && segments[0].length > 1) channel = decodeURIComponent(segments[0]);
+  else if ((segments[0] === "c" || segments[0] === "user") && segments[1]) channel = decodeURIComponent(segments[1]);
+
+  if (!channel) return { ok: false, reason: "Not a YouTube playlist or channel URL" };
+  const path = CHANNEL_ID_RE.test(channel) ? `channel/${channel}` : channel.startsWith("@") ? channel : `${segments[0]}/${channel}`;
+  return { ok: true, kind: "channel", id: channel, canonicalUrl: `https://www.youtube.com/${path}/videos` };
+}
+
 // Back-compat: keep the prior helper, now stricter.
 export function extractYouTubeId(url: string): string | null {
   const parsed = parseYouTube(url);
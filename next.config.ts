@@ -12,6 +12,9 @@ const nextConfig: NextConfig = {
     // your project has type errors.
     ignoreBuildErrors: true,
   },
+  // sql.js loads its .wasm from its own package directory, which bundling would break; pdf.js and
+  // tesseract.js likewise start workers from beside themselves, and @napi-rs/canvas is native.
+  serverExternalPackages: ['sql.js', 'pdfjs-dist', 'tesseract.js', '@napi-rs/canvas'],
   experimental: {
     serverActions: {
       bodySizeLimit: '50mb'
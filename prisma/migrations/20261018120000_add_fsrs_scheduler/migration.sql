@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "srsScheduler" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Deck" ADD COLUMN     "srsScheduler" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."Card" ADD COLUMN     "fsrsDifficulty" DOUBLE PRECISION,
+ADD COLUMN     "fsrsStability" DOUBLE PRECISION;
+
+-- Seed FSRS memory state from existing SM-2 columns (kept in sync with seedFsrsStateFromSm2 in lib/srs/fsrs.ts).
+UPDATE "public"."Card"
+SET "fsrsStability" = GREATEST("srsIntervalDays", 0.4872),
+    "fsrsDifficulty" = LEAST(10, GREATEST(1, 5 - (("srsEase" - 2.5) * 5) / 1.2))
+WHERE "srsReps" > 0 OR "srsLapses" > 0 OR "srsIntervalDays" > 0;
@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "public"."ReviewLog" (
+    "id" TEXT NOT NULL,
+    "cardId" TEXT NOT NULL,
+    "deckId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "rating" TEXT NOT NULL,
+    "scheduler" TEXT NOT NULL,
+    "elapsedMs" INTEGER,
+    "previousIntervalDays" INTEGER NOT NULL,
+    "nextIntervalDays" INTEGER NOT NULL,
+    "previousEase" DOUBLE PRECISION NOT NULL,
+    "nextEase" DOUBLE PRECISION NOT NULL,
+    "previousDueAt" TIMESTAMP(3) NOT NULL,
+    "nextDueAt" TIMESTAMP(3) NOT NULL,
+    "coachingRunId" TEXT,
+    "reviewedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReviewLog_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReviewLog_deckId_reviewedAt_idx" ON "public"."ReviewLog"("deckId", "reviewedAt");
+
+-- CreateIndex
+CREATE INDEX "ReviewLog_cardId_reviewedAt_idx" ON "public"."ReviewLog"("cardId", "reviewedAt");
+
+-- CreateIndex
+CREATE INDEX "ReviewLog_userId_reviewedAt_idx" ON "public"."ReviewLog"("userId", "reviewedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ReviewLog" ADD CONSTRAINT "ReviewLog_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "public"."Card"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ReviewLog" ADD CONSTRAINT "ReviewLog_deckId_fkey" FOREIGN KEY ("deckId") REFERENCES "public"."Deck"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ReviewLog" ADD CONSTRAINT "ReviewLog_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ReviewLog" ADD CONSTRAINT "ReviewLog_coachingRunId_fkey" FOREIGN KEY ("coachingRunId") REFERENCES "public"."ReasoningRun"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "public"."ReviewLog" ADD COLUMN     "previousDifficulty" DOUBLE PRECISION,
+ADD COLUMN     "previousLapses" INTEGER,
+ADD COLUMN     "previousLastReviewedAt" TIMESTAMP(3),
+ADD COLUMN     "previousLastStudyDate" TIMESTAMP(3),
+ADD COLUMN     "previousReps" INTEGER,
+ADD COLUMN     "previousStability" DOUBLE PRECISION,
+ADD COLUMN     "previousStudyStreak" INTEGER,
+ADD COLUMN     "undoneAt" TIMESTAMP(3),
+ADD COLUMN     "xpGained" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "ReviewLog_userId_undoneAt_reviewedAt_idx" ON "public"."ReviewLog"("userId", "undoneAt", "reviewedAt");
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "public"."Deck" ADD COLUMN     "learningSteps" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "relearningSteps" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- AlterTable
+ALTER TABLE "public"."Card" ADD COLUMN     "srsState" TEXT NOT NULL DEFAULT 'new',
+ADD COLUMN     "srsStep" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."ReviewLog" ADD COLUMN     "previousSrsState" TEXT,
+ADD COLUMN     "previousSrsStep" INTEGER;
+
+-- Graduated cards are in review; cards reset by "again" under the old scheduler are mid-relearning.
+UPDATE "public"."Card" SET "srsState" = 'review' WHERE "srsReps" > 0;
+UPDATE "public"."Card" SET "srsState" = 'relearning' WHERE "srsReps" = 0 AND "srsLapses" > 0;
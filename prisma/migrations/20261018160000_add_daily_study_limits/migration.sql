@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "dailyNewLimit" INTEGER NOT NULL DEFAULT 20,
+ADD COLUMN     "dailyReviewLimit" INTEGER NOT NULL DEFAULT 200;
+
+-- CreateIndex
+CREATE INDEX "Card_deckId_srsState_srsDueAt_idx" ON "public"."Card"("deckId", "srsState", "srsDueAt");
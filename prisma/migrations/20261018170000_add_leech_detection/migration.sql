@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "public"."Deck" ADD COLUMN     "leechAction" TEXT NOT NULL DEFAULT 'suspend',
+ADD COLUMN     "leechThreshold" INTEGER NOT NULL DEFAULT 8;
+
+-- AlterTable
+ALTER TABLE "public"."Card" ADD COLUMN     "suspendedAt" TIMESTAMP(3),
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- AlterTable
+ALTER TABLE "public"."ReviewLog" ADD COLUMN     "leechTriggered" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "previousSuspendedAt" TIMESTAMP(3),
+ADD COLUMN     "previousTags" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."Card" ADD COLUMN     "clozeIndex" INTEGER,
+ADD COLUMN     "kind" TEXT NOT NULL DEFAULT 'basic',
+ADD COLUMN     "noteId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Card_noteId_idx" ON "public"."Card"("noteId");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Card" ADD COLUMN     "distractors" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "distractorsAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."ReviewLog" ADD COLUMN     "quizCorrect" BOOLEAN;
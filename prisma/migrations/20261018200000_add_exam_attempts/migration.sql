@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "public"."ExamAttempt" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "deckIds" TEXT[],
+    "title" TEXT NOT NULL,
+    "questionCount" INTEGER NOT NULL,
+    "timeLimitSec" INTEGER NOT NULL,
+    "questions" JSONB NOT NULL,
+    "results" JSONB,
+    "score" DOUBLE PRECISION,
+    "weakConcepts" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "submittedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ExamAttempt_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExamAttempt_userId_startedAt_idx" ON "public"."ExamAttempt"("userId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ExamAttempt" ADD CONSTRAINT "ExamAttempt_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "public"."GenerationJob" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "stage" TEXT,
+    "timings" JSONB,
+    "input" JSONB NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "heartbeatAt" TIMESTAMP(3),
+    "cancelRequestedAt" TIMESTAMP(3),
+    "deckId" TEXT,
+    "origin" TEXT,
+    "error" TEXT,
+    "errorCode" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GenerationJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GenerationJob_status_runAfter_idx" ON "public"."GenerationJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "GenerationJob_userId_createdAt_idx" ON "public"."GenerationJob"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."GenerationJob" ADD CONSTRAINT "GenerationJob_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
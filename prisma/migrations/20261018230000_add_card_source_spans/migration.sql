@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."Card" ADD COLUMN     "sourceSpan" JSONB;
+
+-- AlterTable
+ALTER TABLE "public"."Deck" ADD COLUMN     "sourceKind" TEXT,
+ADD COLUMN     "sourceUrl" TEXT;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "public"."Deck" ADD COLUMN     "courseId" TEXT,
+ADD COLUMN     "coursePosition" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."GenerationJob" ADD COLUMN     "courseId" TEXT,
+ADD COLUMN     "coursePosition" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."Course" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "sourceUrl" TEXT NOT NULL,
+    "sourceKind" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Course_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Course_userId_createdAt_idx" ON "public"."Course"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "GenerationJob_courseId_idx" ON "public"."GenerationJob"("courseId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Deck" ADD CONSTRAINT "Deck_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "public"."Course"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GenerationJob" ADD CONSTRAINT "GenerationJob_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "public"."Course"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Course" ADD CONSTRAINT "Course_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."Transcript" (
+    "id" TEXT NOT NULL,
+    "videoId" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "text" TEXT NOT NULL,
+    "cues" JSONB,
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Transcript_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Transcript_videoId_language_key" ON "public"."Transcript"("videoId", "language");
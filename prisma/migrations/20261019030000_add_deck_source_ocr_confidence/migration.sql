@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Deck" ADD COLUMN     "sourceOcrConfidence" JSONB;
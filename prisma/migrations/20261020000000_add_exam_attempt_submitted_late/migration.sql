@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."ExamAttempt" ADD COLUMN     "submittedLate" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,18 @@
+// types/jsdom.d.ts
+
+declare module "jsdom" {
+  export class VirtualConsole {
+    constructor();
+  }
+
+  export interface ConstructorOptions {
+    url?: string;
+    contentType?: string;
+    virtualConsole?: VirtualConsole;
+  }
+
+  export class JSDOM {
+    constructor(html?: string, options?: ConstructorOptions);
+    readonly window: Window & typeof globalThis;
+  }
+}
@@ -10,9 +10,17 @@ declare module "pdf-parse" {
     version?: string;
   }
 
+  export interface PDFPageData {
+    pageNumber?: number;
+    getTextContent(options?: {
+      normalizeWhitespace?: boolean;
+      disableCombineTextItems?: boolean;
+    }): Promise<{ items: Array<{ str: string; transform: number[] }> }>;
+  }
+
   export type PdfParse = (
     data: Buffer | Uint8Array,
-    options?: { max?: number } | undefined
+    options?: { max?: number; pagerender?: (pageData: PDFPageData) => Promise<string> } | undefined
   ) => Promise<PDFParseResult>;
 
   const pdfParse: PdfParse;
@@ -20,7 +28,7 @@ declare module "pdf-parse" {
 }
 
 declare module "pdf-parse/lib/pdf-parse.js" {
-  import pdfParse, { PdfParse, PDFParseResult } from "pdf-parse";
-  export type { PdfParse, PDFParseResult };
+  import pdfParse, { PdfParse, PDFPageData, PDFParseResult } from "pdf-parse";
+  export type { PdfParse, PDFPageData, PDFParseResult };
   export default pdfParse;
 }